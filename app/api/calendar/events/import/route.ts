@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { eventImportService } from '@/lib/services/event-import'
+import { importEventsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 選択した予定をタスクとして取り込む
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, importEventsSchema)
+    if (bodyError) return bodyError
+
+    const result = await eventImportService.importEvents(user!.id, body)
+
+    return createSuccessResponse(result, 201, `${result.created}件のタスクを作成しました`)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to import calendar events')
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server'
+import { eventImportService } from '@/lib/services/event-import'
+import { calendarEventsQuerySchema, icsEventsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody, parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * Googleカレンダーの予定を取り込み候補として一覧する
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: range, error: queryError } = parseQuery(request.url, calendarEventsQuerySchema)
+    if (queryError) return queryError
+
+    const events = await eventImportService.listGoogleEvents(
+      user!.id,
+      new Date(range.from).toISOString(),
+      new Date(range.to).toISOString()
+    )
+
+    return createSuccessResponse(events)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch calendar events')
+  }
+}
+
+/**
+ * アップロードされた .ics の予定を取り込み候補として一覧する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, icsEventsSchema)
+    if (bodyError) return bodyError
+
+    const events = await eventImportService.listIcsEvents(
+      user!.id,
+      body.ics ?? '',
+      new Date(body.from).toISOString(),
+      new Date(body.to).toISOString()
+    )
+
+    return createSuccessResponse(events)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to parse calendar file')
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { calendarFeedService } from '@/lib/services/calendar-feed'
+import { createErrorResponse } from '@/lib/api/auth-middleware'
+import { NotFoundError } from '@/lib/errors'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * カレンダーアプリから購読する .ics
+ * セッションの代わりに URL のトークンで認証する
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token')
+    const feed = token ? await calendarFeedService.buildFeed(token) : null
+
+    // 無効なトークンと未発行を区別しない
+    if (feed === null) {
+      return createErrorResponse(new NotFoundError('カレンダーフィードが見つかりません'))
+    }
+
+    return new NextResponse(feed, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="taskshoot.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    })
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to build calendar feed')
+  }
+}
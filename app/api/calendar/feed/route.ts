@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server'
+import { calendarFeedService } from '@/lib/services/calendar-feed'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const status = await calendarFeedService.getStatus(user!.id)
+
+    return createSuccessResponse(status)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch calendar feed status')
+  }
+}
+
+// 購読用 URL を発行する（発行済みの URL は無効になる）
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const token = await calendarFeedService.issueToken(user!.id, request.nextUrl.origin)
+
+    return createSuccessResponse(token, 201, '購読用の URL を発行しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to issue calendar feed token')
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    await calendarFeedService.revokeToken(user!.id)
+
+    return createSuccessResponse(null, 200, '購読用の URL を無効にしました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to revoke calendar feed token')
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { calendarSyncRequestSchema, calendarSyncSettingsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const status = await calendarSyncService.getStatus(user!.id)
+
+    return createSuccessResponse(status)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch calendar sync status')
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    // 更新可能な項目のみを受け付ける
+    const { data: updates, error: bodyError } = await parseBody(request, calendarSyncSettingsSchema)
+    if (bodyError) return bodyError
+
+    const status = await calendarSyncService.updateSettings(user!.id, updates)
+
+    return createSuccessResponse(status, 200, '同期設定を更新しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to update calendar sync settings')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    // ボディは省略可能（競合の解決内容のみ）
+    const { data: body, error: bodyError } = request.body
+      ? await parseBody(request, calendarSyncRequestSchema)
+      : { data: calendarSyncRequestSchema.parse({}), error: null }
+    if (bodyError) return bodyError
+
+    const result = await calendarSyncService.sync(user!.id, body.resolutions)
+
+    return createSuccessResponse(result, 200, 'Googleカレンダーと同期しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to sync calendar')
+  }
+}
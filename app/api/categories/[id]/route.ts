@@ -1,7 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest } from 'next/server'
 import { taskService } from '@/lib/services/tasks'
-import { logger } from '@/lib/logger'
-import { createClient } from '@/lib/supabase/server'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { deleteCategoryQuerySchema, idParamsSchema, updateCategorySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody, parseParams, parseQuery } from '@/lib/api/validation'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -14,79 +20,48 @@ interface RouteParams {
 
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
-    const supabase = createClient()
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
 
-    if (authError || !user) {
-      logger.warn('Unauthorized access to category API')
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
 
-    const body = await request.json()
-    
-    // セキュリティ: user_id と id の変更を防ぐ
-    const { user_id, id, ...updateData } = body
+    // スキーマにない列（user_id や id）は取り除かれる
+    const { data: updateData, error: bodyError } = await parseBody(request, updateCategorySchema)
+    if (bodyError) return bodyError
 
-    const category = await taskService.updateCategory(user.id, params.id, updateData)
+    const category = await taskService.updateCategory(user!.id, route.id, updateData)
 
-    return NextResponse.json({
-      data: category,
-      success: true
-    })
+    return createSuccessResponse(category, 200, 'カテゴリが正常に更新されました')
 
   } catch (error) {
-    logger.error('Error in PUT /api/categories/[id]', error)
-    
-    if (error instanceof Error) {
-      return NextResponse.json(
-        { error: error.message, success: false },
-        { status: 400 }
-      )
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error', success: false },
-      { status: 500 }
-    )
+    return createErrorResponse(error, 'Failed to update category')
   }
 }
 
-export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    const supabase = createClient()
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
 
-    if (authError || !user) {
-      logger.warn('Unauthorized access to category API')
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
 
-    await taskService.deleteCategory(user.id, params.id)
+    const { data: query, error: queryError } = parseQuery(request.url, deleteCategoryQuerySchema)
+    if (queryError) return queryError
 
-    return NextResponse.json({
-      success: true,
-      message: 'Category deleted successfully'
-    })
+    const trashed = await taskService.deleteCategory(user!.id, route.id, query)
 
-  } catch (error) {
-    logger.error('Error in DELETE /api/categories/[id]', error)
-    
-    if (error instanceof Error) {
-      return NextResponse.json(
-        { error: error.message, success: false },
-        { status: 400 }
-      )
+    // 一緒にゴミ箱に移したタスクのカレンダーイベントも削除する（失敗してもカテゴリ削除は成功扱い）
+    for (const task of trashed) {
+      if (task.google_calendar_event_id) {
+        await calendarSyncService.removeTaskEvent(user!.id, task.google_calendar_event_id)
+      }
     }
 
-    return NextResponse.json(
-      { error: 'Internal server error', success: false },
-      { status: 500 }
-    )
+    return createSuccessResponse(null, 200, 'カテゴリをゴミ箱に移しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to delete category')
   }
-}
\ No newline at end of file
+}
@@ -1,91 +1,43 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest } from 'next/server'
 import { taskService } from '@/lib/services/tasks'
-import { logger } from '@/lib/logger'
-import { createClient } from '@/lib/supabase/server'
+import { createCategorySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody } from '@/lib/api/validation'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    const supabase = createClient()
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
 
-    if (authError || !user) {
-      logger.warn('Unauthorized access to categories API')
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const categories = await taskService.getCategories(user!.id)
 
-    const categories = await taskService.getCategories(user.id)
-
-    return NextResponse.json({
-      data: categories,
-      success: true
-    })
+    return createSuccessResponse(categories)
 
   } catch (error) {
-    logger.error('Error in GET /api/categories', error)
-    
-    if (error instanceof Error) {
-      return NextResponse.json(
-        { error: error.message, success: false },
-        { status: 400 }
-      )
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error', success: false },
-      { status: 500 }
-    )
+    return createErrorResponse(error, 'Failed to fetch categories')
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createClient()
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-
-    if (authError || !user) {
-      logger.warn('Unauthorized access to categories API')
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
 
-    const body = await request.json()
-    
-    // 必須フィールドの検証
-    if (!body.name) {
-      return NextResponse.json(
-        { error: 'Name is required', success: false },
-        { status: 400 }
-      )
-    }
+    const { data: body, error: bodyError } = await parseBody(request, createCategorySchema)
+    if (bodyError) return bodyError
 
-    const category = await taskService.createCategory(user.id, body)
+    const category = await taskService.createCategory(user!.id, body)
 
-    return NextResponse.json({
-      data: category,
-      success: true
-    }, { status: 201 })
+    return createSuccessResponse(category, 201, 'カテゴリが正常に作成されました')
 
   } catch (error) {
-    logger.error('Error in POST /api/categories', error)
-    
-    if (error instanceof Error) {
-      return NextResponse.json(
-        { error: error.message, success: false },
-        { status: 400 }
-      )
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error', success: false },
-      { status: 500 }
-    )
+    return createErrorResponse(error, 'Failed to create category')
   }
-}
\ No newline at end of file
+}
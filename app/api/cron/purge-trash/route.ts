@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { trashService } from '@/lib/services/trash'
+import {
+  authenticateCronRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 保持期間（TRASH_RETENTION_DAYS）を過ぎたゴミ箱のタスク・カテゴリを完全に削除する
+ * vercel.json の crons から1日1回呼び出される
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const error = authenticateCronRequest(request)
+    if (error) return error
+
+    const result = await trashService.purgeExpired()
+
+    return createSuccessResponse(result)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to purge expired trash')
+  }
+}
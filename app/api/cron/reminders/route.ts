@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { reminderService } from '@/lib/services/reminders'
+import {
+  authenticateCronRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 通知の時刻になったリマインダーを送信する
+ * vercel.json の crons から5分ごとに呼び出される
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const error = authenticateCronRequest(request)
+    if (error) return error
+
+    const result = await reminderService.runScheduler()
+
+    return createSuccessResponse(result)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to run reminder scheduler')
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { dailyLogService } from '@/lib/services/daily-log'
+import { carryOverDailyLogSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * その日の未完了のタスクを翌日の予定に移す
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, carryOverDailyLogSchema)
+    if (bodyError) return bodyError
+
+    const count = await dailyLogService.carryOver(user!.id, body.date)
+
+    return createSuccessResponse(
+      { count },
+      200,
+      count > 0 ? `${count}件のタスクを翌日に移しました` : '翌日に移すタスクはありません'
+    )
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to carry over daily log')
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest } from 'next/server'
+import { dailyLogService } from '@/lib/services/daily-log'
+import {
+  dailyLogQuerySchema,
+  dailyLogTaskSchema,
+  reorderDailyLogSchema
+} from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { NotFoundError } from '@/lib/errors'
+import { parseBody, parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * デイリーログ（?date=YYYY-MM-DD、省略時は今日）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, dailyLogQuerySchema)
+    if (queryError) return queryError
+
+    const log = await dailyLogService.getDailyLog(user!.id, query.date)
+
+    return createSuccessResponse(log)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch daily log')
+  }
+}
+
+/**
+ * タスクをその日の予定に追加する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, dailyLogTaskSchema)
+    if (bodyError) return bodyError
+
+    const added = await dailyLogService.addTask(user!.id, body.date, body.task_id)
+    if (!added) {
+      return createErrorResponse(new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND'))
+    }
+
+    return createSuccessResponse(null, 201, '予定に追加しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to add task to daily log')
+  }
+}
+
+/**
+ * その日の予定を並べ替える
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, reorderDailyLogSchema)
+    if (bodyError) return bodyError
+
+    await dailyLogService.reorder(user!.id, body.date, body.task_ids)
+
+    return createSuccessResponse(null, 200, '並び替えました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to reorder daily log')
+  }
+}
+
+/**
+ * タスクをその日の予定から外す（?date=&task_id=）
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, dailyLogTaskSchema)
+    if (queryError) return queryError
+
+    await dailyLogService.removeTask(user!.id, query.date, query.task_id)
+
+    return createSuccessResponse(null, 200, '予定から外しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to remove task from daily log')
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { format } from 'date-fns'
+import { dataTransferService } from '@/lib/services/data-transfer'
+import { authenticateRequest, createErrorResponse } from '@/lib/api/auth-middleware'
+import { parseQuery } from '@/lib/api/validation'
+import { exportQuerySchema } from '@/lib/validation/task-schemas'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * データをファイルとしてダウンロードする
+ * format=json はすべてのデータ、format=csv は dataset（tasks / time_entries）のみ
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, exportQuerySchema)
+    if (queryError) return queryError
+
+    const date = format(new Date(), 'yyyyMMdd')
+
+    if (query.format === 'json') {
+      const bundle = await dataTransferService.exportBundle(user!.id)
+      return new NextResponse(JSON.stringify(bundle, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="taskshoot-${date}.json"`,
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    }
+
+    const csv = await dataTransferService.exportCsv(user!.id, query.dataset)
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="taskshoot-${query.dataset}-${date}.csv"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to export data')
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { dataTransferService } from '@/lib/services/data-transfer'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody } from '@/lib/api/validation'
+import { importRequestSchema } from '@/lib/validation/task-schemas'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * タスクを取り込む（dry_run=true の場合は検証結果のみを返す）
+ * 行ごとのエラーは 422 ではなく結果の rows で返す
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, importRequestSchema)
+    if (bodyError) return bodyError
+
+    const report = await dataTransferService.importTasks(user!.id, body)
+
+    if (report.dry_run) {
+      return createSuccessResponse(report)
+    }
+    return createSuccessResponse(report, 201, `${report.created}件のタスクを取り込みました`)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to import tasks')
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { reminderService } from '@/lib/services/reminders'
+import { markRemindersReadSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, markRemindersReadSchema)
+    if (bodyError) return bodyError
+
+    const result = await reminderService.markNotificationsRead(user!.id, body.ids)
+
+    return createSuccessResponse(result)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to mark reminder notifications as read')
+  }
+}
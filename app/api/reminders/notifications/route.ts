@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { reminderService } from '@/lib/services/reminders'
+import { reminderNotificationsQuerySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 受信した通知（アプリ内の表示と Service Worker が使う）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, reminderNotificationsQuerySchema)
+    if (queryError) return queryError
+
+    const notifications = await reminderService.getNotifications(user!.id, query)
+
+    return createSuccessResponse(notifications)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch reminder notifications')
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import { reminderService } from '@/lib/services/reminders'
+import { pushSubscriptionQuerySchema, pushSubscriptionSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody, parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * このブラウザでの通知（Web Push）を登録する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, pushSubscriptionSchema)
+    if (bodyError) return bodyError
+
+    await reminderService.savePushSubscription(user!.id, body, request.headers.get('user-agent'))
+
+    return createSuccessResponse(null, 201, 'このブラウザで通知を受け取ります')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to save push subscription')
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, pushSubscriptionQuerySchema)
+    if (queryError) return queryError
+
+    await reminderService.removePushSubscription(user!.id, query.endpoint)
+
+    return createSuccessResponse(null, 200, 'このブラウザでの通知を解除しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to remove push subscription')
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { reminderService } from '@/lib/services/reminders'
+import { reminderPolicySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 既定の通知設定と、サーバーで使える通知方法
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const settings = await reminderService.getSettings(user!.id)
+
+    return createSuccessResponse(settings)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch reminder settings')
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, reminderPolicySchema)
+    if (bodyError) return bodyError
+
+    const settings = await reminderService.updatePolicy(user!.id, body)
+
+    return createSuccessResponse(settings, 200, '通知設定を保存しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to update reminder settings')
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { reportService } from '@/lib/services/reports'
+import { reportQuerySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 見積もりと実績のレポート（?from=YYYY-MM-DD&to=YYYY-MM-DD、省略時は直近4週間）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, reportQuerySchema)
+    if (queryError) return queryError
+
+    const report = await reportService.getEstimateReport(user!.id, query.from, query.to)
+
+    return createSuccessResponse(report)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch report')
+  }
+}
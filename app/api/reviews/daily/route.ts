@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server'
+import { reviewService } from '@/lib/services/reviews'
+import { dailyReviewQuerySchema, saveDailyReviewSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody, parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 日次レビューのまとめ（?date=YYYY-MM-DD、省略時は今日）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, dailyReviewQuerySchema)
+    if (queryError) return queryError
+
+    const summary = await reviewService.getDailySummary(user!.id, query.date)
+
+    return createSuccessResponse(summary)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch daily review')
+  }
+}
+
+/**
+ * 日次レビューを保存し、残ったタスクの扱いを反映する
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, saveDailyReviewSchema)
+    if (bodyError) return bodyError
+
+    const { date, ...input } = body
+    const review = await reviewService.saveDailyReview(user!.id, date, input)
+
+    return createSuccessResponse(review, 200, 'レビューを保存しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to save daily review')
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { reviewService } from '@/lib/services/reviews'
+import { weeklyReviewQuerySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 週次レビュー（?week_start=YYYY-MM-DD を含む週、省略時は今週）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, weeklyReviewQuerySchema)
+    if (queryError) return queryError
+
+    const review = await reviewService.getWeeklyReview(user!.id, query.week_start)
+
+    return createSuccessResponse(review)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch weekly review')
+  }
+}
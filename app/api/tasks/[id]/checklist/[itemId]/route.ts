@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server'
+import { subtaskService } from '@/lib/services/subtasks'
+import { checklistItemParamsSchema, updateChecklistItemSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody, parseParams } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+    itemId: string
+  }
+}
+
+/**
+ * チェックリストの項目を更新する（名前・チェック・並び順）
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, checklistItemParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: body, error: bodyError } = await parseBody(request, updateChecklistItemSchema)
+    if (bodyError) return bodyError
+
+    const item = await subtaskService.updateChecklistItem(user!.id, route.id, route.itemId, body)
+
+    return createSuccessResponse(item)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to update checklist item')
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, checklistItemParamsSchema)
+    if (paramsError) return paramsError
+
+    await subtaskService.deleteChecklistItem(user!.id, route.id, route.itemId)
+
+    return createSuccessResponse(null, 200, 'チェックリストの項目を削除しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to delete checklist item')
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server'
+import { taskService } from '@/lib/services/tasks'
+import { subtaskService } from '@/lib/services/subtasks'
+import { createChecklistItemSchema, idParamsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { NotFoundError } from '@/lib/errors'
+import { parseBody, parseParams } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+function taskNotFoundResponse() {
+  return createErrorResponse(new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND'))
+}
+
+/**
+ * タスクのチェックリスト（並び順）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const task = await taskService.getTaskById(user!.id, route.id)
+    if (!task) return taskNotFoundResponse()
+
+    const items = await subtaskService.getChecklist(user!.id, route.id)
+
+    return createSuccessResponse(items)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch checklist')
+  }
+}
+
+/**
+ * チェックリストの末尾に項目を追加する
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: body, error: bodyError } = await parseBody(request, createChecklistItemSchema)
+    if (bodyError) return bodyError
+
+    const task = await taskService.getTaskById(user!.id, route.id)
+    if (!task) return taskNotFoundResponse()
+
+    const item = await subtaskService.addChecklistItem(user!.id, route.id, body.title)
+
+    return createSuccessResponse(item, 201, 'チェックリストに追加しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to add checklist item')
+  }
+}
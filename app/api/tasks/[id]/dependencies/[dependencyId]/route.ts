@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { taskDependencyService } from '@/lib/services/task-dependencies'
+import { taskDependencyParamsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseParams } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+    dependencyId: string
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, taskDependencyParamsSchema)
+    if (paramsError) return paramsError
+
+    await taskDependencyService.removeDependency(user!.id, route.id, route.dependencyId)
+
+    return createSuccessResponse(null, 200, '依存関係を削除しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to remove task dependency')
+  }
+}
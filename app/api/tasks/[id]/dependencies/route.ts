@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server'
+import { taskService } from '@/lib/services/tasks'
+import { taskDependencyService } from '@/lib/services/task-dependencies'
+import { createTaskDependencySchema, idParamsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { NotFoundError } from '@/lib/errors'
+import { parseBody, parseParams } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+function taskNotFoundResponse() {
+  return createErrorResponse(new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND'))
+}
+
+/**
+ * タスクの先行タスク（blocked_by）と後続タスク（blocks）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const task = await taskService.getTaskById(user!.id, route.id)
+    if (!task) return taskNotFoundResponse()
+
+    const dependencies = await taskDependencyService.getDependencies(user!.id, route.id)
+
+    return createSuccessResponse(dependencies)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch task dependencies')
+  }
+}
+
+/**
+ * 依存関係を追加する（循環する場合は 422）
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: body, error: bodyError } = await parseBody(request, createTaskDependencySchema)
+    if (bodyError) return bodyError
+
+    const dependency = await taskDependencyService.addDependency(user!.id, route.id, body.task_id, body.type)
+
+    return createSuccessResponse(dependency, 201, '依存関係を追加しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to add task dependency')
+  }
+}
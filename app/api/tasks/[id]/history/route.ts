@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { taskService } from '@/lib/services/tasks'
+import { idParamsSchema, taskHistoryQuerySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { NotFoundError } from '@/lib/errors'
+import { parseParams, parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * タスクの変更履歴（新しい順）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: query, error: queryError } = parseQuery(request.url, taskHistoryQuerySchema)
+    if (queryError) return queryError
+
+    const task = await taskService.getTaskById(user!.id, route.id)
+    if (!task) {
+      return createErrorResponse(new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND'))
+    }
+
+    const events = await taskService.getTaskHistory(user!.id, route.id, query.limit)
+
+    return createSuccessResponse(events)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch task history')
+  }
+}
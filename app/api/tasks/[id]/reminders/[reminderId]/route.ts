@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { reminderService } from '@/lib/services/reminders'
+import { taskReminderParamsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseParams } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+    reminderId: string
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, taskReminderParamsSchema)
+    if (paramsError) return paramsError
+
+    await reminderService.deleteTaskReminder(user!.id, route.id, route.reminderId)
+
+    return createSuccessResponse(null, 200, '通知を削除しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to delete task reminder')
+  }
+}
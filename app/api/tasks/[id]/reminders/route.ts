@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server'
+import { taskService } from '@/lib/services/tasks'
+import { reminderService } from '@/lib/services/reminders'
+import { createTaskReminderSchema, idParamsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { NotFoundError } from '@/lib/errors'
+import { parseBody, parseParams } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+function taskNotFoundResponse() {
+  return createErrorResponse(new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND'))
+}
+
+/**
+ * タスクの通知（設定がなければ既定の通知設定が適用される）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const task = await taskService.getTaskById(user!.id, route.id)
+    if (!task) return taskNotFoundResponse()
+
+    const reminders = await reminderService.getTaskReminders(user!.id, route.id)
+
+    return createSuccessResponse(reminders)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch task reminders')
+  }
+}
+
+/**
+ * 開始日時・期限の何分前に通知するかを追加する
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: body, error: bodyError } = await parseBody(request, createTaskReminderSchema)
+    if (bodyError) return bodyError
+
+    const task = await taskService.getTaskById(user!.id, route.id)
+    if (!task) return taskNotFoundResponse()
+
+    const reminder = await reminderService.addTaskReminder(user!.id, route.id, body)
+
+    return createSuccessResponse(reminder, 201, '通知を追加しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to add task reminder')
+  }
+}
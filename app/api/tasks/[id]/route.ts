@@ -1,12 +1,22 @@
 import { NextRequest } from 'next/server'
 import { taskService } from '@/lib/services/tasks'
-import { TaskUpdate } from '@/types/tasks'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { recurrenceService } from '@/lib/services/recurrence'
+import { subtaskService } from '@/lib/services/subtasks'
+import {
+  deleteTaskQuerySchema,
+  idParamsSchema,
+  updateTaskQuerySchema,
+  updateTaskSchema
+} from '@/lib/validation/task-schemas'
 import {
   authenticateRequest,
   createErrorResponse,
-  createSuccessResponse,
-  parseRequestBody
+  createSuccessResponse
 } from '@/lib/api/auth-middleware'
+import { ConflictError, NotFoundError } from '@/lib/errors'
+import { isTaskBlocked } from '@/types/tasks'
+import { parseBody, parseParams, parseQuery } from '@/lib/api/validation'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -22,14 +32,13 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     const { user, error } = await authenticateRequest(_request)
     if (error) return error
 
-    const task = await taskService.getTaskById(user!.id, params.id)
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const task = await taskService.getTaskById(user!.id, route.id)
 
     if (!task) {
-      return createErrorResponse(
-        new Error('タスクが見つかりません'), 
-        'Task not found', 
-        404
-      )
+      return createErrorResponse(new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND'))
     }
 
     return createSuccessResponse(task)
@@ -44,12 +53,41 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const { user, error } = await authenticateRequest(request)
     if (error) return error
 
-    const body = await parseRequestBody<TaskUpdate>(request)
-    
-    // セキュリティ: user_id と id の変更を防ぐ
-    const { user_id, id, ...updateData } = body
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: query, error: queryError } = parseQuery(request.url, updateTaskQuerySchema)
+    if (queryError) return queryError
+
+    // スキーマにない列（user_id や id、シリーズ管理用の列）は取り除かれる
+    const { data: updateData, error: bodyError } = await parseBody(request, updateTaskSchema)
+    if (bodyError) return bodyError
+
+    // ブロック中のタスクを進行中にするには確認（ignore_blockers=true）が必要
+    if (updateData.status === 'in_progress' && !query.ignore_blockers) {
+      const current = await taskService.getTaskById(user!.id, route.id)
+      if (current && current.status !== 'in_progress' && isTaskBlocked(current)) {
+        const titles = current.blocked_by!.map(blocker => `「${blocker.title}」`).join('、')
+        throw new ConflictError(`先行タスク${titles}が完了していません`, 'TASK_BLOCKED')
+      }
+    }
+
+    // オフライン中の変更など、クライアントが知っている版（expected_updated_at）より後に変更されたタスクは上書きしない
+    const task = await recurrenceService.updateTask(
+      user!.id,
+      route.id,
+      updateData,
+      query.scope,
+      query.expected_updated_at
+    )
+
+    if (!task) {
+      return createErrorResponse(new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND'))
+    }
 
-    const task = await taskService.updateTask(user!.id, params.id, updateData)
+    if (query.complete_subtasks && task.status === 'completed') {
+      await subtaskService.completeSubtasks(user!.id, task.id)
+    }
 
     return createSuccessResponse(task, 200, 'タスクが正常に更新されました')
 
@@ -63,12 +101,27 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
     const { user, error } = await authenticateRequest(_request)
     if (error) return error
 
-    await taskService.deleteTask(user!.id, params.id)
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: query, error: queryError } = parseQuery(_request.url, deleteTaskQuerySchema)
+    if (queryError) return queryError
+
+    // サブタスクは DB のトリガーで一緒にゴミ箱に移るため、移す前に取得しておく
+    const subtasks = await subtaskService.getDescendants(user!.id, [route.id])
+    const deleted = await recurrenceService.deleteTask(user!.id, route.id, query.scope, query.expected_updated_at)
+
+    // 連携済みのカレンダーイベントも削除する（失敗してもタスク削除は成功扱い）
+    for (const task of [...deleted, ...subtasks]) {
+      if (task.google_calendar_event_id) {
+        await calendarSyncService.removeTaskEvent(user!.id, task.google_calendar_event_id)
+      }
+    }
 
     return createSuccessResponse(
       null, 
       200, 
-      'タスクが正常に削除されました'
+      'タスクをゴミ箱に移しました'
     )
 
   } catch (error) {
@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server'
+import { taskService } from '@/lib/services/tasks'
+import { idParamsSchema, startTimerSchema, timeEntryQuerySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { ConflictError, NotFoundError } from '@/lib/errors'
+import { parseBody, parseParams, parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+function taskNotFoundResponse() {
+  return createErrorResponse(new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND'))
+}
+
+/**
+ * タスクの作業記録一覧
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const task = await taskService.getTaskById(user!.id, route.id)
+    if (!task) return taskNotFoundResponse()
+
+    const entries = await taskService.getTimeEntries(user!.id, route.id)
+
+    return createSuccessResponse(entries)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch time entries')
+  }
+}
+
+/**
+ * タイマーを開始する（計測中の別のタイマーは停止される）
+ * ブロック中の未着手のタスクは ignore_blockers=true でなければ 409（TASK_BLOCKED）
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: body, error: bodyError } = await parseBody(request, startTimerSchema)
+    if (bodyError) return bodyError
+
+    const entry = await taskService.startTimer(user!.id, route.id, body.description, body.ignore_blockers)
+    if (!entry) return taskNotFoundResponse()
+
+    return createSuccessResponse(entry, 201, 'タイマーを開始しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to start timer')
+  }
+}
+
+/**
+ * 計測中のタイマーを停止する
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const entry = await taskService.stopTimer(user!.id, route.id)
+    if (!entry) {
+      return createErrorResponse(new ConflictError('計測中のタイマーがありません', 'TIMER_NOT_RUNNING'))
+    }
+
+    return createSuccessResponse(entry, 200, 'タイマーを停止しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to stop timer')
+  }
+}
+
+/**
+ * 作業記録を削除する（?entryId=）
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, idParamsSchema)
+    if (paramsError) return paramsError
+
+    const { data: query, error: queryError } = parseQuery(request.url, timeEntryQuerySchema)
+    if (queryError) return queryError
+
+    await taskService.deleteTimeEntry(user!.id, route.id, query.entryId)
+
+    return createSuccessResponse(null, 200, '作業記録を削除しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to delete time entry')
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { taskBulkService } from '@/lib/services/task-bulk'
+import { bulkTaskSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseBody } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 複数のタスクにまとめて操作を適用する（すべて成功するか、何も変更しない）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: body, error: bodyError } = await parseBody(request, bulkTaskSchema)
+    if (bodyError) return bodyError
+
+    const result = await taskBulkService.applyOperation(user!.id, body.task_ids, body.operation, body.ignore_blockers)
+
+    return createSuccessResponse(result, 200, `${result.tasks.length}件のタスクを操作しました`)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to apply bulk task operation')
+  }
+}
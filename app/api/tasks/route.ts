@@ -1,13 +1,13 @@
 import { NextRequest } from 'next/server'
 import { taskService } from '@/lib/services/tasks'
-import { TaskFilters, TaskSortOptions, TaskInsert } from '@/types/tasks'
+import { createTaskSchema, taskListQuerySchema } from '@/lib/validation/task-schemas'
+import { TaskSortOptions } from '@/types/tasks'
 import {
   authenticateRequest,
   createErrorResponse,
-  createSuccessResponse,
-  parseRequestBody,
-  getQueryParams
+  createSuccessResponse
 } from '@/lib/api/auth-middleware'
+import { parseBody, parseQuery } from '@/lib/api/validation'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -17,60 +17,16 @@ export async function GET(request: NextRequest) {
     const { user, error } = await authenticateRequest(request)
     if (error) return error
 
-    const params = getQueryParams(request.url)
-    
-    // フィルタリングパラメータ
-    const filters: TaskFilters = {}
-    
-    const status = params.getStringArray('status')
-    if (status.length > 0) {
-      filters.status = status as TaskFilters['status']
-    }
-    
-    const priority = params.getStringArray('priority')
-    if (priority.length > 0) {
-      filters.priority = priority as TaskFilters['priority']
-    }
-    
-    const categoryId = params.getStringArray('category_id')
-    if (categoryId.length > 0) {
-      filters.category_id = categoryId
-    }
-    
-    const dueDateFrom = params.getString('due_date_from')
-    if (dueDateFrom) {
-      filters.due_date_from = dueDateFrom
-    }
-    
-    const dueDateTo = params.getString('due_date_to')
-    if (dueDateTo) {
-      filters.due_date_to = dueDateTo
-    }
-    
-    const search = params.getString('search')
-    if (search) {
-      filters.search = search
-    }
+    // フィルタ・ソート・ページネーション（?limit=&cursor=、次のページは nextCursor を cursor に渡す）
+    const { data: query, error: queryError } = parseQuery(request.url, taskListQuerySchema)
+    if (queryError) return queryError
 
-    // ソートパラメータ
-    const sort: TaskSortOptions = {
-      field: (params.getString('sort_field') as TaskSortOptions['field']) || 'created_at',
-      direction: (params.getString('sort_direction') as TaskSortOptions['direction']) || 'desc'
-    }
+    const { sort_field, sort_direction, limit, cursor, ...filters } = query
+    const sort: TaskSortOptions = { field: sort_field, direction: sort_direction }
 
-    // ページネーション
-    const limit = params.getNumber('limit')
-    const offset = params.getNumber('offset')
+    const page = await taskService.getTaskPage(user!.id, filters, sort, { limit, cursor })
 
-    const tasks = await taskService.getTasks(
-      user!.id, 
-      Object.keys(filters).length > 0 ? filters : undefined, 
-      sort, 
-      limit || undefined, 
-      offset || undefined
-    )
-
-    return createSuccessResponse(tasks)
+    return createSuccessResponse(page)
 
   } catch (error) {
     return createErrorResponse(error, 'Failed to fetch tasks')
@@ -82,12 +38,8 @@ export async function POST(request: NextRequest) {
     const { user, error } = await authenticateRequest(request)
     if (error) return error
 
-    const body = await parseRequestBody<Omit<TaskInsert, 'user_id'>>(request)
-    
-    // 必須フィールドの検証
-    if (!body.title?.trim()) {
-      throw new Error('タスクのタイトルは必須です')
-    }
+    const { data: body, error: bodyError } = await parseBody(request, createTaskSchema)
+    if (bodyError) return bodyError
 
     const task = await taskService.createTask(user!.id, body)
 
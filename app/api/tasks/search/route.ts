@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { taskService } from '@/lib/services/tasks'
+import { taskSearchQuerySchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseQuery } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * タスクの全文検索（?q=&limit=&offset=、次のページは nextOffset を offset に渡す）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: query, error: queryError } = parseQuery(request.url, taskSearchQuerySchema)
+    if (queryError) return queryError
+
+    const page = await taskService.searchTasks(user!.id, query.q, { limit: query.limit, offset: query.offset })
+
+    return createSuccessResponse(page)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to search tasks')
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { taskService } from '@/lib/services/tasks'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 計測中のタイマー（なければ null）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const entry = await taskService.getRunningTimeEntry(user!.id)
+
+    return createSuccessResponse(entry)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch running timer')
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server'
+import { trashService } from '@/lib/services/trash'
+import { trashItemParamsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseParams } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    type: string
+    id: string
+  }
+}
+
+/**
+ * ゴミ箱のタスク・カテゴリを復元する
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, trashItemParamsSchema)
+    if (paramsError) return paramsError
+
+    const restored = route.type === 'tasks'
+      ? await trashService.restoreTask(user!.id, route.id)
+      : await trashService.restoreCategory(user!.id, route.id)
+
+    return createSuccessResponse(restored, 200, '復元しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to restore trash item')
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { trashService } from '@/lib/services/trash'
+import { trashItemParamsSchema } from '@/lib/validation/task-schemas'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+import { parseParams } from '@/lib/api/validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    type: string
+    id: string
+  }
+}
+
+/**
+ * ゴミ箱のタスク・カテゴリを完全に削除する
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const { data: route, error: paramsError } = parseParams(params, trashItemParamsSchema)
+    if (paramsError) return paramsError
+
+    if (route.type === 'tasks') {
+      await trashService.purgeTask(user!.id, route.id)
+    } else {
+      await trashService.purgeCategory(user!.id, route.id)
+    }
+
+    return createSuccessResponse(null, 200, '完全に削除しました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to purge trash item')
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server'
+import { trashService } from '@/lib/services/trash'
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/api/auth-middleware'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const trash = await trashService.getTrash(user!.id)
+
+    return createSuccessResponse(trash)
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to fetch trash')
+  }
+}
+
+/**
+ * ゴミ箱を空にする
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request)
+    if (error) return error
+
+    const result = await trashService.emptyTrash(user!.id)
+
+    return createSuccessResponse(result, 200, 'ゴミ箱を空にしました')
+
+  } catch (error) {
+    return createErrorResponse(error, 'Failed to empty trash')
+  }
+}
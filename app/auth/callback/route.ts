@@ -1,4 +1,6 @@
 import { createClient } from '@/lib/supabase/server';
+import { calendarSyncService } from '@/lib/services/calendar-sync';
+import { logger } from '@/lib/logger';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function GET(request: NextRequest) {
@@ -8,9 +10,19 @@ export async function GET(request: NextRequest) {
 
   if (code) {
     const supabase = createClient();
-    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
 
     if (!error) {
+      // Googleカレンダー同期用にリフレッシュトークンを保存（失敗してもログインは継続）
+      const refreshToken = data.session?.provider_refresh_token;
+      if (data.user && refreshToken) {
+        try {
+          await calendarSyncService.saveRefreshToken(data.user.id, refreshToken);
+        } catch (saveError) {
+          logger.warn('Failed to persist Google refresh token', saveError);
+        }
+      }
+
       // 認証成功時はダッシュボードまたは指定されたページにリダイレクト
       const forwardedHost = request.headers.get('x-forwarded-host');
       const isLocalEnv = process.env.NODE_ENV === 'development';
@@ -0,0 +1,32 @@
+'use client';
+
+import { useAuthContext } from '@/components/auth/auth-provider';
+import { LoginForm } from '@/components/auth/login-form';
+import { Header } from '@/components/layout/header';
+import { CalendarView } from '@/components/calendar/calendar-view';
+import { Loader2 } from 'lucide-react';
+
+export default function CalendarPage(): JSX.Element {
+  const { user, loading: authLoading } = useAuthContext();
+
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginForm />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <CalendarView />
+      </main>
+    </div>
+  );
+}
@@ -1,31 +1,95 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useAuthContext } from '@/components/auth/auth-provider';
 import { LoginForm } from '@/components/auth/login-form';
 import { Header } from '@/components/layout/header';
 import { TaskList } from '@/components/tasks/task-list';
+import { CalendarView } from '@/components/calendar/calendar-view';
+import { GoogleSyncCard } from '@/components/calendar/google-sync-card';
+import { CalendarFeedCard } from '@/components/calendar/calendar-feed-card';
+import { DailyLogView } from '@/components/daily-log/daily-log-view';
+import { WeeklyReviewCard } from '@/components/reviews/weekly-review-card';
+import { CategoryListCard } from '@/components/categories/category-list-card';
+import { DataTransferCard } from '@/components/data-transfer/data-transfer-card';
+import { ReminderSettingsCard } from '@/components/reminders/reminder-settings-card';
+import { ReminderNotifier } from '@/components/reminders/reminder-notifier';
+import { OfflineSyncStatus } from '@/components/layout/offline-sync-status';
+import { TrashView } from '@/components/trash/trash-view';
+import { TaskSearchView } from '@/components/tasks/task-search-view';
 import { useTasks } from '@/hooks/use-tasks';
-import { Loader2, Layout, Calendar, Settings } from 'lucide-react';
+import { TimerStartResult, useTimer } from '@/hooks/use-timer';
+import { useUndoShortcuts } from '@/hooks/use-undo-shortcuts';
+import { Loader2, Layout, Calendar, Settings, ClipboardList, Trash2, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { TaskFormData, TaskFilters, TaskSortOptions } from '@/types/tasks';
-import { useToast } from '@/hooks/use-toast';
+import { TaskFormData, TaskFilters, TaskSortOptions, RecurrenceScope, BulkTaskOperation, TaskUpdateOptions } from '@/types/tasks';
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced';
 
 export default function HomePage(): JSX.Element {
   const { user, loading: authLoading } = useAuthContext();
-  const { toast } = useToast();
+  const { showSuccess, showError } = useToastEnhanced();
   const [activeTab, setActiveTab] = useState('dashboard');
   const [filters, setFilters] = useState<TaskFilters>({});
   const [sort, setSort] = useState<TaskSortOptions>({ field: 'created_at', direction: 'desc' });
   
   const {
     tasks,
+    total: tasksTotal,
+    hasNextPage,
     loading: tasksLoading,
+    loadingMore,
+    fetchNextPage,
     createTask,
     updateTask,
-    deleteTask
+    deleteTask,
+    bulkUpdateTasks,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    refetch
   } = useTasks(filters, sort);
+  const {
+    activeTaskId,
+    elapsedSeconds,
+    blockedStart,
+    startTimer,
+    confirmBlockedStart,
+    cancelBlockedStart,
+    stopTimer
+  } = useTimer();
+
+  const undoAction = { label: '元に戻す', onClick: () => handleUndo() };
+
+  const handleUndo = async () => {
+    const label = await undo();
+    if (label) {
+      showSuccess(`「${label}」を取り消しました`, {
+        title: '元に戻す',
+        action: { label: 'やり直す', onClick: () => handleRedo() },
+      });
+    } else {
+      showError('操作を元に戻せませんでした');
+    }
+  };
+
+  const handleRedo = async () => {
+    const label = await redo();
+    if (label) {
+      showSuccess(`「${label}」をやり直しました`, { title: 'やり直す', action: undoAction });
+    } else {
+      showError('操作をやり直せませんでした');
+    }
+  };
+
+  // 履歴がないときはショートカットを無視する（トーストのボタンは古い描画から呼ばれるため確認しない）
+  useUndoShortcuts({
+    onUndo: () => canUndo && handleUndo(),
+    onRedo: () => canRedo && handleRedo(),
+  });
 
   if (authLoading) {
     return (
@@ -42,49 +106,76 @@ export default function HomePage(): JSX.Element {
   const handleCreateTask = async (data: TaskFormData) => {
     const result = await createTask(data);
     if (result) {
-      toast({
-        title: "成功",
-        description: "タスクが作成されました",
-      });
+      showSuccess('タスクが作成されました', { action: undoAction });
     }
   };
 
-  const handleUpdateTask = async (taskId: string, data: Partial<TaskFormData>) => {
-    const result = await updateTask(taskId, data);
+  const handleUpdateTask = async (
+    taskId: string,
+    data: Partial<TaskFormData>,
+    scope?: RecurrenceScope,
+    options?: TaskUpdateOptions
+  ) => {
+    const result = await updateTask(taskId, data, scope, options);
     if (result) {
-      toast({
-        title: "成功", 
-        description: "タスクが更新されました",
-      });
+      showSuccess('タスクが更新されました', { action: undoAction });
     }
   };
 
-  const handleDeleteTask = async (taskId: string) => {
-    const result = await deleteTask(taskId);
+  const handleDeleteTask = async (taskId: string, scope?: RecurrenceScope) => {
+    const result = await deleteTask(taskId, scope);
     if (result) {
-      toast({
-        title: "成功",
-        description: "タスクが削除されました",
-      });
+      showSuccess('タスクをゴミ箱に移しました', { action: undoAction });
     }
   };
 
-  const handleStatusChange = async (taskId: string, status: any) => {
-    const result = await updateTask(taskId, { status });
+  const handleStatusChange = async (taskId: string, status: any, options?: TaskUpdateOptions) => {
+    const result = await updateTask(taskId, { status }, 'this', options);
     if (result) {
-      toast({
-        title: "ステータス更新",
-        description: "タスクのステータスが更新されました",
-      });
+      showSuccess('タスクのステータスが更新されました', { title: 'ステータス更新', action: undoAction });
+    }
+  };
+
+  const handleBulkAction = async (taskIds: string[], operation: BulkTaskOperation, options?: TaskUpdateOptions) => {
+    const result = await bulkUpdateTasks(taskIds, operation, options);
+    if (!result) {
+      showError('タスクの一括操作に失敗しました');
+      return false;
+    }
+
+    showSuccess(`${result.tasks.length}件のタスクを操作しました`, { title: '一括操作', action: undoAction });
+    return true;
+  };
+
+  // blocked の場合は確認ダイアログを表示する（確認後に confirmBlockedStart で開始する）
+  const handleTimerStartResult = async (result: TimerStartResult) => {
+    if (result === 'started') {
+      await refetch();
+    } else if (result === 'failed') {
+      showError('タイマーの開始に失敗しました');
+    }
+  };
+
+  const handleStartTimer = async (taskId: string, options?: TaskUpdateOptions) => {
+    await handleTimerStartResult(await startTimer(taskId, options));
+  };
+
+  const handleStopTimer = async (taskId: string) => {
+    const entry = await stopTimer(taskId);
+    if (entry) {
+      await refetch();
+      showSuccess(`${entry.duration_minutes ?? 0}分の作業を記録しました`, { title: 'タイマー停止' });
     }
   };
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
+      <OfflineSyncStatus />
+      <ReminderNotifier />
       <main className="container mx-auto px-4 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="dashboard" className="flex items-center gap-2">
               <Layout className="h-4 w-4" />
               ダッシュボード
@@ -93,10 +184,22 @@ export default function HomePage(): JSX.Element {
               <Settings className="h-4 w-4" />
               タスク管理
             </TabsTrigger>
+            <TabsTrigger value="search" className="flex items-center gap-2">
+              <Search className="h-4 w-4" />
+              検索
+            </TabsTrigger>
+            <TabsTrigger value="daily-log" className="flex items-center gap-2">
+              <ClipboardList className="h-4 w-4" />
+              デイリーログ
+            </TabsTrigger>
             <TabsTrigger value="calendar" className="flex items-center gap-2">
               <Calendar className="h-4 w-4" />
               カレンダー
             </TabsTrigger>
+            <TabsTrigger value="trash" className="flex items-center gap-2">
+              <Trash2 className="h-4 w-4" />
+              ゴミ箱
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="dashboard" className="mt-6 space-y-6">
@@ -125,31 +228,38 @@ export default function HomePage(): JSX.Element {
               <div className="rounded-lg border bg-white p-6 shadow-sm">
                 <h3 className="mb-2 text-lg font-semibold">カレンダー表示</h3>
                 <p className="text-sm text-gray-600 mb-4">
-                  直感的なカレンダーUI（開発中）
+                  月・週・日表示でタスクを確認
                 </p>
                 <Button 
                   onClick={() => setActiveTab('calendar')}
                   variant="outline"
                   className="w-full"
-                  disabled
                 >
                   カレンダーを開く
                 </Button>
               </div>
 
               <div className="rounded-lg border bg-white p-6 shadow-sm">
-                <h3 className="mb-2 text-lg font-semibold">Google連携</h3>
+                <h3 className="mb-2 text-lg font-semibold">レポート</h3>
                 <p className="text-sm text-gray-600 mb-4">
-                  Googleカレンダー同期（開発中）
+                  見積もりと実績を比べて見積もりの癖を確認
                 </p>
-                <Button 
-                  variant="outline"
-                  className="w-full"
-                  disabled
-                >
-                  同期設定
+                <Button asChild variant="outline" className="w-full">
+                  <Link href="/reports">レポートを開く</Link>
                 </Button>
               </div>
+
+              <WeeklyReviewCard />
+
+              <GoogleSyncCard onSynced={refetch} />
+
+              <CalendarFeedCard />
+
+              <ReminderSettingsCard />
+
+              <CategoryListCard onDeleted={refetch} />
+
+              <DataTransferCard onImported={refetch} />
             </div>
 
             {/* 最新タスクのプレビュー */}
@@ -209,31 +319,71 @@ export default function HomePage(): JSX.Element {
             <TaskList
               tasks={tasks}
               loading={tasksLoading}
+              total={tasksTotal}
+              hasNextPage={hasNextPage}
+              loadingMore={loadingMore}
+              onLoadMore={fetchNextPage}
               onCreateTask={handleCreateTask}
               onUpdateTask={handleUpdateTask}
               onDeleteTask={handleDeleteTask}
               onStatusChange={handleStatusChange}
+              onBulkAction={handleBulkAction}
+              onSubtasksChange={refetch}
+              onStartTimer={handleStartTimer}
+              onStopTimer={handleStopTimer}
+              activeTimerId={activeTaskId}
+              activeTimerElapsedSeconds={elapsedSeconds}
               onFiltersChange={setFilters}
               onSortChange={setSort}
             />
           </TabsContent>
 
+          <TabsContent value="search" className="mt-6">
+            <TaskSearchView />
+          </TabsContent>
+
+          <TabsContent value="daily-log" className="mt-6">
+            <DailyLogView
+              tasks={tasks}
+              activeTimerId={activeTaskId}
+              onStartTimer={handleStartTimer}
+              onStopTimer={handleStopTimer}
+              onStatusChange={handleStatusChange}
+              onReviewSaved={refetch}
+            />
+          </TabsContent>
+
           <TabsContent value="calendar" className="mt-6">
-            <div className="text-center py-12">
-              <Calendar className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">
-                カレンダー機能
-              </h3>
-              <p className="text-gray-600 mb-4">
-                カレンダー表示機能は現在開発中です。Phase 3で実装予定です。
-              </p>
-              <Button variant="outline" disabled>
-                開発中
-              </Button>
-            </div>
+            <CalendarView />
+          </TabsContent>
+
+          <TabsContent value="trash" className="mt-6">
+            <TrashView onRestored={refetch} />
           </TabsContent>
         </Tabs>
       </main>
+
+      {/* 先行タスクが完了していないタスクのタイマーを開始するときの確認ダイアログ */}
+      <Dialog open={!!blockedStart} onOpenChange={(open) => !open && cancelBlockedStart()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>ブロック中のタスクを開始する</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              {blockedStart?.message}。タイマーを開始すると進行中になります。開始しますか？
+            </p>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={cancelBlockedStart}>
+                キャンセル
+              </Button>
+              <Button onClick={async () => handleTimerStartResult(await confirmBlockedStart())}>
+                開始する
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
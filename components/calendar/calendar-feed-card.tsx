@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { Copy, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useCalendarFeed } from '@/hooks/use-calendar-feed'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+
+// 確認が必要な操作（発行済みの URL が使えなくなる）
+type FeedAction = 'rotate' | 'revoke'
+
+const ACTION_LABELS: Record<FeedAction, { title: string; description: string; confirm: string }> = {
+  rotate: {
+    title: 'URLを再発行',
+    description: '今の URL で購読しているカレンダーアプリには、新しい URL を登録し直す必要があります。',
+    confirm: '再発行',
+  },
+  revoke: {
+    title: 'URLを無効化',
+    description: '今の URL で購読しているカレンダーアプリにはタスクが表示されなくなります。',
+    confirm: '無効化',
+  },
+}
+
+export function CalendarFeedCard() {
+  const { status, issued, loading, updating, issueToken, revokeToken } = useCalendarFeed()
+  const { showSuccess, showError } = useToastEnhanced()
+  const [pendingAction, setPendingAction] = useState<FeedAction | null>(null)
+
+  const handleIssue = async () => {
+    const token = await issueToken()
+    if (!token) {
+      showError('購読用 URL の発行に失敗しました')
+      return
+    }
+    setPendingAction(null)
+  }
+
+  const handleRevoke = async () => {
+    const ok = await revokeToken()
+    if (!ok) {
+      showError('購読用 URL の無効化に失敗しました')
+      return
+    }
+    setPendingAction(null)
+    showSuccess('購読用 URL を無効にしました')
+  }
+
+  const handleCopy = async () => {
+    if (!issued) return
+    try {
+      await navigator.clipboard.writeText(issued.url)
+      showSuccess('URLをコピーしました')
+    } catch {
+      showError('URLをコピーできませんでした')
+    }
+  }
+
+  const action = pendingAction ? ACTION_LABELS[pendingAction] : null
+
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h3 className="mb-2 text-lg font-semibold">カレンダー購読</h3>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : !status?.enabled ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            日付のあるタスクを iCalendar 形式で配信し、カレンダーアプリから購読できます
+          </p>
+          <Button className="w-full" onClick={handleIssue} disabled={updating}>
+            {updating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            購読用 URL を発行
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {issued ? (
+            <>
+              <p className="text-xs text-amber-700">
+                この URL は今だけ表示されます。カレンダーアプリに登録してください
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={issued.url} onFocus={(e) => e.target.select()} aria-label="購読用 URL" />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="URLをコピー">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button asChild variant="outline" className="w-full">
+                <a href={issued.webcal_url}>カレンダーアプリで開く</a>
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {status.last_used_at
+                ? `最終取得: ${format(new Date(status.last_used_at), 'M月d日 HH:mm', { locale: ja })}`
+                : 'まだ取得されていません'}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => setPendingAction('rotate')} disabled={updating}>
+              URLを再発行
+            </Button>
+            <Button
+              variant="outline"
+              className="flex-1 text-red-600"
+              onClick={() => setPendingAction('revoke')}
+              disabled={updating}
+            >
+              無効化
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{action?.title}</DialogTitle>
+            <DialogDescription>{action?.description}</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              キャンセル
+            </Button>
+            <Button
+              variant={pendingAction === 'revoke' ? 'destructive' : 'default'}
+              onClick={pendingAction === 'revoke' ? handleRevoke : handleIssue}
+              disabled={updating}
+            >
+              {updating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {action?.confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
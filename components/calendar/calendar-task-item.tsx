@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { AlertTriangle, Layers } from 'lucide-react'
+import { CalendarTaskItem as CalendarTaskItemData, CALENDAR_CONSTRAINTS } from '@/types/calendar'
+import { TASK_PRIORITY_CONFIG, TASK_STATUS_CONFIG } from '@/types/tasks'
+import { snapMinutes } from '@/lib/calendar/utils'
+import { cn } from '@/lib/utils'
+
+interface CalendarTaskItemProps {
+  item: CalendarTaskItemData
+  variant?: 'chip' | 'block'
+  onClick?: (item: CalendarTaskItemData) => void
+  onDragStart?: (item: CalendarTaskItemData, grabOffsetMinutes: number) => void
+  onDragEnd?: () => void
+  onResize?: (item: CalendarTaskItemData, minutes: number) => void
+  className?: string
+  style?: React.CSSProperties
+}
+
+const PX_PER_MINUTE = CALENDAR_CONSTRAINTS.HOUR_HEIGHT_PX / 60
+
+export function CalendarTaskItem({
+  item,
+  variant = 'chip',
+  onClick,
+  onDragStart,
+  onDragEnd,
+  onResize,
+  className = '',
+  style,
+}: CalendarTaskItemProps) {
+  const { task } = item
+  const priorityConfig = TASK_PRIORITY_CONFIG[task.priority]
+  const isCompleted = task.status === 'completed'
+  const accentColor = task.category?.color ?? priorityConfig.color
+
+  // リサイズ中のプレビュー高さ（px）
+  const [resizeHeight, setResizeHeight] = useState<number | null>(null)
+  const resizeCleanupRef = useRef<(() => void) | null>(null)
+
+  useEffect(() => {
+    return () => resizeCleanupRef.current?.()
+  }, [])
+
+  const title = [
+    task.title,
+    item.allDay
+      ? '終日'
+      : `${format(item.start, 'HH:mm')} - ${format(item.end, 'HH:mm')}`,
+    TASK_STATUS_CONFIG[task.status].label,
+    item.isOverdue ? '期限超過' : null,
+    item.hasConflict ? '他の予定と重複' : null,
+  ]
+    .filter(Boolean)
+    .join(' / ')
+
+  const handleDragStart = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!onDragStart) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    const grabOffsetMinutes = variant === 'block' ? (event.clientY - rect.top) / PX_PER_MINUTE : 0
+
+    event.dataTransfer.effectAllowed = 'move'
+    event.dataTransfer.setData('text/plain', task.id)
+    onDragStart(item, grabOffsetMinutes)
+  }
+
+  const handleResizeStart = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!onResize) return
+    event.preventDefault()
+    event.stopPropagation()
+
+    const startY = event.clientY
+    const startHeight = event.currentTarget.parentElement?.getBoundingClientRect().height ?? 0
+    const minHeight = CALENDAR_CONSTRAINTS.MIN_BLOCK_MINUTES * PX_PER_MINUTE
+    const toHeight = (clientY: number) => Math.max(startHeight + clientY - startY, minHeight)
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      setResizeHeight(toHeight(moveEvent.clientY))
+    }
+    const handleUp = (upEvent: PointerEvent) => {
+      cleanup()
+      setResizeHeight(null)
+      const minutes = Math.max(
+        snapMinutes(toHeight(upEvent.clientY) / PX_PER_MINUTE),
+        CALENDAR_CONSTRAINTS.MIN_BLOCK_MINUTES
+      )
+      if (minutes !== task.estimated_minutes) {
+        onResize(item, minutes)
+      }
+    }
+    const cleanup = () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      resizeCleanupRef.current = null
+    }
+
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+    resizeCleanupRef.current = cleanup
+  }
+
+  const previewEnd = resizeHeight !== null
+    ? new Date(item.start.getTime() + snapMinutes(resizeHeight / PX_PER_MINUTE) * 60000)
+    : item.end
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      title={title}
+      draggable={Boolean(onDragStart) && resizeHeight === null}
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      onClick={() => onClick?.(item)}
+      onKeyDown={event => event.key === 'Enter' && onClick?.(item)}
+      className={cn(
+        'w-full overflow-hidden rounded border-l-4 px-1.5 text-left text-xs transition-colors',
+        variant === 'chip' ? 'truncate py-0.5' : 'flex flex-col py-1',
+        onDragStart ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer',
+        item.isOverdue
+          ? 'border-red-500 bg-red-50 text-red-800 ring-1 ring-red-300 hover:bg-red-100'
+          : 'bg-blue-50 text-gray-900 hover:bg-blue-100',
+        item.hasConflict && !item.isOverdue && 'ring-2 ring-amber-400',
+        isCompleted && 'opacity-60',
+        resizeHeight !== null && 'z-20 shadow-lg',
+        className
+      )}
+      style={{
+        ...(item.isOverdue ? {} : { borderLeftColor: accentColor }),
+        ...style,
+        ...(resizeHeight !== null ? { height: resizeHeight } : {}),
+      }}
+    >
+      <span className={cn('flex items-center gap-1 truncate font-medium', isCompleted && 'line-through')}>
+        {item.isOverdue && <AlertTriangle className="h-3 w-3 flex-shrink-0" />}
+        {item.hasConflict && <Layers className="h-3 w-3 flex-shrink-0 text-amber-600" />}
+        {!item.allDay && variant === 'chip' && (
+          <span className="text-gray-500">{format(item.start, 'HH:mm')}</span>
+        )}
+        <span className="truncate">{task.title}</span>
+      </span>
+      {variant === 'block' && !item.allDay && (
+        <span className="truncate text-[10px] text-gray-500">
+          {format(item.start, 'HH:mm')} - {format(previewEnd, 'HH:mm')}
+        </span>
+      )}
+      {variant === 'block' && onResize && (
+        <div
+          onPointerDown={handleResizeStart}
+          onClick={event => event.stopPropagation()}
+          className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize"
+          aria-label="所要時間を変更"
+        />
+      )}
+    </div>
+  )
+}
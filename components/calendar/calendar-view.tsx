@@ -0,0 +1,231 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { addMinutes, format, startOfDay } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { CalendarPlus, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'
+import { MonthView } from './month-view'
+import { TimeGridView } from './time-grid-view'
+import { EventImportDialog } from './event-import-dialog'
+import { TaskForm } from '@/components/tasks/task-form'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useTasks } from '@/hooks/use-tasks'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import {
+  getMoveToDayUpdate,
+  getMoveToTimeUpdate,
+  getRangeDays,
+  getVisibleRange,
+  shiftDate,
+  snapMinutes,
+  TaskScheduleUpdate,
+  toCalendarItems,
+} from '@/lib/calendar/utils'
+import { CalendarDragState, CalendarTaskItem, CalendarViewMode, CALENDAR_VIEW_OPTIONS } from '@/types/calendar'
+import { RecurrenceScope, TaskFilters, TaskFormData, TaskSortOptions, TaskWithCategory, TASK_PAGINATION } from '@/types/tasks'
+import { parseRecurrencePattern } from '@/lib/recurrence/occurrences'
+
+interface CalendarViewProps {
+  initialView?: CalendarViewMode
+  className?: string
+}
+
+const CALENDAR_SORT: TaskSortOptions = { field: 'due_date', direction: 'asc' }
+// 表示範囲のタスクはすべて必要なので全ページを取得する
+const CALENDAR_TASK_OPTIONS = { loadAll: true, pageSize: TASK_PAGINATION.MAX_LIMIT }
+
+export function CalendarView({ initialView = 'month', className = '' }: CalendarViewProps) {
+  const [view, setView] = useState<CalendarViewMode>(initialView)
+  const [currentDate, setCurrentDate] = useState(() => new Date())
+  const [editingTask, setEditingTask] = useState<TaskWithCategory | null>(null)
+  const [importOpen, setImportOpen] = useState(false)
+  const dragRef = useRef<CalendarDragState | null>(null)
+  const { showError } = useToastEnhanced()
+
+  const range = useMemo(() => getVisibleRange(view, currentDate), [view, currentDate])
+  const days = useMemo(() => getRangeDays(range), [range])
+
+  // 表示中の期間だけを取得する
+  const filters = useMemo<TaskFilters>(() => ({
+    scheduled_from: range.start.toISOString(),
+    scheduled_to: range.end.toISOString(),
+  }), [range])
+
+  const { tasks, loading, error, updateTask, refetch } = useTasks(filters, CALENDAR_SORT, CALENDAR_TASK_OPTIONS)
+  const items = useMemo(() => toCalendarItems(tasks), [tasks])
+
+  const title = useMemo(() => {
+    switch (view) {
+      case 'month':
+        return format(currentDate, 'yyyy年M月', { locale: ja })
+      case 'week':
+        return `${format(range.start, 'yyyy年M月d日', { locale: ja })} 〜 ${format(days[days.length - 1] ?? range.start, 'M月d日', { locale: ja })}`
+      case 'day':
+        return format(currentDate, 'yyyy年M月d日(E)', { locale: ja })
+    }
+  }, [view, currentDate, range, days])
+
+  const handleSelectDay = (day: Date) => {
+    setCurrentDate(day)
+    setView('day')
+  }
+
+  const handleTaskClick = (item: CalendarTaskItem) => {
+    setEditingTask(item.task)
+  }
+
+  // ドラッグ&ドロップ・リサイズによる再スケジュール
+  const applySchedule = async (item: CalendarTaskItem, updates: TaskScheduleUpdate & { estimated_minutes?: number }) => {
+    if (Object.keys(updates).length === 0) return
+    const result = await updateTask(item.task.id, updates)
+    if (!result) {
+      showError(`「${item.task.title}」の予定を変更できませんでした。元に戻しました。`)
+    }
+  }
+
+  const handleDragStart = (item: CalendarTaskItem, grabOffsetMinutes: number) => {
+    dragRef.current = { item, grabOffsetMinutes }
+  }
+
+  const handleDragEnd = () => {
+    dragRef.current = null
+  }
+
+  const handleDropToDay = (day: Date) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag) return
+    void applySchedule(drag.item, getMoveToDayUpdate(drag.item, day))
+  }
+
+  const handleDropToTime = (day: Date, minutes: number) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag) return
+
+    const startMinutes = Math.min(Math.max(snapMinutes(minutes - drag.grabOffsetMinutes), 0), 24 * 60 - 15)
+    const start = addMinutes(startOfDay(day), startMinutes)
+    if (!drag.item.allDay && start.getTime() === drag.item.start.getTime()) return
+
+    void applySchedule(drag.item, getMoveToTimeUpdate(drag.item, start))
+  }
+
+  const handleResize = (item: CalendarTaskItem, minutes: number) => {
+    void applySchedule(item, { estimated_minutes: minutes })
+  }
+
+  const handleUpdateTask = async (data: TaskFormData, scope?: RecurrenceScope) => {
+    if (!editingTask) return
+    const result = await updateTask(editingTask.id, data, scope)
+    if (!result) {
+      throw new Error('タスクの更新に失敗しました')
+    }
+    setEditingTask(null)
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* ツールバー */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setCurrentDate(shiftDate(view, currentDate, -1))} aria-label="前へ">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setCurrentDate(new Date())}>
+            今日
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setCurrentDate(shiftDate(view, currentDate, 1))} aria-label="次へ">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 text-xl font-semibold">{title}</h2>
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            予定から作成
+          </Button>
+          <Tabs value={view} onValueChange={value => setView(value as CalendarViewMode)}>
+            <TabsList>
+              {CALENDAR_VIEW_OPTIONS.map(option => (
+                <TabsTrigger key={option.value} value={option.value}>
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {view === 'month' ? (
+        <MonthView
+          days={days}
+          currentDate={currentDate}
+          items={items}
+          onSelectDay={handleSelectDay}
+          onTaskClick={handleTaskClick}
+          onTaskDragStart={handleDragStart}
+          onTaskDragEnd={handleDragEnd}
+          onDropToDay={handleDropToDay}
+        />
+      ) : (
+        <TimeGridView
+          days={days}
+          items={items}
+          onSelectDay={handleSelectDay}
+          onTaskClick={handleTaskClick}
+          onTaskDragStart={handleDragStart}
+          onTaskDragEnd={handleDragEnd}
+          onTaskResize={handleResize}
+          onDropToDay={handleDropToDay}
+          onDropToTime={handleDropToTime}
+        />
+      )}
+
+      {/* 予定の取り込み */}
+      <EventImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        defaultRange={range}
+        onImported={refetch}
+      />
+
+      {/* 編集ダイアログ */}
+      <Dialog open={editingTask !== null} onOpenChange={open => !open && setEditingTask(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>タスクを編集</DialogTitle>
+          </DialogHeader>
+          {editingTask && (
+            <TaskForm
+              onSubmit={handleUpdateTask}
+              onCancel={() => setEditingTask(null)}
+              initialData={{
+                title: editingTask.title,
+                description: editingTask.description || '',
+                priority: editingTask.priority,
+                status: editingTask.status,
+                due_date: editingTask.due_date || '',
+                start_date: editingTask.start_date || '',
+                estimated_minutes: editingTask.estimated_minutes || undefined,
+                category_id: editingTask.category_id || '',
+                notes: editingTask.notes || '',
+                is_recurring: editingTask.is_recurring,
+                recurrence_pattern: parseRecurrencePattern(editingTask.recurrence_pattern),
+              }}
+              submitLabel="タスクを更新"
+              recurrenceScopeEnabled={Boolean(editingTask.recurrence_series_id)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
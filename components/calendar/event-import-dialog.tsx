@@ -0,0 +1,240 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { addDays, format, subDays } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { Loader2, Upload } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useEventImport } from '@/hooks/use-event-import'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import { CalendarRange, EventImportSource, ImportableEvent } from '@/types/calendar'
+
+interface EventImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // 初期表示する期間（表示中のカレンダーの範囲）
+  defaultRange: CalendarRange
+  onImported?: () => void
+}
+
+function formatEventTime(event: ImportableEvent): string {
+  const start = new Date(event.start_date)
+  if (event.all_day) {
+    return `${format(start, 'M月d日(E)', { locale: ja })} 終日`
+  }
+  return `${format(start, 'M月d日(E) HH:mm', { locale: ja })}（${event.estimated_minutes}分）`
+}
+
+export function EventImportDialog({ open, onOpenChange, defaultRange, onImported }: EventImportDialogProps) {
+  const { events, loading, importing, error, loadEvents, importEvents, reset } = useEventImport()
+  const { showSuccess, showError } = useToastEnhanced()
+  const [source, setSource] = useState<EventImportSource>('google')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [ics, setIcs] = useState<string | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loaded, setLoaded] = useState(false)
+
+  // 開くたびに表示中の期間で初期化する
+  useEffect(() => {
+    if (!open) return
+    setFrom(format(defaultRange.start, 'yyyy-MM-dd'))
+    setTo(format(subDays(defaultRange.end, 1), 'yyyy-MM-dd'))
+    setSelected(new Set())
+    setLoaded(false)
+    reset()
+  }, [open, defaultRange, reset])
+
+  const handleSourceChange = (value: string) => {
+    setSource(value as EventImportSource)
+    setSelected(new Set())
+    setLoaded(false)
+    reset()
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setIcs(await file.text())
+    setSelected(new Set())
+    setLoaded(false)
+    reset()
+  }
+
+  const handleLoad = async () => {
+    const range = {
+      from: new Date(`${from}T00:00:00`).toISOString(),
+      to: addDays(new Date(`${to}T00:00:00`), 1).toISOString(),
+    }
+    const ok = await loadEvents(source, range, ics ?? undefined)
+    setSelected(new Set())
+    setLoaded(ok)
+  }
+
+  const toggle = (eventId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(eventId)) {
+        next.delete(eventId)
+      } else {
+        next.add(eventId)
+      }
+      return next
+    })
+  }
+
+  const selectableEvents = events.filter(event => !event.task_id)
+  const allSelected = selectableEvents.length > 0 && selectableEvents.every(event => selected.has(event.event_id))
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(selectableEvents.map(event => event.event_id)))
+  }
+
+  const handleImport = async () => {
+    const result = await importEvents(source, Array.from(selected), ics ?? undefined)
+    if (!result) {
+      showError('予定の取り込みに失敗しました')
+      return
+    }
+
+    showSuccess(
+      result.skipped > 0
+        ? `${result.created}件のタスクを作成しました（${result.skipped}件は取り込み済み）`
+        : `${result.created}件のタスクを作成しました`
+    )
+    onImported?.()
+    onOpenChange(false)
+  }
+
+  const canLoad = Boolean(from && to) && (source === 'google' || ics !== null)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>予定からタスクを作成</DialogTitle>
+          <DialogDescription>
+            カレンダーの予定を選んでタスクとして取り込みます。取り込み済みの予定は重複して作成されません。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Tabs value={source} onValueChange={handleSourceChange}>
+            <TabsList>
+              <TabsTrigger value="google">Googleカレンダー</TabsTrigger>
+              <TabsTrigger value="ics">.ics ファイル</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {source === 'ics' && (
+            <div className="space-y-2">
+              <Label htmlFor="event-import-file">カレンダーファイル</Label>
+              <label
+                htmlFor="event-import-file"
+                className="flex cursor-pointer items-center gap-2 rounded-md border border-dashed p-3 text-sm text-gray-600 hover:bg-gray-50"
+              >
+                <Upload className="h-4 w-4" />
+                {fileName || '.ics ファイルを選択'}
+              </label>
+              <input
+                id="event-import-file"
+                type="file"
+                accept=".ics,text/calendar"
+                className="hidden"
+                onChange={event => void handleFileChange(event.target.files?.[0])}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="event-import-from">開始日</Label>
+              <Input id="event-import-from" type="date" value={from} onChange={event => setFrom(event.target.value)} />
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="event-import-to">終了日</Label>
+              <Input id="event-import-to" type="date" value={to} onChange={event => setTo(event.target.value)} />
+            </div>
+            <Button variant="outline" onClick={handleLoad} disabled={!canLoad || loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              予定を読み込む
+            </Button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {events.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    disabled={selectableEvents.length === 0}
+                  />
+                  すべて選択
+                </label>
+                <span className="text-gray-500">{events.length}件の予定</span>
+              </div>
+
+              <ul className="max-h-80 divide-y overflow-y-auto rounded-md border">
+                {events.map(event => (
+                  <li key={event.event_id}>
+                    <label className="flex cursor-pointer items-start gap-3 p-3 hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={selected.has(event.event_id)}
+                        onChange={() => toggle(event.event_id)}
+                        disabled={Boolean(event.task_id)}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="truncate font-medium">{event.title}</span>
+                          {event.task_id && <Badge variant="secondary">取り込み済み</Badge>}
+                        </div>
+                        <div className="text-xs text-gray-500">{formatEventTime(event)}</div>
+                      </div>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!loading && events.length === 0 && !error && (
+            <p className="text-center text-sm text-gray-500">
+              {loaded ? '該当する予定はありません' : '期間を指定して予定を読み込んでください'}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            キャンセル
+          </Button>
+          <Button onClick={handleImport} disabled={selected.size === 0 || importing}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {selected.size}件をタスクにする
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
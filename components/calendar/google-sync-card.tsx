@@ -0,0 +1,220 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useCalendarSync } from '@/hooks/use-calendar-sync'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import { SyncConflict, SyncConflictPolicy, SyncConflictResolution, SyncConflictSnapshot } from '@/types/calendar'
+
+interface GoogleSyncCardProps {
+  // 同期でタスクが変わったときに呼ばれる
+  onSynced?: () => void
+}
+
+const POLICY_LABELS: Record<SyncConflictPolicy, string> = {
+  last_writer_wins: '新しい方を優先',
+  prompt: '毎回確認する',
+}
+
+function formatSnapshotTime(snapshot: SyncConflictSnapshot): string {
+  if (!snapshot.start_date) return '予定なし'
+  const label = format(new Date(snapshot.start_date), 'M月d日(E) HH:mm', { locale: ja })
+  return snapshot.estimated_minutes ? `${label}（${snapshot.estimated_minutes}分）` : label
+}
+
+export function GoogleSyncCard({ onSynced }: GoogleSyncCardProps) {
+  const { status, loading, syncing, updateSettings, sync } = useCalendarSync()
+  const { showSuccess, showError } = useToastEnhanced()
+  const [conflictsOpen, setConflictsOpen] = useState(false)
+  const [resolutions, setResolutions] = useState<Record<string, SyncConflictResolution>>({})
+
+  const conflicts = status?.pending_conflicts ?? []
+
+  const runSync = async (selected: Record<string, SyncConflictResolution> = {}) => {
+    const result = await sync(selected)
+    if (!result) {
+      showError('Googleカレンダーとの同期に失敗しました')
+      return
+    }
+
+    onSynced?.()
+    if (result.conflicts.length > 0) {
+      setResolutions({})
+      setConflictsOpen(true)
+      return
+    }
+    setConflictsOpen(false)
+    showSuccess(`送信 ${result.pushed}件・取込 ${result.pulled}件・削除 ${result.deleted}件`, {
+      title: '同期しました',
+    })
+  }
+
+  const handleToggle = async () => {
+    if (!status) return
+    const ok = await updateSettings({ sync_enabled: !status.sync_enabled })
+    if (!ok) showError('同期設定の更新に失敗しました')
+  }
+
+  const handlePolicyChange = async (value: string) => {
+    const ok = await updateSettings({ conflict_policy: value as SyncConflictPolicy })
+    if (!ok) showError('同期設定の更新に失敗しました')
+  }
+
+  const renderSnapshot = (label: string, snapshot: SyncConflictSnapshot | null) => (
+    <div className="rounded border p-2 text-xs">
+      <div className="mb-1 font-medium text-gray-500">{label}</div>
+      {snapshot ? (
+        <>
+          <div className="font-medium text-gray-900">{snapshot.title}</div>
+          <div className="text-gray-600">{formatSnapshotTime(snapshot)}</div>
+        </>
+      ) : (
+        <div className="text-gray-600">削除されています</div>
+      )}
+    </div>
+  )
+
+  const renderConflict = (conflict: SyncConflict) => (
+    <div key={conflict.task_id} className="space-y-2 rounded-lg border p-3">
+      <div className="grid grid-cols-2 gap-2">
+        {renderSnapshot('TaskShoot', conflict.local)}
+        {renderSnapshot('Googleカレンダー', conflict.remote)}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant={resolutions[conflict.task_id] === 'local' ? 'default' : 'outline'}
+          onClick={() => setResolutions(prev => ({ ...prev, [conflict.task_id]: 'local' }))}
+        >
+          TaskShootを採用
+        </Button>
+        <Button
+          size="sm"
+          variant={resolutions[conflict.task_id] === 'remote' ? 'default' : 'outline'}
+          onClick={() => setResolutions(prev => ({ ...prev, [conflict.task_id]: 'remote' }))}
+        >
+          Googleを採用
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h3 className="mb-2 text-lg font-semibold">Google連携</h3>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : !status?.connected ? (
+        <p className="text-sm text-gray-600">
+          Googleでログインし直すとカレンダー同期を利用できます
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            {status.last_synced_at
+              ? `最終同期: ${format(new Date(status.last_synced_at), 'M月d日 HH:mm', { locale: ja })}`
+              : 'まだ同期していません'}
+          </p>
+
+          {status.last_error && (
+            <p className="text-xs text-red-600">{status.last_error}</p>
+          )}
+
+          <Select
+            value={status.conflict_policy}
+            onValueChange={handlePolicyChange}
+            disabled={!status.sync_enabled}
+          >
+            <SelectTrigger aria-label="競合時の動作">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(POLICY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {conflicts.length > 0 && (
+            <Button
+              variant="outline"
+              className="w-full text-amber-700"
+              onClick={() => {
+                setResolutions({})
+                setConflictsOpen(true)
+              }}
+            >
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              競合を解決（{conflicts.length}件）
+            </Button>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant={status.sync_enabled ? 'outline' : 'default'}
+              className="flex-1"
+              onClick={handleToggle}
+            >
+              {status.sync_enabled ? '同期を停止' : '同期を有効化'}
+            </Button>
+            {status.sync_enabled && (
+              <Button className="flex-1" onClick={() => runSync()} disabled={syncing}>
+                {syncing ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                今すぐ同期
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={conflictsOpen} onOpenChange={setConflictsOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>同期の競合</DialogTitle>
+            <DialogDescription>
+              両方で変更されたタスクがあります。採用する内容を選んでください。
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {conflicts.map(renderConflict)}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConflictsOpen(false)}>
+              あとで
+            </Button>
+            <Button
+              onClick={() => runSync(resolutions)}
+              disabled={syncing || Object.keys(resolutions).length === 0}
+            >
+              {syncing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              選択内容で同期
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import { format, isSameDay, isSameMonth, isToday } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { CalendarTaskItem } from './calendar-task-item'
+import { CalendarTaskItem as CalendarTaskItemData, CALENDAR_CONSTRAINTS } from '@/types/calendar'
+import { getItemsForDay } from '@/lib/calendar/utils'
+import { cn } from '@/lib/utils'
+
+interface MonthViewProps {
+  days: Date[]
+  currentDate: Date
+  items: CalendarTaskItemData[]
+  onSelectDay?: (day: Date) => void
+  onTaskClick?: (item: CalendarTaskItemData) => void
+  onTaskDragStart?: (item: CalendarTaskItemData, grabOffsetMinutes: number) => void
+  onTaskDragEnd?: () => void
+  onDropToDay?: (day: Date) => void
+}
+
+export function MonthView({
+  days,
+  currentDate,
+  items,
+  onSelectDay,
+  onTaskClick,
+  onTaskDragStart,
+  onTaskDragEnd,
+  onDropToDay,
+}: MonthViewProps) {
+  const weekdays = days.slice(0, 7)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  return (
+    <div className="overflow-hidden rounded-lg border bg-white">
+      <div className="grid grid-cols-7 border-b bg-gray-50">
+        {weekdays.map(day => (
+          <div
+            key={day.toISOString()}
+            className={cn(
+              'py-2 text-center text-xs font-medium text-gray-600',
+              day.getDay() === 0 && 'text-red-600',
+              day.getDay() === 6 && 'text-blue-600'
+            )}
+          >
+            {format(day, 'E', { locale: ja })}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7">
+        {days.map(day => {
+          const { allDay, timed } = getItemsForDay(items, day)
+          const dayItems = [...allDay, ...timed]
+          const visibleItems = dayItems.slice(0, CALENDAR_CONSTRAINTS.MONTH_CELL_MAX_ITEMS)
+          const hiddenCount = dayItems.length - visibleItems.length
+
+          return (
+            <div
+              key={day.toISOString()}
+              onDragOver={event => {
+                if (!onDropToDay) return
+                event.preventDefault()
+                setDropTarget(day.toISOString())
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={event => {
+                event.preventDefault()
+                setDropTarget(null)
+                onDropToDay?.(day)
+              }}
+              className={cn(
+                'min-h-28 space-y-1 border-b border-r p-1',
+                !isSameMonth(day, currentDate) && 'bg-gray-50 text-gray-400',
+                dropTarget === day.toISOString() && 'bg-blue-50'
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => onSelectDay?.(day)}
+                className={cn(
+                  'flex h-6 w-6 items-center justify-center rounded-full text-xs hover:bg-gray-100',
+                  isToday(day) && 'bg-blue-600 text-white hover:bg-blue-700',
+                  isSameDay(day, currentDate) && !isToday(day) && 'ring-1 ring-blue-400'
+                )}
+              >
+                {format(day, 'd')}
+              </button>
+
+              {visibleItems.map(item => (
+                <CalendarTaskItem
+                  key={`${item.task.id}-${day.toISOString()}`}
+                  item={item}
+                  onClick={onTaskClick}
+                  onDragStart={onTaskDragStart}
+                  onDragEnd={onTaskDragEnd}
+                />
+              ))}
+
+              {hiddenCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onSelectDay?.(day)}
+                  className="w-full text-left text-xs text-gray-500 hover:text-gray-900"
+                >
+                  他{hiddenCount}件
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
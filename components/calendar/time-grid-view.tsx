@@ -0,0 +1,188 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { format, isToday } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { CalendarTaskItem } from './calendar-task-item'
+import { CalendarTaskItem as CalendarTaskItemData, CALENDAR_CONSTRAINTS } from '@/types/calendar'
+import { getBlockPosition, getItemsForDay, layoutTimedItems } from '@/lib/calendar/utils'
+import { cn } from '@/lib/utils'
+
+interface TimeGridViewProps {
+  days: Date[]
+  items: CalendarTaskItemData[]
+  onSelectDay?: (day: Date) => void
+  onTaskClick?: (item: CalendarTaskItemData) => void
+  onTaskDragStart?: (item: CalendarTaskItemData, grabOffsetMinutes: number) => void
+  onTaskDragEnd?: () => void
+  onTaskResize?: (item: CalendarTaskItemData, minutes: number) => void
+  onDropToDay?: (day: Date) => void
+  // minutes は日の開始からの分数（つかんだ位置の補正前）
+  onDropToTime?: (day: Date, minutes: number) => void
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+const INITIAL_SCROLL_HOUR = 7
+
+export function TimeGridView({
+  days,
+  items,
+  onSelectDay,
+  onTaskClick,
+  onTaskDragStart,
+  onTaskDragEnd,
+  onTaskResize,
+  onDropToDay,
+  onDropToTime,
+}: TimeGridViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const hourHeight = CALENDAR_CONSTRAINTS.HOUR_HEIGHT_PX
+  const gridTemplateColumns = `4rem repeat(${days.length}, minmax(0, 1fr))`
+
+  // 初回表示時は朝の時間帯までスクロール
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = INITIAL_SCROLL_HOUR * hourHeight
+    }
+  }, [hourHeight])
+
+  const columns = days.map(day => {
+    const { allDay, timed } = getItemsForDay(items, day)
+    return { day, allDay, timed: layoutTimedItems(timed, day) }
+  })
+
+  const dragHandlers = (key: string, onDrop: (event: React.DragEvent<HTMLDivElement>) => void) => ({
+    onDragOver: (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault()
+      setDropTarget(key)
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault()
+      setDropTarget(null)
+      onDrop(event)
+    },
+  })
+
+  return (
+    <div className="overflow-hidden rounded-lg border bg-white">
+      {/* 日付ヘッダー */}
+      <div className="grid border-b bg-gray-50" style={{ gridTemplateColumns }}>
+        <div />
+        {days.map(day => (
+          <button
+            key={day.toISOString()}
+            type="button"
+            onClick={() => onSelectDay?.(day)}
+            className="flex flex-col items-center py-2 text-xs text-gray-600 hover:bg-gray-100"
+          >
+            <span>{format(day, 'E', { locale: ja })}</span>
+            <span
+              className={cn(
+                'mt-0.5 flex h-7 w-7 items-center justify-center rounded-full text-sm font-semibold text-gray-900',
+                isToday(day) && 'bg-blue-600 text-white'
+              )}
+            >
+              {format(day, 'd')}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* 終日レーン */}
+      <div className="grid border-b" style={{ gridTemplateColumns }}>
+        <div className="flex items-center justify-end pr-2 text-[10px] text-gray-500">終日</div>
+        {columns.map(({ day, allDay }) => {
+          const key = `all-day:${day.toISOString()}`
+          return (
+            <div
+              key={key}
+              {...(onDropToDay ? dragHandlers(key, () => onDropToDay(day)) : {})}
+              className={cn('min-h-8 space-y-1 border-l p-1', dropTarget === key && 'bg-blue-50')}
+            >
+              {allDay.map(item => (
+                <CalendarTaskItem
+                  key={item.task.id}
+                  item={item}
+                  onClick={onTaskClick}
+                  onDragStart={onTaskDragStart}
+                  onDragEnd={onTaskDragEnd}
+                />
+              ))}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* 時間グリッド */}
+      <div ref={scrollRef} className="max-h-[640px] overflow-y-auto">
+        <div className="grid" style={{ gridTemplateColumns }}>
+          <div>
+            {HOURS.map(hour => (
+              <div
+                key={hour}
+                className="relative pr-2 text-right text-[10px] text-gray-500"
+                style={{ height: hourHeight }}
+              >
+                <span className="relative -top-2">{hour > 0 ? `${hour}:00` : ''}</span>
+              </div>
+            ))}
+          </div>
+
+          {columns.map(({ day, timed }) => {
+            const key = `time:${day.toISOString()}`
+            return (
+              <div
+                key={key}
+                {...(onDropToTime
+                  ? dragHandlers(key, event => {
+                      const rect = event.currentTarget.getBoundingClientRect()
+                      onDropToTime(day, (event.clientY - rect.top) / (hourHeight / 60))
+                    })
+                  : {})}
+                className={cn(
+                  'relative border-l',
+                  isToday(day) && 'bg-blue-50/30',
+                  dropTarget === key && 'bg-blue-50/60'
+                )}
+                style={{ height: hourHeight * 24 }}
+              >
+                {HOURS.map(hour => (
+                  <div
+                    key={hour}
+                    className="border-b border-gray-100"
+                    style={{ height: hourHeight }}
+                  />
+                ))}
+
+                {timed.map(item => {
+                  const { top, height } = getBlockPosition(item, day)
+                  const width = 100 / item.columnCount
+                  return (
+                    <CalendarTaskItem
+                      key={item.task.id}
+                      item={item}
+                      variant="block"
+                      onClick={onTaskClick}
+                      onDragStart={onTaskDragStart}
+                      onDragEnd={onTaskDragEnd}
+                      onResize={onTaskResize}
+                      className="absolute"
+                      style={{
+                        top,
+                        height,
+                        left: `${item.column * width}%`,
+                        width: `calc(${width}% - 2px)`,
+                      }}
+                    />
+                  )
+                })}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
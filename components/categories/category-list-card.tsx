@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useCategories } from '@/hooks/use-tasks'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import { Category, CategoryDeleteOptions } from '@/types/tasks'
+
+interface CategoryListCardProps {
+  // カテゴリを削除して所属タスクが変わったとき
+  onDeleted?: () => void
+}
+
+// 未分類を表す Select の値（空文字は Select で使えない）
+const UNCATEGORIZED_VALUE = 'none'
+
+export function CategoryListCard({ onDeleted }: CategoryListCardProps) {
+  const { categories, loading, deleteCategory } = useCategories()
+  const { showSuccess, showError } = useToastEnhanced()
+  const [target, setTarget] = useState<Category | null>(null)
+  const [taskAction, setTaskAction] = useState<CategoryDeleteOptions['task_action']>('move')
+  const [moveTo, setMoveTo] = useState(UNCATEGORIZED_VALUE)
+  const [deleting, setDeleting] = useState(false)
+
+  const openDeleteDialog = (category: Category) => {
+    setTaskAction('move')
+    setMoveTo(UNCATEGORIZED_VALUE)
+    setTarget(category)
+  }
+
+  const confirmDelete = async () => {
+    if (!target) return
+
+    setDeleting(true)
+    const ok = await deleteCategory(target.id, {
+      task_action: taskAction,
+      target_category_id: taskAction === 'move' && moveTo !== UNCATEGORIZED_VALUE ? moveTo : null,
+    })
+    setDeleting(false)
+
+    if (!ok) {
+      showError('カテゴリの削除に失敗しました')
+      return
+    }
+    setTarget(null)
+    showSuccess(`「${target.name}」をゴミ箱に移しました`)
+    onDeleted?.()
+  }
+
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h3 className="mb-2 text-lg font-semibold">カテゴリ</h3>
+
+      {loading && categories.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : categories.length === 0 ? (
+        <p className="text-sm text-gray-500">カテゴリはありません</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {categories.map(category => (
+            <li key={category.id} className="flex items-center justify-between gap-2">
+              <span className="flex min-w-0 items-center gap-2">
+                <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: category.color }} />
+                <span className="truncate">{category.icon} {category.name}</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => openDeleteDialog(category)}
+                aria-label={`「${category.name}」を削除`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* カテゴリ削除ダイアログ（所属タスクの扱いを選ぶ） */}
+      <Dialog open={target !== null} onOpenChange={(open) => !open && !deleting && setTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>カテゴリを削除</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              「{target?.name}」をゴミ箱に移します。このカテゴリのタスクをどうしますか？
+            </p>
+
+            <div className="space-y-2 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="category-task-action"
+                  checked={taskAction === 'move'}
+                  onChange={() => setTaskAction('move')}
+                />
+                別のカテゴリに移す
+              </label>
+              {taskAction === 'move' && (
+                <div className="pl-6">
+                  <Select value={moveTo} onValueChange={setMoveTo}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNCATEGORIZED_VALUE}>未分類</SelectItem>
+                      {categories
+                        .filter(category => category.id !== target?.id)
+                        .map(category => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="category-task-action"
+                  checked={taskAction === 'trash'}
+                  onChange={() => setTaskAction('trash')}
+                />
+                タスクも一緒にゴミ箱に移す
+              </label>
+            </div>
+
+            <p className="text-xs text-gray-500">ゴミ箱からカテゴリを復元すると、一緒に移したタスクも戻ります。</p>
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setTarget(null)} disabled={deleting}>
+                キャンセル
+              </Button>
+              <Button variant="destructive" onClick={confirmDelete} disabled={deleting}>
+                {deleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                削除する
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,322 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Circle,
+  Loader2,
+  Play,
+  Plus,
+  Square,
+  Trash2,
+} from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DailyReviewDialog } from '@/components/reviews/daily-review-dialog'
+import { useDailyLog } from '@/hooks/use-daily-log'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import { getZonedParts, shiftDateKey } from '@/lib/timezone'
+import { DailyLogItem } from '@/types/daily-log'
+import { TaskStatus, TaskWithCategory, TASK_STATUS_CONFIG, formatDuration } from '@/types/tasks'
+
+interface DailyLogViewProps {
+  // 予定に追加できるタスクの候補
+  tasks: TaskWithCategory[]
+  activeTimerId?: string
+  onStartTimer: (taskId: string) => Promise<void>
+  onStopTimer: (taskId: string) => Promise<void>
+  onStatusChange: (taskId: string, status: TaskStatus) => Promise<void>
+  // 日次レビューで残ったタスクを移したりキャンセルしたりした後に呼ばれる
+  onReviewSaved?: () => void
+}
+
+// ユーザーのタイムゾーンでの時刻（HH:mm）
+function formatClock(value: string | null, timeZone: string): string {
+  if (!value) return '-'
+  const { hour, minute } = getZonedParts(new Date(value), timeZone)
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+function formatPlanDate(date: string): string {
+  return format(new Date(`${date}T00:00:00`), 'yyyy年M月d日(E)', { locale: ja })
+}
+
+export function DailyLogView({
+  tasks,
+  activeTimerId,
+  onStartTimer,
+  onStopTimer,
+  onStatusChange,
+  onReviewSaved,
+}: DailyLogViewProps) {
+  const [date, setDate] = useState<string | undefined>()
+  const { log, loading, error, addTask, removeTask, reorder, carryOver, refetch } = useDailyLog(date)
+  const { showSuccess } = useToastEnhanced()
+  const [taskToAdd, setTaskToAdd] = useState('')
+  const [reviewOpen, setReviewOpen] = useState(false)
+  const timerIdRef = useRef(activeTimerId)
+
+  // タイマーの開始・停止で実績と予測が変わる
+  useEffect(() => {
+    if (timerIdRef.current === activeTimerId) return
+    timerIdRef.current = activeTimerId
+    refetch()
+  }, [activeTimerId, refetch])
+
+  if (!log) {
+    return (
+      <div className="flex justify-center py-12">
+        {loading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        ) : (
+          <p className="text-sm text-gray-500">デイリーログを読み込めませんでした</p>
+        )}
+      </div>
+    )
+  }
+
+  const plannedTaskIds = new Set(log.items.map(item => item.task.id))
+  const candidates = tasks.filter(task =>
+    !plannedTaskIds.has(task.id) && task.status !== 'completed' && task.status !== 'cancelled'
+  )
+  const hasUnfinished = log.items.some(item =>
+    item.task.status !== 'completed' && item.task.status !== 'cancelled'
+  )
+
+  const handleMove = async (index: number, offset: number) => {
+    const taskIds = log.items.map(item => item.task.id)
+    const target = index + offset
+    if (target < 0 || target >= taskIds.length) return
+    ;[taskIds[index], taskIds[target]] = [taskIds[target]!, taskIds[index]!]
+    await reorder(taskIds)
+  }
+
+  const handleAdd = async () => {
+    if (!taskToAdd) return
+    const added = await addTask(taskToAdd)
+    if (added) setTaskToAdd('')
+  }
+
+  const handleToggleComplete = async (item: DailyLogItem) => {
+    if (item.is_running) await onStopTimer(item.task.id)
+    await onStatusChange(item.task.id, item.task.status === 'completed' ? 'pending' : 'completed')
+    await refetch()
+  }
+
+  const handleCarryOver = async () => {
+    const count = await carryOver()
+    if (count === null) return
+    showSuccess(count > 0 ? `${count}件のタスクを翌日に移しました` : '翌日に移すタスクはありません')
+  }
+
+  const renderItem = (item: DailyLogItem, index: number) => {
+    const isDone = item.task.status === 'completed' || item.task.status === 'cancelled'
+    const isRunning = item.task.id === activeTimerId
+
+    return (
+      <tr
+        key={item.id}
+        className={`border-b last:border-0 ${isRunning ? 'bg-blue-50' : ''} ${isDone ? 'text-gray-400' : ''}`}
+      >
+        <td className="px-2 py-2 text-center text-xs text-gray-500">{index + 1}</td>
+        <td className="px-2 py-2">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => handleToggleComplete(item)}
+              aria-label={item.task.status === 'completed' ? '未完了に戻す' : '完了にする'}
+            >
+              {item.task.status === 'completed' ? (
+                <CheckCircle className="h-4 w-4 text-green-600" />
+              ) : (
+                <Circle className="h-4 w-4 text-gray-400" />
+              )}
+            </button>
+            <span className={`font-medium ${isDone ? 'line-through' : 'text-gray-900'}`}>
+              {item.task.title}
+            </span>
+            {item.task.status !== 'completed' && item.task.status !== 'pending' && (
+              <Badge variant="outline" className="text-xs">
+                {TASK_STATUS_CONFIG[item.task.status as TaskStatus].label}
+              </Badge>
+            )}
+          </div>
+        </td>
+        <td className="px-2 py-2 text-right">
+          {item.task.estimated_minutes ? formatDuration(item.task.estimated_minutes) : '-'}
+        </td>
+        <td className="px-2 py-2 text-center">{formatClock(item.actual_start, log.time_zone)}</td>
+        <td className="px-2 py-2 text-center">
+          {item.is_running ? '計測中' : formatClock(item.actual_end, log.time_zone)}
+        </td>
+        <td className="px-2 py-2 text-right">
+          {item.actual_minutes > 0 ? formatDuration(item.actual_minutes) : '-'}
+        </td>
+        <td className="px-2 py-2 text-center text-blue-700">
+          {formatClock(item.predicted_end, log.time_zone)}
+        </td>
+        <td className="px-2 py-2">
+          <div className="flex justify-end gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => handleMove(index, -1)}
+              disabled={index === 0}
+              aria-label="上へ"
+            >
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => handleMove(index, 1)}
+              disabled={index === log.items.length - 1}
+              aria-label="下へ"
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            {log.is_today && !isDone && (
+              isRunning ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => onStopTimer(item.task.id)}
+                  aria-label="タイマー停止"
+                >
+                  <Square className="h-3 w-3 text-red-600" />
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => onStartTimer(item.task.id)}
+                  aria-label="タイマー開始"
+                >
+                  <Play className="h-3 w-3 text-blue-600" />
+                </Button>
+              )
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => removeTask(item.task.id)}
+              aria-label="予定から外す"
+            >
+              <Trash2 className="h-3 w-3 text-gray-500" />
+            </Button>
+          </div>
+        </td>
+      </tr>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setDate(shiftDateKey(log.date, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setDate(undefined)} disabled={log.is_today}>
+            今日
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setDate(shiftDateKey(log.date, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 text-lg font-semibold">{formatPlanDate(log.date)}</h2>
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleCarryOver} disabled={!hasUnfinished}>
+            未完了を翌日へ
+          </Button>
+          <Button size="sm" onClick={() => setReviewOpen(true)}>
+            日次レビュー
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="rounded-lg border bg-white p-4 shadow-sm">
+          <p className="text-sm text-gray-500">見積合計</p>
+          <p className="text-2xl font-bold">{formatDuration(log.total_estimated_minutes)}</p>
+        </div>
+        <div className="rounded-lg border bg-white p-4 shadow-sm">
+          <p className="text-sm text-gray-500">実績合計</p>
+          <p className="text-2xl font-bold">{formatDuration(log.total_actual_minutes)}</p>
+        </div>
+        <div className="rounded-lg border bg-white p-4 shadow-sm">
+          <p className="text-sm text-gray-500">終了予測</p>
+          <p className="text-2xl font-bold text-blue-700">
+            {log.is_today ? formatClock(log.predicted_finish, log.time_zone) : '-'}
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border bg-white shadow-sm">
+        {log.items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">この日の予定はありません</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="border-b bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-2 py-2 font-medium">#</th>
+                <th className="px-2 py-2 text-left font-medium">タスク</th>
+                <th className="px-2 py-2 text-right font-medium">見積</th>
+                <th className="px-2 py-2 font-medium">開始</th>
+                <th className="px-2 py-2 font-medium">終了</th>
+                <th className="px-2 py-2 text-right font-medium">実績</th>
+                <th className="px-2 py-2 font-medium">終了予測</th>
+                <th className="px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody>{log.items.map(renderItem)}</tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={taskToAdd} onValueChange={setTaskToAdd}>
+          <SelectTrigger className="flex-1" aria-label="予定に追加するタスク">
+            <SelectValue placeholder={candidates.length > 0 ? 'タスクを選択' : '追加できるタスクはありません'} />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map(task => (
+              <SelectItem key={task.id} value={task.id}>
+                {task.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleAdd} disabled={!taskToAdd}>
+          <Plus className="mr-2 h-4 w-4" />
+          予定に追加
+        </Button>
+      </div>
+
+      <DailyReviewDialog
+        open={reviewOpen}
+        onOpenChange={setReviewOpen}
+        date={log.date}
+        onSaved={() => {
+          refetch()
+          onReviewSaved?.()
+        }}
+      />
+    </div>
+  )
+}
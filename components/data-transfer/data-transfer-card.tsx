@@ -0,0 +1,51 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ImportWizardDialog } from '@/components/data-transfer/import-wizard-dialog'
+
+interface DataTransferCardProps {
+  // インポートでタスクが増えたとき
+  onImported?: () => void
+}
+
+export function DataTransferCard({ onImported }: DataTransferCardProps) {
+  const [importOpen, setImportOpen] = useState(false)
+
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h3 className="mb-2 text-lg font-semibold">エクスポート・インポート</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        タスク・カテゴリ・作業記録をファイルに書き出し、CSV・JSON や Todoist・Trello・Markdown から取り込みます
+      </p>
+
+      <div className="space-y-2">
+        <Button asChild variant="outline" className="w-full">
+          <a href="/api/export?format=json" download>
+            <Download className="mr-2 h-4 w-4" />
+            すべて（JSON）
+          </a>
+        </Button>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" className="flex-1">
+            <a href="/api/export?format=csv&dataset=tasks" download>
+              タスク（CSV）
+            </a>
+          </Button>
+          <Button asChild variant="outline" className="flex-1">
+            <a href="/api/export?format=csv&dataset=time_entries" download>
+              作業記録（CSV）
+            </a>
+          </Button>
+        </div>
+        <Button className="w-full" onClick={() => setImportOpen(true)}>
+          <Upload className="mr-2 h-4 w-4" />
+          インポート
+        </Button>
+      </div>
+
+      <ImportWizardDialog open={importOpen} onOpenChange={setImportOpen} onImported={onImported} />
+    </div>
+  )
+}
@@ -0,0 +1,403 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Download, Loader2, Upload } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useDataImport } from '@/hooks/use-data-import'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import { readImportFile } from '@/lib/data-transfer/import-file'
+import {
+  csvToImportRows,
+  CsvTable,
+  formatImportErrorCsv,
+  guessColumnMapping,
+} from '@/lib/data-transfer/import-rows'
+import {
+  IMPORT_CONSTRAINTS,
+  IMPORT_FIELD_CONFIG,
+  IMPORT_SOURCE_CONFIG,
+  ImportColumnMapping,
+  ImportDraft,
+  ImportField,
+  ImportOptions,
+  ImportRowResult,
+  ImportRowStatus,
+  ImportSource,
+} from '@/types/data-transfer'
+
+interface ImportWizardDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported?: () => void
+}
+
+type WizardStep = 'file' | 'mapping' | 'preview'
+
+// 割り当てない列を表す Select の値（空文字は Select で使えない）
+const UNMAPPED_VALUE = 'none'
+// プレビューに表示する行数
+const PREVIEW_MAX_ROWS = 100
+
+const ROW_STATUS_CONFIG: Record<ImportRowStatus, { label: string; className: string; order: number }> = {
+  error: { label: 'エラー', className: 'bg-red-100 text-red-800', order: 0 },
+  duplicate: { label: '重複', className: 'bg-amber-100 text-amber-800', order: 1 },
+  create: { label: '取り込み', className: 'bg-green-100 text-green-800', order: 2 },
+}
+
+const DEFAULT_OPTIONS: ImportOptions = {
+  create_categories: true,
+  skip_duplicates: true,
+}
+
+function downloadText(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function ImportWizardDialog({ open, onOpenChange, onImported }: ImportWizardDialogProps) {
+  const { report, loading, error, preview, commit, reset } = useDataImport()
+  const { showSuccess, showError } = useToastEnhanced()
+  const [step, setStep] = useState<WizardStep>('file')
+  const [fileName, setFileName] = useState('')
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [source, setSource] = useState<ImportSource | null>(null)
+  // 列を割り当てる CSV の場合は table と mapping、それ以外は fileDraft を使う
+  const [table, setTable] = useState<CsvTable | null>(null)
+  const [mapping, setMapping] = useState<ImportColumnMapping>({})
+  const [fileDraft, setFileDraft] = useState<ImportDraft | null>(null)
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_OPTIONS)
+
+  // 開くたびに最初の手順から始める
+  useEffect(() => {
+    if (!open) return
+    setStep('file')
+    setFileName('')
+    setFileError(null)
+    setSource(null)
+    setTable(null)
+    setMapping({})
+    setFileDraft(null)
+    setOptions(DEFAULT_OPTIONS)
+    reset()
+  }, [open, reset])
+
+  const draft = useMemo<ImportDraft | null>(() => {
+    if (fileDraft) return fileDraft
+    if (!table) return null
+    return { rows: csvToImportRows(table, mapping) }
+  }, [fileDraft, table, mapping])
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setFileError(null)
+    setSource(null)
+    setTable(null)
+    setFileDraft(null)
+    reset()
+
+    if (file.size > IMPORT_CONSTRAINTS.MAX_FILE_BYTES) {
+      setFileError('ファイルの読み込みに失敗しました（5MBまで）')
+      return
+    }
+
+    try {
+      const importFile = readImportFile(file.name, await file.text())
+      setSource(importFile.source)
+      if (importFile.source === 'taskshoot_csv') {
+        setTable(importFile.table)
+        setMapping(guessColumnMapping(importFile.table.headers))
+      } else {
+        setFileDraft(importFile.draft)
+      }
+      setStep('mapping')
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'ファイルの読み込みに失敗しました')
+    }
+  }
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === UNMAPPED_VALUE) {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+  }
+
+  const handlePreview = async () => {
+    if (!draft) return
+    const result = await preview({ ...draft, options })
+    if (result) setStep('preview')
+  }
+
+  const handleImport = async () => {
+    if (!draft) return
+    const result = await commit({ ...draft, options })
+    if (!result) {
+      showError('タスクの取り込みに失敗しました')
+      return
+    }
+
+    const notes = [
+      result.duplicates > 0 && `重複 ${result.duplicates}件`,
+      result.failed > 0 && `エラー ${result.failed}件`,
+    ].filter(Boolean)
+    showSuccess(
+      notes.length > 0
+        ? `${result.created}件のタスクを取り込みました（${notes.join('・')}は取り込んでいません）`
+        : `${result.created}件のタスクを取り込みました`
+    )
+    onImported?.()
+    onOpenChange(false)
+  }
+
+  const handleDownloadErrors = () => {
+    if (!report) return
+    downloadText(formatImportErrorCsv(report), 'taskshoot-import-errors.csv', 'text/csv')
+  }
+
+  const rowCount = draft?.rows.length ?? 0
+  const tooManyRows = rowCount > IMPORT_CONSTRAINTS.MAX_ROWS
+  const canPreview = rowCount > 0 && !tooManyRows && (fileDraft !== null || mapping.title !== undefined)
+
+  const previewRows: ImportRowResult[] = report
+    ? [...report.rows]
+      .sort((a, b) => ROW_STATUS_CONFIG[a.status].order - ROW_STATUS_CONFIG[b.status].order || a.row - b.row)
+      .slice(0, PREVIEW_MAX_ROWS)
+    : []
+
+  const renderMapping = () => table && (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        各項目に CSV の列を割り当ててください（{rowCount}行）
+      </p>
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        {(Object.entries(IMPORT_FIELD_CONFIG) as [ImportField, typeof IMPORT_FIELD_CONFIG[ImportField]][]).map(([field, config]) => (
+          <div key={field} className="space-y-1">
+            <Label className="text-xs">
+              {config.label}
+              {config.required && <span className="ml-1 text-red-600">*</span>}
+            </Label>
+            <Select
+              value={mapping[field] !== undefined ? String(mapping[field]) : UNMAPPED_VALUE}
+              onValueChange={(value) => handleMappingChange(field, value)}
+            >
+              <SelectTrigger aria-label={`${config.label}の列`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNMAPPED_VALUE}>割り当てない</SelectItem>
+                {table.headers.map((header, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {header || `${index + 1}列目`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+
+  const renderDraftSummary = () => fileDraft && source && (
+    <div className="space-y-1 text-sm text-gray-600">
+      <p>
+        {IMPORT_SOURCE_CONFIG[source].label}のファイルからタスク {fileDraft.rows.length}件・
+        カテゴリ {new Set(fileDraft.rows.map(row => row.values.category).filter(Boolean)).size}件
+        {source === 'taskshoot_json' && `・作業記録 ${fileDraft.time_entries?.length ?? 0}件`}
+        を読み込みました
+      </p>
+      {source === 'taskshoot_json' && <p>設定は取り込みません</p>}
+    </div>
+  )
+
+  const renderPreview = () => report && (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="secondary" className={ROW_STATUS_CONFIG.create.className}>
+          取り込み {report.created}件
+        </Badge>
+        <Badge variant="secondary" className={ROW_STATUS_CONFIG.duplicate.className}>
+          重複 {report.duplicates}件
+        </Badge>
+        <Badge variant="secondary" className={ROW_STATUS_CONFIG.error.className}>
+          エラー {report.failed}件
+        </Badge>
+      </div>
+
+      {report.categories_created.length > 0 && (
+        <p className="text-sm text-gray-600">
+          作成するカテゴリ: {report.categories_created.join('、')}
+        </p>
+      )}
+
+      <div className="max-h-[40vh] overflow-y-auto rounded border">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-50 text-left text-xs text-gray-500">
+            <tr>
+              <th className="px-2 py-1">行</th>
+              <th className="px-2 py-1">タイトル</th>
+              <th className="px-2 py-1">結果</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {previewRows.map(row => (
+              <tr key={row.row} className="align-top">
+                <td className="px-2 py-1 text-gray-500">{row.row}</td>
+                <td className="px-2 py-1">
+                  <div className="font-medium">{row.title || '（タイトルなし）'}</div>
+                  {row.errors.map((fieldError, index) => (
+                    <div key={index} className="text-xs text-red-600">
+                      {fieldError.field in IMPORT_FIELD_CONFIG
+                        ? `${IMPORT_FIELD_CONFIG[fieldError.field as ImportField].label}: ${fieldError.message}`
+                        : fieldError.message}
+                    </div>
+                  ))}
+                  {row.duplicate_of && (
+                    <div className="text-xs text-amber-700">
+                      {'row' in row.duplicate_of
+                        ? `${row.duplicate_of.row}行目と同じタスクです`
+                        : '既存のタスクと同じタスクです'}
+                    </div>
+                  )}
+                </td>
+                <td className="px-2 py-1">
+                  <Badge variant="secondary" className={ROW_STATUS_CONFIG[row.status].className}>
+                    {ROW_STATUS_CONFIG[row.status].label}
+                  </Badge>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {report.rows.length > PREVIEW_MAX_ROWS && (
+        <p className="text-xs text-gray-500">
+          先頭の{PREVIEW_MAX_ROWS}行を表示しています（エラー・重複の行から順に表示）
+        </p>
+      )}
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>タスクをインポート</DialogTitle>
+          <DialogDescription>
+            CSV・エクスポートした JSON、Todoist・Trello のエクスポート、Markdown のチェックリストからタスクを取り込みます。取り込む前に結果を確認できます。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {step === 'file' && (
+            <div className="space-y-2">
+              <Label htmlFor="data-import-file">ファイル</Label>
+              <label
+                htmlFor="data-import-file"
+                className="flex cursor-pointer items-center gap-2 rounded-md border border-dashed p-3 text-sm text-gray-600 hover:bg-gray-50"
+              >
+                <Upload className="h-4 w-4" />
+                {fileName || '.csv / .json / .md ファイルを選択'}
+              </label>
+              <input
+                id="data-import-file"
+                type="file"
+                accept=".csv,.json,.md,.markdown,.txt,text/csv,application/json,text/markdown,text/plain"
+                className="hidden"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+              {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+            </div>
+          )}
+
+          {step === 'mapping' && (
+            <>
+              {renderMapping()}
+              {renderDraftSummary()}
+
+              {tooManyRows && (
+                <p className="text-sm text-red-600">
+                  一度に取り込めるのは{IMPORT_CONSTRAINTS.MAX_ROWS}件までです（{rowCount}件）
+                </p>
+              )}
+
+              <div className="space-y-1">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={options.create_categories}
+                    onChange={(e) => setOptions(prev => ({ ...prev, create_categories: e.target.checked }))}
+                  />
+                  見つからないカテゴリを作成する
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={options.skip_duplicates}
+                    onChange={(e) => setOptions(prev => ({ ...prev, skip_duplicates: e.target.checked }))}
+                  />
+                  タイトル・開始日時・期限が同じタスクは取り込まない
+                </label>
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && renderPreview()}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div>
+            {step !== 'file' && (
+              <Button variant="ghost" onClick={() => setStep(step === 'preview' ? 'mapping' : 'file')} disabled={loading}>
+                戻る
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {step === 'preview' && report && report.failed > 0 && (
+              <Button variant="outline" onClick={handleDownloadErrors}>
+                <Download className="mr-2 h-4 w-4" />
+                エラーをダウンロード
+              </Button>
+            )}
+            {step === 'mapping' && (
+              <Button onClick={handlePreview} disabled={!canPreview || loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                確認する
+              </Button>
+            )}
+            {step === 'preview' && (
+              <Button onClick={handleImport} disabled={loading || !report || report.created === 0}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {report?.created ?? 0}件を取り込む
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
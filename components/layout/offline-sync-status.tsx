@@ -0,0 +1,53 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { CloudOff, Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useOfflineSync } from '@/hooks/use-offline-sync'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+
+/**
+ * オフライン中・送信待ちの変更があるときの表示と、送信結果（衝突・失敗）の通知
+ */
+export function OfflineSyncStatus() {
+  const { online, pending, syncing, lastResult, sync } = useOfflineSync()
+  const { showWarning, showError } = useToastEnhanced()
+  // 送信結果ごとに1回だけ通知する
+  const notifiedRef = useRef(lastResult)
+
+  useEffect(() => {
+    if (!lastResult || lastResult === notifiedRef.current) return
+    notifiedRef.current = lastResult
+
+    for (const conflict of lastResult.conflicts) {
+      showWarning(
+        `「${conflict.title}」は他の端末で変更されていたため、この端末での${conflict.kind === 'delete' ? '削除' : '変更'}は反映されませんでした`,
+        { title: '変更が衝突しました', duration: 8000 }
+      )
+    }
+    if (lastResult.failures.length > 0) {
+      showError(`${lastResult.failures.length}件の変更を反映できませんでした: ${lastResult.failures[0]!.message}`)
+    }
+  }, [lastResult, showWarning, showError])
+
+  if (online && pending === 0) return null
+
+  return (
+    <div className="border-b bg-amber-50 px-4 py-2 text-sm text-amber-800">
+      <div className="mx-auto flex max-w-7xl items-center gap-2">
+        <CloudOff className="h-4 w-4 shrink-0" />
+        <span className="flex-1">
+          {online
+            ? `未送信の変更が${pending}件あります`
+            : `オフラインです。変更はこの端末に保存され、接続が戻ったら反映されます${pending > 0 ? `（未送信 ${pending}件）` : ''}`}
+        </span>
+        {online && (
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => sync()} disabled={syncing}>
+            {syncing ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RefreshCw className="mr-1 h-3 w-3" />}
+            今すぐ送信
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
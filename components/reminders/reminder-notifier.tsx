@@ -0,0 +1,11 @@
+'use client'
+
+import { useReminderNotifications } from '@/hooks/use-reminders'
+
+/**
+ * アプリ内の通知をトーストで表示する（画面には何も描画しない）
+ */
+export function ReminderNotifier() {
+  useReminderNotifications()
+  return null
+}
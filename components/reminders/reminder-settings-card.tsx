@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useReminderSettings } from '@/hooks/use-reminders'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import { formatReminderOffset } from '@/lib/reminders/schedule'
+import {
+  REMINDER_ANCHOR_CONFIG,
+  REMINDER_CHANNEL_CONFIG,
+  REMINDER_CONSTRAINTS,
+  REMINDER_OFFSET_OPTIONS,
+  ReminderAnchor,
+  ReminderChannelName,
+  ReminderPolicy,
+} from '@/types/reminders'
+
+const OFFSET_FIELDS: Record<ReminderAnchor, 'start_offsets' | 'due_offsets'> = {
+  start: 'start_offsets',
+  due: 'due_offsets',
+}
+
+/**
+ * 既定の通知設定（個別の通知がないタスクに適用する）
+ */
+export function ReminderSettingsCard() {
+  const {
+    settings,
+    pushSupported,
+    pushSubscribed,
+    loading,
+    updating,
+    updatePolicy,
+    subscribePush,
+    unsubscribePush,
+  } = useReminderSettings()
+  const { showSuccess, showError } = useToastEnhanced()
+  const [draft, setDraft] = useState<ReminderPolicy | null>(null)
+
+  useEffect(() => {
+    if (settings) setDraft(settings.policy)
+  }, [settings])
+
+  const toggleOffset = (anchor: ReminderAnchor, minutes: number) => {
+    setDraft(prev => {
+      if (!prev) return prev
+      const field = OFFSET_FIELDS[anchor]
+      const offsets = prev[field].includes(minutes)
+        ? prev[field].filter(offset => offset !== minutes)
+        : [...prev[field], minutes].sort((a, b) => b - a)
+      return { ...prev, [field]: offsets }
+    })
+  }
+
+  const toggleChannel = (channel: ReminderChannelName, checked: boolean) => {
+    setDraft(prev => prev && {
+      ...prev,
+      channels: checked ? [...prev.channels, channel] : prev.channels.filter(item => item !== channel),
+    })
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    if (await updatePolicy(draft)) {
+      showSuccess('通知設定を保存しました')
+    } else {
+      showError('通知設定の保存に失敗しました')
+    }
+  }
+
+  const handlePushToggle = async () => {
+    if (pushSubscribed) {
+      if (!(await unsubscribePush())) showError('ブラウザの通知を解除できませんでした')
+      return
+    }
+    if (await subscribePush()) {
+      showSuccess('このブラウザで通知を受け取ります')
+    } else {
+      showError('ブラウザの通知を登録できませんでした。通知が許可されているか確認してください')
+    }
+  }
+
+  const webPushAvailable = Boolean(settings?.available_channels.includes('web_push'))
+
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h3 className="mb-2 text-lg font-semibold">通知設定</h3>
+
+      {loading || !settings || !draft ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+            />
+            個別の通知がないタスクも通知する
+          </label>
+
+          {(Object.keys(OFFSET_FIELDS) as ReminderAnchor[]).map(anchor => {
+            const selected = draft[OFFSET_FIELDS[anchor]]
+            return (
+              <div key={anchor} className="space-y-1">
+                <p className="text-xs text-gray-500">
+                  {REMINDER_ANCHOR_CONFIG[anchor].label}の何分前（{REMINDER_CONSTRAINTS.MAX_OFFSETS_PER_ANCHOR}つまで）
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {REMINDER_OFFSET_OPTIONS.map(minutes => {
+                    const active = selected.includes(minutes)
+                    return (
+                      <Button
+                        key={minutes}
+                        type="button"
+                        size="sm"
+                        variant={active ? 'default' : 'outline'}
+                        className="h-7 px-2 text-xs"
+                        disabled={!draft.enabled || (!active && selected.length >= REMINDER_CONSTRAINTS.MAX_OFFSETS_PER_ANCHOR)}
+                        onClick={() => toggleOffset(anchor, minutes)}
+                        aria-pressed={active}
+                      >
+                        {minutes === 0 ? 'ちょうど' : formatReminderOffset(minutes)}
+                      </Button>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
+
+          <div className="space-y-1">
+            <p className="text-xs text-gray-500">通知方法</p>
+            {(Object.keys(REMINDER_CHANNEL_CONFIG) as ReminderChannelName[]).map(channel => {
+              const available = settings.available_channels.includes(channel)
+              return (
+                <label key={channel} className={`flex items-center gap-2 text-sm ${available ? '' : 'text-gray-400'}`}>
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={draft.channels.includes(channel)}
+                    disabled={!available}
+                    onChange={(e) => toggleChannel(channel, e.target.checked)}
+                  />
+                  {REMINDER_CHANNEL_CONFIG[channel].label}
+                  {!available && <span className="text-xs">（未設定）</span>}
+                </label>
+              )
+            })}
+          </div>
+
+          {webPushAvailable && pushSupported && (
+            <Button variant="outline" className="w-full" onClick={handlePushToggle} disabled={updating}>
+              {pushSubscribed ? 'このブラウザでの通知を解除' : 'このブラウザで通知を受け取る'}
+            </Button>
+          )}
+
+          <Button className="w-full" onClick={handleSave} disabled={updating || draft.channels.length === 0}>
+            {updating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            保存
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
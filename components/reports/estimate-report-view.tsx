@@ -0,0 +1,267 @@
+'use client'
+
+import { useState } from 'react'
+import { format, subDays } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useEstimateReport } from '@/hooks/use-reports'
+import { CategoryTime, EstimateGroup, EstimateSummary, ESTIMATE_TENDENCY_CONFIG, TaskEstimate } from '@/types/reports'
+import { formatDuration } from '@/types/tasks'
+
+const RANGE_PRESETS = [
+  { days: 7, label: '1週間' },
+  { days: 28, label: '4週間' },
+  { days: 90, label: '3か月' },
+] as const
+
+// 一覧に表示する誤差の大きいタスクの件数
+const TASK_LIMIT = 20
+
+function formatSignedDuration(minutes: number): string {
+  if (minutes === 0) return '±0分'
+  return `${minutes > 0 ? '+' : '-'}${formatDuration(Math.abs(minutes))}`
+}
+
+function formatPercent(rate: number | null): string {
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`
+}
+
+function formatWeekLabel(key: string): string {
+  return `${format(new Date(`${key}T00:00:00`), 'M月d日', { locale: ja })}〜`
+}
+
+function TendencyLabel({ summary }: { summary: EstimateSummary }) {
+  if (!summary.tendency) return <span className="text-gray-400">-</span>
+  const config = ESTIMATE_TENDENCY_CONFIG[summary.tendency]
+  return <span style={{ color: config.textColor }}>{config.label}</span>
+}
+
+function EstimateGroupTable({
+  title,
+  groups,
+  formatLabel,
+}: {
+  title: string
+  groups: EstimateGroup[]
+  formatLabel?: (group: EstimateGroup) => string
+}) {
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h3 className="mb-4 text-lg font-semibold">{title}</h3>
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-500">データがありません</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b text-xs text-gray-500">
+              <tr>
+                <th className="py-2 text-left font-medium">名前</th>
+                <th className="py-2 text-right font-medium">件数</th>
+                <th className="py-2 text-right font-medium">見積</th>
+                <th className="py-2 text-right font-medium">実績</th>
+                <th className="py-2 text-right font-medium">差</th>
+                <th className="py-2 text-right font-medium">平均誤差率</th>
+                <th className="py-2 text-right font-medium">傾向</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <tr key={group.key} className="border-b last:border-0">
+                  <td className="py-2">
+                    <div className="flex items-center gap-2">
+                      {group.color && (
+                        <span className="h-3 w-3 rounded-full" style={{ backgroundColor: group.color }} />
+                      )}
+                      {formatLabel ? formatLabel(group) : group.label}
+                    </div>
+                  </td>
+                  <td className="py-2 text-right">{group.task_count}</td>
+                  <td className="py-2 text-right">{formatDuration(group.estimated_minutes)}</td>
+                  <td className="py-2 text-right">{formatDuration(group.actual_minutes)}</td>
+                  <td className="py-2 text-right">{formatSignedDuration(group.difference_minutes)}</td>
+                  <td className="py-2 text-right">{formatPercent(group.mean_absolute_error_rate)}</td>
+                  <td className="py-2 text-right"><TendencyLabel summary={group} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function CategoryTimeChart({ times, total }: { times: CategoryTime[]; total: number }) {
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h3 className="mb-4 text-lg font-semibold">カテゴリ別の作業時間</h3>
+      {times.length === 0 ? (
+        <p className="text-sm text-gray-500">期間中の作業記録がありません</p>
+      ) : (
+        <div className="space-y-3">
+          {times.map(time => (
+            <div key={time.category_id ?? 'none'}>
+              <div className="mb-1 flex justify-between text-sm">
+                <span>{time.name}</span>
+                <span className="text-gray-600">
+                  {formatDuration(time.minutes)}（{formatPercent(total > 0 ? time.minutes / total : 0)}）
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-100">
+                <div
+                  className="h-2 rounded-full"
+                  style={{
+                    width: `${total > 0 ? (time.minutes / total) * 100 : 0}%`,
+                    backgroundColor: time.color ?? '#9CA3AF',
+                  }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function TaskEstimateTable({ tasks }: { tasks: TaskEstimate[] }) {
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h3 className="mb-4 text-lg font-semibold">誤差の大きいタスク</h3>
+      {tasks.length === 0 ? (
+        <p className="text-sm text-gray-500">データがありません</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b text-xs text-gray-500">
+              <tr>
+                <th className="py-2 text-left font-medium">タスク</th>
+                <th className="py-2 text-left font-medium">完了日</th>
+                <th className="py-2 text-right font-medium">見積</th>
+                <th className="py-2 text-right font-medium">実績</th>
+                <th className="py-2 text-right font-medium">差</th>
+                <th className="py-2 text-right font-medium">誤差率</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tasks.slice(0, TASK_LIMIT).map(task => (
+                <tr key={task.task_id} className="border-b last:border-0">
+                  <td className="py-2">
+                    <div className="font-medium text-gray-900">{task.title}</div>
+                    {task.category_name && (
+                      <div className="text-xs text-gray-500">{task.category_name}</div>
+                    )}
+                  </td>
+                  <td className="py-2">{format(new Date(task.completed_at), 'M月d日', { locale: ja })}</td>
+                  <td className="py-2 text-right">{formatDuration(task.estimated_minutes)}</td>
+                  <td className="py-2 text-right">{formatDuration(task.actual_minutes)}</td>
+                  <td className={`py-2 text-right ${task.difference_minutes > 0 ? 'text-red-700' : 'text-blue-700'}`}>
+                    {formatSignedDuration(task.difference_minutes)}
+                  </td>
+                  <td className="py-2 text-right">{formatPercent(task.error_rate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function EstimateReportView() {
+  const [range, setRange] = useState<{ from?: string; to?: string }>({})
+  const { report, loading, error } = useEstimateReport(range.from, range.to)
+
+  const applyPreset = (days: number) => {
+    const today = new Date()
+    setRange({
+      from: format(subDays(today, days - 1), 'yyyy-MM-dd'),
+      to: format(today, 'yyyy-MM-dd'),
+    })
+  }
+
+  const summary = report?.summary
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        {RANGE_PRESETS.map(preset => (
+          <Button key={preset.days} variant="outline" size="sm" onClick={() => applyPreset(preset.days)}>
+            {preset.label}
+          </Button>
+        ))}
+        <div>
+          <Label htmlFor="report-from" className="text-xs">開始日</Label>
+          <Input
+            id="report-from"
+            type="date"
+            value={range.from ?? report?.from ?? ''}
+            onChange={event => setRange(prev => ({ ...prev, from: event.target.value || undefined }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="report-to" className="text-xs">終了日</Label>
+          <Input
+            id="report-to"
+            type="date"
+            value={range.to ?? report?.to ?? ''}
+            onChange={event => setRange(prev => ({ ...prev, to: event.target.value || undefined }))}
+          />
+        </div>
+        {loading && <Loader2 className="mb-3 h-4 w-4 animate-spin text-gray-400" />}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {summary && report && (
+        <>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            <div className="rounded-lg border bg-white p-4 shadow-sm">
+              <p className="text-sm text-gray-500">見積合計</p>
+              <p className="text-2xl font-bold">{formatDuration(summary.estimated_minutes)}</p>
+              <p className="text-xs text-gray-500">{summary.task_count}件の完了タスク</p>
+            </div>
+            <div className="rounded-lg border bg-white p-4 shadow-sm">
+              <p className="text-sm text-gray-500">実績合計</p>
+              <p className="text-2xl font-bold">{formatDuration(summary.actual_minutes)}</p>
+              <p className="text-xs text-gray-500">差 {formatSignedDuration(summary.difference_minutes)}</p>
+            </div>
+            <div className="rounded-lg border bg-white p-4 shadow-sm">
+              <p className="text-sm text-gray-500">平均誤差</p>
+              <p className="text-2xl font-bold">{formatDuration(summary.mean_absolute_error_minutes)}</p>
+              <p className="text-xs text-gray-500">誤差率 {formatPercent(summary.mean_absolute_error_rate)}</p>
+            </div>
+            <div className="rounded-lg border bg-white p-4 shadow-sm">
+              <p className="text-sm text-gray-500">見積もりの傾向</p>
+              <p className="text-2xl font-bold"><TendencyLabel summary={summary} /></p>
+              <p className="text-xs text-gray-500">
+                実績 / 見積 {formatPercent(summary.bias_ratio)}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <CategoryTimeChart times={report.time_by_category} total={report.total_tracked_minutes} />
+            <EstimateGroupTable
+              title="週ごとの見積もり精度"
+              groups={report.by_week}
+              formatLabel={group => formatWeekLabel(group.key)}
+            />
+          </div>
+
+          <EstimateGroupTable title="カテゴリ別の見積もり精度" groups={report.by_category} />
+          <EstimateGroupTable title="タグ別の見積もり精度" groups={report.by_tag} />
+          <TaskEstimateTable tasks={report.tasks} />
+
+          <p className="text-xs text-gray-500">
+            見積もり精度は期間中に完了し、見積もりと実績の両方があるタスクで集計しています。
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
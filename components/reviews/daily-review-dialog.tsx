@@ -0,0 +1,257 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { useDailyReview } from '@/hooks/use-reviews'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import { shiftDateKey } from '@/lib/timezone'
+import { ESTIMATE_TENDENCY_CONFIG } from '@/types/reports'
+import {
+  LeftoverAction,
+  LeftoverActionType,
+  LEFTOVER_ACTION_LABELS,
+  MOOD_LABELS,
+  REVIEW_CONSTRAINTS,
+} from '@/types/reviews'
+import { TaskWithCategory, formatDuration } from '@/types/tasks'
+
+interface DailyReviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // 省略時は今日
+  date?: string
+  // 残ったタスクを移したりキャンセルしたりした後に呼ばれる
+  onSaved?: () => void
+}
+
+type ActionDraft = { action: LeftoverActionType; date: string }
+
+export function DailyReviewDialog({ open, onOpenChange, date, onSaved }: DailyReviewDialogProps) {
+  const { summary, loading, saving, error, saveReview } = useDailyReview(date, open)
+  const { showSuccess } = useToastEnhanced()
+  const [notes, setNotes] = useState('')
+  const [mood, setMood] = useState<number | null>(null)
+  const [score, setScore] = useState('')
+  const [actions, setActions] = useState<Record<string, ActionDraft>>({})
+
+  // 保存済みのレビューがあれば入力欄に反映する
+  useEffect(() => {
+    if (!summary) return
+    setNotes(summary.review?.notes ?? '')
+    setMood(summary.review?.mood ?? null)
+    setScore(summary.review?.score != null ? String(summary.review.score) : '')
+    setActions({})
+  }, [summary])
+
+  const getAction = (taskId: string): ActionDraft =>
+    actions[taskId] ?? { action: 'keep', date: summary ? shiftDateKey(summary.date, 1) : '' }
+
+  const updateAction = (taskId: string, updates: Partial<ActionDraft>) => {
+    setActions(prev => ({ ...prev, [taskId]: { ...getAction(taskId), ...updates } }))
+  }
+
+  const handleSave = async () => {
+    const leftoverActions: LeftoverAction[] = Object.entries(actions)
+      .filter(([, draft]) => draft.action !== 'keep')
+      .map(([taskId, draft]) => ({
+        task_id: taskId,
+        action: draft.action,
+        ...(draft.action === 'reschedule' ? { date: draft.date } : {}),
+      }))
+
+    const review = await saveReview({
+      notes,
+      mood,
+      score: score === '' ? null : Number(score),
+      actions: leftoverActions,
+    })
+    if (!review) return
+
+    showSuccess('レビューを保存しました')
+    if (leftoverActions.length > 0) onSaved?.()
+    onOpenChange(false)
+  }
+
+  const renderLeftover = (task: TaskWithCategory) => {
+    const draft = getAction(task.id)
+    return (
+      <div key={task.id} className="flex flex-wrap items-center gap-2 rounded border p-2">
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-medium text-gray-900">{task.title}</div>
+          {task.due_date && (
+            <div className="text-xs text-gray-500">
+              期限 {format(new Date(task.due_date), 'M月d日 HH:mm', { locale: ja })}
+            </div>
+          )}
+        </div>
+        <Select
+          value={draft.action}
+          onValueChange={value => updateAction(task.id, { action: value as LeftoverActionType })}
+        >
+          <SelectTrigger className="w-32" aria-label={`${task.title}の扱い`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(LEFTOVER_ACTION_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {draft.action === 'reschedule' && (
+          <Input
+            type="date"
+            className="w-40"
+            value={draft.date}
+            onChange={event => updateAction(task.id, { date: event.target.value })}
+            aria-label={`${task.title}の移動先`}
+          />
+        )}
+      </div>
+    )
+  }
+
+  const estimate = summary?.estimate
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>日次レビュー</DialogTitle>
+          <DialogDescription>
+            {summary
+              ? `${format(new Date(`${summary.date}T00:00:00`), 'yyyy年M月d日(E)', { locale: ja })}の振り返り`
+              : '今日の振り返り'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !summary ? (
+          <div className="flex justify-center py-8">
+            {loading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            ) : (
+              <p className="text-sm text-red-600">{error ?? 'レビューを読み込めませんでした'}</p>
+            )}
+          </div>
+        ) : (
+          <div className="max-h-[65vh] space-y-5 overflow-y-auto pr-1">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="rounded border p-3">
+                <p className="text-xs text-gray-500">予定の完了</p>
+                <p className="text-xl font-bold">
+                  {summary.completed_count} / {summary.planned_count}
+                </p>
+                {summary.unplanned_completed.length > 0 && (
+                  <p className="text-xs text-gray-500">予定外の完了 {summary.unplanned_completed.length}件</p>
+                )}
+              </div>
+              <div className="rounded border p-3">
+                <p className="text-xs text-gray-500">見積 / 実績</p>
+                <p className="text-xl font-bold">
+                  {estimate && estimate.task_count > 0
+                    ? `${formatDuration(estimate.estimated_minutes)} / ${formatDuration(estimate.actual_minutes)}`
+                    : '-'}
+                </p>
+              </div>
+              <div className="rounded border p-3">
+                <p className="text-xs text-gray-500">見積もりの傾向</p>
+                <p
+                  className="text-xl font-bold"
+                  style={{ color: estimate?.tendency ? ESTIMATE_TENDENCY_CONFIG[estimate.tendency].textColor : undefined }}
+                >
+                  {estimate?.tendency ? ESTIMATE_TENDENCY_CONFIG[estimate.tendency].label : '-'}
+                </p>
+              </div>
+            </div>
+
+            {summary.leftovers.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">終わらなかったタスク（{summary.leftovers.length}件）</h4>
+                {summary.leftovers.map(renderLeftover)}
+              </div>
+            )}
+
+            {summary.overdue_untouched.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">
+                  期限切れで手付かずのタスク（{summary.overdue_untouched.length}件）
+                </h4>
+                {summary.overdue_untouched.map(renderLeftover)}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>今日の気分</Label>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(MOOD_LABELS).map(([value, label]) => (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="sm"
+                    variant={mood === Number(value) ? 'default' : 'outline'}
+                    onClick={() => setMood(mood === Number(value) ? null : Number(value))}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="review-score">自己評価（{REVIEW_CONSTRAINTS.SCORE_MIN}〜{REVIEW_CONSTRAINTS.SCORE_MAX}点）</Label>
+              <Input
+                id="review-score"
+                type="number"
+                min={REVIEW_CONSTRAINTS.SCORE_MIN}
+                max={REVIEW_CONSTRAINTS.SCORE_MAX}
+                className="w-32"
+                value={score}
+                onChange={event => setScore(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="review-notes">振り返りメモ</Label>
+              <Textarea
+                id="review-notes"
+                rows={4}
+                maxLength={REVIEW_CONSTRAINTS.NOTES_MAX_LENGTH}
+                value={notes}
+                onChange={event => setNotes(event.target.value)}
+                placeholder="うまくいったこと・次に改善したいこと"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            閉じる
+          </Button>
+          <Button onClick={handleSave} disabled={!summary || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            レビューを保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
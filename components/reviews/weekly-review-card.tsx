@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useWeeklyReview } from '@/hooks/use-reviews'
+import { shiftDateKey } from '@/lib/timezone'
+import { MOOD_LABELS } from '@/types/reviews'
+import { formatDuration } from '@/types/tasks'
+
+function formatDay(date: string, pattern: string): string {
+  return format(new Date(`${date}T00:00:00`), pattern, { locale: ja })
+}
+
+export function WeeklyReviewCard() {
+  const [weekStart, setWeekStart] = useState<string | undefined>()
+  const { review, loading, error } = useWeeklyReview(weekStart)
+
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-lg font-semibold">週次レビュー</h3>
+        {review && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => setWeekStart(shiftDateKey(review.week_start, -7))}
+              aria-label="前の週"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => setWeekStart(shiftDateKey(review.week_start, 7))}
+              aria-label="次の週"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {loading && !review ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : !review ? (
+        <p className="text-sm text-red-600">{error ?? '週次レビューを読み込めませんでした'}</p>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <p className="text-gray-600">
+            {formatDay(review.week_start, 'M月d日')}〜{formatDay(review.week_end, 'M月d日')}
+            （レビュー {review.reviewed_days}日）
+          </p>
+
+          {review.reviewed_days === 0 ? (
+            <p className="text-gray-500">この週のレビューはまだありません</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <p className="text-xs text-gray-500">予定の完了率</p>
+                  <p className="font-semibold">
+                    {review.completion_rate}%（{review.completed_count} / {review.planned_count}）
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">見積 / 実績</p>
+                  <p className="font-semibold">
+                    {formatDuration(review.estimated_minutes)} / {formatDuration(review.actual_minutes)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">平均の気分</p>
+                  <p className="font-semibold">
+                    {review.average_mood !== null
+                      ? `${review.average_mood}（${MOOD_LABELS[Math.round(review.average_mood)]}）`
+                      : '-'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">平均の自己評価</p>
+                  <p className="font-semibold">
+                    {review.average_score !== null ? `${review.average_score}点` : '-'}
+                  </p>
+                </div>
+              </div>
+
+              <ul className="space-y-1 border-t pt-2">
+                {review.reviews.map(daily => (
+                  <li key={daily.id} className="flex justify-between gap-2">
+                    <span className="text-gray-600">{formatDay(daily.review_date, 'd日(E)')}</span>
+                    <span className="truncate text-gray-900">
+                      {daily.notes || `${daily.completed_count} / ${daily.planned_count} 完了`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Card, CardContent } from '@/components/ui/card'
+import { CalendarClock, Loader2, Tag, Trash2, X } from 'lucide-react'
+import { BulkTaskOperation, TaskPriority, TaskStatus, TASK_BULK_CONSTRAINTS } from '@/types/tasks'
+import { PRIORITY_OPTIONS, STATUS_OPTIONS } from '@/lib/constants/task-options'
+import { useCategories } from '@/hooks/use-tasks'
+
+interface TaskBulkActionBarProps {
+  selectedCount: number
+  onApply: (operation: BulkTaskOperation) => Promise<boolean>
+  onClearSelection: () => void
+  className?: string
+}
+
+// カテゴリなしを表す Select の値（空文字は Select で使えない）
+const NO_CATEGORY_VALUE = 'none'
+
+function parseTags(value: string): string[] {
+  return value.split(',').map(tag => tag.trim()).filter(Boolean)
+}
+
+export function TaskBulkActionBar({
+  selectedCount,
+  onApply,
+  onClearSelection,
+  className = ''
+}: TaskBulkActionBarProps) {
+  const { categories } = useCategories()
+  const [applying, setApplying] = useState(false)
+  const [tagInput, setTagInput] = useState('')
+  const [shiftDays, setShiftDays] = useState('1')
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+
+  const apply = async (operation: BulkTaskOperation) => {
+    setApplying(true)
+    try {
+      return await onApply(operation)
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const handleTags = async (type: 'add_tags' | 'remove_tags') => {
+    const tags = parseTags(tagInput)
+    if (tags.length === 0) return
+    if (await apply({ type, tags })) setTagInput('')
+  }
+
+  const days = Number(shiftDays)
+  const isValidShift = Number.isInteger(days) && days !== 0 && Math.abs(days) <= TASK_BULK_CONSTRAINTS.MAX_SHIFT_DAYS
+
+  const confirmDelete = async () => {
+    if (await apply({ type: 'delete' })) setDeleteDialogOpen(false)
+  }
+
+  return (
+    <Card className={`border-blue-200 bg-blue-50 ${className}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">
+            {selectedCount}件を選択中
+            {applying && <Loader2 className="inline h-4 w-4 ml-2 animate-spin" />}
+          </p>
+          <Button variant="ghost" size="sm" onClick={onClearSelection} disabled={applying}>
+            <X className="h-4 w-4 mr-1" />
+            選択を解除
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Select
+            value=""
+            disabled={applying}
+            onValueChange={(value) => apply({ type: 'set_status', status: value as TaskStatus })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="ステータスを変更" />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.icon} {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value=""
+            disabled={applying}
+            onValueChange={(value) => apply({ type: 'set_priority', priority: value as TaskPriority })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="優先度を変更" />
+            </SelectTrigger>
+            <SelectContent>
+              {PRIORITY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.icon} {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value=""
+            disabled={applying}
+            onValueChange={(value) => apply({
+              type: 'move_category',
+              category_id: value === NO_CATEGORY_VALUE ? null : value
+            })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="カテゴリを移動" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_CATEGORY_VALUE}>カテゴリなし</SelectItem>
+              {categories.map(category => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <div className="flex flex-1 gap-2">
+            <Input
+              placeholder="タグ（カンマ区切り）"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              disabled={applying}
+            />
+            <Button
+              variant="outline"
+              onClick={() => handleTags('add_tags')}
+              disabled={applying || parseTags(tagInput).length === 0}
+            >
+              <Tag className="h-4 w-4 mr-1" />
+              追加
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleTags('remove_tags')}
+              disabled={applying || parseTags(tagInput).length === 0}
+            >
+              外す
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              className="w-24"
+              value={shiftDays}
+              min={-TASK_BULK_CONSTRAINTS.MAX_SHIFT_DAYS}
+              max={TASK_BULK_CONSTRAINTS.MAX_SHIFT_DAYS}
+              onChange={(e) => setShiftDays(e.target.value)}
+              disabled={applying}
+            />
+            <Button
+              variant="outline"
+              onClick={() => apply({ type: 'shift_dates', days })}
+              disabled={applying || !isValidShift}
+            >
+              <CalendarClock className="h-4 w-4 mr-1" />
+              日付をずらす
+            </Button>
+          </div>
+
+          <Button variant="destructive" onClick={() => setDeleteDialogOpen(true)} disabled={applying}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            削除
+          </Button>
+        </div>
+      </CardContent>
+
+      {/* 一括削除の確認ダイアログ */}
+      <Dialog open={deleteDialogOpen} onOpenChange={(open) => !applying && setDeleteDialogOpen(open)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>選択したタスクを削除</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              選択した{selectedCount}件のタスクをゴミ箱に移しますか？
+              ゴミ箱から復元できます。
+            </p>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setDeleteDialogOpen(false)} disabled={applying}>
+                キャンセル
+              </Button>
+              <Button variant="destructive" onClick={confirmDelete} disabled={applying}>
+                {applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                削除する
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -21,9 +21,23 @@ import {
   Pause, 
   CheckCircle,
   AlertTriangle,
-  Tag
+  Tag,
+  Repeat,
+  ListTree,
+  ListChecks,
+  CornerDownRight,
+  Lock
 } from 'lucide-react'
-import { Task, TaskWithCategory, TASK_PRIORITY_CONFIG, TASK_STATUS_CONFIG, isTaskOverdue, formatDuration } from '@/types/tasks'
+import {
+  Task,
+  TaskWithCategory,
+  TASK_PRIORITY_CONFIG,
+  TASK_STATUS_CONFIG,
+  isTaskOverdue,
+  isTaskBlocked,
+  formatDuration,
+  formatElapsedTime
+} from '@/types/tasks'
 import { format } from 'date-fns'
 
 interface TaskCardProps {
@@ -34,6 +48,11 @@ interface TaskCardProps {
   onStartTimer?: (taskId: string) => void
   onStopTimer?: (taskId: string) => void
   isTimerActive?: boolean
+  // 計測中の経過秒数
+  timerElapsedSeconds?: number
+  // 一括操作の選択状態（onSelectChange を渡したときだけチェックボックスを表示）
+  selected?: boolean
+  onSelectChange?: (taskId: string, selected: boolean) => void
   className?: string
 }
 
@@ -45,6 +64,9 @@ export function TaskCard({
   onStartTimer, 
   onStopTimer, 
   isTimerActive = false,
+  timerElapsedSeconds,
+  selected = false,
+  onSelectChange,
   className = ''
 }: TaskCardProps) {
   const [isLoading, setIsLoading] = useState(false)
@@ -52,6 +74,15 @@ export function TaskCard({
   const priorityConfig = TASK_PRIORITY_CONFIG[task.priority]
   const statusConfig = TASK_STATUS_CONFIG[task.status]
   const isOverdue = isTaskOverdue(task)
+  // 完了・キャンセル済みのタスクはブロック中として扱わない
+  const isBlocked = isTaskBlocked(task) && task.status !== 'completed' && task.status !== 'cancelled'
+  const rollup = task.rollup
+  const hasSubtasks = (rollup?.subtask_count ?? 0) > 0
+  const hasChecklist = (rollup?.checklist_count ?? 0) > 0
+  // サブタスクとチェックリストの項目を合わせた進捗
+  const progressTotal = (rollup?.subtask_count ?? 0) + (rollup?.checklist_count ?? 0)
+  const progressDone = (rollup?.completed_subtask_count ?? 0) + (rollup?.checked_checklist_count ?? 0)
+  const progressPercent = progressTotal > 0 ? Math.round((progressDone / progressTotal) * 100) : 0
   
   const handleStatusChange = (newStatus: Task['status']) => {
     if (!onStatusChange) return
@@ -96,9 +127,20 @@ export function TaskCard({
   }
 
   return (
-    <Card className={`transition-all duration-200 hover:shadow-md ${getCardBorderColor()} ${className}`}>
+    <Card className={`transition-all duration-200 hover:shadow-md ${getCardBorderColor()} ${
+      selected ? 'ring-2 ring-blue-400' : ''
+    } ${className}`}>
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
+          {onSelectChange && (
+            <input
+              type="checkbox"
+              className="mt-1 mr-3 h-4 w-4"
+              aria-label={`「${task.title}」を選択`}
+              checked={selected}
+              onChange={(e) => onSelectChange(task.id, e.target.checked)}
+            />
+          )}
           <div className="flex-1 min-w-0">
             <h3 className={`font-medium text-sm leading-5 ${
               task.status === 'completed' ? 'line-through text-gray-500' : 'text-gray-900'
@@ -190,8 +232,69 @@ export function TaskCard({
               期限超過
             </Badge>
           )}
+
+          {task.is_recurring && (
+            <Badge variant="outline" className="text-xs">
+              <Repeat className="w-3 h-3 mr-1" />
+              繰り返し
+            </Badge>
+          )}
+
+          {task.parent_task_id && (
+            <Badge variant="outline" className="text-xs">
+              <CornerDownRight className="w-3 h-3 mr-1" />
+              サブタスク
+            </Badge>
+          )}
+
+          {isBlocked && (
+            <Badge
+              variant="outline"
+              className="text-xs border-amber-300 bg-amber-50 text-amber-800"
+              title={task.blocked_by!.map(blocker => blocker.title).join('\n')}
+            >
+              <Lock className="w-3 h-3 mr-1" />
+              ブロック中
+            </Badge>
+          )}
         </div>
 
+        {/* 完了を待っている先行タスク */}
+        {isBlocked && (
+          <p className="text-xs text-amber-800 truncate">
+            先行タスク待ち: {task.blocked_by!.map(blocker => blocker.title).join('、')}
+          </p>
+        )}
+
+        {/* サブタスク・チェックリストの進捗 */}
+        {progressTotal > 0 && (
+          <div className="space-y-1 text-xs text-gray-600">
+            <div className="flex items-center gap-3">
+              {hasSubtasks && (
+                <span className="flex items-center gap-1">
+                  <ListTree className="h-3 w-3" />
+                  サブタスク {rollup!.completed_subtask_count}/{rollup!.subtask_count}
+                </span>
+              )}
+              {hasChecklist && (
+                <span className="flex items-center gap-1">
+                  <ListChecks className="h-3 w-3" />
+                  チェックリスト {rollup!.checked_checklist_count}/{rollup!.checklist_count}
+                </span>
+              )}
+            </div>
+            <div
+              className="h-1.5 w-full rounded-full bg-gray-100"
+              role="progressbar"
+              aria-valuenow={progressPercent}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div className="h-1.5 rounded-full bg-green-500" style={{ width: `${progressPercent}%` }} />
+            </div>
+          </div>
+        )}
+
         {/* カテゴリ */}
         {task.category && (
           <div className="flex items-center gap-1">
@@ -222,6 +325,25 @@ export function TaskCard({
               <span>見積: {formatDuration(task.estimated_minutes)}</span>
             </div>
           )}
+
+          {task.actual_minutes > 0 && (
+            <div className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              <span>実績: {formatDuration(task.actual_minutes)}</span>
+            </div>
+          )}
+
+          {/* サブタスクを含めた合計 */}
+          {hasSubtasks && (rollup!.rollup_estimated_minutes > 0 || rollup!.rollup_actual_minutes > 0) && (
+            <div className="flex items-center gap-1">
+              <ListTree className="h-3 w-3" />
+              <span>
+                合計 見積: {formatDuration(rollup!.rollup_estimated_minutes)}
+                {' / '}
+                実績: {formatDuration(rollup!.rollup_actual_minutes)}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* タイマーアクション */}
@@ -237,6 +359,9 @@ export function TaskCard({
               >
                 <Pause className="w-3 h-3 mr-1" />
                 タイマー停止
+                {timerElapsedSeconds !== undefined && (
+                  <span className="ml-1 font-mono">{formatElapsedTime(timerElapsedSeconds)}</span>
+                )}
               </Button>
             ) : (
               <Button 
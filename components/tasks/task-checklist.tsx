@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useTaskChecklist } from '@/hooks/use-subtasks'
+import { TASK_CONSTRAINTS } from '@/types/tasks'
+
+interface TaskChecklistProps {
+  taskId: string
+  // 項目を追加・変更してタスクの進捗が変わったとき
+  onChanged?: () => void
+  className?: string
+}
+
+export function TaskChecklist({ taskId, onChanged, className = '' }: TaskChecklistProps) {
+  const { items, loading, error, addItem, toggleItem, deleteItem } = useTaskChecklist(taskId)
+  const [title, setTitle] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const doneCount = items.filter(item => item.is_done).length
+  const isFull = items.length >= TASK_CONSTRAINTS.CHECKLIST_MAX_ITEMS
+
+  const handleAdd = async () => {
+    const trimmed = title.trim()
+    if (!trimmed) return
+
+    setSaving(true)
+    const added = await addItem(trimmed)
+    setSaving(false)
+
+    if (added) {
+      setTitle('')
+      onChanged?.()
+    }
+  }
+
+  const handleToggle = async (itemId: string, done: boolean) => {
+    if (await toggleItem(itemId, done)) onChanged?.()
+  }
+
+  const handleDelete = async (itemId: string) => {
+    if (await deleteItem(itemId)) onChanged?.()
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <h4 className="text-sm font-medium">
+        チェックリスト
+        {items.length > 0 && <span className="ml-2 text-xs text-gray-500">{doneCount}/{items.length}</span>}
+      </h4>
+
+      {loading && items.length === 0 ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500">項目はありません</p>
+      ) : (
+        <ul className="space-y-1">
+          {items.map(item => (
+            <li key={item.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                aria-label={`「${item.title}」をチェック`}
+                checked={item.is_done}
+                onChange={(e) => handleToggle(item.id, e.target.checked)}
+              />
+              <span className={`flex-1 truncate ${item.is_done ? 'line-through text-gray-500' : ''}`}>
+                {item.title}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => handleDelete(item.id)}
+                aria-label={`「${item.title}」を削除`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!isFull && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="項目を追加"
+            value={title}
+            maxLength={TASK_CONSTRAINTS.CHECKLIST_ITEM_MAX_LENGTH}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                e.preventDefault()
+                handleAdd()
+              }
+            }}
+            disabled={saving}
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={saving || !title.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useTaskDependencies } from '@/hooks/use-task-dependencies'
+import { Task, TaskDependencyLink, TaskDependencyType, TASK_STATUS_CONFIG } from '@/types/tasks'
+
+interface TaskDependencyEditorProps {
+  taskId: string
+  // 依存関係に追加できるタスク（読み込み済みの一覧）
+  candidates: Task[]
+  // 依存関係を変更してブロック状態が変わったとき
+  onChanged?: () => void
+  className?: string
+}
+
+const DEPENDENCY_SECTIONS: { type: TaskDependencyType; label: string; empty: string }[] = [
+  { type: 'blocked_by', label: '先行タスク（完了するまで開始できない）', empty: '先行タスクはありません' },
+  { type: 'blocks', label: '後続タスク（このタスクの完了を待っている）', empty: '後続タスクはありません' },
+]
+
+export function TaskDependencyEditor({ taskId, candidates, onChanged, className = '' }: TaskDependencyEditorProps) {
+  const { dependencies, loading, error, addDependency, removeDependency } = useTaskDependencies(taskId)
+  const [type, setType] = useState<TaskDependencyType>('blocked_by')
+  const [otherTaskId, setOtherTaskId] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const linkedIds = new Set([...dependencies.blocked_by, ...dependencies.blocks].map(link => link.task_id))
+  const options = candidates.filter(task => task.id !== taskId && !linkedIds.has(task.id))
+
+  const handleAdd = async () => {
+    if (!otherTaskId) return
+
+    setSaving(true)
+    const added = await addDependency(otherTaskId, type)
+    setSaving(false)
+
+    if (added) {
+      setOtherTaskId('')
+      onChanged?.()
+    }
+  }
+
+  const handleRemove = async (link: TaskDependencyLink) => {
+    if (await removeDependency(link.dependency_id)) onChanged?.()
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <h4 className="text-sm font-medium">依存関係</h4>
+
+      {loading && linkedIds.size === 0 ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        DEPENDENCY_SECTIONS.map(section => (
+          <div key={section.type} className="space-y-1">
+            <p className="text-xs text-gray-500">{section.label}</p>
+            {dependencies[section.type].length === 0 ? (
+              <p className="text-sm text-gray-500">{section.empty}</p>
+            ) : (
+              <ul className="space-y-1">
+                {dependencies[section.type].map(link => (
+                  <li key={link.dependency_id} className="flex items-center gap-2 text-sm">
+                    <span className={`flex-1 truncate ${link.status === 'completed' ? 'line-through text-gray-500' : ''}`}>
+                      {link.title}
+                    </span>
+                    <span className="text-xs" style={{ color: TASK_STATUS_CONFIG[link.status].textColor }}>
+                      {TASK_STATUS_CONFIG[link.status].label}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => handleRemove(link)}
+                      aria-label={`「${link.title}」との依存関係を削除`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <Select value={type} onValueChange={(value: TaskDependencyType) => setType(value)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="blocked_by">先行タスク</SelectItem>
+            <SelectItem value="blocks">後続タスク</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={otherTaskId} onValueChange={setOtherTaskId} disabled={options.length === 0}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={options.length === 0 ? '追加できるタスクはありません' : 'タスクを選択'} />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(task => (
+              <SelectItem key={task.id} value={task.id}>
+                {task.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={handleAdd} disabled={saving || !otherTaskId}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  )
+}
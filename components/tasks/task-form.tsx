@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
+import { format } from 'date-fns'
 import { z } from 'zod'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -10,9 +11,18 @@ import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
-import { Calendar, Clock, Tag, AlertTriangle } from 'lucide-react'
-import { TaskFormData, TASK_CONSTRAINTS } from '@/types/tasks'
-import { PRIORITY_OPTIONS, STATUS_OPTIONS } from '@/lib/constants/task-options'
+import { Calendar, Clock, Tag, AlertTriangle, Repeat } from 'lucide-react'
+import { RecurrencePattern, RecurrenceScope, TaskFormData, TASK_CONSTRAINTS } from '@/types/tasks'
+import {
+  PRIORITY_OPTIONS,
+  RECURRENCE_SCOPE_OPTIONS,
+  RECURRENCE_TYPE_OPTIONS,
+  STATUS_OPTIONS,
+  WEEKDAY_OPTIONS,
+} from '@/lib/constants/task-options'
+import { cn } from '@/lib/utils'
+import { parseRecurrencePattern } from '@/lib/recurrence/occurrences'
+import { formatRecurrenceText, parseRecurrenceText } from '@/lib/recurrence/rrule'
 import { useToast } from '@/hooks/use-toast'
 
 const taskFormSchema = z.object({
@@ -31,16 +41,94 @@ const taskFormSchema = z.object({
   notes: z.string()
     .max(TASK_CONSTRAINTS.NOTES_MAX_LENGTH, `メモは${TASK_CONSTRAINTS.NOTES_MAX_LENGTH}文字以内で入力してください`)
     .optional(),
+  is_recurring: z.boolean(),
+  // custom は RRULE を直接入力する
+  recurrence_type: z.enum(['daily', 'weekly', 'monthly', 'yearly', 'custom'] as const),
+  recurrence_interval: z.number()
+    .int('間隔は整数で入力してください')
+    .min(1, '間隔は1以上で入力してください')
+    .max(365, '間隔は365以下で入力してください'),
+  recurrence_days_of_week: z.array(z.number().int().min(0).max(6)),
+  recurrence_end: z.enum(['never', 'date', 'count'] as const),
+  recurrence_end_date: z.string().optional(),
+  recurrence_occurrences: z.number()
+    .int('回数は整数で入力してください')
+    .min(1, '回数は1以上で入力してください')
+    .max(1000, '回数は1000以下で入力してください')
+    .optional(),
+  recurrence_rule: z.string().optional(),
 })
+  .refine(values => !values.is_recurring || Boolean(values.start_date || values.due_date), {
+    message: '繰り返しタスクには開始日時または期限が必須です',
+    path: ['start_date'],
+  })
+  .refine(values => !values.is_recurring || values.recurrence_end !== 'date' || Boolean(values.recurrence_end_date), {
+    message: '終了日は必須です',
+    path: ['recurrence_end_date'],
+  })
+  .refine(values => !values.is_recurring || values.recurrence_end !== 'count' || Boolean(values.recurrence_occurrences), {
+    message: '回数は必須です',
+    path: ['recurrence_occurrences'],
+  })
+  .superRefine((values, ctx) => {
+    if (!values.is_recurring || values.recurrence_type !== 'custom') return
+    try {
+      parseRecurrenceText(values.recurrence_rule ?? '')
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : 'RRULEの形式が正しくありません',
+        path: ['recurrence_rule'],
+      })
+    }
+  })
 
 type TaskFormValues = z.infer<typeof taskFormSchema>
 
+// datetime-local の入力値（ローカル時刻、タイムゾーンなし）と API の ISO 8601 文字列の相互変換
+function toDateTimeLocal(value?: string | null): string {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : ''
+}
+
+function toIsoString(value?: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined
+}
+
+// フォームの入力値から繰り返しルールを組み立てる
+// 除外日はフォームでは編集しないため、もとのルールのものを引き継ぐ
+function buildRecurrencePattern(values: TaskFormValues, exdates?: string[]): RecurrencePattern | null {
+  if (!values.is_recurring) return null
+  if (values.recurrence_type === 'custom') {
+    return parseRecurrencePattern(values.recurrence_rule ?? '')
+  }
+
+  const pattern: RecurrencePattern = {
+    type: values.recurrence_type,
+    interval: values.recurrence_interval,
+  }
+  if (values.recurrence_type === 'weekly' && values.recurrence_days_of_week.length > 0) {
+    pattern.days_of_week = [...values.recurrence_days_of_week].sort((a, b) => a - b)
+  }
+  if (values.recurrence_end === 'date' && values.recurrence_end_date) {
+    pattern.end_date = new Date(`${values.recurrence_end_date}T23:59:59`).toISOString()
+  }
+  if (values.recurrence_end === 'count' && values.recurrence_occurrences) {
+    pattern.occurrences = values.recurrence_occurrences
+  }
+  if (exdates?.length) {
+    pattern.exdates = exdates
+  }
+  return pattern
+}
+
 interface TaskFormProps {
-  onSubmit: (data: TaskFormData) => Promise<void>
+  onSubmit: (data: TaskFormData, scope?: RecurrenceScope) => Promise<void>
   onCancel?: () => void
   initialData?: Partial<TaskFormData>
   loading?: boolean
   submitLabel?: string
+  // 繰り返しタスクの編集時に変更の適用範囲を選択させる
+  recurrenceScopeEnabled?: boolean
 }
 
 
@@ -49,10 +137,13 @@ export function TaskForm({
   onCancel, 
   initialData, 
   loading = false, 
-  submitLabel = 'タスクを作成' 
+  submitLabel = 'タスクを作成',
+  recurrenceScopeEnabled = false
 }: TaskFormProps) {
   const { toast } = useToast()
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [scope, setScope] = useState<RecurrenceScope>('this')
+  const initialPattern = initialData?.recurrence_pattern
 
   const form = useForm<TaskFormValues>({
     resolver: zodResolver(taskFormSchema),
@@ -61,27 +152,45 @@ export function TaskForm({
       description: initialData?.description || '',
       priority: initialData?.priority || 'medium',
       status: initialData?.status || 'pending',
-      due_date: initialData?.due_date || '',
-      start_date: initialData?.start_date || '',
+      due_date: toDateTimeLocal(initialData?.due_date),
+      start_date: toDateTimeLocal(initialData?.start_date),
       estimated_minutes: initialData?.estimated_minutes || undefined,
       category_id: initialData?.category_id || '',
       notes: initialData?.notes || '',
+      is_recurring: initialData?.is_recurring ?? false,
+      recurrence_type: initialPattern?.rrule ? 'custom' : initialPattern?.type ?? 'weekly',
+      recurrence_interval: initialPattern?.interval ?? 1,
+      recurrence_days_of_week: initialPattern?.days_of_week ?? [],
+      recurrence_end: initialPattern?.end_date ? 'date' : initialPattern?.occurrences ? 'count' : 'never',
+      recurrence_end_date: initialPattern?.end_date ? format(new Date(initialPattern.end_date), 'yyyy-MM-dd') : '',
+      recurrence_occurrences: initialPattern?.occurrences,
+      recurrence_rule: initialPattern?.rrule ? formatRecurrenceText(initialPattern.rrule, initialPattern.exdates) : '',
     },
   })
 
+  const isRecurring = form.watch('is_recurring')
+  const recurrenceType = form.watch('recurrence_type')
+  const recurrenceEnd = form.watch('recurrence_end')
+
   const handleSubmit = async (values: TaskFormValues) => {
     try {
       setIsSubmitting(true)
       
       const taskData: TaskFormData = {
-        ...values,
-        due_date: values.due_date || undefined,
-        start_date: values.start_date || undefined,
+        title: values.title,
+        description: values.description,
+        priority: values.priority,
+        status: values.status,
+        estimated_minutes: values.estimated_minutes,
+        due_date: toIsoString(values.due_date),
+        start_date: toIsoString(values.start_date),
         category_id: values.category_id || undefined,
         notes: values.notes || undefined,
+        is_recurring: values.is_recurring,
+        recurrence_pattern: buildRecurrencePattern(values, initialPattern?.exdates),
       }
 
-      await onSubmit(taskData)
+      await onSubmit(taskData, recurrenceScopeEnabled ? scope : undefined)
       
       toast({
         title: "成功",
@@ -307,6 +416,229 @@ export function TaskForm({
               )}
             />
 
+            {/* 繰り返し */}
+            <div className="space-y-4 rounded-lg border p-4">
+              <FormField
+                control={form.control}
+                name="is_recurring"
+                render={({ field }) => (
+                  <FormItem>
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={(e) => field.onChange(e.target.checked)}
+                        disabled={loading || isSubmitting}
+                      />
+                      <Repeat className="h-4 w-4" />
+                      繰り返す
+                    </label>
+                  </FormItem>
+                )}
+              />
+
+              {isRecurring && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="recurrence_type"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>頻度</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value} disabled={loading || isSubmitting}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="頻度を選択" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {RECURRENCE_TYPE_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                              <SelectItem value="custom">カスタム（RRULE）</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {recurrenceType !== 'custom' && (
+                      <FormField
+                        control={form.control}
+                        name="recurrence_interval"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>
+                              間隔（{RECURRENCE_TYPE_OPTIONS.find(option => option.value === recurrenceType)?.unit}ごと）
+                            </FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                {...field}
+                                onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : 1)}
+                                disabled={loading || isSubmitting}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+
+                  {recurrenceType === 'custom' && (
+                    <FormField
+                      control={form.control}
+                      name="recurrence_rule"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>繰り返しルール（RRULE / EXDATE）</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder={'RRULE:FREQ=MONTHLY;BYDAY=2TU\nEXDATE;VALUE=DATE:20260310'}
+                              className="min-h-[80px] font-mono text-xs"
+                              {...field}
+                              disabled={loading || isSubmitting}
+                            />
+                          </FormControl>
+                          <p className="text-xs text-gray-500">
+                            例: 第2火曜日は FREQ=MONTHLY;BYDAY=2TU、月末の平日は FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {recurrenceType === 'weekly' && (
+                    <FormField
+                      control={form.control}
+                      name="recurrence_days_of_week"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>曜日</FormLabel>
+                          <div className="flex flex-wrap gap-2">
+                            {WEEKDAY_OPTIONS.map((option) => {
+                              const selected = field.value.includes(option.value)
+                              return (
+                                <Button
+                                  key={option.value}
+                                  type="button"
+                                  size="sm"
+                                  variant={selected ? 'default' : 'outline'}
+                                  className={cn('w-10', selected && 'shadow-sm')}
+                                  onClick={() => field.onChange(
+                                    selected
+                                      ? field.value.filter(day => day !== option.value)
+                                      : [...field.value, option.value]
+                                  )}
+                                  disabled={loading || isSubmitting}
+                                >
+                                  {option.label}
+                                </Button>
+                              )
+                            })}
+                          </div>
+                          <p className="text-xs text-gray-500">未選択の場合は開始日の曜日に繰り返します</p>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {recurrenceType !== 'custom' && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="recurrence_end"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>終了</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value} disabled={loading || isSubmitting}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="never">なし</SelectItem>
+                                <SelectItem value="date">終了日を指定</SelectItem>
+                                <SelectItem value="count">回数を指定</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      {recurrenceEnd === 'date' && (
+                        <FormField
+                          control={form.control}
+                          name="recurrence_end_date"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>終了日</FormLabel>
+                              <FormControl>
+                                <Input type="date" {...field} disabled={loading || isSubmitting} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      {recurrenceEnd === 'count' && (
+                        <FormField
+                          control={form.control}
+                          name="recurrence_occurrences"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>回数</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  placeholder="10"
+                                  {...field}
+                                  value={field.value ?? ''}
+                                  onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                                  disabled={loading || isSubmitting}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* 変更の適用範囲（繰り返しタスクの編集時） */}
+            {recurrenceScopeEnabled && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">変更の適用範囲</p>
+                <Select value={scope} onValueChange={(value) => setScope(value as RecurrenceScope)} disabled={loading || isSubmitting}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRENCE_SCOPE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* アクションボタン */}
             <div className="flex justify-end gap-3 pt-4">
               {onCancel && (
@@ -0,0 +1,102 @@
+'use client'
+
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { Loader2 } from 'lucide-react'
+import { useCategories, useTaskHistory } from '@/hooks/use-tasks'
+import { TASK_HISTORY_FIELD_LABELS, getPriorityOption, getStatusOption } from '@/lib/constants/task-options'
+import { Category, TaskEvent, TaskPriority, TaskStatus, formatDuration } from '@/types/tasks'
+
+interface TaskHistoryTimelineProps {
+  taskId: string
+  className?: string
+}
+
+// 長い説明・メモは先頭だけ表示する
+const MAX_TEXT_LENGTH = 40
+
+function truncate(value: string): string {
+  return value.length > MAX_TEXT_LENGTH ? `${value.slice(0, MAX_TEXT_LENGTH)}…` : value
+}
+
+function formatValue(field: string | null, value: TaskEvent['old_value'], categories: Category[]): string {
+  if (value === null || value === undefined || value === '') return 'なし'
+
+  switch (field) {
+    case 'status':
+      return getStatusOption(value as TaskStatus)?.label ?? String(value)
+    case 'priority':
+      return getPriorityOption(value as TaskPriority)?.label ?? String(value)
+    case 'category_id':
+      return categories.find(category => category.id === value)?.name ?? '削除されたカテゴリ'
+    case 'start_date':
+    case 'due_date':
+      return format(new Date(String(value)), 'M/d(E) HH:mm', { locale: ja })
+    case 'estimated_minutes':
+      return formatDuration(Number(value))
+    case 'is_recurring':
+      return value ? 'あり' : 'なし'
+    case 'tags':
+      return Array.isArray(value) && value.length > 0 ? value.join(', ') : 'なし'
+    default:
+      return truncate(String(value))
+  }
+}
+
+function describeEvent(event: TaskEvent, categories: Category[]): string {
+  const label = event.field ? TASK_HISTORY_FIELD_LABELS[event.field] ?? event.field : ''
+
+  switch (event.event_type) {
+    case 'created':
+      return 'タスクを作成'
+    case 'deleted':
+      return 'ゴミ箱に移動'
+    case 'restored':
+      return 'ゴミ箱から復元'
+    case 'time_logged': {
+      const minutes = (event.new_value as { duration_minutes?: number } | null)?.duration_minutes ?? 0
+      return `${formatDuration(minutes)}の作業を記録`
+    }
+    case 'field_changed':
+    case 'status_changed':
+      // 繰り返し設定は JSON のため内容は表示しない
+      if (event.field === 'recurrence_pattern') return `${label}を変更`
+      // 親タスクは ID のため、移動先は表示しない
+      if (event.field === 'parent_task_id') return event.new_value ? `${label}を変更` : `${label}から外す`
+      return `${label}: ${formatValue(event.field, event.old_value, categories)} → ${formatValue(event.field, event.new_value, categories)}`
+  }
+}
+
+export function TaskHistoryTimeline({ taskId, className = '' }: TaskHistoryTimelineProps) {
+  const { events, loading, error } = useTaskHistory(taskId)
+  const { categories } = useCategories()
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <h4 className="text-sm font-medium">変更履歴</h4>
+
+      {loading && events.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">履歴はまだありません</p>
+      ) : (
+        <ol className="max-h-64 space-y-2 overflow-y-auto border-l pl-4">
+          {events.map(event => (
+            <li key={event.id} className="relative text-sm">
+              <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-gray-400" />
+              <p className="text-gray-900">{describeEvent(event, categories)}</p>
+              <p className="text-xs text-gray-500">
+                {format(new Date(event.created_at), 'yyyy/M/d HH:mm', { locale: ja })}
+                {!event.actor_id && '（自動）'}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,14 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { TaskCard } from './task-card'
 import { TaskForm } from './task-form'
+import { TaskBulkActionBar } from './task-bulk-action-bar'
+import { TaskHistoryTimeline } from './task-history-timeline'
+import { TaskSubtaskList } from './task-subtask-list'
+import { TaskChecklist } from './task-checklist'
+import { TaskDependencyEditor } from './task-dependency-editor'
+import { TaskReminderEditor } from './task-reminder-editor'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
@@ -19,20 +25,55 @@ import {
   AlertTriangle,
   Loader2
 } from 'lucide-react'
-import { Task, TaskWithCategory, TaskFormData, TaskFilters, TaskSortOptions, TaskStats } from '@/types/tasks'
-import { PRIORITY_FILTER_OPTIONS, STATUS_FILTER_OPTIONS, SORT_OPTIONS } from '@/lib/constants/task-options'
+import {
+  Task,
+  TaskWithCategory,
+  TaskFormData,
+  TaskFilters,
+  TaskSortOptions,
+  TaskStats,
+  RecurrenceScope,
+  BulkTaskOperation,
+  TaskUpdateOptions,
+  hasOpenSubtasks,
+  isTaskBlocked
+} from '@/types/tasks'
+import {
+  PRIORITY_FILTER_OPTIONS,
+  STATUS_FILTER_OPTIONS,
+  BLOCKED_FILTER_OPTIONS,
+  SORT_OPTIONS,
+  RECURRENCE_SCOPE_OPTIONS
+} from '@/lib/constants/task-options'
+import { parseRecurrencePattern } from '@/lib/recurrence/occurrences'
+import { isTemporaryId } from '@/lib/offline/outbox'
 import { useToast } from '@/hooks/use-toast'
 
 interface TaskListProps {
   tasks: TaskWithCategory[]
   loading?: boolean
+  // フィルタに一致する全件数（読み込み済みの件数より多い場合がある）
+  total?: number
+  hasNextPage?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
   onCreateTask?: (data: TaskFormData) => Promise<void>
-  onUpdateTask?: (taskId: string, data: Partial<TaskFormData>) => Promise<void>
-  onDeleteTask?: (taskId: string) => Promise<void>
-  onStatusChange?: (taskId: string, status: Task['status']) => Promise<void>
-  onStartTimer?: (taskId: string) => void
+  onUpdateTask?: (
+    taskId: string,
+    data: Partial<TaskFormData>,
+    scope?: RecurrenceScope,
+    options?: TaskUpdateOptions
+  ) => Promise<void>
+  onDeleteTask?: (taskId: string, scope?: RecurrenceScope) => Promise<void>
+  onStatusChange?: (taskId: string, status: Task['status'], options?: TaskUpdateOptions) => Promise<void>
+  // 選択したタスクへの一括操作。成功したら true を返す
+  onBulkAction?: (taskIds: string[], operation: BulkTaskOperation, options?: TaskUpdateOptions) => Promise<boolean>
+  // 編集ダイアログでサブタスク・チェックリスト・依存関係を変更したとき（進捗とブロック状態の再取得用）
+  onSubtasksChange?: () => void
+  onStartTimer?: (taskId: string, options?: TaskUpdateOptions) => void
   onStopTimer?: (taskId: string) => void
   activeTimerId?: string
+  activeTimerElapsedSeconds?: number
   onFiltersChange?: (filters: TaskFilters) => void
   onSortChange?: (sort: TaskSortOptions) => void
   className?: string
@@ -52,13 +93,20 @@ interface EditDialogState {
 export function TaskList({
   tasks,
   loading = false,
+  total,
+  hasNextPage = false,
+  loadingMore = false,
+  onLoadMore,
   onCreateTask,
   onUpdateTask,
   onDeleteTask,
   onStatusChange,
+  onBulkAction,
+  onSubtasksChange,
   onStartTimer,
   onStopTimer,
   activeTimerId,
+  activeTimerElapsedSeconds,
   onFiltersChange,
   onSortChange,
   className = ''
@@ -67,11 +115,41 @@ export function TaskList({
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
   const [editDialog, setEditDialog] = useState<EditDialogState>({ isOpen: false, task: null })
   const [deleteDialog, setDeleteDialog] = useState<DeleteDialogState>({ isOpen: false, task: null })
+  const [deleteScope, setDeleteScope] = useState<RecurrenceScope>('this')
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedPriority, setSelectedPriority] = useState('all')
   const [selectedStatus, setSelectedStatus] = useState('all')
+  const [selectedBlocked, setSelectedBlocked] = useState('all')
   const [sortField, setSortField] = useState<TaskSortOptions['field']>('created_at')
   const [sortDirection, setSortDirection] = useState<TaskSortOptions['direction']>('desc')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // 未完了のサブタスクがあるタスクを完了にするときの確認
+  const [completeTarget, setCompleteTarget] = useState<TaskWithCategory | null>(null)
+  // ブロック中のタスクを進行中にするときの確認（ダイアログの選択で resolve する）
+  const [blockedTargets, setBlockedTargets] = useState<TaskWithCategory[]>([])
+  const blockedConfirmRef = useRef<((confirmed: boolean) => void) | null>(null)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+
+  // 一覧から消えたタスクは選択から外す
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visible = new Set(tasks.map(task => task.id))
+      const next = new Set(Array.from(prev).filter(id => visible.has(id)))
+      return next.size === prev.size ? prev : next
+    })
+  }, [tasks])
+
+  // 一覧の末尾が見えたら次のページを読み込む
+  useEffect(() => {
+    const target = loadMoreRef.current
+    if (!target || !hasNextPage || !onLoadMore) return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore()
+    }, { rootMargin: '200px' })
+    observer.observe(target)
+    return () => observer.disconnect()
+  }, [hasNextPage, onLoadMore])
 
   // 統計情報を計算
   const stats: TaskStats = {
@@ -87,6 +165,84 @@ export function TaskList({
     completion_rate: tasks.length > 0 ? Math.round((tasks.filter(t => t.status === 'completed').length / tasks.length) * 100) : 0
   }
 
+  const allSelected = tasks.length > 0 && selectedIds.size === tasks.length
+
+  const handleSelectChange = useCallback((taskId: string, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (selected) {
+        next.add(taskId)
+      } else {
+        next.delete(taskId)
+      }
+      return next
+    })
+  }, [])
+
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(tasks.map(task => task.id)) : new Set())
+  }
+
+  const handleBulkAction = async (operation: BulkTaskOperation) => {
+    if (!onBulkAction) return false
+
+    const confirmed = operation.type === 'set_status'
+      ? await confirmStartBlocked(tasks.filter(task => selectedIds.has(task.id)), operation.status)
+      : null
+    if (confirmed === false) return false
+
+    const succeeded = await onBulkAction(Array.from(selectedIds), operation, { ignoreBlockers: confirmed === true })
+    if (succeeded) setSelectedIds(new Set())
+    return succeeded
+  }
+
+  // 先行タスクが完了していないタスクを進行中にする場合は確認する
+  const confirmStartBlocked = (targets: Array<TaskWithCategory | undefined>, status: Task['status'] | undefined) => {
+    const blocked = status === 'in_progress'
+      ? targets.filter((task): task is TaskWithCategory => !!task && task.status !== 'in_progress' && isTaskBlocked(task))
+      : []
+    if (blocked.length === 0) {
+      return Promise.resolve<boolean | null>(null)
+    }
+    return new Promise<boolean | null>(resolve => {
+      blockedConfirmRef.current = resolve
+      setBlockedTargets(blocked)
+    })
+  }
+
+  const resolveBlockedConfirm = (confirmed: boolean) => {
+    blockedConfirmRef.current?.(confirmed)
+    blockedConfirmRef.current = null
+    setBlockedTargets([])
+  }
+
+  const handleStatusChange = async (taskId: string, status: Task['status']) => {
+    const task = tasks.find(t => t.id === taskId)
+    if (status === 'completed' && task && hasOpenSubtasks(task)) {
+      setCompleteTarget(task)
+      return
+    }
+
+    const confirmed = await confirmStartBlocked([task], status)
+    if (confirmed === false) return
+    await onStatusChange?.(taskId, status, { ignoreBlockers: confirmed === true })
+  }
+
+  const confirmComplete = async (completeSubtasks: boolean) => {
+    if (!completeTarget) return
+
+    const taskId = completeTarget.id
+    setCompleteTarget(null)
+    await onStatusChange?.(taskId, 'completed', { completeSubtasks })
+  }
+
+  // タイマーを開始すると未着手のタスクは進行中になる
+  const handleStartTimer = async (taskId: string) => {
+    const confirmed = await confirmStartBlocked([tasks.find(t => t.id === taskId)], 'in_progress')
+    if (confirmed === false) return
+    onStartTimer?.(taskId, { ignoreBlockers: confirmed === true })
+  }
+
   // フィルタとソートの適用
   const applyFilters = useCallback(() => {
     const filters: TaskFilters = {}
@@ -103,8 +259,12 @@ export function TaskList({
       filters.status = [selectedStatus as any]
     }
 
+    if (selectedBlocked !== 'all') {
+      filters.blocked = selectedBlocked === 'blocked'
+    }
+
     onFiltersChange?.(filters)
-  }, [searchQuery, selectedPriority, selectedStatus, onFiltersChange])
+  }, [searchQuery, selectedPriority, selectedStatus, selectedBlocked, onFiltersChange])
 
   const handleSortChange = useCallback(() => {
     onSortChange?.({ field: sortField, direction: sortDirection })
@@ -129,11 +289,16 @@ export function TaskList({
     }
   }
 
-  const handleUpdateTask = async (data: TaskFormData) => {
+  const handleUpdateTask = async (data: TaskFormData, scope?: RecurrenceScope) => {
     if (!editDialog.task || !onUpdateTask) return
     
     try {
-      await onUpdateTask(editDialog.task.id, data)
+      const confirmed = await confirmStartBlocked([editDialog.task], data.status)
+      if (confirmed === false) {
+        throw new Error('先行タスクが完了していないため、更新を取りやめました')
+      }
+
+      await onUpdateTask(editDialog.task.id, data, scope, { ignoreBlockers: confirmed === true })
       setEditDialog({ isOpen: false, task: null })
     } catch (error) {
       throw error
@@ -141,6 +306,7 @@ export function TaskList({
   }
 
   const handleDeleteTask = (task: Task) => {
+    setDeleteScope('this')
     setDeleteDialog({ isOpen: true, task })
   }
 
@@ -148,11 +314,11 @@ export function TaskList({
     if (!deleteDialog.task || !onDeleteTask) return
     
     try {
-      await onDeleteTask(deleteDialog.task.id)
+      await onDeleteTask(deleteDialog.task.id, deleteDialog.task.recurrence_series_id ? deleteScope : undefined)
       setDeleteDialog({ isOpen: false, task: null })
       toast({
         title: "削除完了",
-        description: "タスクが削除されました",
+        description: "タスクをゴミ箱に移しました",
       })
     } catch (error) {
       toast({
@@ -232,7 +398,7 @@ export function TaskList({
       <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold">タスク一覧</h2>
-          <p className="text-sm text-gray-600">{tasks.length}件のタスク</p>
+          <p className="text-sm text-gray-600">{total ?? tasks.length}件のタスク</p>
         </div>
         
         <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
@@ -263,7 +429,7 @@ export function TaskList({
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">検索</label>
               <div className="relative">
@@ -316,6 +482,25 @@ export function TaskList({
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">依存関係</label>
+              <Select value={selectedBlocked} onValueChange={(value) => {
+                setSelectedBlocked(value)
+                setTimeout(applyFilters, 0)
+              }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLOCKED_FILTER_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             
             <div className="space-y-2">
               <label className="text-sm font-medium">並び順</label>
@@ -372,19 +557,53 @@ export function TaskList({
           </CardContent>
         </Card>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {tasks.map((task) => (
-            <TaskCard
-              key={task.id}
-              task={task}
-              onEdit={handleEditTask}
-              onDelete={handleDeleteTask}
-              onStatusChange={onStatusChange}
-              onStartTimer={onStartTimer}
-              onStopTimer={onStopTimer}
-              isTimerActive={activeTimerId === task.id}
+        <div className="space-y-4">
+          {onBulkAction && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={allSelected}
+                onChange={(e) => handleSelectAll(e.target.checked)}
+              />
+              表示中のタスクをすべて選択
+            </label>
+          )}
+
+          {onBulkAction && selectedIds.size > 0 && (
+            <TaskBulkActionBar
+              selectedCount={selectedIds.size}
+              onApply={handleBulkAction}
+              onClearSelection={() => setSelectedIds(new Set())}
             />
-          ))}
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {tasks.map((task) => (
+              <TaskCard
+                key={task.id}
+                task={task}
+                onEdit={handleEditTask}
+                onDelete={handleDeleteTask}
+                onStatusChange={onStatusChange ? handleStatusChange : undefined}
+                onStartTimer={onStartTimer ? handleStartTimer : undefined}
+                onStopTimer={onStopTimer}
+                isTimerActive={activeTimerId === task.id}
+                timerElapsedSeconds={activeTimerId === task.id ? activeTimerElapsedSeconds : undefined}
+                selected={selectedIds.has(task.id)}
+                onSelectChange={onBulkAction ? handleSelectChange : undefined}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!loading && hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center py-4">
+          <Button variant="outline" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            さらに読み込む
+          </Button>
         </div>
       )}
 
@@ -408,10 +627,106 @@ export function TaskList({
                 estimated_minutes: editDialog.task.estimated_minutes || undefined,
                 category_id: editDialog.task.category_id || '',
                 notes: editDialog.task.notes || '',
+                is_recurring: editDialog.task.is_recurring,
+                recurrence_pattern: parseRecurrencePattern(editDialog.task.recurrence_pattern),
               }}
               submitLabel="タスクを更新"
+              recurrenceScopeEnabled={Boolean(editDialog.task.recurrence_series_id)}
             />
           )}
+          {/* オフライン中に作成して未送信のタスクは、サブタスクなどを追加できない */}
+          {editDialog.task && !isTemporaryId(editDialog.task.id) && (
+            <>
+              <TaskSubtaskList
+                taskId={editDialog.task.id}
+                depth={editDialog.task.rollup?.depth}
+                onChanged={onSubtasksChange}
+                className="border-t pt-4"
+              />
+              <TaskChecklist
+                taskId={editDialog.task.id}
+                onChanged={onSubtasksChange}
+                className="border-t pt-4"
+              />
+              <TaskReminderEditor
+                taskId={editDialog.task.id}
+                startDate={editDialog.task.start_date}
+                dueDate={editDialog.task.due_date}
+                className="border-t pt-4"
+              />
+              <TaskDependencyEditor
+                taskId={editDialog.task.id}
+                candidates={tasks}
+                onChanged={onSubtasksChange}
+                className="border-t pt-4"
+              />
+              <TaskHistoryTimeline taskId={editDialog.task.id} className="border-t pt-4" />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* 未完了のサブタスクがあるタスクの完了確認ダイアログ */}
+      <Dialog open={completeTarget !== null} onOpenChange={(open) => !open && setCompleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>タスクを完了にする</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              「{completeTarget?.title}」には未完了のサブタスクが
+              {completeTarget?.rollup
+                ? completeTarget.rollup.subtask_count - completeTarget.rollup.completed_subtask_count
+                : 0}
+              件あります。サブタスクも完了にしますか？
+            </p>
+            <div className="flex flex-col-reverse sm:flex-row justify-end gap-3">
+              <Button variant="outline" onClick={() => setCompleteTarget(null)}>
+                キャンセル
+              </Button>
+              <Button variant="outline" onClick={() => confirmComplete(false)}>
+                このタスクのみ完了
+              </Button>
+              <Button onClick={() => confirmComplete(true)}>
+                サブタスクもすべて完了
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* ブロック中のタスクを進行中にするときの確認ダイアログ */}
+      <Dialog open={blockedTargets.length > 0} onOpenChange={(open) => !open && resolveBlockedConfirm(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>ブロック中のタスクを開始する</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              {blockedTargets.length === 1
+                ? `「${blockedTargets[0]!.title}」は次の先行タスクが完了していません。進行中にしますか？`
+                : `選択したタスクのうち${blockedTargets.length}件は先行タスクが完了していません。進行中にしますか？`}
+            </p>
+            <ul className="list-disc pl-5 text-sm text-gray-600">
+              {blockedTargets.length === 1
+                ? blockedTargets[0]!.blocked_by?.map(blocker => (
+                  <li key={blocker.dependency_id}>{blocker.title}</li>
+                ))
+                : blockedTargets.map(target => (
+                  <li key={target.id}>
+                    {target.title}（先行: {target.blocked_by?.map(blocker => blocker.title).join('、')}）
+                  </li>
+                ))}
+            </ul>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => resolveBlockedConfirm(false)}>
+                キャンセル
+              </Button>
+              <Button onClick={() => resolveBlockedConfirm(true)}>
+                進行中にする
+              </Button>
+            </div>
+          </div>
         </DialogContent>
       </Dialog>
 
@@ -423,9 +738,26 @@ export function TaskList({
           </DialogHeader>
           <div className="space-y-4">
             <p className="text-gray-600">
-              本当に「{deleteDialog.task?.title}」を削除しますか？
-              この操作は取り消せません。
+              「{deleteDialog.task?.title}」をゴミ箱に移しますか？
+              ゴミ箱から復元できます。
             </p>
+            {deleteDialog.task?.recurrence_series_id && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">繰り返しタスクの削除範囲</p>
+                {RECURRENCE_SCOPE_OPTIONS.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="delete-scope"
+                      value={option.value}
+                      checked={deleteScope === option.value}
+                      onChange={() => setDeleteScope(option.value)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            )}
             <div className="flex justify-end gap-3">
               <Button 
                 variant="outline" 
@@ -0,0 +1,107 @@
+'use client'
+
+import { useState } from 'react'
+import { Bell, Loader2, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useTaskReminders } from '@/hooks/use-reminders'
+import { formatReminderOffset, formatReminderTiming } from '@/lib/reminders/schedule'
+import {
+  REMINDER_ANCHOR_CONFIG,
+  REMINDER_CONSTRAINTS,
+  REMINDER_OFFSET_OPTIONS,
+  ReminderAnchor,
+} from '@/types/reminders'
+
+interface TaskReminderEditorProps {
+  taskId: string
+  // 基準の日時が未設定の通知は送信されないため、注意を表示する
+  startDate: string | null
+  dueDate: string | null
+  className?: string
+}
+
+export function TaskReminderEditor({ taskId, startDate, dueDate, className = '' }: TaskReminderEditorProps) {
+  const { reminders, loading, error, addReminder, removeReminder } = useTaskReminders(taskId)
+  const [anchor, setAnchor] = useState<ReminderAnchor>(startDate || !dueDate ? 'start' : 'due')
+  const [offset, setOffset] = useState('10')
+  const [saving, setSaving] = useState(false)
+
+  const anchorDates: Record<ReminderAnchor, string | null> = { start: startDate, due: dueDate }
+  const limitReached = reminders.length >= REMINDER_CONSTRAINTS.MAX_PER_TASK
+
+  const handleAdd = async () => {
+    setSaving(true)
+    await addReminder(anchor, Number(offset))
+    setSaving(false)
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <h4 className="text-sm font-medium">通知</h4>
+
+      {loading && reminders.length === 0 ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : reminders.length === 0 ? (
+        <p className="text-sm text-gray-500">個別の通知はありません（既定の通知設定が適用されます）</p>
+      ) : (
+        <ul className="space-y-1">
+          {reminders.map(reminder => (
+            <li key={reminder.id} className="flex items-center gap-2 text-sm">
+              <Bell className="h-3 w-3 text-gray-400" />
+              <span className="flex-1">{formatReminderTiming(reminder.anchor, reminder.offset_minutes)}</span>
+              {!anchorDates[reminder.anchor] && (
+                <span className="text-xs text-amber-700">
+                  {REMINDER_ANCHOR_CONFIG[reminder.anchor].label}日時が未設定です
+                </span>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => removeReminder(reminder.id)}
+                aria-label={`${formatReminderTiming(reminder.anchor, reminder.offset_minutes)}の通知を削除`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <Select value={anchor} onValueChange={(value: ReminderAnchor) => setAnchor(value)}>
+          <SelectTrigger className="w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(REMINDER_ANCHOR_CONFIG) as ReminderAnchor[]).map(value => (
+              <SelectItem key={value} value={value}>
+                {REMINDER_ANCHOR_CONFIG[value].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={offset} onValueChange={setOffset}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REMINDER_OFFSET_OPTIONS.map(minutes => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {minutes === 0 ? 'ちょうど' : `${formatReminderOffset(minutes)}前`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={handleAdd} disabled={saving || limitReached} aria-label="通知を追加">
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { Calendar, Loader2, Search, Tag } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { useTaskSearch } from '@/hooks/use-task-search'
+import { splitHighlights } from '@/lib/search/highlight'
+import { TaskSearchResult, TASK_PRIORITY_CONFIG, TASK_STATUS_CONFIG } from '@/types/tasks'
+
+interface HighlightedTextProps {
+  value: string
+  className?: string
+}
+
+// 一致した語を <mark> で強調する（[[[ ]]] で囲まれた部分）
+function HighlightedText({ value, className = '' }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {splitHighlights(value).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded bg-yellow-200 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </span>
+  )
+}
+
+function SearchResultItem({ result }: { result: TaskSearchResult }) {
+  const { task } = result
+  const statusConfig = TASK_STATUS_CONFIG[task.status]
+  const priorityConfig = TASK_PRIORITY_CONFIG[task.priority]
+
+  return (
+    <li className="space-y-1 py-3">
+      <p className="font-medium">
+        <HighlightedText value={result.title_highlight} />
+      </p>
+      {result.snippet && (
+        <p className="text-sm text-gray-600 line-clamp-2">
+          <HighlightedText value={result.snippet} />
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <Badge
+          variant="secondary"
+          className="text-xs"
+          style={{ backgroundColor: statusConfig.bgColor, color: statusConfig.textColor }}
+        >
+          {statusConfig.label}
+        </Badge>
+        <Badge
+          variant="outline"
+          className="text-xs"
+          style={{ color: priorityConfig.textColor, borderColor: priorityConfig.color }}
+        >
+          {priorityConfig.label}
+        </Badge>
+        {task.category && (
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: task.category.color }} />
+            {task.category.name}
+          </span>
+        )}
+        {task.due_date && (
+          <span className="flex items-center gap-1">
+            <Calendar className="h-3 w-3" />
+            {format(new Date(task.due_date), 'M月d日(E)', { locale: ja })}
+          </span>
+        )}
+        {task.tags && task.tags.length > 0 && (
+          <span className="flex items-center gap-1">
+            <Tag className="h-3 w-3" />
+            {task.tags.join(', ')}
+          </span>
+        )}
+      </div>
+    </li>
+  )
+}
+
+export function TaskSearchView() {
+  const { query, results, total, hasNextPage, loading, loadingMore, error, search, loadMore } = useTaskSearch()
+  const [input, setInput] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    search(input)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">タスクを検索</h2>
+        <p className="text-sm text-gray-600">
+          タイトル・説明・メモ・タグから検索します。&quot;フレーズ&quot;、OR、-除外 が使えます
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="キーワードを入力..."
+            value={input}
+            maxLength={100}
+            onChange={(e) => setInput(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Button type="submit" disabled={loading || !input.trim()}>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : '検索'}
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {query && !loading && (
+        <Card>
+          <CardContent className="pt-6">
+            {results.length === 0 ? (
+              <p className="py-6 text-center text-gray-600">「{query}」に一致するタスクはありません</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">「{query}」の検索結果 {total}件</p>
+                <ul className="divide-y">
+                  {results.map(result => (
+                    <SearchResultItem key={result.task.id} result={result} />
+                  ))}
+                </ul>
+                {hasNextPage && (
+                  <div className="flex justify-center pt-2">
+                    <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                      {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      さらに表示
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
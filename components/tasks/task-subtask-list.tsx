@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useSubtasks } from '@/hooks/use-subtasks'
+import { TASK_CONSTRAINTS, TASK_STATUS_CONFIG } from '@/types/tasks'
+
+interface TaskSubtaskListProps {
+  taskId: string
+  // タスクの階層の深さ（最上位が 1）。上限に達していればサブタスクを追加できない
+  depth?: number
+  // サブタスクを追加・変更して親タスクの集計が変わったとき
+  onChanged?: () => void
+  className?: string
+}
+
+export function TaskSubtaskList({ taskId, depth = 1, onChanged, className = '' }: TaskSubtaskListProps) {
+  const { subtasks, loading, error, createSubtask, setSubtaskStatus } = useSubtasks(taskId)
+  const [title, setTitle] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const canAddSubtask = depth < TASK_CONSTRAINTS.SUBTASK_MAX_DEPTH
+
+  const handleAdd = async () => {
+    const trimmed = title.trim()
+    if (!trimmed) return
+
+    setSaving(true)
+    const created = await createSubtask(trimmed)
+    setSaving(false)
+
+    if (created) {
+      setTitle('')
+      onChanged?.()
+    }
+  }
+
+  const handleToggle = async (subtaskId: string, done: boolean) => {
+    if (await setSubtaskStatus(subtaskId, done ? 'completed' : 'pending')) {
+      onChanged?.()
+    }
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <h4 className="text-sm font-medium">サブタスク</h4>
+
+      {loading && subtasks.length === 0 ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : subtasks.length === 0 ? (
+        <p className="text-sm text-gray-500">サブタスクはありません</p>
+      ) : (
+        <ul className="space-y-1">
+          {subtasks.map(subtask => (
+            <li key={subtask.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                aria-label={`「${subtask.title}」を完了にする`}
+                checked={subtask.status === 'completed'}
+                disabled={subtask.status === 'cancelled'}
+                onChange={(e) => handleToggle(subtask.id, e.target.checked)}
+              />
+              <span className={`flex-1 truncate ${subtask.status === 'completed' ? 'line-through text-gray-500' : ''}`}>
+                {subtask.title}
+              </span>
+              {subtask.rollup && subtask.rollup.subtask_count > 0 && (
+                <span className="text-xs text-gray-500">
+                  {subtask.rollup.completed_subtask_count}/{subtask.rollup.subtask_count}
+                </span>
+              )}
+              <span className="text-xs" style={{ color: TASK_STATUS_CONFIG[subtask.status].textColor }}>
+                {TASK_STATUS_CONFIG[subtask.status].label}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {canAddSubtask ? (
+        <div className="flex gap-2">
+          <Input
+            placeholder="サブタスクを追加"
+            value={title}
+            maxLength={TASK_CONSTRAINTS.TITLE_MAX_LENGTH}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                e.preventDefault()
+                handleAdd()
+              }
+            }}
+            disabled={saving}
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={saving || !title.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          サブタスクは{TASK_CONSTRAINTS.SUBTASK_MAX_DEPTH}階層までのため、これ以上追加できません
+        </p>
+      )}
+    </div>
+  )
+}
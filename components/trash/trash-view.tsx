@@ -0,0 +1,264 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useTrash, TrashItemType } from '@/hooks/use-trash'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+
+interface TrashViewProps {
+  // 復元してタスク一覧が変わったとき
+  onRestored?: () => void
+}
+
+interface PurgeTarget {
+  type: TrashItemType
+  id: string
+  name: string
+}
+
+function formatDate(value: string): string {
+  return format(new Date(value), 'M月d日(E) HH:mm', { locale: ja })
+}
+
+export function TrashView({ onRestored }: TrashViewProps) {
+  const { trash, loading, error, restore, purge, emptyTrash } = useTrash()
+  const { showSuccess, showError } = useToastEnhanced()
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null)
+  const [emptyDialogOpen, setEmptyDialogOpen] = useState(false)
+
+  const handleRestore = async (type: TrashItemType, id: string) => {
+    setBusyId(id)
+    const ok = await restore(type, id)
+    setBusyId(null)
+
+    if (!ok) {
+      showError('復元に失敗しました')
+      return
+    }
+    showSuccess('復元しました')
+    onRestored?.()
+  }
+
+  const confirmPurge = async () => {
+    if (!purgeTarget) return
+
+    setBusyId(purgeTarget.id)
+    const ok = await purge(purgeTarget.type, purgeTarget.id)
+    setBusyId(null)
+    setPurgeTarget(null)
+
+    if (ok) {
+      showSuccess('完全に削除しました')
+    } else {
+      showError('削除に失敗しました')
+    }
+  }
+
+  const confirmEmpty = async () => {
+    setBusyId('all')
+    const ok = await emptyTrash()
+    setBusyId(null)
+    setEmptyDialogOpen(false)
+
+    if (ok) {
+      showSuccess('ゴミ箱を空にしました')
+    } else {
+      showError('ゴミ箱を空にできませんでした')
+    }
+  }
+
+  if (loading && !trash) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">読み込み中...</span>
+      </div>
+    )
+  }
+
+  if (!trash) {
+    return <p className="text-sm text-red-600">{error ?? 'ゴミ箱を読み込めませんでした'}</p>
+  }
+
+  const isEmpty = trash.tasks.length === 0 && trash.categories.length === 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">ゴミ箱</h2>
+          <p className="text-sm text-gray-600">
+            削除から{trash.retention_days}日を過ぎると自動的に完全に削除されます
+          </p>
+        </div>
+        <Button
+          variant="destructive"
+          onClick={() => setEmptyDialogOpen(true)}
+          disabled={isEmpty || busyId !== null}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          ゴミ箱を空にする
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isEmpty ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">ゴミ箱は空です</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {trash.categories.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">カテゴリ</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {trash.categories.map(category => (
+                    <li key={category.id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="min-w-0">
+                        <p className="flex items-center gap-2 font-medium">
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: category.color }} />
+                          {category.icon} {category.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(category.deleted_at!)}に削除
+                          {category.task_count > 0 && `・タスク${category.task_count}件を含む`}
+                          ・{formatDate(category.purge_at)}に完全に削除
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore('categories', category.id)}
+                          disabled={busyId !== null}
+                        >
+                          {busyId === category.id
+                            ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            : <RotateCcw className="h-4 w-4 mr-1" />}
+                          復元
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPurgeTarget({ type: 'categories', id: category.id, name: category.name })}
+                          disabled={busyId !== null}
+                        >
+                          完全に削除
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {trash.tasks.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">タスク</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {trash.tasks.map(task => (
+                    <li key={task.id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{task.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {task.category && `${task.category.name}・`}
+                          {formatDate(task.deleted_at!)}に削除・{formatDate(task.purge_at)}に完全に削除
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore('tasks', task.id)}
+                          disabled={busyId !== null}
+                        >
+                          {busyId === task.id
+                            ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            : <RotateCcw className="h-4 w-4 mr-1" />}
+                          復元
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPurgeTarget({ type: 'tasks', id: task.id, name: task.title })}
+                          disabled={busyId !== null}
+                        >
+                          完全に削除
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {/* 完全に削除する確認ダイアログ */}
+      <Dialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>完全に削除</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              「{purgeTarget?.name}」を完全に削除しますか？
+              {purgeTarget?.type === 'categories' && '一緒にゴミ箱に移したタスクも削除されます。'}
+              この操作は取り消せません。
+            </p>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setPurgeTarget(null)} disabled={busyId !== null}>
+                キャンセル
+              </Button>
+              <Button variant="destructive" onClick={confirmPurge} disabled={busyId !== null}>
+                削除する
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* ゴミ箱を空にする確認ダイアログ */}
+      <Dialog open={emptyDialogOpen} onOpenChange={setEmptyDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>ゴミ箱を空にする</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              ゴミ箱のタスク{trash.tasks.length}件とカテゴリ{trash.categories.length}件を完全に削除しますか？
+              この操作は取り消せません。
+            </p>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setEmptyDialogOpen(false)} disabled={busyId !== null}>
+                キャンセル
+              </Button>
+              <Button variant="destructive" onClick={confirmEmpty} disabled={busyId !== null}>
+                {busyId === 'all' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                空にする
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
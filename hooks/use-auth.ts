@@ -4,6 +4,8 @@ import { useEffect, useState, useCallback, useMemo } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/client';
 import { logger } from '@/lib/logger';
+import { removeBrowserPushSubscription } from '@/lib/reminders/browser-push';
+import { getTaskOutbox } from '@/lib/offline/outbox';
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
@@ -79,6 +81,8 @@ export function useAuth() {
         provider: 'google',
         options: {
           redirectTo: `${window.location.origin}/auth/callback`,
+          // Googleカレンダー同期のためにイベントの読み書き権限を要求
+          scopes: 'https://www.googleapis.com/auth/calendar.events',
           queryParams: {
             access_type: 'offline',
             prompt: 'consent',
@@ -101,6 +105,28 @@ export function useAuth() {
       setError(null);
       logger.authEvent('Sign-out initiated');
 
+      // 共有の端末で次のユーザーに通知が届かないよう、ログアウト前にこのブラウザの購読を解除する
+      try {
+        await removeBrowserPushSubscription();
+      } catch (error) {
+        logger.warn('Failed to remove push subscription on sign-out', { error });
+      }
+
+      // 端末に保存したタスクも削除する（送れる送信待ちの変更は先に送る）
+      const outbox = getTaskOutbox();
+      try {
+        if (user && navigator.onLine) {
+          await outbox.sync(user.id);
+        }
+      } catch (error) {
+        logger.warn('Failed to sync offline task changes on sign-out', { error });
+      }
+      try {
+        await outbox.clear();
+      } catch (error) {
+        logger.warn('Failed to clear offline tasks on sign-out', { error });
+      }
+
       const { error } = await supabase.auth.signOut();
 
       if (error) {
@@ -113,7 +139,7 @@ export function useAuth() {
       setError('ログアウトに失敗しました');
       throw error;
     }
-  }, [supabase]);
+  }, [supabase, user]);
 
   return {
     user,
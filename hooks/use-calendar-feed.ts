@@ -0,0 +1,120 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { logger } from '@/lib/logger'
+import { CalendarFeedStatus, CalendarFeedToken } from '@/types/calendar'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+/**
+ * iCalendar フィードの購読用 URL
+ * URL（トークン）は発行直後にのみ取得できるため、画面を離れると再表示できない
+ */
+export function useCalendarFeed() {
+  const { user } = useAuth()
+  const [status, setStatus] = useState<CalendarFeedStatus | null>(null)
+  const [issued, setIssued] = useState<CalendarFeedToken | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/calendar/feed')
+      const result: ApiResponse<CalendarFeedStatus> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch calendar feed status')
+      }
+
+      setStatus(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching calendar feed status'
+      setError(errorMessage)
+      logger.error('Error fetching calendar feed status', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  // 発行済みの場合は新しい URL に置き換える
+  const issueToken = useCallback(async (): Promise<CalendarFeedToken | null> => {
+    if (!user) return null
+
+    try {
+      setUpdating(true)
+      setError(null)
+
+      const response = await fetch('/api/calendar/feed', { method: 'POST' })
+      const result: ApiResponse<CalendarFeedToken> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to issue calendar feed token')
+      }
+
+      setIssued(result.data)
+      setStatus({ enabled: true, created_at: result.data.created_at, last_used_at: null })
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while issuing calendar feed token'
+      setError(errorMessage)
+      logger.error('Error issuing calendar feed token', err)
+      return null
+    } finally {
+      setUpdating(false)
+    }
+  }, [user])
+
+  const revokeToken = useCallback(async (): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      setUpdating(true)
+      setError(null)
+
+      const response = await fetch('/api/calendar/feed', { method: 'DELETE' })
+      const result: ApiResponse<null> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to revoke calendar feed token')
+      }
+
+      setIssued(null)
+      setStatus({ enabled: false, created_at: null, last_used_at: null })
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while revoking calendar feed token'
+      setError(errorMessage)
+      logger.error('Error revoking calendar feed token', err)
+      return false
+    } finally {
+      setUpdating(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  return {
+    status,
+    issued,
+    loading,
+    updating,
+    error,
+    issueToken,
+    revokeToken,
+    refetch: fetchStatus,
+  }
+}
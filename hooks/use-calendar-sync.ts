@@ -0,0 +1,140 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { invalidateTaskCache } from '@/hooks/use-tasks'
+import { logger } from '@/lib/logger'
+import {
+  CalendarSyncResult,
+  CalendarSyncStatus,
+  SyncConflictPolicy,
+  SyncConflictResolution
+} from '@/types/calendar'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+export function useCalendarSync() {
+  const { user } = useAuth()
+  const [status, setStatus] = useState<CalendarSyncStatus | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/calendar/sync')
+      const result: ApiResponse<CalendarSyncStatus> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch calendar sync status')
+      }
+
+      setStatus(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching sync status'
+      setError(errorMessage)
+      logger.error('Error fetching calendar sync status', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  const updateSettings = useCallback(async (updates: {
+    sync_enabled?: boolean
+    conflict_policy?: SyncConflictPolicy
+  }): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      const response = await fetch('/api/calendar/sync', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      })
+      const result: ApiResponse<CalendarSyncStatus> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update calendar sync settings')
+      }
+
+      setStatus(result.data)
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while updating sync settings'
+      setError(errorMessage)
+      logger.error('Error updating calendar sync settings', err)
+      return false
+    }
+  }, [user])
+
+  /**
+   * 同期を実行する。resolutions を渡すと保留中の競合をあわせて解決する
+   */
+  const sync = useCallback(async (
+    resolutions: Record<string, SyncConflictResolution> = {}
+  ): Promise<CalendarSyncResult | null> => {
+    if (!user) return null
+
+    try {
+      setSyncing(true)
+      setError(null)
+
+      const response = await fetch('/api/calendar/sync', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ resolutions }),
+      })
+      const result: ApiResponse<CalendarSyncResult> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to sync calendar')
+      }
+
+      // 取り込んだ変更を一覧に反映させる
+      invalidateTaskCache()
+      setStatus(prev => prev ? {
+        ...prev,
+        last_synced_at: new Date().toISOString(),
+        last_error: null,
+        pending_conflicts: result.data.conflicts,
+      } : prev)
+
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while syncing calendar'
+      setError(errorMessage)
+      logger.error('Error syncing calendar', err)
+      return null
+    } finally {
+      setSyncing(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  return {
+    status,
+    loading,
+    syncing,
+    error,
+    refetch: fetchStatus,
+    updateSettings,
+    sync,
+  }
+}
@@ -0,0 +1,160 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { logger } from '@/lib/logger'
+import { DailyLog } from '@/types/daily-log'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+/**
+ * デイリーログ（1日の予定と実績・終了予測）
+ * date を省略するとユーザーのタイムゾーンでの今日を表示する
+ */
+export function useDailyLog(date?: string) {
+  const { user } = useAuth()
+  const [log, setLog] = useState<DailyLog | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLog = useCallback(async () => {
+    if (!user) {
+      setLog(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      if (date) params.set('date', date)
+
+      const response = await fetch(`/api/daily-log?${params}`)
+      const result: ApiResponse<DailyLog> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch daily log')
+      }
+
+      setLog(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching daily log'
+      setError(errorMessage)
+      logger.error('Error fetching daily log', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, date])
+
+  useEffect(() => {
+    fetchLog()
+  }, [fetchLog])
+
+  const mutate = useCallback(async <T,>(
+    url: string,
+    init: RequestInit,
+    fallbackError: string
+  ): Promise<T | undefined> => {
+    if (!user) return undefined
+
+    try {
+      setError(null)
+
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      const result: ApiResponse<T> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || fallbackError)
+      }
+
+      await fetchLog()
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackError
+      logger.error(fallbackError, err)
+      // 先に更新した画面を元に戻してからエラーを表示する
+      await fetchLog()
+      setError(errorMessage)
+      return undefined
+    }
+  }, [user, fetchLog])
+
+  const addTask = useCallback(async (taskId: string): Promise<boolean> => {
+    if (!log) return false
+
+    const result = await mutate<null>(
+      '/api/daily-log',
+      { method: 'POST', body: JSON.stringify({ date: log.date, task_id: taskId }) },
+      'Failed to add task to daily log'
+    )
+    return result !== undefined
+  }, [log, mutate])
+
+  const removeTask = useCallback(async (taskId: string): Promise<void> => {
+    if (!log) return
+
+    const params = new URLSearchParams({ date: log.date, task_id: taskId })
+    await mutate<null>(
+      `/api/daily-log?${params}`,
+      { method: 'DELETE' },
+      'Failed to remove task from daily log'
+    )
+  }, [log, mutate])
+
+  /**
+   * 並び替え（画面は先に更新し、失敗した場合は再取得で元に戻る）
+   */
+  const reorder = useCallback(async (taskIds: string[]): Promise<void> => {
+    if (!log) return
+
+    const itemsByTask = new Map(log.items.map(item => [item.task.id, item]))
+    const items = taskIds.flatMap((taskId, index) => {
+      const item = itemsByTask.get(taskId)
+      return item ? [{ ...item, sort_order: index }] : []
+    })
+    setLog({ ...log, items })
+
+    await mutate<null>(
+      '/api/daily-log',
+      { method: 'PUT', body: JSON.stringify({ date: log.date, task_ids: taskIds }) },
+      'Failed to reorder daily log'
+    )
+  }, [log, mutate])
+
+  /**
+   * 未完了のタスクを翌日に移し、移した件数を返す
+   */
+  const carryOver = useCallback(async (): Promise<number | null> => {
+    if (!log) return null
+
+    const result = await mutate<{ count: number }>(
+      '/api/daily-log/carry-over',
+      { method: 'POST', body: JSON.stringify({ date: log.date }) },
+      'Failed to carry over daily log'
+    )
+    return result?.count ?? null
+  }, [log, mutate])
+
+  return {
+    log,
+    loading,
+    error,
+    addTask,
+    removeTask,
+    reorder,
+    carryOver,
+    refetch: fetchLog,
+  }
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { invalidateTaskCache, invalidateCategoryCache } from '@/hooks/use-tasks'
+import { logger } from '@/lib/logger'
+import { ImportReport, ImportRequest } from '@/types/data-transfer'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+/**
+ * タスクのインポート
+ * preview で保存せずに行ごとの結果を確認し、commit で取り込む
+ */
+export function useDataImport() {
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = useCallback(async (request: ImportRequest): Promise<ImportReport | null> => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      })
+      const result: ApiResponse<ImportReport> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to import tasks')
+      }
+
+      if (!request.dry_run) {
+        invalidateTaskCache()
+        invalidateCategoryCache()
+      }
+      setReport(result.data)
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while importing tasks'
+      setError(errorMessage)
+      logger.error('Error importing tasks', err)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const preview = useCallback(
+    (request: Omit<ImportRequest, 'dry_run'>) => submit({ ...request, dry_run: true }),
+    [submit]
+  )
+
+  const commit = useCallback(
+    (request: Omit<ImportRequest, 'dry_run'>) => submit({ ...request, dry_run: false }),
+    [submit]
+  )
+
+  const reset = useCallback(() => {
+    setReport(null)
+    setError(null)
+  }, [])
+
+  return {
+    report,
+    loading,
+    error,
+    preview,
+    commit,
+    reset,
+  }
+}
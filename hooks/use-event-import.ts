@@ -0,0 +1,110 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { invalidateTaskCache } from '@/hooks/use-tasks'
+import { logger } from '@/lib/logger'
+import { EventImportResult, EventImportSource, ImportableEvent } from '@/types/calendar'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+export function useEventImport() {
+  const [events, setEvents] = useState<ImportableEvent[]>([])
+  const [loading, setLoading] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * 指定期間の予定を取り込み候補として読み込む
+   * source が ics の場合は ics にファイル内容を渡す
+   */
+  const loadEvents = useCallback(async (
+    source: EventImportSource,
+    range: { from: string; to: string },
+    ics?: string
+  ): Promise<boolean> => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = source === 'google'
+        ? await fetch(`/api/calendar/events?${new URLSearchParams(range).toString()}`)
+        : await fetch('/api/calendar/events', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...range, ics }),
+        })
+      const result: ApiResponse<ImportableEvent[]> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load calendar events')
+      }
+
+      setEvents(result.data)
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while loading events'
+      setError(errorMessage)
+      setEvents([])
+      logger.error('Error loading calendar events', err)
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const importEvents = useCallback(async (
+    source: EventImportSource,
+    eventIds: string[],
+    ics?: string
+  ): Promise<EventImportResult | null> => {
+    try {
+      setImporting(true)
+      setError(null)
+
+      const response = await fetch('/api/calendar/events/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ source, event_ids: eventIds, ics }),
+      })
+      const result: ApiResponse<EventImportResult> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to import calendar events')
+      }
+
+      invalidateTaskCache()
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while importing events'
+      setError(errorMessage)
+      logger.error('Error importing calendar events', err)
+      return null
+    } finally {
+      setImporting(false)
+    }
+  }, [])
+
+  const reset = useCallback(() => {
+    setEvents([])
+    setError(null)
+  }, [])
+
+  return {
+    events,
+    loading,
+    importing,
+    error,
+    loadEvents,
+    importEvents,
+    reset,
+  }
+}
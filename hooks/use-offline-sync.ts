@@ -0,0 +1,83 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { getTaskOutbox } from '@/lib/offline/outbox'
+import { logger } from '@/lib/logger'
+import { TaskSyncResult } from '@/types/offline'
+
+/**
+ * オフライン中のタスクの変更の送信
+ * 接続が戻ったとき・画面を開いたときに送信待ちの変更を送り、送信の結果（衝突など）を返す
+ */
+export function useOfflineSync() {
+  const { user } = useAuth()
+  const [online, setOnline] = useState(true)
+  const [pending, setPending] = useState(0)
+  const [syncing, setSyncing] = useState(false)
+  const [lastResult, setLastResult] = useState<TaskSyncResult | null>(null)
+
+  const sync = useCallback(async (): Promise<TaskSyncResult | null> => {
+    if (!user || !navigator.onLine) return null
+
+    try {
+      setSyncing(true)
+      return await getTaskOutbox().sync(user.id)
+    } catch (err) {
+      logger.error('Error syncing offline task changes', err)
+      return null
+    } finally {
+      setSyncing(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!user) return undefined
+
+    const outbox = getTaskOutbox()
+    const unsubscribe = outbox.subscribe(event => {
+      if (event.userId !== user.id) return
+      if (event.type === 'changed') {
+        setPending(event.pending)
+      } else {
+        setLastResult(event.result)
+        setPending(event.result.remaining)
+      }
+    })
+
+    // 前回の画面で送れなかった変更を送る
+    outbox.pendingCount(user.id)
+      .then(count => {
+        setPending(count)
+        if (count > 0) sync()
+      })
+      .catch(err => logger.error('Error reading offline task changes', err))
+
+    return unsubscribe
+  }, [user, sync])
+
+  useEffect(() => {
+    setOnline(navigator.onLine)
+
+    const handleOnline = () => {
+      setOnline(true)
+      sync()
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [sync])
+
+  return {
+    online,
+    pending,
+    syncing,
+    lastResult,
+    sync,
+  }
+}
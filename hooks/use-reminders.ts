@@ -0,0 +1,349 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { useToastEnhanced } from '@/hooks/use-toast-enhanced'
+import { logger } from '@/lib/logger'
+import { getPushSubscription, isWebPushSupported, SERVICE_WORKER_URL } from '@/lib/reminders/browser-push'
+import { ReminderAnchor, ReminderNotification, ReminderPolicy, ReminderSettings, TaskReminder } from '@/types/reminders'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+// 未読の通知を確認する間隔（サーバーの定期実行は5分ごと）
+const NOTIFICATION_POLL_INTERVAL_MS = 60 * 1000
+
+/**
+ * タスクの通知
+ */
+export function useTaskReminders(taskId: string | null) {
+  const { user } = useAuth()
+  const [reminders, setReminders] = useState<TaskReminder[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReminders = useCallback(async () => {
+    if (!user || !taskId) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/reminders`)
+      const result: ApiResponse<TaskReminder[]> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch task reminders')
+      }
+
+      setReminders(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching task reminders'
+      setError(errorMessage)
+      logger.error('Error fetching task reminders', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, taskId])
+
+  useEffect(() => {
+    fetchReminders()
+  }, [fetchReminders])
+
+  const addReminder = useCallback(async (anchor: ReminderAnchor, offsetMinutes: number): Promise<boolean> => {
+    if (!user || !taskId) return false
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/reminders`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ anchor, offset_minutes: offsetMinutes }),
+      })
+
+      const result: ApiResponse<TaskReminder> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to add task reminder')
+      }
+
+      await fetchReminders()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while adding task reminder'
+      setError(errorMessage)
+      logger.error('Error adding task reminder', err)
+      return false
+    }
+  }, [user, taskId, fetchReminders])
+
+  const removeReminder = useCallback(async (reminderId: string): Promise<boolean> => {
+    if (!user || !taskId) return false
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/reminders/${reminderId}`, {
+        method: 'DELETE',
+      })
+
+      const result: ApiResponse<null> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to remove task reminder')
+      }
+
+      setReminders(prev => prev.filter(reminder => reminder.id !== reminderId))
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while removing task reminder'
+      setError(errorMessage)
+      logger.error('Error removing task reminder', err)
+      return false
+    }
+  }, [user, taskId])
+
+  return {
+    reminders,
+    loading,
+    error,
+    refetch: fetchReminders,
+    addReminder,
+    removeReminder,
+  }
+}
+
+/**
+ * 既定の通知設定と、このブラウザでの通知（Web Push）の購読
+ */
+export function useReminderSettings() {
+  const { user } = useAuth()
+  const [settings, setSettings] = useState<ReminderSettings | null>(null)
+  const [pushSubscribed, setPushSubscribed] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // サーバーでの描画と一致させるため、対応しているかはマウント後に判定する
+  const [pushSupported, setPushSupported] = useState(false)
+
+  const fetchSettings = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/reminders/settings')
+      const result: ApiResponse<ReminderSettings> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch reminder settings')
+      }
+
+      setSettings(result.data)
+      setPushSupported(isWebPushSupported())
+      if (isWebPushSupported()) {
+        setPushSubscribed((await getPushSubscription()) !== null)
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching reminder settings'
+      setError(errorMessage)
+      logger.error('Error fetching reminder settings', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [fetchSettings])
+
+  const updatePolicy = useCallback(async (policy: ReminderPolicy): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      setUpdating(true)
+      setError(null)
+
+      const response = await fetch('/api/reminders/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(policy),
+      })
+
+      const result: ApiResponse<ReminderSettings> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update reminder settings')
+      }
+
+      setSettings(result.data)
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while updating reminder settings'
+      setError(errorMessage)
+      logger.error('Error updating reminder settings', err)
+      return false
+    } finally {
+      setUpdating(false)
+    }
+  }, [user])
+
+  // 通知の許可を求め、Service Worker を登録して購読をサーバーに保存する
+  const subscribePush = useCallback(async (): Promise<boolean> => {
+    if (!user || !settings?.web_push_public_key || !isWebPushSupported()) return false
+
+    try {
+      setUpdating(true)
+      setError(null)
+
+      const permission = await Notification.requestPermission()
+      if (permission !== 'granted') {
+        throw new Error('ブラウザの通知が許可されていません')
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      await navigator.serviceWorker.ready
+      const subscription = await registration.pushManager.getSubscription() ??
+        await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: settings.web_push_public_key,
+        })
+
+      const response = await fetch('/api/reminders/push-subscriptions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(subscription.toJSON()),
+      })
+
+      const result: ApiResponse<null> = await response.json()
+
+      if (!response.ok || !result.success) {
+        await subscription.unsubscribe()
+        throw new Error(result.error || 'Failed to save push subscription')
+      }
+
+      setPushSubscribed(true)
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while subscribing to push notifications'
+      setError(errorMessage)
+      logger.error('Error subscribing to push notifications', err)
+      return false
+    } finally {
+      setUpdating(false)
+    }
+  }, [user, settings])
+
+  const unsubscribePush = useCallback(async (): Promise<boolean> => {
+    if (!user || !isWebPushSupported()) return false
+
+    try {
+      setUpdating(true)
+      setError(null)
+
+      const subscription = await getPushSubscription()
+      if (subscription) {
+        const endpoint = encodeURIComponent(subscription.endpoint)
+        const response = await fetch(`/api/reminders/push-subscriptions?endpoint=${endpoint}`, {
+          method: 'DELETE',
+        })
+
+        const result: ApiResponse<null> = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to remove push subscription')
+        }
+
+        await subscription.unsubscribe()
+      }
+
+      setPushSubscribed(false)
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while unsubscribing from push notifications'
+      setError(errorMessage)
+      logger.error('Error unsubscribing from push notifications', err)
+      return false
+    } finally {
+      setUpdating(false)
+    }
+  }, [user])
+
+  return {
+    settings,
+    pushSupported,
+    pushSubscribed,
+    loading,
+    updating,
+    error,
+    refetch: fetchSettings,
+    updatePolicy,
+    subscribePush,
+    unsubscribePush,
+  }
+}
+
+/**
+ * アプリ内の通知
+ * 未読の通知を定期的に取得してトーストで表示し、表示したものを既読にする
+ */
+export function useReminderNotifications() {
+  const { user } = useAuth()
+  const { showInfo } = useToastEnhanced()
+  // showInfo はレンダーごとに作り直されるため、定期実行が再設定されないよう参照で保持する
+  const showInfoRef = useRef(showInfo)
+  showInfoRef.current = showInfo
+
+  const checkNotifications = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const response = await fetch('/api/reminders/notifications?unread=true&channel=in_app')
+      const result: ApiResponse<ReminderNotification[]> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch reminder notifications')
+      }
+      if (result.data.length === 0) return
+
+      // 古い順に表示する
+      for (const notification of [...result.data].reverse()) {
+        showInfoRef.current(notification.body, { title: notification.title, duration: 10000 })
+      }
+
+      const readResponse = await fetch('/api/reminders/notifications/read', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids: result.data.map(notification => notification.id) }),
+      })
+
+      if (!readResponse.ok) {
+        throw new Error('Failed to mark reminder notifications as read')
+      }
+    } catch (err) {
+      logger.error('Error checking reminder notifications', err)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!user) return
+
+    checkNotifications()
+    const timer = setInterval(checkNotifications, NOTIFICATION_POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [user, checkNotifications])
+}
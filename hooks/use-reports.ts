@@ -0,0 +1,67 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { logger } from '@/lib/logger'
+import { EstimateReport } from '@/types/reports'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+/**
+ * 見積もりと実績のレポート
+ * from / to（YYYY-MM-DD）を省略すると直近4週間を集計する
+ */
+export function useEstimateReport(from?: string, to?: string) {
+  const { user } = useAuth()
+  const [report, setReport] = useState<EstimateReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    if (!user) {
+      setReport(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+
+      const response = await fetch(`/api/reports?${params}`)
+      const result: ApiResponse<EstimateReport> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch report')
+      }
+
+      setReport(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching report'
+      setError(errorMessage)
+      logger.error('Error fetching report', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, from, to])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return {
+    report,
+    loading,
+    error,
+    refetch: fetchReport,
+  }
+}
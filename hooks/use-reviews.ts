@@ -0,0 +1,154 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { invalidateTaskCache } from '@/hooks/use-tasks'
+import { logger } from '@/lib/logger'
+import { DailyReview, DailyReviewInput, DailyReviewSummary, WeeklyReview } from '@/types/reviews'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+/**
+ * 日次レビュー（date を省略すると今日）
+ * enabled が false の間は取得しない（ダイアログを開いたときだけ取得するため）
+ */
+export function useDailyReview(date?: string, enabled: boolean = true) {
+  const { user } = useAuth()
+  const [summary, setSummary] = useState<DailyReviewSummary | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSummary = useCallback(async () => {
+    if (!user || !enabled) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      if (date) params.set('date', date)
+
+      const response = await fetch(`/api/reviews/daily?${params}`)
+      const result: ApiResponse<DailyReviewSummary> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch daily review')
+      }
+
+      setSummary(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching daily review'
+      setError(errorMessage)
+      logger.error('Error fetching daily review', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, date, enabled])
+
+  useEffect(() => {
+    fetchSummary()
+  }, [fetchSummary])
+
+  /**
+   * レビューを保存する
+   * 残ったタスクを移したりキャンセルしたりするため、タスクのキャッシュも破棄する
+   */
+  const saveReview = useCallback(async (input: DailyReviewInput): Promise<DailyReview | null> => {
+    if (!user || !summary) return null
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await fetch('/api/reviews/daily', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...input, date: summary.date }),
+      })
+      const result: ApiResponse<DailyReview> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save daily review')
+      }
+
+      invalidateTaskCache()
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while saving daily review'
+      setError(errorMessage)
+      logger.error('Error saving daily review', err)
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }, [user, summary])
+
+  return {
+    summary,
+    loading,
+    saving,
+    error,
+    saveReview,
+    refetch: fetchSummary,
+  }
+}
+
+/**
+ * 週次レビュー（weekStart を含む週、省略すると今週）
+ */
+export function useWeeklyReview(weekStart?: string) {
+  const { user } = useAuth()
+  const [review, setReview] = useState<WeeklyReview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReview = useCallback(async () => {
+    if (!user) {
+      setReview(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      if (weekStart) params.set('week_start', weekStart)
+
+      const response = await fetch(`/api/reviews/weekly?${params}`)
+      const result: ApiResponse<WeeklyReview> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch weekly review')
+      }
+
+      setReview(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching weekly review'
+      setError(errorMessage)
+      logger.error('Error fetching weekly review', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, weekStart])
+
+  useEffect(() => {
+    fetchReview()
+  }, [fetchReview])
+
+  return {
+    review,
+    loading,
+    error,
+    refetch: fetchReview,
+  }
+}
@@ -0,0 +1,274 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { invalidateTaskCache } from '@/hooks/use-tasks'
+import { logger } from '@/lib/logger'
+import { Task, TaskChecklistItem, TaskPage, TaskStatus, TaskWithCategory, TASK_PAGINATION } from '@/types/tasks'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+/**
+ * タスクの直下のサブタスク（作成順）
+ * サブタスクを変更すると親タスクの集計が変わるため、タスク一覧のキャッシュを破棄する
+ */
+export function useSubtasks(parentTaskId: string | null) {
+  const { user } = useAuth()
+  const [subtasks, setSubtasks] = useState<TaskWithCategory[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSubtasks = useCallback(async () => {
+    if (!user || !parentTaskId) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({
+        parent_task_id: parentTaskId,
+        sort_field: 'created_at',
+        sort_direction: 'asc',
+        limit: String(TASK_PAGINATION.MAX_LIMIT),
+      })
+      const response = await fetch(`/api/tasks?${params.toString()}`)
+
+      const result: ApiResponse<TaskPage> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch subtasks')
+      }
+
+      setSubtasks(result.data.items)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching subtasks'
+      setError(errorMessage)
+      logger.error('Error fetching subtasks', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, parentTaskId])
+
+  useEffect(() => {
+    fetchSubtasks()
+  }, [fetchSubtasks])
+
+  const createSubtask = useCallback(async (title: string): Promise<Task | null> => {
+    if (!user || !parentTaskId) return null
+
+    try {
+      setError(null)
+
+      const response = await fetch('/api/tasks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title, parent_task_id: parentTaskId }),
+      })
+
+      const result: ApiResponse<Task> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to create subtask')
+      }
+
+      invalidateTaskCache()
+      await fetchSubtasks()
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while creating subtask'
+      setError(errorMessage)
+      logger.error('Error creating subtask', err)
+      return null
+    }
+  }, [user, parentTaskId, fetchSubtasks])
+
+  const setSubtaskStatus = useCallback(async (taskId: string, status: TaskStatus): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      })
+
+      const result: ApiResponse<Task> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update subtask')
+      }
+
+      invalidateTaskCache()
+      await fetchSubtasks()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while updating subtask'
+      setError(errorMessage)
+      logger.error('Error updating subtask', err)
+      return false
+    }
+  }, [user, fetchSubtasks])
+
+  return {
+    subtasks,
+    loading,
+    error,
+    refetch: fetchSubtasks,
+    createSubtask,
+    setSubtaskStatus,
+  }
+}
+
+/**
+ * タスクのチェックリスト
+ * チェックの切り替えは API の応答を待たずに反映し、失敗したら元に戻す
+ */
+export function useTaskChecklist(taskId: string | null) {
+  const { user } = useAuth()
+  const [items, setItems] = useState<TaskChecklistItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchChecklist = useCallback(async () => {
+    if (!user || !taskId) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/checklist`)
+
+      const result: ApiResponse<TaskChecklistItem[]> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch checklist')
+      }
+
+      setItems(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching checklist'
+      setError(errorMessage)
+      logger.error('Error fetching checklist', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, taskId])
+
+  useEffect(() => {
+    fetchChecklist()
+  }, [fetchChecklist])
+
+  const addItem = useCallback(async (title: string): Promise<boolean> => {
+    if (!user || !taskId) return false
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/checklist`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title }),
+      })
+
+      const result: ApiResponse<TaskChecklistItem> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to add checklist item')
+      }
+
+      setItems(prev => [...prev, result.data])
+      invalidateTaskCache()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while adding checklist item'
+      setError(errorMessage)
+      logger.error('Error adding checklist item', err)
+      return false
+    }
+  }, [user, taskId])
+
+  const toggleItem = useCallback(async (itemId: string, isDone: boolean): Promise<boolean> => {
+    if (!user || !taskId) return false
+
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, is_done: isDone } : item))
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/checklist/${itemId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ is_done: isDone }),
+      })
+
+      const result: ApiResponse<TaskChecklistItem> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update checklist item')
+      }
+
+      invalidateTaskCache()
+      return true
+    } catch (err) {
+      // ロールバック
+      setItems(prev => prev.map(item => item.id === itemId ? { ...item, is_done: !isDone } : item))
+
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while updating checklist item'
+      setError(errorMessage)
+      logger.error('Error updating checklist item', err)
+      return false
+    }
+  }, [user, taskId])
+
+  const deleteItem = useCallback(async (itemId: string): Promise<boolean> => {
+    if (!user || !taskId) return false
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/checklist/${itemId}`, {
+        method: 'DELETE',
+      })
+
+      const result: ApiResponse<null> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete checklist item')
+      }
+
+      setItems(prev => prev.filter(item => item.id !== itemId))
+      invalidateTaskCache()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while deleting checklist item'
+      setError(errorMessage)
+      logger.error('Error deleting checklist item', err)
+      return false
+    }
+  }, [user, taskId])
+
+  return {
+    items,
+    loading,
+    error,
+    refetch: fetchChecklist,
+    addItem,
+    toggleItem,
+    deleteItem,
+  }
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { invalidateTaskCache } from '@/hooks/use-tasks'
+import { logger } from '@/lib/logger'
+import { TaskDependencies, TaskDependency, TaskDependencyType } from '@/types/tasks'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+const EMPTY_DEPENDENCIES: TaskDependencies = { blocked_by: [], blocks: [] }
+
+/**
+ * タスクの先行タスクと後続タスク
+ * 依存関係を変更するとタスク一覧のブロック状態が変わるため、タスク一覧のキャッシュを破棄する
+ */
+export function useTaskDependencies(taskId: string | null) {
+  const { user } = useAuth()
+  const [dependencies, setDependencies] = useState<TaskDependencies>(EMPTY_DEPENDENCIES)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchDependencies = useCallback(async () => {
+    if (!user || !taskId) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`)
+
+      const result: ApiResponse<TaskDependencies> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch task dependencies')
+      }
+
+      setDependencies(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching task dependencies'
+      setError(errorMessage)
+      logger.error('Error fetching task dependencies', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, taskId])
+
+  useEffect(() => {
+    fetchDependencies()
+  }, [fetchDependencies])
+
+  const addDependency = useCallback(async (otherTaskId: string, type: TaskDependencyType): Promise<boolean> => {
+    if (!user || !taskId) return false
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ task_id: otherTaskId, type }),
+      })
+
+      const result: ApiResponse<TaskDependency> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to add task dependency')
+      }
+
+      invalidateTaskCache()
+      await fetchDependencies()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while adding task dependency'
+      setError(errorMessage)
+      logger.error('Error adding task dependency', err)
+      return false
+    }
+  }, [user, taskId, fetchDependencies])
+
+  const removeDependency = useCallback(async (dependencyId: string): Promise<boolean> => {
+    if (!user || !taskId) return false
+
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/dependencies/${dependencyId}`, {
+        method: 'DELETE',
+      })
+
+      const result: ApiResponse<null> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to remove task dependency')
+      }
+
+      setDependencies(prev => ({
+        blocked_by: prev.blocked_by.filter(link => link.dependency_id !== dependencyId),
+        blocks: prev.blocks.filter(link => link.dependency_id !== dependencyId),
+      }))
+      invalidateTaskCache()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while removing task dependency'
+      setError(errorMessage)
+      logger.error('Error removing task dependency', err)
+      return false
+    }
+  }, [user, taskId])
+
+  return {
+    dependencies,
+    loading,
+    error,
+    refetch: fetchDependencies,
+    addDependency,
+    removeDependency,
+  }
+}
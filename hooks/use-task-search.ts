@@ -0,0 +1,118 @@
+'use client'
+
+import { useState, useCallback, useRef } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { logger } from '@/lib/logger'
+import { TaskSearchPage, TaskSearchResult } from '@/types/tasks'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+/**
+ * タスクの全文検索
+ * search で新しい検索を始め、loadMore で同じキーワードの続きを読み込む
+ * 入力中に検索し直した場合、古い検索の応答は捨てる
+ */
+export function useTaskSearch() {
+  const { user } = useAuth()
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<TaskSearchResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [nextOffset, setNextOffset] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const requestIdRef = useRef(0)
+
+  const fetchPage = useCallback(async (q: string, offset: number): Promise<TaskSearchPage> => {
+    const params = new URLSearchParams({ q, offset: String(offset) })
+    const response = await fetch(`/api/tasks/search?${params.toString()}`)
+
+    const result: ApiResponse<TaskSearchPage> = await response.json()
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to search tasks')
+    }
+
+    return result.data
+  }, [])
+
+  const search = useCallback(async (value: string) => {
+    const q = value.trim()
+    const requestId = ++requestIdRef.current
+    setQuery(q)
+
+    if (!user || !q) {
+      setResults([])
+      setTotal(0)
+      setNextOffset(null)
+      setError(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const page = await fetchPage(q, 0)
+      if (requestId !== requestIdRef.current) return
+
+      setResults(page.items)
+      setTotal(page.total)
+      setNextOffset(page.nextOffset)
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return
+
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while searching tasks'
+      setError(errorMessage)
+      logger.error('Error searching tasks', err)
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false)
+    }
+  }, [user, fetchPage])
+
+  const loadMore = useCallback(async () => {
+    if (!user || !query || nextOffset === null || loading || loadingMore) return
+
+    const requestId = requestIdRef.current
+
+    try {
+      setLoadingMore(true)
+      setError(null)
+
+      const page = await fetchPage(query, nextOffset)
+      if (requestId !== requestIdRef.current) return
+
+      // 検索の間にタスクが変わると順位がずれるため、重複は除く
+      setResults(prev => {
+        const ids = new Set(prev.map(result => result.task.id))
+        return [...prev, ...page.items.filter(result => !ids.has(result.task.id))]
+      })
+      setTotal(page.total)
+      setNextOffset(page.nextOffset)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while searching tasks'
+      setError(errorMessage)
+      logger.error('Error loading more search results', err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [user, query, nextOffset, loading, loadingMore, fetchPage])
+
+  return {
+    query,
+    results,
+    total,
+    hasNextPage: nextOffset !== null,
+    loading,
+    loadingMore,
+    error,
+    search,
+    loadMore,
+  }
+}
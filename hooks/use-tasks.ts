@@ -3,17 +3,33 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useAuth } from '@/hooks/use-auth'
 import { logger } from '@/lib/logger'
+import {
+  buildOfflineTask,
+  createTemporaryId,
+  getOfflineStore,
+  getTaskOutbox,
+  isNetworkError,
+  isTemporaryId
+} from '@/lib/offline/outbox'
+import { TaskMutation } from '@/types/offline'
 import {
   Task,
   TaskWithCategory,
   TaskInsert,
   TaskUpdate,
+  TaskUpdateOptions,
   TaskFilters,
   TaskSortOptions,
+  TaskPage,
   TaskStats,
+  TaskEvent,
+  RecurrenceScope,
+  BulkTaskOperation,
+  BulkTaskResult,
   Category,
   CategoryInsert,
-  CategoryUpdate
+  CategoryUpdate,
+  CategoryDeleteOptions
 } from '@/types/tasks'
 
 interface ApiResponse<T> {
@@ -27,18 +43,210 @@ interface UseTasksOptions {
   enableCache?: boolean
   refetchInterval?: number
   staleTime?: number
+  // 1ページの件数
+  pageSize?: number
+  // すべてのページを続けて取得する（カレンダーなど一覧全体が必要な場合）
+  loadAll?: boolean
 }
 
 const DEFAULT_OPTIONS: UseTasksOptions = {
   enableCache: true,
   refetchInterval: 0,
   staleTime: 5 * 60 * 1000, // 5分
+  pageSize: 50,
+  loadAll: false,
+}
+
+interface CachedTaskPages {
+  data: TaskWithCategory[]
+  nextCursor: string | null
+  total: number
+  timestamp: number
 }
 
 // グローバルキャッシュ（簡易実装）
-const taskCache = new Map<string, { data: TaskWithCategory[]; timestamp: number }>()
+const taskCache = new Map<string, CachedTaskPages>()
 const categoryCache = new Map<string, { data: Category[]; timestamp: number }>()
 
+// 外部要因（カレンダー同期など）でタスクが変わった場合にキャッシュを破棄する
+// 端末に保存した一覧は再読み込み後やオフライン中の表示に使うため残す
+export function invalidateTaskCache() {
+  taskCache.clear()
+}
+
+export function invalidateCategoryCache() {
+  categoryCache.clear()
+}
+
+// 元に戻す・やり直す操作の履歴の上限
+const UNDO_HISTORY_LIMIT = 50
+
+type TaskUpdateData = Omit<TaskUpdate, 'user_id' | 'id'>
+
+// 履歴を再生するときに API へ送る1回分の操作
+type UndoStep =
+  | { kind: 'update'; taskId: string; data: TaskUpdateData }
+  | { kind: 'delete'; taskId: string }
+  | { kind: 'restore'; taskId: string }
+  | { kind: 'bulk'; taskIds: string[]; operation: BulkTaskOperation }
+
+// undo で元に戻す操作と redo でやり直す操作の組
+interface UndoEntry {
+  label: string
+  undo: UndoStep[]
+  redo: UndoStep[]
+}
+
+async function runUndoStep(step: UndoStep): Promise<void> {
+  let response: Response
+  switch (step.kind) {
+    case 'update':
+      // 記録したときに確認済みのため、ブロック中でも進行中に戻す
+      response = await fetch(`/api/tasks/${step.taskId}?scope=this&ignore_blockers=true`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(step.data),
+      })
+      break
+    case 'delete':
+      response = await fetch(`/api/tasks/${step.taskId}?scope=this`, {
+        method: 'DELETE',
+      })
+      break
+    case 'restore':
+      response = await fetch(`/api/trash/tasks/${step.taskId}/restore`, {
+        method: 'POST',
+      })
+      // 親タスクの復元と一緒に復元済み
+      if (response.status === 404 && (await fetch(`/api/tasks/${step.taskId}`)).ok) return
+      break
+    case 'bulk':
+      // 記録したときに確認済みのため、ブロック中でも進行中に戻す
+      response = await fetch('/api/tasks/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ task_ids: step.taskIds, operation: step.operation, ignore_blockers: true }),
+      })
+      break
+  }
+
+  const result: ApiResponse<unknown> = await response.json()
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to replay task history')
+  }
+}
+
+// 変更したフィールドの変更前の値を取り出す
+function pickPreviousValues(task: TaskWithCategory, updates: TaskUpdateData): TaskUpdateData {
+  const keys = Object.keys(updates).filter(key => updates[key as keyof TaskUpdateData] !== undefined)
+  // 完了日時はステータスに合わせてサーバーが書き換えるため一緒に戻す
+  if (keys.includes('status')) keys.push('completed_at')
+
+  return Object.fromEntries(keys.map(key => [key, task[key as keyof Task]])) as TaskUpdateData
+}
+
+// 変更前の値ごとにタスクをまとめる（一括操作を同じ種類の一括操作で戻すため）
+function groupTaskIds<T>(tasks: Task[], getValue: (task: Task) => T): Map<T, string[]> {
+  const groups = new Map<T, string[]>()
+  for (const task of tasks) {
+    const value = getValue(task)
+    groups.set(value, [...(groups.get(value) ?? []), task.id])
+  }
+  return groups
+}
+
+// 一括操作を打ち消す操作を組み立てる
+function buildBulkUndoSteps(previousTasks: Task[], operation: BulkTaskOperation): UndoStep[] {
+  switch (operation.type) {
+    case 'set_status':
+      return [...groupTaskIds(previousTasks, task => task.status)].map(([status, taskIds]) => ({
+        kind: 'bulk', taskIds, operation: { type: 'set_status', status }
+      }))
+    case 'set_priority':
+      return [...groupTaskIds(previousTasks, task => task.priority)].map(([priority, taskIds]) => ({
+        kind: 'bulk', taskIds, operation: { type: 'set_priority', priority }
+      }))
+    case 'move_category':
+      return [...groupTaskIds(previousTasks, task => task.category_id)].map(([category_id, taskIds]) => ({
+        kind: 'bulk', taskIds, operation: { type: 'move_category', category_id }
+      }))
+    case 'add_tags':
+    case 'remove_tags':
+      return previousTasks.map(task => ({ kind: 'update', taskId: task.id, data: { tags: task.tags } }))
+    case 'shift_dates':
+      return [{
+        kind: 'bulk',
+        taskIds: previousTasks.map(task => task.id),
+        operation: { type: 'shift_dates', days: -operation.days }
+      }]
+    case 'delete': {
+      // サブタスクは親の復元で一緒に戻るため、親も一緒に削除したタスクは復元しない
+      // 親がゴミ箱にあるまま復元すると親から外れるため、最上位のタスクから復元する
+      const taskIds = new Set(previousTasks.map(task => task.id))
+      return previousTasks
+        .filter(task => !task.parent_task_id || !taskIds.has(task.parent_task_id))
+        .sort((a, b) => Number(a.parent_task_id !== null) - Number(b.parent_task_id !== null))
+        .map(task => ({ kind: 'restore', taskId: task.id }))
+    }
+  }
+}
+
+// オフラインの場合、または送信待ちの変更がある場合は API を呼ばずに送信待ちに記録する（変更の順序を保つため）
+async function shouldQueueMutation(userId: string, taskId?: string): Promise<boolean> {
+  if (taskId && isTemporaryId(taskId)) return true
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  return (await getTaskOutbox().pendingCount(userId)) > 0
+}
+
+function buildTaskParams(filters?: TaskFilters, sort?: TaskSortOptions): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters?.status && filters.status.length > 0) {
+    params.append('status', filters.status.join(','))
+  }
+  if (filters?.priority && filters.priority.length > 0) {
+    params.append('priority', filters.priority.join(','))
+  }
+  if (filters?.category_id && filters.category_id.length > 0) {
+    params.append('category_id', filters.category_id.join(','))
+  }
+  if (filters?.due_date_from) {
+    params.append('due_date_from', filters.due_date_from)
+  }
+  if (filters?.due_date_to) {
+    params.append('due_date_to', filters.due_date_to)
+  }
+  if (filters?.scheduled_from && filters?.scheduled_to) {
+    params.append('scheduled_from', filters.scheduled_from)
+    params.append('scheduled_to', filters.scheduled_to)
+  }
+  if (filters?.search) {
+    params.append('search', filters.search)
+  }
+  if (filters?.blocked !== undefined) {
+    params.append('blocked', String(filters.blocked))
+  }
+  if (sort?.field) {
+    params.append('sort_field', sort.field)
+  }
+  if (sort?.direction) {
+    params.append('sort_direction', sort.direction)
+  }
+
+  return params
+}
+
+// ページの継ぎ目で同じタスクが重複しないようにつなげる
+function appendTasks(current: TaskWithCategory[], next: TaskWithCategory[]): TaskWithCategory[] {
+  const ids = new Set(current.map(task => task.id))
+  return [...current, ...next.filter(task => !ids.has(task.id))]
+}
+
 export function useTasks(
   filters?: TaskFilters, 
   sort?: TaskSortOptions, 
@@ -46,12 +254,41 @@ export function useTasks(
 ) {
   const { user } = useAuth()
   const [tasks, setTasks] = useState<TaskWithCategory[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
   
   const opts = { ...DEFAULT_OPTIONS, ...options }
   const abortControllerRef = useRef<AbortController>()
 
+  // ロールバック用に最新のタスク一覧を保持
+  const tasksRef = useRef<TaskWithCategory[]>([])
+  useEffect(() => {
+    tasksRef.current = tasks
+  }, [tasks])
+
+  // 元に戻す・やり直す操作の履歴
+  const undoStackRef = useRef<UndoEntry[]>([])
+  const redoStackRef = useRef<UndoEntry[]>([])
+  const replayingRef = useRef(false)
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false })
+
+  const syncHistoryState = useCallback(() => {
+    setHistoryState({
+      canUndo: undoStackRef.current.length > 0,
+      canRedo: redoStackRef.current.length > 0
+    })
+  }, [])
+
+  // 新しい操作を記録する（やり直しの履歴は破棄する）
+  const recordHistory = useCallback((entry: UndoEntry) => {
+    undoStackRef.current = [...undoStackRef.current, entry].slice(-UNDO_HISTORY_LIMIT)
+    redoStackRef.current = []
+    syncHistoryState()
+  }, [syncHistoryState])
+
   // フィルタとソートのメモ化
   const filtersKey = useMemo(() => {
     return JSON.stringify(filters || {})
@@ -63,8 +300,8 @@ export function useTasks(
 
   // キャッシュキーの生成
   const cacheKey = useMemo(() => {
-    return `tasks:${user?.id}:${filtersKey}:${sortKey}`
-  }, [user?.id, filtersKey, sortKey])
+    return `tasks:${user?.id}:${filtersKey}:${sortKey}:${opts.pageSize}:${opts.loadAll}`
+  }, [user?.id, filtersKey, sortKey, opts.pageSize, opts.loadAll])
 
   // キャッシュからデータを取得
   const getCachedData = useCallback(() => {
@@ -74,27 +311,77 @@ export function useTasks(
     if (!cached) return null
     
     const isStale = Date.now() - cached.timestamp > opts.staleTime!
-    return isStale ? null : cached.data
+    return isStale ? null : cached
   }, [cacheKey, opts.enableCache, opts.staleTime, user])
 
-  // キャッシュにデータを保存
-  const setCachedData = useCallback((data: TaskWithCategory[]) => {
+  // キャッシュにデータを保存（検索以外の一覧は端末にも保存する）
+  const setCachedData = useCallback((data: TaskWithCategory[], page?: Pick<TaskPage, 'nextCursor' | 'total'>) => {
     if (!opts.enableCache || !user) return
-    
-    taskCache.set(cacheKey, {
+
+    const cached = taskCache.get(cacheKey)
+    const entry: CachedTaskPages = {
       data,
-      timestamp: Date.now()
-    })
+      nextCursor: page ? page.nextCursor : cached?.nextCursor ?? null,
+      total: page ? page.total : cached?.total ?? data.length,
+      timestamp: page ? Date.now() : cached?.timestamp ?? Date.now()
+    }
+    taskCache.set(cacheKey, entry)
+
+    if (!filters?.search) {
+      getOfflineStore().putTaskList({ key: cacheKey, ...entry }).catch(err => {
+        logger.warn('Failed to store task list', err)
+      })
+    }
+  }, [cacheKey, opts.enableCache, user, filters?.search])
+
+  // 端末に保存した一覧を表示する（再読み込み直後やオフライン中）
+  const showStoredTasks = useCallback(async (): Promise<boolean> => {
+    if (!opts.enableCache || !user) return false
+
+    try {
+      const stored = await getOfflineStore().getTaskList(cacheKey)
+      if (!stored) return false
+
+      setTasks(stored.data)
+      setNextCursor(stored.nextCursor)
+      setTotal(stored.total)
+      setLoading(false)
+      return true
+    } catch (err) {
+      logger.warn('Failed to read stored task list', err)
+      return false
+    }
   }, [cacheKey, opts.enableCache, user])
 
+  // 1ページ分を取得する
+  const fetchPage = useCallback(async (cursor: string | null, signal?: AbortSignal): Promise<TaskPage> => {
+    const params = buildTaskParams(filters, sort)
+    params.append('limit', String(opts.pageSize))
+    if (cursor) {
+      params.append('cursor', cursor)
+    }
+
+    const response = await fetch(`/api/tasks?${params.toString()}`, { signal })
+
+    const result: ApiResponse<TaskPage> = await response.json()
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to fetch tasks')
+    }
+
+    return result.data
+  }, [filters, sort, opts.pageSize])
+
   const fetchTasks = useCallback(async (force = false) => {
     if (!user) return
 
     // キャッシュチェック
     if (!force) {
-      const cachedData = getCachedData()
-      if (cachedData) {
-        setTasks(cachedData)
+      const cached = getCachedData()
+      if (cached) {
+        setTasks(cached.data)
+        setNextCursor(cached.nextCursor)
+        setTotal(cached.total)
         setLoading(false)
         return
       }
@@ -108,59 +395,36 @@ export function useTasks(
     const abortController = new AbortController()
     abortControllerRef.current = abortController
 
+    // 初回は端末に保存した一覧を先に表示し、取得できたら差し替える
+    const showingStored = !force && tasksRef.current.length === 0 && await showStoredTasks()
+
     try {
-      setLoading(true)
+      if (!showingStored) setLoading(true)
       setError(null)
 
-      const params = new URLSearchParams()
-      
-      if (filters?.status && filters.status.length > 0) {
-        params.append('status', filters.status.join(','))
-      }
-      if (filters?.priority && filters.priority.length > 0) {
-        params.append('priority', filters.priority.join(','))
-      }
-      if (filters?.category_id && filters.category_id.length > 0) {
-        params.append('category_id', filters.category_id.join(','))
-      }
-      if (filters?.due_date_from) {
-        params.append('due_date_from', filters.due_date_from)
-      }
-      if (filters?.due_date_to) {
-        params.append('due_date_to', filters.due_date_to)
-      }
-      if (filters?.search) {
-        params.append('search', filters.search)
-      }
-      if (sort?.field) {
-        params.append('sort_field', sort.field)
-      }
-      if (sort?.direction) {
-        params.append('sort_direction', sort.direction)
-      }
-
-      const response = await fetch(`/api/tasks?${params.toString()}`, {
-        signal: abortController.signal
-      })
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const result: ApiResponse<TaskWithCategory[]> = await response.json()
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to fetch tasks')
+      let page = await fetchPage(null, abortController.signal)
+      let items = page.items
+      while (opts.loadAll && page.nextCursor) {
+        page = await fetchPage(page.nextCursor, abortController.signal)
+        items = appendTasks(items, page.items)
       }
 
       // キャッシュに保存
-      setCachedData(result.data)
-      setTasks(result.data)
+      setCachedData(items, page)
+      setTasks(items)
+      setNextCursor(page.nextCursor)
+      setTotal(page.total)
     } catch (err) {
       if (err instanceof Error && err.name === 'AbortError') {
         // リクエストがキャンセルされた場合は何もしない
         return
       }
+
+      // オフラインの場合は端末に保存した一覧をそのまま表示する
+      if (isNetworkError(err) && (showingStored || await showStoredTasks())) {
+        logger.warn('Showing stored tasks while offline')
+        return
+      }
       
       const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching tasks'
       setError(errorMessage)
@@ -168,30 +432,98 @@ export function useTasks(
     } finally {
       setLoading(false)
     }
-  }, [user, filters, sort, getCachedData, setCachedData])
+  }, [user, getCachedData, setCachedData, showStoredTasks, fetchPage, opts.loadAll])
+
+  /**
+   * 次のページを取得して一覧の末尾に追加する（無限スクロール用）
+   */
+  const fetchNextPage = useCallback(async () => {
+    if (!user || !nextCursor || loadingMore) return
+
+    try {
+      setLoadingMore(true)
+      setError(null)
+
+      const page = await fetchPage(nextCursor)
+      const items = appendTasks(tasksRef.current, page.items)
+
+      setCachedData(items, page)
+      setTasks(items)
+      setNextCursor(page.nextCursor)
+      setTotal(page.total)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching tasks'
+      setError(errorMessage)
+      logger.error('Error fetching next page of tasks', err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [user, nextCursor, loadingMore, fetchPage, setCachedData])
+
+  /**
+   * 変更を送信待ちに記録する（オンラインであればすぐに送信を始める）
+   * オフライン中の変更は元に戻す・やり直すの履歴には記録しない
+   */
+  const queueMutation = useCallback(async (mutation: TaskMutation): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      const outbox = getTaskOutbox()
+      await outbox.enqueue(user.id, mutation)
+      if (navigator.onLine) {
+        outbox.sync(user.id).catch(err => logger.error('Error syncing offline task changes', err))
+      }
+      return true
+    } catch (err) {
+      logger.error('Error queueing offline task change', err)
+      return false
+    }
+  }, [user])
 
   const createTask = useCallback(async (taskData: Omit<TaskInsert, 'user_id'>): Promise<Task | null> => {
     if (!user) return null
 
+    // ID をここで決めておき、応答が届かずに送り直しても同じタスクとして扱われるようにする
+    const data = { ...taskData, id: taskData.id ?? crypto.randomUUID() }
+
+    // 仮の ID で一覧に追加し、作成できたら送信後の再取得で本来のタスクに置き換わる
+    const createOffline = async (): Promise<Task | null> => {
+      const taskId = createTemporaryId()
+      if (!(await queueMutation({ kind: 'create', task_id: taskId, data }))) return null
+
+      const task = buildOfflineTask(user.id, taskId, data)
+      const items = [task, ...tasksRef.current]
+      setTasks(items)
+      setTotal(prev => prev + 1)
+      setCachedData(items)
+      return task
+    }
+
     try {
+      if (await shouldQueueMutation(user.id, data.parent_task_id ?? undefined)) {
+        return await createOffline()
+      }
+
       const response = await fetch('/api/tasks', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(taskData),
+        body: JSON.stringify(data),
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
       const result: ApiResponse<Task> = await response.json()
-      
-      if (!result.success) {
+
+      if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to create task')
       }
 
+      recordHistory({
+        label: 'タスクの作成',
+        undo: [{ kind: 'delete', taskId: result.data.id }],
+        redo: [{ kind: 'restore', taskId: result.data.id }]
+      })
+
       // キャッシュをクリア（新しいタスクが追加されたため）
       taskCache.clear()
       
@@ -200,21 +532,69 @@ export function useTasks(
       
       return result.data
     } catch (err) {
+      if (isNetworkError(err)) {
+        return createOffline()
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'An error occurred while creating task'
       setError(errorMessage)
       logger.error('Error creating task', err)
       return null
     }
-  }, [user, fetchTasks])
+  }, [user, fetchTasks, recordHistory, queueMutation, setCachedData])
+
+  // キャッシュ上のタスクを差し替える
+  const patchCachedTask = useCallback((taskId: string, patch: (task: TaskWithCategory) => TaskWithCategory) => {
+    if (!opts.enableCache) return
+    const cached = taskCache.get(cacheKey)
+    if (cached) {
+      setCachedData(cached.data.map(task => task.id === taskId ? patch(task) : task))
+    }
+  }, [cacheKey, opts.enableCache, setCachedData])
 
   const updateTask = useCallback(async (
     taskId: string, 
-    updates: Omit<TaskUpdate, 'user_id' | 'id'>
+    updates: TaskUpdateData,
+    scope: RecurrenceScope = 'this',
+    options: TaskUpdateOptions = {}
   ): Promise<Task | null> => {
+    const { completeSubtasks = false, ignoreBlockers = false } = options
     if (!user) return null
 
+    // 楽観的更新：API応答を待たずにローカル状態へ反映
+    const previousTask = tasksRef.current.find(task => task.id === taskId)
+    const applyUpdates = (task: TaskWithCategory): TaskWithCategory => ({ ...task, ...updates })
+    setTasks(prev => prev.map(task => task.id === taskId ? applyUpdates(task) : task))
+    patchCachedTask(taskId, applyUpdates)
+
+    // 送信待ちに記録した場合は変更後の表示のまま返す
+    const offlineUpdate: TaskMutation = {
+      kind: 'update',
+      task_id: taskId,
+      data: updates,
+      scope,
+      complete_subtasks: completeSubtasks,
+      ignore_blockers: ignoreBlockers,
+      base_updated_at: previousTask?.updated_at ?? null
+    }
+
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      if (await shouldQueueMutation(user.id, taskId)) {
+        if (!(await queueMutation(offlineUpdate))) {
+          throw new Error('変更を端末に保存できませんでした')
+        }
+        return previousTask ? applyUpdates(previousTask) : null
+      }
+
+      const params = new URLSearchParams({ scope })
+      if (completeSubtasks) {
+        params.append('complete_subtasks', 'true')
+      }
+      if (ignoreBlockers) {
+        params.append('ignore_blockers', 'true')
+      }
+
+      const response = await fetch(`/api/tasks/${taskId}?${params.toString()}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -222,79 +602,229 @@ export function useTasks(
         body: JSON.stringify(updates),
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
       const result: ApiResponse<Task> = await response.json()
-      
-      if (!result.success) {
+
+      if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to update task')
       }
 
-      // 楽観的更新：ローカル状態をすぐに更新
-      setTasks(prev => prev.map(task => 
-        task.id === taskId ? { ...task, ...result.data } : task
-      ))
+      // シリーズ全体への変更やサブタスクをまとめて完了にした場合は1件ずつ戻せないため記録しない
+      // 繰り返しタスクの完了で作成された次の回は、完了を戻しても残る
+      if (previousTask && scope === 'this' && !completeSubtasks) {
+        const isStatusChange = Object.keys(updates).every(key => key === 'status')
+        recordHistory({
+          label: isStatusChange ? 'ステータスの変更' : 'タスクの更新',
+          undo: [{ kind: 'update', taskId, data: pickPreviousValues(previousTask, updates) }],
+          redo: [{ kind: 'update', taskId, data: updates }]
+        })
+      }
 
-      // キャッシュも更新
-      if (opts.enableCache) {
-        const cached = taskCache.get(cacheKey)
-        if (cached) {
-          const updatedData = cached.data.map(task => 
-            task.id === taskId ? { ...task, ...result.data } : task
-          )
-          setCachedData(updatedData)
-        }
+      // サーバーの値で確定
+      const applyResult = (task: TaskWithCategory): TaskWithCategory => ({ ...task, ...result.data })
+      setTasks(prev => prev.map(task => task.id === taskId ? applyResult(task) : task))
+      patchCachedTask(taskId, applyResult)
+
+      // 繰り返しタスクは他の回の作成・変更を、サブタスクは親タスクの集計を、
+      // 完了・再開は後続タスクのブロック状態を反映するため再取得する
+      const recurrenceChanged = result.data.is_recurring &&
+        (scope !== 'this' || updates.status === 'completed' || updates.recurrence_pattern !== undefined)
+      const hierarchyChanged = completeSubtasks || Boolean(result.data.parent_task_id || previousTask?.parent_task_id)
+      const isFinished = (task: Task) => task.status === 'completed' || task.status === 'cancelled'
+      const blockersChanged = previousTask !== undefined && isFinished(previousTask) !== isFinished(result.data)
+      if (recurrenceChanged || hierarchyChanged || blockersChanged) {
+        taskCache.clear()
+        await fetchTasks(true)
       }
       
       return result.data
     } catch (err) {
+      if (isNetworkError(err) && await queueMutation(offlineUpdate)) {
+        return previousTask ? applyUpdates(previousTask) : null
+      }
+
+      // ロールバック
+      if (previousTask) {
+        setTasks(prev => prev.map(task => task.id === taskId ? previousTask : task))
+        patchCachedTask(taskId, () => previousTask)
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'An error occurred while updating task'
       setError(errorMessage)
       logger.error('Error updating task', err)
       return null
     }
-  }, [user, cacheKey, opts.enableCache, setCachedData])
+  }, [user, patchCachedTask, fetchTasks, recordHistory, queueMutation])
 
-  const deleteTask = useCallback(async (taskId: string): Promise<boolean> => {
+  const deleteTask = useCallback(async (taskId: string, scope: RecurrenceScope = 'this'): Promise<boolean> => {
     if (!user) return false
 
+    const previousTask = tasksRef.current.find(task => task.id === taskId)
+    const isRecurring = previousTask?.is_recurring ?? false
+
+    // 楽観的更新：ローカル状態とキャッシュからすぐに削除
+    const removeLocally = () => {
+      setTasks(prev => prev.filter(task => task.id !== taskId))
+      setTotal(prev => Math.max(prev - 1, 0))
+
+      if (opts.enableCache) {
+        const cached = taskCache.get(cacheKey)
+        if (cached) {
+          setCachedData(cached.data.filter(task => task.id !== taskId), {
+            nextCursor: cached.nextCursor,
+            total: Math.max(cached.total - 1, 0)
+          })
+        }
+      }
+    }
+
+    const offlineDelete: TaskMutation = {
+      kind: 'delete',
+      task_id: taskId,
+      scope,
+      base_updated_at: previousTask?.updated_at ?? null
+    }
+
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      if (await shouldQueueMutation(user.id, taskId)) {
+        if (!(await queueMutation(offlineDelete))) {
+          throw new Error('変更を端末に保存できませんでした')
+        }
+        removeLocally()
+        return true
+      }
+
+      const response = await fetch(`/api/tasks/${taskId}?scope=${scope}`, {
         method: 'DELETE',
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
       const result: ApiResponse<any> = await response.json()
-      
-      if (!result.success) {
+
+      if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to delete task')
       }
 
-      // 楽観的更新：ローカル状態からすぐに削除
-      setTasks(prev => prev.filter(task => task.id !== taskId))
+      // 削除はゴミ箱への移動なので、復元で元に戻せる
+      if (scope === 'this') {
+        recordHistory({
+          label: 'タスクの削除',
+          undo: [{ kind: 'restore', taskId }],
+          redo: [{ kind: 'delete', taskId }]
+        })
+      }
 
-      // キャッシュからも削除
-      if (opts.enableCache) {
-        const cached = taskCache.get(cacheKey)
-        if (cached) {
-          const updatedData = cached.data.filter(task => task.id !== taskId)
-          setCachedData(updatedData)
-        }
+      removeLocally()
+
+      // 繰り返しタスクは他の回の削除・次の回の作成を反映するため再取得する
+      if (isRecurring) {
+        taskCache.clear()
+        await fetchTasks(true)
       }
       
       return true
     } catch (err) {
+      if (isNetworkError(err) && await queueMutation(offlineDelete)) {
+        removeLocally()
+        return true
+      }
+
       const errorMessage = err instanceof Error ? err.message : 'An error occurred while deleting task'
       setError(errorMessage)
       logger.error('Error deleting task', err)
       return false
     }
-  }, [user, cacheKey, opts.enableCache, setCachedData])
+  }, [user, cacheKey, opts.enableCache, fetchTasks, recordHistory, queueMutation, setCachedData])
+
+  /**
+   * 複数のタスクにまとめて操作を適用する
+   * 並び順やフィルタの結果が変わるため、成功したら一覧を取り直す
+   */
+  const bulkUpdateTasks = useCallback(async (
+    taskIds: string[],
+    operation: BulkTaskOperation,
+    options: Pick<TaskUpdateOptions, 'ignoreBlockers'> = {}
+  ): Promise<BulkTaskResult | null> => {
+    if (!user || taskIds.length === 0) return null
+
+    const previousTasks = tasksRef.current.filter(task => taskIds.includes(task.id))
+
+    try {
+      // 一括操作は送信待ちに記録できないため、オフライン中は使えない
+      if (!navigator.onLine || taskIds.some(taskId => isTemporaryId(taskId))) {
+        throw new Error('オフライン中や未送信のタスクには一括操作を使えません')
+      }
+      // 先に送信待ちの変更を反映してから操作する
+      await getTaskOutbox().sync(user.id)
+
+      const response = await fetch('/api/tasks/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ task_ids: taskIds, operation, ignore_blockers: options.ignoreBlockers ?? false }),
+      })
+
+      const result: ApiResponse<BulkTaskResult> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to apply bulk task operation')
+      }
+
+      // 削除は読み込んでいないタスクも戻せるよう、サーバーが返す削除前のタスクから組み立てる
+      recordHistory({
+        label: 'タスクの一括操作',
+        undo: buildBulkUndoSteps(operation.type === 'delete' ? result.data.tasks : previousTasks, operation),
+        redo: [{ kind: 'bulk', taskIds, operation }]
+      })
+
+      taskCache.clear()
+      await fetchTasks(true)
+
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while applying bulk task operation'
+      setError(errorMessage)
+      logger.error('Error applying bulk task operation', err)
+      return null
+    }
+  }, [user, fetchTasks, recordHistory])
+
+  /**
+   * 記録した操作を API に送り直して、元に戻す・やり直す
+   * 再生中の操作は履歴に記録しない。成功したら操作の名前を返す
+   */
+  const replayHistory = useCallback(async (direction: 'undo' | 'redo'): Promise<string | null> => {
+    if (!user || replayingRef.current) return null
+
+    const source = direction === 'undo' ? undoStackRef : redoStackRef
+    const destination = direction === 'undo' ? redoStackRef : undoStackRef
+    const entry = source.current[source.current.length - 1]
+    if (!entry) return null
+
+    replayingRef.current = true
+    source.current = source.current.slice(0, -1)
+
+    try {
+      for (const step of entry[direction]) {
+        await runUndoStep(step)
+      }
+      destination.current = [...destination.current, entry].slice(-UNDO_HISTORY_LIMIT)
+      return entry.label
+    } catch (err) {
+      // 途中まで反映された可能性があるため、失敗した操作は履歴から外す
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while replaying task history'
+      setError(errorMessage)
+      logger.error('Error replaying task history', err)
+      return null
+    } finally {
+      replayingRef.current = false
+      syncHistoryState()
+      taskCache.clear()
+      await fetchTasks(true)
+    }
+  }, [user, fetchTasks, syncHistoryState])
+
+  const undo = useCallback(() => replayHistory('undo'), [replayHistory])
+  const redo = useCallback(() => replayHistory('redo'), [replayHistory])
 
   // 初回ロードとフィルタ変更時のリフェッチ
   useEffect(() => {
@@ -313,6 +843,20 @@ export function useTasks(
     return undefined
   }, [fetchTasks, opts.refetchInterval])
 
+  // 送信待ちの変更を送信したら、仮の ID のタスクや衝突したタスクをサーバーの内容に置き換える
+  useEffect(() => {
+    if (!user) return undefined
+
+    return getTaskOutbox().subscribe(event => {
+      if (event.type !== 'synced' || event.userId !== user.id) return
+      const { synced, conflicts, failures } = event.result
+      if (synced > 0 || conflicts.length > 0 || failures.length > 0) {
+        taskCache.clear()
+        fetchTasks(true)
+      }
+    })
+  }, [user, fetchTasks])
+
   // クリーンアップ
   useEffect(() => {
     return () => {
@@ -324,12 +868,21 @@ export function useTasks(
 
   return {
     tasks,
+    total,
+    hasNextPage: nextCursor !== null,
     loading,
+    loadingMore,
     error,
     refetch: () => fetchTasks(true),
+    fetchNextPage,
     createTask,
     updateTask,
     deleteTask,
+    bulkUpdateTasks,
+    undo,
+    redo,
+    canUndo: historyState.canUndo,
+    canRedo: historyState.canRedo,
   }
 }
 
@@ -348,13 +901,9 @@ export function useTaskStats() {
 
       const response = await fetch('/api/tasks/stats')
       
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
       const result: ApiResponse<TaskStats> = await response.json()
-      
-      if (!result.success) {
+
+      if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to fetch task stats')
       }
 
@@ -380,6 +929,52 @@ export function useTaskStats() {
   }
 }
 
+/**
+ * タスクの変更履歴（新しい順）
+ */
+export function useTaskHistory(taskId: string | null) {
+  const { user } = useAuth()
+  const [events, setEvents] = useState<TaskEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHistory = useCallback(async () => {
+    if (!user || !taskId) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/history`)
+
+      const result: ApiResponse<TaskEvent[]> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch task history')
+      }
+
+      setEvents(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching task history'
+      setError(errorMessage)
+      logger.error('Error fetching task history', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, taskId])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  return {
+    events,
+    loading,
+    error,
+    refetch: fetchHistory,
+  }
+}
+
 export function useCategories() {
   const { user } = useAuth()
   const [categories, setCategories] = useState<Category[]>([])
@@ -424,13 +1019,9 @@ export function useCategories() {
 
       const response = await fetch('/api/categories')
       
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
       const result: ApiResponse<Category[]> = await response.json()
-      
-      if (!result.success) {
+
+      if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to fetch categories')
       }
 
@@ -457,13 +1048,9 @@ export function useCategories() {
         body: JSON.stringify(categoryData),
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
       const result: ApiResponse<Category> = await response.json()
-      
-      if (!result.success) {
+
+      if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to create category')
       }
 
@@ -497,13 +1084,9 @@ export function useCategories() {
         body: JSON.stringify(updates),
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
       const result: ApiResponse<Category> = await response.json()
-      
-      if (!result.success) {
+
+      if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to update category')
       }
 
@@ -530,24 +1113,35 @@ export function useCategories() {
     }
   }, [user, cacheKey, setCachedCategories])
 
-  const deleteCategory = useCallback(async (categoryId: string): Promise<boolean> => {
+  /**
+   * カテゴリをゴミ箱に移す
+   * 所属するタスクは options に従って別のカテゴリに移すか、一緒にゴミ箱に移す
+   */
+  const deleteCategory = useCallback(async (
+    categoryId: string,
+    options: CategoryDeleteOptions = { task_action: 'move' }
+  ): Promise<boolean> => {
     if (!user) return false
 
     try {
-      const response = await fetch(`/api/categories/${categoryId}`, {
+      const params = new URLSearchParams({ task_action: options.task_action })
+      if (options.target_category_id) {
+        params.set('target_category_id', options.target_category_id)
+      }
+
+      const response = await fetch(`/api/categories/${categoryId}?${params.toString()}`, {
         method: 'DELETE',
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
       const result: ApiResponse<any> = await response.json()
-      
-      if (!result.success) {
+
+      if (!response.ok || !result.success) {
         throw new Error(result.error || 'Failed to delete category')
       }
 
+      // 所属していたタスクのカテゴリが変わる
+      taskCache.clear()
+
       // 楽観的更新
       setCategories(prev => prev.filter(category => category.id !== categoryId))
 
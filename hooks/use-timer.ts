@@ -0,0 +1,175 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { invalidateTaskCache } from '@/hooks/use-tasks'
+import { logger } from '@/lib/logger'
+import { RunningTimeEntry, TaskUpdateOptions, TimeEntry } from '@/types/tasks'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  code?: string
+  message?: string
+}
+
+// blocked: 先行タスクが完了していないため開始しなかった（確認してから confirmBlockedStart で開始する）
+export type TimerStartResult = 'started' | 'blocked' | 'failed'
+
+interface TimerStartOptions extends Pick<TaskUpdateOptions, 'ignoreBlockers'> {
+  description?: string
+}
+
+/**
+ * タスクの作業時間を計測するタイマー
+ * 計測中のタイマーはユーザーごとに1つで、別のタスクで開始すると前のタイマーは停止される
+ * 計測結果は tasks.actual_minutes に集計されるため、開始・停止後はタスクを再取得すること
+ */
+export function useTimer() {
+  const { user } = useAuth()
+  const [runningEntry, setRunningEntry] = useState<RunningTimeEntry | null>(null)
+  const [elapsedSeconds, setElapsedSeconds] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // 開始の確認待ちのタスク（開始すると進行中になるが、先行タスクが完了していない）
+  const [blockedStart, setBlockedStart] = useState<{ taskId: string; message: string } | null>(null)
+
+  const fetchRunningEntry = useCallback(async () => {
+    if (!user) {
+      setRunningEntry(null)
+      return
+    }
+
+    try {
+      const response = await fetch('/api/time-entries/running')
+      const result: ApiResponse<RunningTimeEntry | null> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch running timer')
+      }
+
+      setRunningEntry(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching timer'
+      setError(errorMessage)
+      logger.error('Error fetching running timer', err)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchRunningEntry()
+  }, [fetchRunningEntry])
+
+  // 計測中は経過時間を1秒ごとに更新する
+  useEffect(() => {
+    if (!runningEntry) {
+      setElapsedSeconds(0)
+      return
+    }
+
+    const startedAt = new Date(runningEntry.start_time).getTime()
+    const update = () => setElapsedSeconds(Math.max(Math.floor((Date.now() - startedAt) / 1000), 0))
+    update()
+
+    const interval = setInterval(update, 1000)
+    return () => clearInterval(interval)
+  }, [runningEntry])
+
+  const startTimer = useCallback(async (
+    taskId: string,
+    options: TimerStartOptions = {}
+  ): Promise<TimerStartResult> => {
+    if (!user) return 'failed'
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${taskId}/time-entries`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ description: options.description, ignore_blockers: options.ignoreBlockers ?? false }),
+      })
+      const result: ApiResponse<TimeEntry> = await response.json()
+
+      if (response.status === 409 && result.code === 'TASK_BLOCKED') {
+        setBlockedStart({ taskId, message: result.error || '先行タスクが完了していません' })
+        return 'blocked'
+      }
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to start timer')
+      }
+
+      invalidateTaskCache()
+      // タスク名を含めて取り直す
+      await fetchRunningEntry()
+      return 'started'
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while starting timer'
+      setError(errorMessage)
+      logger.error('Error starting timer', err)
+      return 'failed'
+    } finally {
+      setLoading(false)
+    }
+  }, [user, fetchRunningEntry])
+
+  // 確認待ちのタスクのタイマーを、先行タスクが完了していなくても開始する
+  const confirmBlockedStart = useCallback(async (): Promise<TimerStartResult> => {
+    if (!blockedStart) return 'failed'
+
+    setBlockedStart(null)
+    return startTimer(blockedStart.taskId, { ignoreBlockers: true })
+  }, [blockedStart, startTimer])
+
+  const cancelBlockedStart = useCallback(() => setBlockedStart(null), [])
+
+  const stopTimer = useCallback(async (taskId?: string): Promise<TimeEntry | null> => {
+    const targetTaskId = taskId ?? runningEntry?.task_id
+    if (!user || !targetTaskId) return null
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/tasks/${targetTaskId}/time-entries`, {
+        method: 'PATCH',
+      })
+      const result: ApiResponse<TimeEntry> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to stop timer')
+      }
+
+      invalidateTaskCache()
+      setRunningEntry(null)
+      return result.data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while stopping timer'
+      setError(errorMessage)
+      logger.error('Error stopping timer', err)
+      // 他の端末で停止された場合などに表示を合わせる
+      await fetchRunningEntry()
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }, [user, runningEntry, fetchRunningEntry])
+
+  return {
+    runningEntry,
+    activeTaskId: runningEntry?.task_id,
+    elapsedSeconds,
+    loading,
+    error,
+    blockedStart,
+    startTimer,
+    confirmBlockedStart,
+    cancelBlockedStart,
+    stopTimer,
+    refetch: fetchRunningEntry,
+  }
+}
@@ -1,13 +1,30 @@
 'use client';
 
 import { useToast as useOriginalToast } from '@/hooks/use-toast';
+import { ToastAction, type ToastActionElement } from '@/components/ui/toast';
 import { logger } from '@/lib/logger';
 
+// トーストに表示するボタン（元に戻すなど）
+export interface ToastActionOptions {
+  label: string;
+  onClick: () => void;
+}
+
 export interface ToastOptions {
   title?: string;
   description?: string;
   variant?: 'default' | 'destructive';
   duration?: number;
+  action?: ToastActionOptions;
+}
+
+function renderAction(action?: ToastActionOptions): ToastActionElement | undefined {
+  if (!action) return undefined;
+  return (
+    <ToastAction altText={action.label} onClick={action.onClick}>
+      {action.label}
+    </ToastAction>
+  );
 }
 
 export function useToastEnhanced() {
@@ -23,6 +40,7 @@ export function useToastEnhanced() {
       description: message,
       variant: 'default',
       duration: options?.duration || 3000,
+      action: renderAction(options?.action),
     });
   };
 
@@ -37,6 +55,7 @@ export function useToastEnhanced() {
       description: message,
       variant: 'destructive',
       duration: options?.duration || 5000,
+      action: renderAction(options?.action),
     });
   };
 
@@ -50,6 +69,7 @@ export function useToastEnhanced() {
       description: message,
       variant: 'default',
       duration: options?.duration || 4000,
+      action: renderAction(options?.action),
     });
   };
 
@@ -63,6 +83,7 @@ export function useToastEnhanced() {
       description: message,
       variant: 'default',
       duration: options?.duration || 3000,
+      action: renderAction(options?.action),
     });
   };
 
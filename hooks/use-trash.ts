@@ -0,0 +1,102 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { invalidateCategoryCache, invalidateTaskCache } from '@/hooks/use-tasks'
+import { logger } from '@/lib/logger'
+import { TrashContents } from '@/types/tasks'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  message?: string
+}
+
+export type TrashItemType = 'tasks' | 'categories'
+
+/**
+ * ゴミ箱の一覧・復元・完全な削除
+ * 復元するとタスク一覧・カテゴリ一覧が変わるため、キャッシュを破棄する
+ */
+export function useTrash() {
+  const { user } = useAuth()
+  const [trash, setTrash] = useState<TrashContents | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTrash = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/trash')
+      const result: ApiResponse<TrashContents> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch trash')
+      }
+
+      setTrash(result.data)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while fetching trash'
+      setError(errorMessage)
+      logger.error('Error fetching trash', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const request = useCallback(async (url: string, method: 'POST' | 'DELETE', action: string): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      setError(null)
+
+      const response = await fetch(url, { method })
+      const result: ApiResponse<unknown> = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to ${action}`)
+      }
+
+      invalidateTaskCache()
+      invalidateCategoryCache()
+      await fetchTrash()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : `An error occurred while trying to ${action}`
+      setError(errorMessage)
+      logger.error(`Error trying to ${action}`, err)
+      return false
+    }
+  }, [user, fetchTrash])
+
+  const restore = useCallback((type: TrashItemType, id: string) => {
+    return request(`/api/trash/${type}/${id}/restore`, 'POST', 'restore trash item')
+  }, [request])
+
+  const purge = useCallback((type: TrashItemType, id: string) => {
+    return request(`/api/trash/${type}/${id}`, 'DELETE', 'purge trash item')
+  }, [request])
+
+  const emptyTrash = useCallback(() => {
+    return request('/api/trash', 'DELETE', 'empty trash')
+  }, [request])
+
+  return {
+    trash,
+    loading,
+    error,
+    refetch: fetchTrash,
+    restore,
+    purge,
+    emptyTrash,
+  }
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+interface UndoShortcutHandlers {
+  onUndo: () => void
+  onRedo: () => void
+}
+
+// 入力欄ではブラウザ標準の元に戻すを優先する
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * Ctrl+Z（Mac は ⌘+Z）で元に戻す、Ctrl+Shift+Z でやり直す
+ */
+export function useUndoShortcuts(handlers: UndoShortcutHandlers) {
+  // リスナーを登録し直さずに最新のハンドラを呼ぶ
+  const handlersRef = useRef(handlers)
+  useEffect(() => {
+    handlersRef.current = handlers
+  }, [handlers])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      if (event.key.toLowerCase() !== 'z' || isEditableTarget(event.target)) return
+
+      event.preventDefault()
+      if (event.shiftKey) {
+        handlersRef.current.onRedo()
+      } else {
+        handlersRef.current.onUndo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+}
@@ -0,0 +1,15 @@
+const nextJest = require('next/jest')
+
+// next.config.js と .env を読み込み、TypeScript を SWC で変換する
+const createJestConfig = nextJest({ dir: './' })
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  testMatch: ['**/__tests__/**/*.test.ts'],
+}
+
+module.exports = createJestConfig(config)
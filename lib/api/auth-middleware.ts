@@ -3,9 +3,12 @@
  * 全APIルートで共通する認証チェック処理
  */
 
+import { timingSafeEqual } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
+import { env } from '@/lib/env'
+import { AppError, ErrorCode, FieldError, ValidationError } from '@/lib/errors'
 
 export interface AuthenticatedUser {
   id: string
@@ -16,6 +19,10 @@ export interface ApiResponse<T> {
   data?: T
   success: boolean
   error?: string
+  // エラー時の機械可読なコード（error は表示用のメッセージ）
+  code?: ErrorCode
+  // バリデーションエラー時のフィールドごとのエラー
+  details?: FieldError[]
   message?: string
 }
 
@@ -38,7 +45,7 @@ export async function authenticateRequest(request: NextRequest): Promise<{
       return {
         user: null,
         error: NextResponse.json(
-          { error: 'Authentication failed', success: false } satisfies ApiResponse<never>,
+          { error: 'Authentication failed', code: 'UNAUTHORIZED', success: false } satisfies ApiResponse<never>,
           { status: 401 }
         )
       }
@@ -52,7 +59,7 @@ export async function authenticateRequest(request: NextRequest): Promise<{
       return {
         user: null,
         error: NextResponse.json(
-          { error: 'Unauthorized', success: false } satisfies ApiResponse<never>,
+          { error: 'Unauthorized', code: 'UNAUTHORIZED', success: false } satisfies ApiResponse<never>,
           { status: 401 }
         )
       }
@@ -70,42 +77,65 @@ export async function authenticateRequest(request: NextRequest): Promise<{
     return {
       user: null,
       error: NextResponse.json(
-        { error: 'Internal server error', success: false } satisfies ApiResponse<never>,
+        { error: 'Internal server error', code: 'INTERNAL_ERROR', success: false } satisfies ApiResponse<never>,
         { status: 500 }
       )
     }
   }
 }
 
+/**
+ * 定期実行ジョブ（Vercel Cron）の認証チェック
+ * Authorization: Bearer <CRON_SECRET> が一致しない場合は 401 のレスポンスを返す
+ */
+export function authenticateCronRequest(request: NextRequest): NextResponse | null {
+  const expected = env.CRON_SECRET ? `Bearer ${env.CRON_SECRET}` : null
+  const actual = request.headers.get('authorization')
+
+  if (!expected || !actual || !isSameSecret(actual, expected)) {
+    logger.warn('Unauthorized cron request', { path: request.nextUrl.pathname })
+    return NextResponse.json(
+      { error: 'Unauthorized', code: 'UNAUTHORIZED', success: false } satisfies ApiResponse<never>,
+      { status: 401 }
+    )
+  }
+
+  return null
+}
+
+function isSameSecret(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
 /**
  * API エラーレスポンス生成
+ * AppError はそのステータスとコードで返し、それ以外は想定外のエラーとして defaultMessage の 500 で返す
  */
 export function createErrorResponse(
   error: unknown,
-  defaultMessage: string = 'An error occurred',
-  defaultStatus: number = 500
+  defaultMessage: string = 'An error occurred'
 ): NextResponse {
-  if (error instanceof Error) {
-    logger.error('API Error', { 
-      message: error.message, 
-      stack: error.stack 
-    })
-    
-    // バリデーションエラーかビジネスロジックエラーの場合
-    if (error.message.includes('必須') || 
-        error.message.includes('文字以内') || 
-        error.message.includes('失敗しました')) {
-      return NextResponse.json(
-        { error: error.message, success: false } satisfies ApiResponse<never>,
-        { status: 400 }
-      )
+  if (error instanceof AppError) {
+    const log = { code: error.code, message: error.message }
+    if (error.status >= 500) {
+      logger.error('API Error', { ...log, stack: error.stack })
+    } else {
+      logger.warn('API Error', log)
     }
+
+    const response: ApiResponse<never> = { error: error.message, code: error.code, success: false }
+    if (error instanceof ValidationError && error.details.length > 0) {
+      response.details = error.details
+    }
+    return NextResponse.json(response, { status: error.status })
   }
 
   logger.error('Unexpected API error', error)
   return NextResponse.json(
-    { error: defaultMessage, success: false } satisfies ApiResponse<never>,
-    { status: defaultStatus }
+    { error: defaultMessage, code: 'INTERNAL_ERROR', success: false } satisfies ApiResponse<never>,
+    { status: 500 }
   )
 }
 
@@ -136,8 +166,8 @@ export async function parseRequestBody<T>(request: NextRequest): Promise<T> {
   try {
     const body = await request.json()
     return body as T
-  } catch (error) {
-    throw new Error('Invalid JSON in request body')
+  } catch {
+    throw new ValidationError('リクエストボディが正しいJSONではありません', 'INVALID_JSON')
   }
 }
 
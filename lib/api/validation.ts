@@ -0,0 +1,90 @@
+/**
+ * APIリクエストのバリデーション
+ * ボディ・クエリ・パスパラメータを Zod スキーマに通し、不正な値は ValidationError（422）とフィールドごとのエラーで返す
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createErrorResponse } from '@/lib/api/auth-middleware'
+import { FieldError, ValidationError } from '@/lib/errors'
+
+type ParseResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: NextResponse }
+
+const VALIDATION_ERROR_MESSAGE = '入力内容に誤りがあります'
+
+/**
+ * Zod のエラーをフィールドごとのエラーに変換する
+ */
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.errors.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '_',
+    message: issue.message,
+  }))
+}
+
+/**
+ * Zod のエラーを ValidationError（422）に変換する
+ * message には画面にそのまま出せるよう最初のエラーの内容を入れ、すべてのエラーは details で返す
+ */
+export function toValidationError(error: z.ZodError): ValidationError {
+  const details = toFieldErrors(error)
+  const message = details[0] ? `${VALIDATION_ERROR_MESSAGE}: ${details[0].message}` : VALIDATION_ERROR_MESSAGE
+  return new ValidationError(message, 'VALIDATION_FAILED', details)
+}
+
+function toParseResult<S extends z.ZodTypeAny>(
+  schema: S,
+  input: unknown
+): ParseResult<z.output<S>> {
+  const result = schema.safeParse(input)
+  if (result.success) {
+    return { data: result.data, error: null }
+  }
+
+  return { data: null, error: createErrorResponse(toValidationError(result.error)) }
+}
+
+/**
+ * リクエストボディを JSON として読み、スキーマで検証する
+ */
+export async function parseBody<S extends z.ZodTypeAny>(
+  request: NextRequest,
+  schema: S
+): Promise<ParseResult<z.output<S>>> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return {
+      data: null,
+      error: createErrorResponse(new ValidationError('リクエストボディが正しいJSONではありません', 'INVALID_JSON')),
+    }
+  }
+
+  return toParseResult(schema, body)
+}
+
+/**
+ * クエリパラメータを文字列のオブジェクトにしてスキーマで検証する
+ * 空の値は未指定として扱い、数値やカンマ区切りの配列への変換はスキーマ側で行う
+ */
+export function parseQuery<S extends z.ZodTypeAny>(
+  url: string,
+  schema: S
+): ParseResult<z.output<S>> {
+  const { searchParams } = new URL(url)
+  const query = Object.fromEntries(Array.from(searchParams).filter(([, value]) => value !== ''))
+  return toParseResult(schema, query)
+}
+
+/**
+ * 動的ルートのパスパラメータを検証する
+ */
+export function parseParams<S extends z.ZodTypeAny>(
+  params: unknown,
+  schema: S
+): ParseResult<z.output<S>> {
+  return toParseResult(schema, params)
+}
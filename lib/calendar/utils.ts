@@ -0,0 +1,269 @@
+/**
+ * カレンダー表示用のユーティリティ
+ * 表示期間の計算とタスクの日時配置を行う
+ */
+
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  isBefore,
+  max,
+  min,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+import {
+  CalendarRange,
+  CalendarTaskItem,
+  CalendarViewMode,
+  PositionedCalendarItem,
+  CALENDAR_CONSTRAINTS,
+} from '@/types/calendar'
+import { TaskUpdate, TaskWithCategory, isTaskOverdue } from '@/types/tasks'
+
+export type TaskScheduleUpdate = Pick<TaskUpdate, 'start_date' | 'due_date'>
+
+const WEEK_OPTIONS = { weekStartsOn: 0 as const }
+
+/**
+ * 表示モードと基準日から表示期間を求める
+ */
+export function getVisibleRange(view: CalendarViewMode, date: Date): CalendarRange {
+  switch (view) {
+    case 'month':
+      return {
+        start: startOfWeek(startOfMonth(date), WEEK_OPTIONS),
+        end: addDays(endOfWeek(endOfMonth(date), WEEK_OPTIONS), 1),
+      }
+    case 'week': {
+      const start = startOfWeek(date, WEEK_OPTIONS)
+      return { start, end: addDays(start, 7) }
+    }
+    case 'day': {
+      const start = startOfDay(date)
+      return { start, end: addDays(start, 1) }
+    }
+  }
+}
+
+/**
+ * 表示期間に含まれる日付の一覧
+ */
+export function getRangeDays(range: CalendarRange): Date[] {
+  return eachDayOfInterval({ start: range.start, end: addDays(range.end, -1) })
+}
+
+/**
+ * 前後の期間へ移動した基準日を返す
+ */
+export function shiftDate(view: CalendarViewMode, date: Date, direction: 1 | -1): Date {
+  switch (view) {
+    case 'month':
+      return addMonths(date, direction)
+    case 'week':
+      return addWeeks(date, direction)
+    case 'day':
+      return addDays(date, direction)
+  }
+}
+
+/**
+ * タスクをカレンダー上の期間に変換する
+ * start_date と見積もり時間があれば時間指定、それ以外は終日扱い
+ */
+export function toCalendarItem(task: TaskWithCategory): CalendarTaskItem | null {
+  const anchor = task.start_date ?? task.due_date
+  if (!anchor) return null
+
+  const isOverdue = isTaskOverdue(task)
+
+  if (task.start_date && task.estimated_minutes > 0) {
+    const start = new Date(task.start_date)
+    return {
+      task,
+      start,
+      end: addMinutes(start, task.estimated_minutes),
+      allDay: false,
+      isOverdue,
+    }
+  }
+
+  const start = startOfDay(new Date(anchor))
+  const last = task.due_date ? startOfDay(new Date(task.due_date)) : start
+  return {
+    task,
+    start,
+    end: addDays(isBefore(last, start) ? start : last, 1),
+    allDay: true,
+    isOverdue,
+  }
+}
+
+export function toCalendarItems(tasks: TaskWithCategory[]): CalendarTaskItem[] {
+  const items = tasks
+    .map(toCalendarItem)
+    .filter((item): item is CalendarTaskItem => item !== null)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  const conflicts = findConflictingTaskIds(items)
+  return items.map(item =>
+    conflicts.has(item.task.id) ? { ...item, hasConflict: true } : item
+  )
+}
+
+/**
+ * 指定日に表示される項目を終日レーンと時間指定に分ける
+ */
+export function getItemsForDay(
+  items: CalendarTaskItem[],
+  day: Date
+): { allDay: CalendarTaskItem[]; timed: CalendarTaskItem[] } {
+  const dayStart = startOfDay(day)
+  const dayEnd = addDays(dayStart, 1)
+
+  const overlapping = items.filter(
+    item => item.start < dayEnd && item.end > dayStart
+  )
+
+  return {
+    allDay: overlapping.filter(item => item.allDay),
+    timed: overlapping.filter(item => !item.allDay),
+  }
+}
+
+/**
+ * 時間指定タスクを1日の中で重ならないよう列に割り当てる
+ */
+export function layoutTimedItems(items: CalendarTaskItem[], day: Date): PositionedCalendarItem[] {
+  const dayStart = startOfDay(day)
+  const dayEnd = addDays(dayStart, 1)
+  const sorted = [...items].sort(
+    (a, b) => a.start.getTime() - b.start.getTime() || b.end.getTime() - a.end.getTime()
+  )
+
+  const positioned: PositionedCalendarItem[] = []
+  let cluster: PositionedCalendarItem[] = []
+  let columnEnds: Date[] = []
+  let clusterEnd = 0
+
+  const flushCluster = () => {
+    for (const item of cluster) {
+      item.columnCount = columnEnds.length
+    }
+    positioned.push(...cluster)
+    cluster = []
+    columnEnds = []
+    clusterEnd = 0
+  }
+
+  for (const item of sorted) {
+    const start = max([item.start, dayStart])
+    const end = min([item.end, dayEnd])
+
+    if (cluster.length > 0 && start.getTime() >= clusterEnd) {
+      flushCluster()
+    }
+
+    let column = columnEnds.findIndex(columnEnd => columnEnd <= start)
+    if (column === -1) {
+      column = columnEnds.length
+      columnEnds.push(end)
+    } else {
+      columnEnds[column] = end
+    }
+
+    cluster.push({ ...item, column, columnCount: 1 })
+    clusterEnd = Math.max(clusterEnd, end.getTime())
+  }
+  flushCluster()
+
+  return positioned
+}
+
+/**
+ * 時間グリッド上の表示位置（px）を計算する
+ */
+export function getBlockPosition(item: CalendarTaskItem, day: Date): { top: number; height: number } {
+  const dayStart = startOfDay(day)
+  const start = max([item.start, dayStart])
+  const end = min([item.end, addDays(dayStart, 1)])
+  const pxPerMinute = CALENDAR_CONSTRAINTS.HOUR_HEIGHT_PX / 60
+  const minutes = Math.max(differenceInMinutes(end, start), CALENDAR_CONSTRAINTS.MIN_BLOCK_MINUTES)
+
+  return {
+    top: differenceInMinutes(start, dayStart) * pxPerMinute,
+    height: minutes * pxPerMinute,
+  }
+}
+
+/**
+ * グリッド上の分数を最小単位に丸める
+ */
+export function snapMinutes(minutes: number): number {
+  const step = CALENDAR_CONSTRAINTS.MIN_BLOCK_MINUTES
+  return Math.round(minutes / step) * step
+}
+
+/**
+ * 日付単位で移動した場合の更新内容（時刻は維持する）
+ */
+export function getMoveToDayUpdate(item: CalendarTaskItem, day: Date): TaskScheduleUpdate {
+  const days = differenceInCalendarDays(day, item.start)
+  const update: TaskScheduleUpdate = {}
+
+  if (item.task.start_date) {
+    update.start_date = addDays(new Date(item.task.start_date), days).toISOString()
+  }
+  if (item.task.due_date) {
+    update.due_date = addDays(new Date(item.task.due_date), days).toISOString()
+  }
+  return update
+}
+
+/**
+ * 時間グリッドの枠へ移動した場合の更新内容
+ * 期限は開始日時と同じだけずらす
+ */
+export function getMoveToTimeUpdate(item: CalendarTaskItem, start: Date): TaskScheduleUpdate {
+  const { task } = item
+
+  if (!task.start_date) {
+    return { start_date: start.toISOString() }
+  }
+
+  const delta = start.getTime() - new Date(task.start_date).getTime()
+  const update: TaskScheduleUpdate = { start_date: start.toISOString() }
+  if (task.due_date) {
+    update.due_date = new Date(new Date(task.due_date).getTime() + delta).toISOString()
+  }
+  return update
+}
+
+/**
+ * 時間が重なっている予定タスクのIDを返す（完了・キャンセル済みは除く）
+ */
+export function findConflictingTaskIds(items: CalendarTaskItem[]): Set<string> {
+  const active = items
+    .filter(item => !item.allDay && item.task.status !== 'completed' && item.task.status !== 'cancelled')
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  const conflicts = new Set<string>()
+  for (let i = 0; i < active.length; i++) {
+    const current = active[i]!
+    for (let j = i + 1; j < active.length; j++) {
+      const next = active[j]!
+      if (next.start >= current.end) break
+      conflicts.add(current.task.id)
+      conflicts.add(next.task.id)
+    }
+  }
+  return conflicts
+}
@@ -1,4 +1,4 @@
-import { TaskPriority, TaskStatus, TaskSortOptions } from '@/types/tasks'
+import { TaskPriority, TaskStatus, TaskSortOptions, RecurrencePattern, RecurrenceScope } from '@/types/tasks'
 
 export const PRIORITY_OPTIONS = [
   { value: 'low' as TaskPriority, label: '低', icon: '🔵', order: 1 },
@@ -24,6 +24,13 @@ export const STATUS_FILTER_OPTIONS = [
   ...STATUS_OPTIONS,
 ] as const
 
+// 先行タスクによるブロック状態（TaskFilters.blocked）
+export const BLOCKED_FILTER_OPTIONS = [
+  { value: 'all', label: 'すべて' },
+  { value: 'blocked', label: 'ブロック中' },
+  { value: 'unblocked', label: '着手可能' },
+] as const
+
 export const SORT_OPTIONS = [
   { value: 'created_at' as TaskSortOptions['field'], label: '作成日時' },
   { value: 'updated_at' as TaskSortOptions['field'], label: '更新日時' },
@@ -32,6 +39,46 @@ export const SORT_OPTIONS = [
   { value: 'title' as TaskSortOptions['field'], label: 'タスク名' },
 ] as const
 
+export const RECURRENCE_TYPE_OPTIONS = [
+  { value: 'daily' as RecurrencePattern['type'], label: '毎日', unit: '日' },
+  { value: 'weekly' as RecurrencePattern['type'], label: '毎週', unit: '週' },
+  { value: 'monthly' as RecurrencePattern['type'], label: '毎月', unit: 'か月' },
+  { value: 'yearly' as RecurrencePattern['type'], label: '毎年', unit: '年' },
+] as const
+
+export const WEEKDAY_OPTIONS = [
+  { value: 0, label: '日' },
+  { value: 1, label: '月' },
+  { value: 2, label: '火' },
+  { value: 3, label: '水' },
+  { value: 4, label: '木' },
+  { value: 5, label: '金' },
+  { value: 6, label: '土' },
+] as const
+
+export const RECURRENCE_SCOPE_OPTIONS = [
+  { value: 'this' as RecurrenceScope, label: 'この予定のみ' },
+  { value: 'following' as RecurrenceScope, label: 'これ以降のすべての予定' },
+  { value: 'all' as RecurrenceScope, label: 'すべての予定' },
+] as const
+
+// 変更履歴に表示する項目名（tasks の列名 → 表示名）
+export const TASK_HISTORY_FIELD_LABELS: Record<string, string> = {
+  title: 'タイトル',
+  description: '説明',
+  status: 'ステータス',
+  priority: '優先度',
+  category_id: 'カテゴリ',
+  start_date: '開始日時',
+  due_date: '期限',
+  estimated_minutes: '見積もり時間',
+  tags: 'タグ',
+  notes: 'メモ',
+  is_recurring: '繰り返し',
+  recurrence_pattern: '繰り返し設定',
+  parent_task_id: '親タスク',
+}
+
 // ヘルパー関数
 export const getPriorityOption = (priority: TaskPriority) => 
   PRIORITY_OPTIONS.find(option => option.value === priority)
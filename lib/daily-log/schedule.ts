@@ -0,0 +1,79 @@
+/**
+ * デイリーログの実績・予測の計算
+ * 予測は並び順にタスクを実行し、各タスクが残りの見積もり時間で終わるものとして求める
+ */
+
+import { DailyLogItem } from '@/types/daily-log'
+import { TimeEntry } from '@/types/tasks'
+
+export interface TaskActuals {
+  start: string | null
+  end: string | null // 計測中は null
+  minutes: number
+  running: boolean
+  // 計測中の記録の経過分（tasks.actual_minutes にはまだ含まれない）
+  runningMinutes: number
+}
+
+type UnscheduledItem = Omit<DailyLogItem, 'predicted_start' | 'predicted_end'>
+
+/**
+ * その日の作業記録をタスクごとに集計する
+ */
+export function summarizeTimeEntries(entries: TimeEntry[], now: Date): Map<string, TaskActuals> {
+  const actuals = new Map<string, TaskActuals>()
+
+  for (const entry of entries) {
+    const running = entry.end_time === null
+    const minutes = running
+      ? Math.max(Math.floor((now.getTime() - new Date(entry.start_time).getTime()) / 60000), 0)
+      : entry.duration_minutes ?? 0
+
+    const current = actuals.get(entry.task_id)
+    const isRunning = running || Boolean(current?.running)
+    const latestEnd = current?.end && (!entry.end_time || current.end > entry.end_time) ? current.end : entry.end_time
+
+    actuals.set(entry.task_id, {
+      start: current?.start && current.start < entry.start_time ? current.start : entry.start_time,
+      end: isRunning ? null : latestEnd,
+      minutes: (current?.minutes ?? 0) + minutes,
+      running: isRunning,
+      runningMinutes: (current?.runningMinutes ?? 0) + (running ? minutes : 0),
+    })
+  }
+
+  return actuals
+}
+
+/**
+ * 未完了のタスクについて開始・終了の予測を求める
+ * 予測は now から始め、計測中のタスクは経過時間を差し引いた残りで見積もる
+ */
+export function predictSchedule(
+  items: UnscheduledItem[],
+  actuals: Map<string, TaskActuals>,
+  now: Date
+): { items: DailyLogItem[]; finish: Date | null } {
+  let cursor = now.getTime()
+  let hasRemaining = false
+
+  const scheduled = items.map(item => {
+    if (item.task.status === 'completed' || item.task.status === 'cancelled') {
+      return { ...item, predicted_start: null, predicted_end: null }
+    }
+
+    const spent = item.task.actual_minutes + (actuals.get(item.task.id)?.runningMinutes ?? 0)
+    const remaining = Math.max(item.task.estimated_minutes - spent, 0)
+    const start = cursor
+    cursor += remaining * 60000
+    hasRemaining = true
+
+    return {
+      ...item,
+      predicted_start: new Date(start).toISOString(),
+      predicted_end: new Date(cursor).toISOString(),
+    }
+  })
+
+  return { items: scheduled, finish: hasRemaining ? new Date(cursor) : null }
+}
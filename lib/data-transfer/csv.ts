@@ -0,0 +1,73 @@
+/**
+ * CSV（RFC 4180）の読み書き
+ * Excel で開けるよう、書き出しは UTF-8 の BOM 付き・CRLF 区切りにする
+ */
+
+const BOM = '\uFEFF'
+
+/**
+ * CSV の文字列を行と列の配列にする
+ * ダブルクォートで囲まれた値の中の区切り文字・改行・"" に対応し、空行は読み飛ばす
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.startsWith(BOM) ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(value)
+    if (row.some(cell => cell !== '')) rows.push(row)
+    row = []
+    value = ''
+  }
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!
+
+    if (quoted) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          value += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        value += char
+      }
+      continue
+    }
+
+    if (char === '"' && value === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(value)
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      endRow()
+    } else {
+      value += char
+    }
+  }
+
+  if (value !== '' || row.length > 0) endRow()
+  return rows
+}
+
+/**
+ * 行と列の配列を CSV の文字列にする
+ */
+export function formatCsv(rows: (string | number | null | undefined)[][]): string {
+  return BOM + rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function formatCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  // 表計算ソフトで数式として解釈されないようにする
+  const safe = /^[=+\-@\t\r]/.test(text) && !/^-?\d/.test(text) ? `'${text}` : text
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
@@ -0,0 +1,44 @@
+/**
+ * 取り込むファイルの形式を判定して読み込む（クライアント側）
+ * 形式はファイル名の拡張子と内容（CSV の見出し、JSON の構造）から判定する
+ */
+
+import { bundleToImportDraft, CsvTable, readCsvTable } from './import-rows'
+import { isMarkdownFile, markdownToImportDraft } from './markdown'
+import { isTodoistCsv, isTodoistJson, todoistCsvToImportDraft, todoistJsonToImportDraft } from './todoist'
+import { isTrelloBoard, trelloToImportDraft } from './trello'
+import { ImportDraft, ImportSource } from '@/types/data-transfer'
+
+// 列の割り当てが必要な CSV は table、それ以外はそのまま取り込める draft を返す
+export type ImportFile =
+  | { source: 'taskshoot_csv'; table: CsvTable }
+  | { source: Exclude<ImportSource, 'taskshoot_csv'>; draft: ImportDraft }
+
+export function readImportFile(fileName: string, text: string): ImportFile {
+  if (isMarkdownFile(fileName)) {
+    const draft = markdownToImportDraft(text)
+    if (draft.rows.length === 0) {
+      throw new Error('チェックリスト（- [ ] タスク）が見つかりません')
+    }
+    return { source: 'markdown', draft }
+  }
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let value: unknown
+    try {
+      value = JSON.parse(text)
+    } catch {
+      throw new Error('JSON ファイルの読み込みに失敗しました（形式が正しくありません）')
+    }
+
+    if (isTrelloBoard(value)) return { source: 'trello', draft: trelloToImportDraft(value) }
+    if (isTodoistJson(value)) return { source: 'todoist_json', draft: todoistJsonToImportDraft(value) }
+    return { source: 'taskshoot_json', draft: bundleToImportDraft(value) }
+  }
+
+  const table = readCsvTable(text)
+  if (isTodoistCsv(table.headers)) {
+    return { source: 'todoist_csv', draft: todoistCsvToImportDraft(table, fileName) }
+  }
+  return { source: 'taskshoot_csv', table }
+}
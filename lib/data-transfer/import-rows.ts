@@ -0,0 +1,138 @@
+/**
+ * 取り込むファイルからインポートのリクエストを作る（クライアント側）
+ * CSV は列の割り当てに従って行を作り、JSON バンドルはエクスポートした形式から変換する
+ */
+
+import { formatCsv, parseCsv } from './csv'
+import { findLatestInstanceIds, rebasePattern } from '@/lib/recurrence/series'
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/timezone'
+import {
+  EXPORT_BUNDLE_VERSION,
+  ExportBundle,
+  IMPORT_FIELD_CONFIG,
+  ImportColumnMapping,
+  ImportDraft,
+  ImportField,
+  ImportReport,
+  ImportRow,
+} from '@/types/data-transfer'
+
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * CSV を見出し行とデータ行に分ける
+ */
+export function readCsvTable(text: string): CsvTable {
+  const [headers = [], ...rows] = parseCsv(text)
+  if (headers.length === 0) {
+    throw new Error('CSV に見出し行がありません')
+  }
+  return { headers: headers.map(header => header.trim()), rows }
+}
+
+/**
+ * 見出しの名前から列の割り当てを推測する
+ */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {}
+  const normalized = headers.map(header => header.trim().toLowerCase())
+
+  for (const [field, config] of Object.entries(IMPORT_FIELD_CONFIG) as [ImportField, typeof IMPORT_FIELD_CONFIG[ImportField]][]) {
+    const index = normalized.findIndex(header => config.aliases.includes(header))
+    if (index >= 0) mapping[field] = index
+  }
+  return mapping
+}
+
+/**
+ * CSV のデータ行を取り込む行にする（行番号は見出し行を1行目として数える）
+ */
+export function csvToImportRows(table: CsvTable, mapping: ImportColumnMapping): ImportRow[] {
+  return table.rows.map((cells, index) => {
+    const values: ImportRow['values'] = {}
+    for (const [field, column] of Object.entries(mapping) as [ImportField, number][]) {
+      values[field] = cells[column] ?? ''
+    }
+    return { row: index + 2, values }
+  })
+}
+
+/**
+ * エクスポートした JSON バンドルを取り込む行にする
+ * 繰り返しタスクはシリーズの最新の回だけを繰り返しとして取り込み、それより前の回は通常のタスクにする
+ */
+export function bundleToImportDraft(value: unknown): ImportDraft {
+  const bundle = value as Partial<ExportBundle> | null
+  if (!bundle || typeof bundle !== 'object' || !Array.isArray(bundle.tasks)) {
+    throw new Error('TaskShoot からエクスポートした JSON ファイルではありません')
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > EXPORT_BUNDLE_VERSION) {
+    throw new Error('この JSON ファイルの形式には対応していません（新しいバージョンでエクスポートされています）')
+  }
+
+  const timeZone = bundle.preferences?.timezone && isValidTimeZone(bundle.preferences.timezone)
+    ? bundle.preferences.timezone
+    : DEFAULT_TIMEZONE
+  const categoryNames = new Map((bundle.categories ?? []).map(category => [category.id, category.name]))
+  const seriesHeads = findLatestInstanceIds(bundle.tasks)
+
+  const rows: ImportRow[] = bundle.tasks.map((task, index) => {
+    const recurring = seriesHeads.has(task.id)
+    return {
+      row: index + 1,
+      source_id: task.id,
+      parent_source_id: task.parent_task_id,
+      completed_at: task.completed_at,
+      actual_minutes: task.actual_minutes,
+      values: {
+        title: task.title,
+        description: task.description,
+        status: task.status,
+        priority: task.priority,
+        category: task.category_id ? categoryNames.get(task.category_id) ?? null : null,
+        start_date: task.start_date,
+        due_date: task.due_date,
+        estimated_minutes: task.estimated_minutes,
+        tags: task.tags,
+        notes: task.notes,
+        recurrence: recurring ? rebasePattern(task, timeZone) : null,
+      },
+    }
+  })
+
+  return {
+    rows,
+    categories: (bundle.categories ?? []).map(category => ({
+      name: category.name,
+      description: category.description,
+      color: category.color,
+      icon: category.icon,
+    })),
+    time_entries: (bundle.time_entries ?? [])
+      .filter(entry => entry.end_time)
+      .map(entry => ({
+        task_source_id: entry.task_id,
+        start_time: entry.start_time,
+        end_time: entry.end_time!,
+        description: entry.description,
+      })),
+  }
+}
+
+/**
+ * 取り込めなかった行のエラーを CSV にする
+ */
+export function formatImportErrorCsv(report: ImportReport): string {
+  const rows = report.rows
+    .filter(row => row.status === 'error')
+    .flatMap(row => row.errors.map(error => [
+      row.row,
+      row.title,
+      IMPORT_FIELD_CONFIG[error.field as ImportField]?.label ?? error.field,
+      error.message,
+    ]))
+  return formatCsv([['row', 'title', 'field', 'message'], ...rows])
+}
@@ -0,0 +1,152 @@
+/**
+ * 取り込む行の値の変換
+ * CSV の文字列（JSON の場合はその値）をタスクの入力値に変換する
+ * 型の変換だけを行い、長さなどの検証は task-schemas.ts の importTaskSchema で行う
+ */
+
+import { FieldError } from '@/lib/errors'
+import { zonedTimeToUtc } from '@/lib/timezone'
+import { ImportField } from '@/types/data-transfer'
+import { TASK_PRIORITY_CONFIG, TASK_STATUS_CONFIG, TaskPriority, TaskStatus } from '@/types/tasks'
+
+export interface NormalizedImportValues {
+  // importTaskSchema に渡す値
+  input: Record<string, unknown>
+  category: string | null
+  errors: FieldError[]
+}
+
+const DATE_ONLY_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/
+const TAG_SEPARATOR = /[,、;|]/
+
+/**
+ * 行の値をタスクの入力値に変換する
+ * タイムゾーンのない日時はユーザーのタイムゾーンの日時として扱う
+ */
+export function normalizeImportValues(
+  values: Partial<Record<ImportField, unknown>>,
+  timeZone: string
+): NormalizedImportValues {
+  const input: Record<string, unknown> = {}
+  const errors: FieldError[] = []
+
+  const convert = (field: ImportField, key: string, converter: (value: unknown) => unknown) => {
+    const value = emptyToUndefined(values[field])
+    if (value === undefined) return
+    try {
+      input[key] = converter(value)
+    } catch (error) {
+      errors.push({ field, message: error instanceof Error ? error.message : `${field} の値が正しくありません` })
+    }
+  }
+
+  convert('title', 'title', toText)
+  // 空のタイトルは importTaskSchema の必須エラーにする
+  if (input.title === undefined && !errors.some(error => error.field === 'title')) input.title = ''
+  convert('description', 'description', toText)
+  convert('notes', 'notes', toText)
+  convert('status', 'status', toStatus)
+  convert('priority', 'priority', toPriority)
+  convert('start_date', 'start_date', value => toDateTime(value, timeZone, '開始日時'))
+  convert('due_date', 'due_date', value => toDateTime(value, timeZone, '期限'))
+  convert('estimated_minutes', 'estimated_minutes', toMinutes)
+  convert('tags', 'tags', toTags)
+
+  const recurrence = emptyToUndefined(values.recurrence)
+  if (recurrence !== undefined) {
+    input.is_recurring = true
+    input.recurrence_pattern = recurrence
+  }
+
+  const category = emptyToUndefined(values.category)
+  if (category !== undefined && typeof category !== 'string') {
+    errors.push({ field: 'category', message: 'カテゴリはカテゴリ名で指定してください' })
+  }
+
+  return {
+    input,
+    category: typeof category === 'string' ? category.trim() : null,
+    errors,
+  }
+}
+
+function emptyToUndefined(value: unknown): unknown {
+  if (value === null || value === undefined) return undefined
+  if (typeof value === 'string' && value.trim() === '') return undefined
+  return value
+}
+
+// 書き出し時に数式の扱いを避けるため付けた先頭の ' を外す
+function toText(value: unknown): string {
+  if (typeof value !== 'string') return String(value)
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value
+}
+
+function toStatus(value: unknown): TaskStatus {
+  const text = String(value).trim()
+  const found = (Object.keys(TASK_STATUS_CONFIG) as TaskStatus[]).find(
+    status => status === text.toLowerCase() || TASK_STATUS_CONFIG[status].label === text
+  )
+  if (!found) {
+    const labels = Object.values(TASK_STATUS_CONFIG).map(config => config.label).join('・')
+    throw new Error(`ステータスは ${labels} のいずれかで指定してください（${text}）`)
+  }
+  return found
+}
+
+function toPriority(value: unknown): TaskPriority {
+  const text = String(value).trim()
+  const found = (Object.keys(TASK_PRIORITY_CONFIG) as TaskPriority[]).find(
+    priority => priority === text.toLowerCase() || TASK_PRIORITY_CONFIG[priority].label === text
+  )
+  if (!found) {
+    const labels = Object.values(TASK_PRIORITY_CONFIG).map(config => config.label).join('・')
+    throw new Error(`優先度は ${labels} のいずれかで指定してください（${text}）`)
+  }
+  return found
+}
+
+/**
+ * 日時を ISO 8601（UTC）にする
+ * 2026-01-31 / 2026/1/31 は 0:00、2026-01-31 09:00 はその時刻、タイムゾーン付きの ISO 8601 はそのまま
+ */
+function toDateTime(value: unknown, timeZone: string, label: string): string {
+  const text = String(value).trim()
+  const invalid = new Error(`${label}の形式が正しくありません（例: 2026-01-31 09:00）`)
+
+  const dateOnly = DATE_ONLY_PATTERN.exec(text)
+  const local = dateOnly ?? LOCAL_DATE_TIME_PATTERN.exec(text)
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local.map(Number)
+    const parts = { year: year ?? 0, month: month ?? 0, day: day ?? 0, hour: hour ?? 0, minute: minute ?? 0, second: second || 0 }
+    const utcCheck = new Date(Date.UTC(parts.year, parts.month - 1, parts.day))
+    if (utcCheck.getUTCMonth() !== parts.month - 1 || utcCheck.getUTCDate() !== parts.day || parts.hour > 23 || parts.minute > 59) {
+      throw invalid
+    }
+    return zonedTimeToUtc(parts, timeZone).toISOString()
+  }
+
+  if (OFFSET_PATTERN.test(text) && !Number.isNaN(new Date(text).getTime())) {
+    return new Date(text).toISOString()
+  }
+  throw invalid
+}
+
+function toMinutes(value: unknown): number {
+  if (typeof value === 'number') return value
+  const text = String(value).trim()
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    throw new Error(`見積もり時間は分単位の数値で入力してください（${text}）`)
+  }
+  return Math.round(Number(text))
+}
+
+function toTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value : String(value).split(TAG_SEPARATOR)
+  if (tags.some(tag => typeof tag !== 'string')) {
+    throw new Error('タグは文字列で指定してください')
+  }
+  return Array.from(new Set((tags as string[]).map(tag => tag.trim()).filter(Boolean)))
+}
@@ -0,0 +1,115 @@
+/**
+ * Markdown のチェックリスト（- [ ] / - [x]）を取り込む行にする
+ * 見出しはカテゴリ、インデントはサブタスク、#タグ はタグにする
+ * 日付と優先度は Obsidian Tasks の書き方（📅 2026-01-31、⏫ など）と due:2026-01-31 に対応する
+ */
+
+import { ImportDraft, ImportRow } from '@/types/data-transfer'
+import { TaskPriority } from '@/types/tasks'
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/
+const TASK_PATTERN = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/
+const TAG_PATTERN = /(^|\s)#([^\s#]+)/g
+const DATE = '(\\d{4}-\\d{2}-\\d{2})'
+
+// Obsidian Tasks の記号と優先度
+const PRIORITY_MARKERS: [string, TaskPriority][] = [
+  ['🔺', 'urgent'],
+  ['⏫', 'high'],
+  ['🔼', 'medium'],
+  ['🔽', 'low'],
+  ['⏬', 'low'],
+]
+
+const DATE_MARKERS = {
+  due: [new RegExp(`📅\\s*${DATE}`), new RegExp(`(?:^|\\s)due:${DATE}`)],
+  start: [new RegExp(`🛫\\s*${DATE}`), new RegExp(`⏳\\s*${DATE}`)],
+  done: [new RegExp(`✅\\s*${DATE}`)],
+}
+
+const RECURRENCE_PATTERN = /🔁\s*([^📅🛫⏳✅🔺⏫🔼🔽⏬#]+)/u
+
+export function isMarkdownFile(fileName: string): boolean {
+  return /\.(md|markdown|txt)$/i.test(fileName)
+}
+
+/**
+ * チェックリストの行を取り込む行にする（行番号はファイルの行番号）
+ * タスクの下のインデントされたチェックリストでない行は、そのタスクの説明にする
+ */
+export function markdownToImportDraft(text: string): ImportDraft {
+  const rows: ImportRow[] = []
+  // インデントの深さごとの親タスク
+  const parents: { indent: number; row: ImportRow }[] = []
+  let category: string | null = null
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    const heading = HEADING_PATTERN.exec(line)
+    if (heading) {
+      category = heading[1] ?? null
+      parents.length = 0
+      return
+    }
+
+    const task = TASK_PATTERN.exec(line)
+    if (!task) {
+      const indent = measureIndent(line)
+      const owner = parents[parents.length - 1]
+      const detail = line.trim().replace(/^[-*+]\s+/, '')
+      if (owner && detail && indent > owner.indent) {
+        owner.row.values.description = [owner.row.values.description, detail].filter(Boolean).join('\n')
+      }
+      return
+    }
+
+    const indent = measureIndent(task[1] ?? '')
+    while (parents.length > 0 && parents[parents.length - 1]!.indent >= indent) parents.pop()
+
+    const row = parseTaskLine(task[3] ?? '', task[2] !== ' ', index + 1)
+    row.parent_source_id = parents[parents.length - 1]?.row.source_id ?? null
+    row.values.category = category
+    rows.push(row)
+    parents.push({ indent, row })
+  })
+
+  return { rows }
+}
+
+function parseTaskLine(content: string, done: boolean, lineNumber: number): ImportRow {
+  const match = (patterns: RegExp[]) => patterns.map(pattern => pattern.exec(content)?.[1]).find(Boolean) ?? null
+
+  const priority = PRIORITY_MARKERS.find(([marker]) => content.includes(marker))?.[1] ?? null
+  const tags = Array.from(content.matchAll(TAG_PATTERN), tag => tag[2] ?? '').filter(Boolean)
+  const recurrence = RECURRENCE_PATTERN.exec(content)?.[1]?.trim()
+  const doneDate = match(DATE_MARKERS.done)
+
+  // 日付・優先度などの記号を除いた部分をタイトルにする
+  const title = [...DATE_MARKERS.due, ...DATE_MARKERS.start, ...DATE_MARKERS.done, RECURRENCE_PATTERN]
+    .reduce((rest, pattern) => rest.replace(pattern, ' '), content)
+    .replace(TAG_PATTERN, ' ')
+    .replace(/[🔺⏫🔼🔽⏬]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  return {
+    row: lineNumber,
+    source_id: `line-${lineNumber}`,
+    // 完了日は日付だけのため、その日の 0:00（UTC）にする
+    completed_at: done && doneDate ? `${doneDate}T00:00:00Z` : null,
+    values: {
+      title,
+      status: done ? 'completed' : 'pending',
+      priority,
+      start_date: match(DATE_MARKERS.start),
+      due_date: match(DATE_MARKERS.due),
+      tags: Array.from(new Set(tags)),
+      notes: recurrence ? `繰り返し: ${recurrence}` : null,
+    },
+  }
+}
+
+// タブは4文字分として数える
+function measureIndent(line: string): number {
+  const leading = /^\s*/.exec(line)?.[0] ?? ''
+  return leading.replace(/\t/g, '    ').length
+}
@@ -0,0 +1,207 @@
+/**
+ * Todoist のファイルを取り込む行にする
+ * CSV はプロジェクトごとのエクスポート（テンプレート形式）、JSON は API（同期 API）の形式に対応する
+ * プロジェクトはカテゴリ、ラベルはタグ、p1〜p4 は 緊急・高・中・低 にする
+ */
+
+import { CsvTable } from './import-rows'
+import { ImportDraft, ImportRow } from '@/types/data-transfer'
+import { TaskPriority } from '@/types/tasks'
+
+// CSV の PRIORITY（1 が p1）の優先度
+const CSV_PRIORITY: Record<string, TaskPriority> = {
+  '1': 'urgent',
+  '2': 'high',
+  '3': 'medium',
+  '4': 'low',
+}
+
+// API の priority（4 が p1）の優先度
+const API_PRIORITY: Record<number, TaskPriority> = {
+  4: 'urgent',
+  3: 'high',
+  2: 'medium',
+  1: 'low',
+}
+
+// 取り込める形式の日付（それ以外の「毎日」などはメモに残す）
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?(Z|[+-]\d{2}:?\d{2})?)?$/
+const LABEL_PATTERN = /(^|\s)@([^\s@]+)/g
+
+interface TodoistDue {
+  date?: string | null
+  datetime?: string | null
+  string?: string | null
+  is_recurring?: boolean
+}
+
+interface TodoistItem {
+  id: string | number
+  content: string
+  description?: string | null
+  project_id?: string | number | null
+  parent_id?: string | number | null
+  priority?: number
+  labels?: string[]
+  due?: TodoistDue | null
+  duration?: { amount: number; unit: 'minute' | 'day' } | null
+  checked?: boolean | number
+  is_completed?: boolean
+  completed_at?: string | null
+  is_deleted?: boolean | number
+}
+
+interface TodoistBackup {
+  projects?: { id: string | number; name: string }[]
+  items?: TodoistItem[]
+  tasks?: TodoistItem[]
+  notes?: { item_id: string | number; content: string; is_deleted?: boolean | number }[]
+}
+
+/**
+ * Todoist の CSV か（見出しに TYPE と CONTENT がある）
+ */
+export function isTodoistCsv(headers: string[]): boolean {
+  const upper = headers.map(header => header.trim().toUpperCase())
+  return upper.includes('TYPE') && upper.includes('CONTENT')
+}
+
+/**
+ * Todoist の JSON か（content を持つタスクの一覧がある）
+ */
+export function isTodoistJson(value: unknown): boolean {
+  const items = toTodoistItems(value)
+  return items !== null && items.length > 0 && items.every(item => typeof item?.content === 'string')
+}
+
+/**
+ * Todoist の CSV を取り込む行にする
+ * CSV にはプロジェクト名がないため、ファイル名をカテゴリにする
+ * INDENT で親子関係を、TYPE が note の行（コメント）は直前のタスクのメモにする
+ */
+export function todoistCsvToImportDraft(table: CsvTable, fileName: string): ImportDraft {
+  const column = (name: string) => table.headers.findIndex(header => header.trim().toUpperCase() === name)
+  const columns = {
+    type: column('TYPE'),
+    content: column('CONTENT'),
+    description: column('DESCRIPTION'),
+    priority: column('PRIORITY'),
+    indent: column('INDENT'),
+    date: column('DATE'),
+    duration: column('DURATION'),
+    durationUnit: column('DURATION_UNIT'),
+  }
+  const category = fileName.replace(/\.[^.]+$/, '').trim() || null
+
+  const rows: ImportRow[] = []
+  // インデントごとの直近のタスク（親の特定に使う）
+  const parents: string[] = []
+
+  table.rows.forEach((cells, index) => {
+    const cell = (position: number) => (position >= 0 ? cells[position]?.trim() ?? '' : '')
+    const type = cell(columns.type).toLowerCase()
+    const content = cell(columns.content)
+    const last = rows[rows.length - 1]
+
+    if (type === 'note' && last && content) {
+      last.values.notes = [last.values.notes, content].filter(Boolean).join('\n\n')
+      return
+    }
+    if (type !== 'task' || !content) return
+
+    const sourceId = `row-${index + 2}`
+    const indent = Math.max(Number(cell(columns.indent)) || 1, 1)
+    parents.length = indent - 1
+    const parentSourceId = parents[indent - 2] ?? null
+    parents[indent - 1] = sourceId
+
+    const { title, labels } = extractLabels(content)
+    const date = cell(columns.date)
+    const dueDate = DATE_PATTERN.test(date) ? date : null
+    const duration = Number(cell(columns.duration))
+    const durationUnit = cell(columns.durationUnit).toLowerCase()
+
+    rows.push({
+      row: index + 2,
+      source_id: sourceId,
+      parent_source_id: parentSourceId,
+      values: {
+        title,
+        description: cell(columns.description) || null,
+        priority: CSV_PRIORITY[cell(columns.priority)] ?? null,
+        category,
+        due_date: dueDate,
+        estimated_minutes: durationUnit === 'minute' && duration > 0 ? duration : null,
+        tags: labels,
+        notes: date && !dueDate ? `Todoist の日付: ${date}` : null,
+      },
+    })
+  })
+
+  return { rows }
+}
+
+/**
+ * Todoist の JSON（同期 API の projects / items、または API のタスクの一覧）を取り込む行にする
+ */
+export function todoistJsonToImportDraft(value: unknown): ImportDraft {
+  const items = toTodoistItems(value) ?? []
+  const backup = (Array.isArray(value) ? {} : value) as TodoistBackup
+  const projectNames = new Map((backup.projects ?? []).map(project => [String(project.id), project.name]))
+
+  // コメントはタスクのメモにする
+  const comments = new Map<string, string[]>()
+  for (const note of backup.notes ?? []) {
+    if (note.is_deleted || !note.content) continue
+    const key = String(note.item_id)
+    comments.set(key, [...(comments.get(key) ?? []), note.content])
+  }
+
+  const rows: ImportRow[] = items
+    .filter(item => !item.is_deleted)
+    .map((item, index) => {
+      const completed = Boolean(item.checked) || Boolean(item.is_completed)
+      const due = item.due?.datetime ?? item.due?.date ?? null
+      const dueNote = item.due?.is_recurring && item.due.string ? `Todoist の繰り返し: ${item.due.string}` : null
+      const notes = [dueNote, ...(comments.get(String(item.id)) ?? [])].filter(Boolean)
+      const { title, labels } = extractLabels(item.content)
+
+      return {
+        row: index + 1,
+        source_id: String(item.id),
+        parent_source_id: item.parent_id ? String(item.parent_id) : null,
+        completed_at: completed ? item.completed_at ?? null : null,
+        values: {
+          title,
+          description: item.description || null,
+          status: completed ? 'completed' : 'pending',
+          priority: item.priority ? API_PRIORITY[item.priority] ?? null : null,
+          category: item.project_id ? projectNames.get(String(item.project_id)) ?? null : null,
+          due_date: due,
+          estimated_minutes: item.duration?.unit === 'minute' ? item.duration.amount : null,
+          tags: Array.from(new Set([...(item.labels ?? []), ...labels])),
+          notes: notes.length > 0 ? notes.join('\n\n') : null,
+        },
+      }
+    })
+
+  return { rows }
+}
+
+function toTodoistItems(value: unknown): TodoistItem[] | null {
+  if (Array.isArray(value)) return value as TodoistItem[]
+  if (!value || typeof value !== 'object') return null
+  const backup = value as TodoistBackup
+  if (Array.isArray(backup.items)) return backup.items
+  if (Array.isArray(backup.tasks)) return backup.tasks
+  return null
+}
+
+// タイトルの「@ラベル」をタグにする
+function extractLabels(content: string): { title: string; labels: string[] } {
+  const labels = Array.from(content.matchAll(LABEL_PATTERN), match => match[2] ?? '')
+  return {
+    title: content.replace(LABEL_PATTERN, ' ').replace(/\s+/g, ' ').trim(),
+    labels: Array.from(new Set(labels.filter(Boolean))),
+  }
+}
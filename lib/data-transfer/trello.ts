@@ -0,0 +1,115 @@
+/**
+ * Trello のボードの JSON エクスポートを取り込む行にする
+ * リストはカテゴリ、ラベルはタグ（優先度の名前のラベルは優先度）、チェックリストはタスクのチェックリストにする
+ * アーカイブ済みのリスト・カードは取り込まない
+ */
+
+import { ImportChecklistItem, ImportDraft, ImportRow } from '@/types/data-transfer'
+import { TASK_PRIORITY_CONFIG, TaskPriority } from '@/types/tasks'
+
+interface TrelloLabel {
+  id?: string
+  name?: string | null
+  color?: string | null
+}
+
+interface TrelloCard {
+  id: string
+  name: string
+  desc?: string | null
+  idList: string
+  closed?: boolean
+  due?: string | null
+  start?: string | null
+  dueComplete?: boolean
+  labels?: TrelloLabel[]
+  pos?: number
+}
+
+interface TrelloBoard {
+  lists: { id: string; name: string; closed?: boolean; pos?: number }[]
+  cards: TrelloCard[]
+  checklists?: {
+    id: string
+    idCard: string
+    name?: string
+    pos?: number
+    checkItems?: { name: string; state: 'complete' | 'incomplete'; pos?: number }[]
+  }[]
+}
+
+// 優先度として扱うラベル名（小文字で比較する）
+const PRIORITY_LABELS: Record<string, TaskPriority> = {
+  ...Object.fromEntries(
+    (Object.keys(TASK_PRIORITY_CONFIG) as TaskPriority[]).flatMap(priority => [
+      [priority, priority],
+      [TASK_PRIORITY_CONFIG[priority].label, priority],
+    ])
+  ),
+  critical: 'urgent',
+  highest: 'urgent',
+  lowest: 'low',
+}
+
+/**
+ * Trello のボードの JSON か（lists と cards がある）
+ */
+export function isTrelloBoard(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false
+  const board = value as Partial<TrelloBoard>
+  return Array.isArray(board.lists) && Array.isArray(board.cards)
+}
+
+export function trelloToImportDraft(value: unknown): ImportDraft {
+  const board = value as TrelloBoard
+  const lists = new Map(board.lists.filter(list => !list.closed).map(list => [list.id, list]))
+  const listOrder = new Map(board.lists.map((list, index) => [list.id, list.pos ?? index]))
+
+  const checklists = new Map<string, ImportChecklistItem[]>()
+  const sortedChecklists = [...(board.checklists ?? [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0))
+  for (const checklist of sortedChecklists) {
+    const items = [...(checklist.checkItems ?? [])]
+      .sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0))
+      .map(item => ({ title: item.name, is_done: item.state === 'complete' }))
+    checklists.set(checklist.idCard, [...(checklists.get(checklist.idCard) ?? []), ...items])
+  }
+
+  // リストの並び順、リスト内のカードの並び順に取り込む
+  const cards = board.cards
+    .filter(card => !card.closed && lists.has(card.idList))
+    .sort((a, b) =>
+      (listOrder.get(a.idList) ?? 0) - (listOrder.get(b.idList) ?? 0) || (a.pos ?? 0) - (b.pos ?? 0)
+    )
+
+  const rows: ImportRow[] = cards.map((card, index) => {
+    let priority: TaskPriority | null = null
+    const tags: string[] = []
+    for (const label of card.labels ?? []) {
+      const name = label.name?.trim() || label.color || ''
+      const labelPriority = PRIORITY_LABELS[name.toLowerCase()]
+      if (labelPriority && !priority) {
+        priority = labelPriority
+      } else if (name) {
+        tags.push(name)
+      }
+    }
+
+    return {
+      row: index + 1,
+      source_id: card.id,
+      checklist: checklists.get(card.id),
+      values: {
+        title: card.name,
+        description: card.desc || null,
+        status: card.dueComplete ? 'completed' : 'pending',
+        priority,
+        category: lists.get(card.idList)?.name ?? null,
+        start_date: card.start ?? null,
+        due_date: card.due ?? null,
+        tags: Array.from(new Set(tags)),
+      },
+    }
+  })
+
+  return { rows }
+}
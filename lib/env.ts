@@ -59,6 +59,17 @@ export const env = {
   ENABLE_API_RATE_LIMITING: getBooleanEnvVar('ENABLE_API_RATE_LIMITING', true),
   MAX_REQUESTS_PER_MINUTE: getNumberEnvVar('MAX_REQUESTS_PER_MINUTE', 100),
   
+  // ゴミ箱の保持期間（日）と、定期実行ジョブの認証用シークレット
+  TRASH_RETENTION_DAYS: getNumberEnvVar('TRASH_RETENTION_DAYS', 30),
+  CRON_SECRET: getOptionalEnvVar('CRON_SECRET'),
+
+  // リマインダーの Web Push（VAPID の鍵）とメール（Resend）の設定。未設定の通知方法は使わない
+  VAPID_PUBLIC_KEY: getOptionalEnvVar('NEXT_PUBLIC_VAPID_PUBLIC_KEY'),
+  VAPID_PRIVATE_KEY: getOptionalEnvVar('VAPID_PRIVATE_KEY'),
+  VAPID_SUBJECT: getOptionalEnvVar('VAPID_SUBJECT'),
+  RESEND_API_KEY: getOptionalEnvVar('RESEND_API_KEY'),
+  REMINDER_EMAIL_FROM: getOptionalEnvVar('REMINDER_EMAIL_FROM'),
+  
   // ログレベル設定
   LOG_LEVEL: getOptionalEnvVar('LOG_LEVEL', 'info'),
   ENABLE_REQUEST_LOGGING: getBooleanEnvVar('ENABLE_REQUEST_LOGGING', false),
@@ -85,6 +96,14 @@ export const env = {
   get isGoogleOAuthConfigured() {
     return Boolean(this.GOOGLE_CLIENT_ID && this.GOOGLE_CLIENT_SECRET);
   },
+
+  get isWebPushConfigured() {
+    return Boolean(this.VAPID_PUBLIC_KEY && this.VAPID_PRIVATE_KEY && this.VAPID_SUBJECT);
+  },
+
+  get isReminderEmailConfigured() {
+    return Boolean(this.RESEND_API_KEY && this.REMINDER_EMAIL_FROM);
+  },
 } as const;
 
 /**
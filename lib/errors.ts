@@ -0,0 +1,104 @@
+/**
+ * アプリケーションエラー
+ * HTTP ステータスと機械可読なエラーコードを持ち、API ではそのままレスポンスに変換する
+ * message は画面に表示する日本語のメッセージ、code はクライアントが分岐に使う変わらない値
+ */
+
+export type ErrorCode =
+  // 入力値の誤り（422）
+  | 'VALIDATION_FAILED'
+  | 'INVALID_JSON'
+  | 'INVALID_CURSOR'
+  | 'INVALID_RECURRENCE'
+  | 'INVALID_DATE'
+  | 'INVALID_DATE_RANGE'
+  | 'SUBTASK_CYCLE'
+  | 'SUBTASK_DEPTH_EXCEEDED'
+  | 'CHECKLIST_LIMIT_EXCEEDED'
+  | 'DEPENDENCY_CYCLE'
+  | 'REMINDER_LIMIT_EXCEEDED'
+  // 認証・権限（401 / 403）
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'CALENDAR_NOT_CONFIGURED'
+  | 'CALENDAR_NOT_CONNECTED'
+  | 'CALENDAR_SYNC_DISABLED'
+  | 'REMINDER_CHANNEL_NOT_CONFIGURED'
+  // 対象が存在しない（404）
+  | 'NOT_FOUND'
+  | 'TASK_NOT_FOUND'
+  | 'PARENT_TASK_NOT_FOUND'
+  | 'REMINDER_NOT_FOUND'
+  // 現在の状態と矛盾する（409）
+  | 'CONFLICT'
+  | 'TIMER_ALREADY_RUNNING'
+  | 'TIMER_NOT_RUNNING'
+  | 'TASK_CLOSED'
+  | 'DUPLICATE'
+  | 'TASK_BLOCKED'
+  | 'TASK_CONFLICT'
+  // 外部サービス（Supabase / Google）の失敗（502）
+  | 'DATABASE_ERROR'
+  | 'CALENDAR_API_ERROR'
+  // 想定外のエラー（500）
+  | 'INTERNAL_ERROR'
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export class AppError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ErrorCode
+  ) {
+    super(message)
+    this.name = 'AppError'
+  }
+}
+
+// 入力値がルールに合わない
+export class ValidationError extends AppError {
+  constructor(
+    message: string,
+    code: ErrorCode = 'VALIDATION_FAILED',
+    readonly details: FieldError[] = []
+  ) {
+    super(message, 422, code)
+    this.name = 'ValidationError'
+  }
+}
+
+// 対象が存在しない（他のユーザーのデータを含む）
+export class NotFoundError extends AppError {
+  constructor(message: string, code: ErrorCode = 'NOT_FOUND') {
+    super(message, 404, code)
+    this.name = 'NotFoundError'
+  }
+}
+
+// 重複や状態の不一致など、現在のデータと矛盾する
+export class ConflictError extends AppError {
+  constructor(message: string, code: ErrorCode = 'CONFLICT') {
+    super(message, 409, code)
+    this.name = 'ConflictError'
+  }
+}
+
+// 機能が使えない・操作が許可されていない
+export class ForbiddenError extends AppError {
+  constructor(message: string, code: ErrorCode = 'FORBIDDEN') {
+    super(message, 403, code)
+    this.name = 'ForbiddenError'
+  }
+}
+
+// データベースや外部 API の呼び出しに失敗した
+export class UpstreamError extends AppError {
+  constructor(message: string, code: ErrorCode = 'DATABASE_ERROR') {
+    super(message, 502, code)
+    this.name = 'UpstreamError'
+  }
+}
@@ -0,0 +1,72 @@
+import { afterAll, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { UpstreamError } from '@/lib/errors'
+import { GoogleCalendarProvider } from '../google-provider'
+import { SyncTokenExpiredError } from '../types'
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('GoogleCalendarProvider.listEvents', () => {
+  const originalFetch = global.fetch
+  const fetchMock = jest.fn<typeof fetch>()
+  const provider = new GoogleCalendarProvider({ getAccessToken: async () => 'token' })
+
+  const requestedQuery = (call: number) => new URL(String(fetchMock.mock.calls[call]![0])).searchParams
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    global.fetch = fetchMock
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+  })
+
+  it('sends singleEvents with the time range on a full sync', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ items: [], nextSyncToken: 'sync-1' }))
+
+    const result = await provider.listEvents({ timeMin: '2026-10-01T00:00:00.000Z', timeMax: '2026-11-01T00:00:00.000Z' })
+
+    expect(result).toEqual({ events: [], nextSyncToken: 'sync-1' })
+    const query = requestedQuery(0)
+    expect(query.get('singleEvents')).toBe('true')
+    expect(query.get('timeMin')).toBe('2026-10-01T00:00:00.000Z')
+    expect(query.has('syncToken')).toBe(false)
+  })
+
+  it('repeats singleEvents on an incremental sync', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ items: [], nextSyncToken: 'sync-2' }))
+
+    await provider.listEvents({ syncToken: 'sync-1' })
+
+    const query = requestedQuery(0)
+    expect(query.get('syncToken')).toBe('sync-1')
+    expect(query.get('singleEvents')).toBe('true')
+    expect(query.has('timeMin')).toBe(false)
+  })
+
+  it('follows page tokens and returns the sync token of the last page', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'event-1' }], nextPageToken: 'page-2' }))
+      .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'event-2' }], nextSyncToken: 'sync-2' }))
+
+    const result = await provider.listEvents({ syncToken: 'sync-1' })
+
+    expect(result.events.map(event => event.id)).toEqual(['event-1', 'event-2'])
+    expect(result.nextSyncToken).toBe('sync-2')
+    expect(requestedQuery(1).get('pageToken')).toBe('page-2')
+  })
+
+  it('fails instead of returning a truncated list when there are too many pages', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ items: [], nextPageToken: 'next' }))
+
+    await expect(provider.listEvents({ syncToken: 'sync-1' })).rejects.toBeInstanceOf(UpstreamError)
+  })
+
+  it('reports an expired sync token', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 410))
+
+    await expect(provider.listEvents({ syncToken: 'sync-1' })).rejects.toBeInstanceOf(SyncTokenExpiredError)
+  })
+})
@@ -0,0 +1,280 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { Task, TaskUpdate } from '@/types/tasks'
+import { CalendarSyncEngine } from '../sync-engine'
+import { InMemoryCalendarProvider } from '../memory-provider'
+import { computeTaskSyncHash } from '../mapping'
+import { SyncTaskStore } from '../types'
+
+const TIME_ZONE = 'Asia/Tokyo'
+const SYNCED_FIELDS = ['title', 'description', 'start_date', 'estimated_minutes', 'status'] as const
+
+function buildTask(overrides: Partial<Task> = {}): Task {
+  const now = '2026-10-01T00:00:00.000Z'
+  return {
+    id: 'task-1',
+    user_id: 'user-1',
+    category_id: null,
+    title: '企画書を書く',
+    description: null,
+    status: 'pending',
+    priority: 'medium',
+    due_date: null,
+    start_date: '2026-10-02T01:00:00.000Z',
+    completed_at: null,
+    estimated_minutes: 60,
+    actual_minutes: 0,
+    tags: [],
+    notes: null,
+    is_recurring: false,
+    recurrence_pattern: null,
+    google_calendar_event_id: null,
+    google_calendar_synced_at: null,
+    google_calendar_etag: null,
+    google_calendar_sync_hash: null,
+    google_calendar_fields_updated_at: now,
+    recurrence_series_id: null,
+    recurrence_anchor: null,
+    recurrence_instance_date: null,
+    parent_task_id: null,
+    deleted_at: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  }
+}
+
+// DB と同様に updated_at は毎回、google_calendar_fields_updated_at は同期対象フィールドの変更時だけ進める
+class InMemoryTaskStore implements SyncTaskStore {
+  readonly tasks = new Map<string, Task>()
+
+  constructor(private readonly clock: () => Date) {}
+
+  async getTask(taskId: string): Promise<Task | null> {
+    return this.tasks.get(taskId) ?? null
+  }
+
+  async findTaskByEventId(eventId: string): Promise<Task | null> {
+    return Array.from(this.tasks.values()).find(task => task.google_calendar_event_id === eventId) ?? null
+  }
+
+  async listSyncCandidates(): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(task => task.start_date || task.google_calendar_event_id)
+  }
+
+  async updateTask(taskId: string, updates: TaskUpdate): Promise<Task> {
+    const current = this.tasks.get(taskId)!
+    const next = { ...current, ...updates, updated_at: this.clock().toISOString() } as Task
+    if (SYNCED_FIELDS.some(field => next[field] !== current[field])) {
+      next.google_calendar_fields_updated_at = next.updated_at
+    }
+    this.tasks.set(taskId, next)
+    return next
+  }
+
+  // アプリでのユーザーの編集
+  edit(taskId: string, updates: TaskUpdate): Promise<Task> {
+    return this.updateTask(taskId, updates)
+  }
+}
+
+describe('CalendarSyncEngine', () => {
+  let now: Date
+  let provider: InMemoryCalendarProvider
+  let store: InMemoryTaskStore
+
+  const clock = () => now
+  const advance = (minutes: number) => {
+    now = new Date(now.getTime() + minutes * 60000)
+  }
+  const createEngine = (policy: 'last_writer_wins' | 'prompt' = 'last_writer_wins') =>
+    new CalendarSyncEngine({ provider, store, timeZone: TIME_ZONE, policy, now: clock })
+
+  beforeEach(() => {
+    now = new Date('2026-10-01T00:00:00.000Z')
+    provider = new InMemoryCalendarProvider({ now: clock })
+    store = new InMemoryTaskStore(clock)
+    store.tasks.set('task-1', buildTask())
+  })
+
+  // 初回同期でイベントを作成し、次回の差分取得用のトークンを返す
+  async function syncInitially() {
+    const result = await createEngine().sync({ syncToken: null })
+    advance(10)
+    return result.nextSyncToken
+  }
+
+  it('pushes scheduled tasks as events on the first sync', async () => {
+    const result = await createEngine().sync({ syncToken: null })
+
+    expect(result).toMatchObject({ pushed: 1, pulled: 0, deleted: 0, full_resync: true })
+    const task = store.tasks.get('task-1')!
+    expect(task.google_calendar_event_id).not.toBeNull()
+    expect(task.google_calendar_sync_hash).toBe(computeTaskSyncHash(task))
+
+    const event = await provider.getEvent(task.google_calendar_event_id!)
+    expect(event).toMatchObject({
+      summary: '企画書を書く',
+      start: { dateTime: '2026-10-02T01:00:00.000Z' },
+      end: { dateTime: '2026-10-02T02:00:00.000Z' },
+    })
+  })
+
+  it('does not push tasks that are already in sync', async () => {
+    const syncToken = await syncInitially()
+
+    const result = await createEngine().sync({ syncToken })
+
+    expect(result).toMatchObject({ pushed: 0, pulled: 0, deleted: 0, full_resync: false })
+  })
+
+  it('pulls events edited in the calendar', async () => {
+    const syncToken = await syncInitially()
+    const eventId = store.tasks.get('task-1')!.google_calendar_event_id!
+    await provider.simulateRemoteUpdate(eventId, {
+      summary: '企画書を仕上げる',
+      start: { dateTime: '2026-10-03T00:00:00.000Z' },
+      end: { dateTime: '2026-10-03T00:30:00.000Z' },
+    })
+
+    const result = await createEngine().sync({ syncToken })
+
+    expect(result.pulled).toBe(1)
+    expect(store.tasks.get('task-1')).toMatchObject({
+      title: '企画書を仕上げる',
+      start_date: '2026-10-03T00:00:00.000Z',
+      estimated_minutes: 30,
+    })
+  })
+
+  it('unschedules tasks whose events were deleted in the calendar', async () => {
+    const syncToken = await syncInitially()
+    await provider.simulateRemoteDelete(store.tasks.get('task-1')!.google_calendar_event_id!)
+
+    const result = await createEngine().sync({ syncToken })
+
+    expect(result.deleted).toBe(1)
+    expect(store.tasks.get('task-1')).toMatchObject({ start_date: null, google_calendar_event_id: null })
+  })
+
+  it('runs a full resync when the sync token has expired', async () => {
+    const syncToken = await syncInitially()
+    provider.expireSyncTokens()
+
+    const result = await createEngine().sync({ syncToken })
+
+    expect(result.full_resync).toBe(true)
+    expect(result.nextSyncToken).not.toBeNull()
+  })
+
+  it('records a conflict without changing either side under the prompt policy', async () => {
+    const syncToken = await syncInitially()
+    const eventId = store.tasks.get('task-1')!.google_calendar_event_id!
+    await store.edit('task-1', { title: 'ローカルの変更' })
+    advance(1)
+    await provider.simulateRemoteUpdate(eventId, { summary: 'リモートの変更' })
+
+    const result = await createEngine('prompt').sync({ syncToken })
+
+    expect(result.conflicts).toHaveLength(1)
+    expect(result.conflicts[0]).toMatchObject({
+      task_id: 'task-1',
+      event_id: eventId,
+      local: { title: 'ローカルの変更' },
+      remote: { title: 'リモートの変更' },
+    })
+    expect(store.tasks.get('task-1')!.title).toBe('ローカルの変更')
+    expect((await provider.getEvent(eventId))!.summary).toBe('リモートの変更')
+  })
+
+  it('keeps conflicted tasks out of the sync until they are resolved', async () => {
+    const syncToken = await syncInitially()
+    const eventId = store.tasks.get('task-1')!.google_calendar_event_id!
+    await store.edit('task-1', { title: 'ローカルの変更' })
+    await provider.simulateRemoteUpdate(eventId, { summary: 'リモートの変更' })
+    const first = await createEngine('prompt').sync({ syncToken })
+
+    const second = await createEngine('prompt').sync({ syncToken: first.nextSyncToken, pendingConflicts: first.conflicts })
+
+    expect(second).toMatchObject({ pushed: 0, pulled: 0 })
+    expect(second.conflicts).toHaveLength(1)
+  })
+
+  it('applies the chosen side when a conflict is resolved', async () => {
+    const syncToken = await syncInitially()
+    const eventId = store.tasks.get('task-1')!.google_calendar_event_id!
+    await store.edit('task-1', { title: 'ローカルの変更' })
+    await provider.simulateRemoteUpdate(eventId, { summary: 'リモートの変更' })
+    const { conflicts } = await createEngine('prompt').sync({ syncToken })
+
+    const remaining = await createEngine('prompt').resolveConflicts(conflicts, { 'task-1': 'remote' })
+
+    expect(remaining).toEqual([])
+    expect(store.tasks.get('task-1')!.title).toBe('リモートの変更')
+  })
+
+  describe('last writer wins', () => {
+    it('keeps the local edit when it is newer than the remote edit', async () => {
+      const syncToken = await syncInitially()
+      const eventId = store.tasks.get('task-1')!.google_calendar_event_id!
+      await provider.simulateRemoteUpdate(eventId, { summary: 'リモートの変更' })
+      advance(5)
+      await store.edit('task-1', { title: 'ローカルの変更' })
+
+      const result = await createEngine().sync({ syncToken })
+
+      expect(result.pushed).toBe(1)
+      expect(store.tasks.get('task-1')!.title).toBe('ローカルの変更')
+      expect((await provider.getEvent(eventId))!.summary).toBe('ローカルの変更')
+    })
+
+    it('takes the remote edit when it is newer than the local edit', async () => {
+      const syncToken = await syncInitially()
+      const eventId = store.tasks.get('task-1')!.google_calendar_event_id!
+      await store.edit('task-1', { title: 'ローカルの変更' })
+      advance(5)
+      await provider.simulateRemoteUpdate(eventId, { summary: 'リモートの変更' })
+
+      const result = await createEngine().sync({ syncToken })
+
+      expect(result.pulled).toBe(1)
+      expect(store.tasks.get('task-1')!.title).toBe('リモートの変更')
+    })
+
+    it('ignores later writes to columns that are not synced', async () => {
+      const syncToken = await syncInitially()
+      const eventId = store.tasks.get('task-1')!.google_calendar_event_id!
+      await store.edit('task-1', { title: 'ローカルの変更' })
+      advance(5)
+      await provider.simulateRemoteUpdate(eventId, { summary: 'リモートの変更' })
+      advance(5)
+      // タイマーの集計などで updated_at だけが進む
+      await store.edit('task-1', { actual_minutes: 15 })
+
+      const result = await createEngine().sync({ syncToken })
+
+      expect(result.pulled).toBe(1)
+      expect(store.tasks.get('task-1')!.title).toBe('リモートの変更')
+    })
+  })
+
+  it('does not push tasks imported from .ics files', async () => {
+    store.tasks.set('task-1', buildTask({ google_calendar_event_id: 'ics:event-1@example.com' }))
+
+    const result = await createEngine().sync({ syncToken: null })
+
+    expect(result.pushed).toBe(0)
+    expect(await provider.getEvent('ics:event-1@example.com')).toBeNull()
+  })
+
+  it('deletes the event when a task loses its start date', async () => {
+    const syncToken = await syncInitially()
+    const eventId = store.tasks.get('task-1')!.google_calendar_event_id!
+    await store.edit('task-1', { start_date: null })
+
+    const result = await createEngine().sync({ syncToken })
+
+    expect(result.deleted).toBe(1)
+    expect((await provider.getEvent(eventId))!.status).toBe('cancelled')
+    expect(store.tasks.get('task-1')!.google_calendar_event_id).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Google Calendar API (v3) を使ったプロバイダー実装
+ */
+
+import { logger } from '@/lib/logger'
+import { UpstreamError } from '@/lib/errors'
+import {
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarEventNotFoundError,
+  CalendarProvider,
+  ListEventsParams,
+  ListEventsResult,
+  SyncTokenExpiredError,
+} from './types'
+
+const CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3'
+const TOKEN_ENDPOINT = 'https://oauth2.googleapis.com/token'
+const MAX_PAGES = 20
+
+interface GoogleEventsResponse {
+  items?: CalendarEvent[]
+  nextPageToken?: string
+  nextSyncToken?: string
+}
+
+export class GoogleCalendarApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'GoogleCalendarApiError'
+  }
+}
+
+/**
+ * リフレッシュトークンからアクセストークンを取得する
+ */
+export async function refreshGoogleAccessToken(
+  refreshToken: string,
+  credentials: { clientId: string; clientSecret: string }
+): Promise<string> {
+  const response = await fetch(TOKEN_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+    }),
+  })
+
+  if (!response.ok) {
+    logger.error('Failed to refresh Google access token', { status: response.status })
+    throw new GoogleCalendarApiError('Googleの認証情報を更新できませんでした', response.status)
+  }
+
+  const body: { access_token?: string } = await response.json()
+  if (!body.access_token) {
+    throw new GoogleCalendarApiError('Googleの認証情報を更新できませんでした', response.status)
+  }
+  return body.access_token
+}
+
+export class GoogleCalendarProvider implements CalendarProvider {
+  private readonly getAccessToken: () => Promise<string>
+  private readonly calendarId: string
+
+  constructor(options: { getAccessToken: () => Promise<string>; calendarId?: string }) {
+    this.getAccessToken = options.getAccessToken
+    this.calendarId = options.calendarId ?? 'primary'
+  }
+
+  async listEvents(params: ListEventsParams): Promise<ListEventsResult> {
+    const events: CalendarEvent[] = []
+    let pageToken: string | undefined
+    let nextSyncToken: string | null = null
+
+    for (let page = 0; ; page++) {
+      // 途中までのイベントを全件として扱うと、以降の差分取得でも取りこぼし続ける
+      if (page === MAX_PAGES) {
+        logger.error('Google Calendar events exceeded the page limit', { maxPages: MAX_PAGES })
+        throw new UpstreamError('Googleカレンダーのイベントが多すぎるため取得できませんでした', 'CALENDAR_API_ERROR')
+      }
+
+      // 差分取得でも初回と同じ singleEvents を指定する（Google の要件。異なると繰り返しイベントの形が変わる）
+      const query = new URLSearchParams({ maxResults: '250', singleEvents: 'true' })
+      if (params.syncToken) {
+        query.set('syncToken', params.syncToken)
+      } else {
+        if (params.timeMin) query.set('timeMin', params.timeMin)
+        if (params.timeMax) query.set('timeMax', params.timeMax)
+      }
+      if (pageToken) query.set('pageToken', pageToken)
+
+      const response = await this.request(`/events?${query.toString()}`)
+      if (response.status === 410) {
+        throw new SyncTokenExpiredError()
+      }
+      await this.assertOk(response, 'イベントの取得に失敗しました')
+
+      const body: GoogleEventsResponse = await response.json()
+      events.push(...(body.items ?? []))
+      nextSyncToken = body.nextSyncToken ?? nextSyncToken
+
+      if (!body.nextPageToken) return { events, nextSyncToken }
+      pageToken = body.nextPageToken
+    }
+  }
+
+  async getEvent(eventId: string): Promise<CalendarEvent | null> {
+    const response = await this.request(`/events/${encodeURIComponent(eventId)}`)
+    if (response.status === 404 || response.status === 410) return null
+    await this.assertOk(response, 'イベントの取得に失敗しました')
+    return response.json()
+  }
+
+  async insertEvent(input: CalendarEventInput): Promise<CalendarEvent> {
+    const response = await this.request('/events', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    })
+    await this.assertOk(response, 'イベントの作成に失敗しました')
+    return response.json()
+  }
+
+  async updateEvent(eventId: string, input: CalendarEventInput): Promise<CalendarEvent> {
+    const response = await this.request(`/events/${encodeURIComponent(eventId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(input),
+    })
+    if (response.status === 404 || response.status === 410) {
+      throw new CalendarEventNotFoundError(eventId)
+    }
+    await this.assertOk(response, 'イベントの更新に失敗しました')
+    return response.json()
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    const response = await this.request(`/events/${encodeURIComponent(eventId)}`, {
+      method: 'DELETE',
+    })
+    if (response.status === 404 || response.status === 410) {
+      throw new CalendarEventNotFoundError(eventId)
+    }
+    await this.assertOk(response, 'イベントの削除に失敗しました')
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const accessToken = await this.getAccessToken()
+    return fetch(`${CALENDAR_API_BASE}/calendars/${encodeURIComponent(this.calendarId)}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    })
+  }
+
+  private async assertOk(response: Response, message: string): Promise<void> {
+    if (response.ok) return
+    const detail = await response.text().catch(() => '')
+    logger.error('Google Calendar API request failed', { status: response.status, detail })
+    throw new GoogleCalendarApiError(message, response.status)
+  }
+}
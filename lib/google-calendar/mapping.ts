@@ -0,0 +1,119 @@
+/**
+ * タスクとカレンダーイベントの相互変換
+ */
+
+import { addMinutes, differenceInMinutes } from 'date-fns'
+import { Task, TaskUpdate } from '@/types/tasks'
+import { SyncConflictSnapshot } from '@/types/calendar'
+import { formatZonedDate, parseZonedDate } from '@/lib/timezone'
+import { CalendarEvent, CalendarEventInput, TASK_ID_PROPERTY } from './types'
+
+const UNTITLED_EVENT = '（無題の予定）'
+
+/**
+ * イベントとして同期すべきタスクか
+ * 開始日時があり、キャンセルされていないものが対象
+ */
+export function isTaskSchedulable(task: Task): boolean {
+  return Boolean(task.start_date) && task.status !== 'cancelled'
+}
+
+/**
+ * 同期対象フィールドのハッシュ
+ * 前回同期時のハッシュと比較してローカル変更を検出する
+ */
+export function computeTaskSyncHash(task: Pick<Task, 'title' | 'description' | 'start_date' | 'estimated_minutes' | 'status'>): string {
+  const source = [
+    task.title,
+    task.description ?? '',
+    task.start_date ? new Date(task.start_date).toISOString() : '',
+    String(task.estimated_minutes),
+    task.status,
+  ].join('\u0000')
+
+  // FNV-1a (32bit)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * タスクからイベントの入力値を作る
+ * 見積もり時間があれば時間指定、なければ終日イベント
+ */
+export function taskToEventInput(task: Task, timeZone: string): CalendarEventInput {
+  const start = new Date(task.start_date!)
+  const summary = task.status === 'completed' ? `✓ ${task.title}` : task.title
+
+  const base: CalendarEventInput = {
+    summary,
+    description: task.description ?? undefined,
+    extendedProperties: {
+      private: { [TASK_ID_PROPERTY]: task.id },
+    },
+  }
+
+  if (task.estimated_minutes > 0) {
+    return {
+      ...base,
+      start: { dateTime: start.toISOString(), timeZone },
+      end: { dateTime: addMinutes(start, task.estimated_minutes).toISOString(), timeZone },
+    }
+  }
+
+  const date = formatZonedDate(start, timeZone)
+  const nextDate = formatZonedDate(addMinutes(parseZonedDate(date, timeZone), 24 * 60), timeZone)
+  return {
+    ...base,
+    start: { date },
+    end: { date: nextDate },
+  }
+}
+
+/**
+ * イベントの内容をタスクの更新値に変換する
+ */
+export function eventToTaskUpdate(event: CalendarEvent, timeZone: string): TaskUpdate {
+  const update: TaskUpdate = {
+    title: stripCompletedMark(event.summary?.trim() || UNTITLED_EVENT),
+    description: event.description ?? null,
+  }
+
+  if (event.start?.dateTime) {
+    const start = new Date(event.start.dateTime)
+    const end = event.end?.dateTime ? new Date(event.end.dateTime) : start
+    update.start_date = start.toISOString()
+    update.estimated_minutes = Math.max(differenceInMinutes(end, start), 0)
+  } else if (event.start?.date) {
+    update.start_date = parseZonedDate(event.start.date, timeZone).toISOString()
+    update.estimated_minutes = 0
+  }
+
+  return update
+}
+
+export function taskToSnapshot(task: Task): SyncConflictSnapshot {
+  return {
+    title: task.title,
+    start_date: task.start_date,
+    estimated_minutes: task.estimated_minutes,
+    updated_at: task.google_calendar_fields_updated_at,
+  }
+}
+
+export function eventToSnapshot(event: CalendarEvent, timeZone: string): SyncConflictSnapshot {
+  const update = eventToTaskUpdate(event, timeZone)
+  return {
+    title: update.title ?? UNTITLED_EVENT,
+    start_date: update.start_date ?? null,
+    estimated_minutes: update.estimated_minutes ?? 0,
+    updated_at: event.updated,
+  }
+}
+
+function stripCompletedMark(summary: string): string {
+  return summary.startsWith('✓ ') ? summary.slice(2) : summary
+}
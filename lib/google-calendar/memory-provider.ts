@@ -0,0 +1,121 @@
+/**
+ * インメモリのカレンダープロバイダー
+ * Google Calendar API の代わりにローカルで同期処理を検証するためのもの
+ */
+
+import {
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarEventNotFoundError,
+  CalendarProvider,
+  ListEventsParams,
+  ListEventsResult,
+  SyncTokenExpiredError,
+} from './types'
+
+interface StoredEvent {
+  event: CalendarEvent
+  // 最後に変更されたときの変更番号
+  sequence: number
+}
+
+export class InMemoryCalendarProvider implements CalendarProvider {
+  private events = new Map<string, StoredEvent>()
+  private sequence = 0
+  private nextId = 1
+  // これより古い syncToken は失効扱いにする
+  private minValidSequence = 0
+  private readonly clock: () => Date
+
+  constructor(options: { now?: () => Date } = {}) {
+    this.clock = options.now ?? (() => new Date())
+  }
+
+  async listEvents(params: ListEventsParams): Promise<ListEventsResult> {
+    const all = Array.from(this.events.values())
+
+    let events: CalendarEvent[]
+    if (params.syncToken) {
+      const since = Number(params.syncToken)
+      if (Number.isNaN(since) || since < this.minValidSequence) {
+        throw new SyncTokenExpiredError()
+      }
+      events = all.filter(stored => stored.sequence > since).map(stored => stored.event)
+    } else {
+      events = all
+        .map(stored => stored.event)
+        .filter(event => event.status !== 'cancelled' && this.isInRange(event, params))
+    }
+
+    return {
+      events: events.map(event => ({ ...event })),
+      nextSyncToken: String(this.sequence),
+    }
+  }
+
+  async getEvent(eventId: string): Promise<CalendarEvent | null> {
+    const stored = this.events.get(eventId)
+    return stored ? { ...stored.event } : null
+  }
+
+  async insertEvent(input: CalendarEventInput): Promise<CalendarEvent> {
+    const id = `mem-event-${this.nextId++}`
+    return this.write(id, { ...input, status: 'confirmed' })
+  }
+
+  async updateEvent(eventId: string, input: CalendarEventInput): Promise<CalendarEvent> {
+    const stored = this.events.get(eventId)
+    if (!stored || stored.event.status === 'cancelled') {
+      throw new CalendarEventNotFoundError(eventId)
+    }
+    return this.write(eventId, { ...stored.event, ...input })
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    const stored = this.events.get(eventId)
+    if (!stored || stored.event.status === 'cancelled') {
+      throw new CalendarEventNotFoundError(eventId)
+    }
+    // Google と同様に削除済みイベントは差分取得で cancelled として返す
+    this.write(eventId, { ...stored.event, status: 'cancelled' })
+  }
+
+  /**
+   * カレンダーアプリ側での編集を再現する
+   */
+  simulateRemoteUpdate(eventId: string, input: CalendarEventInput): Promise<CalendarEvent> {
+    return this.updateEvent(eventId, input)
+  }
+
+  simulateRemoteDelete(eventId: string): Promise<void> {
+    return this.deleteEvent(eventId)
+  }
+
+  /**
+   * 発行済みの syncToken をすべて失効させる
+   */
+  expireSyncTokens(): void {
+    this.minValidSequence = this.sequence + 1
+  }
+
+  private write(id: string, event: Omit<CalendarEvent, 'id' | 'etag' | 'updated'>): CalendarEvent {
+    this.sequence++
+    const stored: CalendarEvent = {
+      ...event,
+      id,
+      etag: `"${this.sequence}"`,
+      updated: this.clock().toISOString(),
+    }
+    this.events.set(id, { event: stored, sequence: this.sequence })
+    return { ...stored }
+  }
+
+  private isInRange(event: CalendarEvent, params: ListEventsParams): boolean {
+    const start = event.start?.dateTime ?? event.start?.date
+    const end = event.end?.dateTime ?? event.end?.date ?? start
+    if (!start || !end) return false
+    if (params.timeMax && new Date(start) >= new Date(params.timeMax)) return false
+    if (params.timeMin && new Date(end) <= new Date(params.timeMin)) return false
+    return true
+  }
+}
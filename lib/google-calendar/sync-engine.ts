@@ -0,0 +1,302 @@
+/**
+ * Google Calendar 双方向同期エンジン
+ * プロバイダーとタスクストアを差し替えられるよう、永続化や認証には依存しない
+ *
+ * 変更検出:
+ * - リモート: イベントの etag と前回同期時の etag の比較
+ * - ローカル: タスクの同期対象フィールドのハッシュと前回同期時のハッシュの比較
+ *
+ * last writer wins ではイベントの updated とタスクの google_calendar_fields_updated_at（同期対象フィールドの変更日時）を比べる
+ * （updated_at は同期のメタデータの書き込みでも進むため使わない）
+ */
+
+import { subDays, addDays } from 'date-fns'
+import { Task, TaskUpdate } from '@/types/tasks'
+import {
+  CalendarSyncResult,
+  SyncConflict,
+  SyncConflictPolicy,
+  SyncConflictResolution,
+} from '@/types/calendar'
+import { logger } from '@/lib/logger'
+import { ICS_EVENT_ID_PREFIX } from '@/lib/ical/parser'
+import {
+  CalendarEvent,
+  CalendarEventNotFoundError,
+  CalendarProvider,
+  ListEventsResult,
+  SyncTaskStore,
+  SyncTokenExpiredError,
+} from './types'
+import {
+  computeTaskSyncHash,
+  eventToSnapshot,
+  eventToTaskUpdate,
+  isTaskSchedulable,
+  taskToEventInput,
+  taskToSnapshot,
+} from './mapping'
+
+export interface CalendarSyncEngineOptions {
+  provider: CalendarProvider
+  store: SyncTaskStore
+  timeZone: string
+  policy: SyncConflictPolicy
+  // 初回同期で取得する期間（日）
+  initialWindowDays?: { past: number; future: number }
+  now?: () => Date
+}
+
+export interface SyncRunInput {
+  syncToken: string | null
+  // 未解決の競合。ユーザーが解決するまで対象タスクは同期しない
+  pendingConflicts?: SyncConflict[]
+}
+
+export interface SyncRunOutput extends CalendarSyncResult {
+  nextSyncToken: string | null
+}
+
+type PullOutcome = 'unchanged' | 'pulled' | 'pushed' | 'deleted' | 'conflict'
+
+const DEFAULT_INITIAL_WINDOW = { past: 30, future: 180 }
+
+export class CalendarSyncEngine {
+  private readonly provider: CalendarProvider
+  private readonly store: SyncTaskStore
+  private readonly timeZone: string
+  private readonly policy: SyncConflictPolicy
+  private readonly initialWindowDays: { past: number; future: number }
+  private readonly now: () => Date
+
+  constructor(options: CalendarSyncEngineOptions) {
+    this.provider = options.provider
+    this.store = options.store
+    this.timeZone = options.timeZone
+    this.policy = options.policy
+    this.initialWindowDays = options.initialWindowDays ?? DEFAULT_INITIAL_WINDOW
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /**
+   * リモートの変更を取り込んだ後、ローカルの変更を送信する
+   */
+  async sync(input: SyncRunInput): Promise<SyncRunOutput> {
+    const result: SyncRunOutput = {
+      pushed: 0,
+      pulled: 0,
+      deleted: 0,
+      conflicts: [...(input.pendingConflicts ?? [])],
+      full_resync: false,
+      nextSyncToken: null,
+    }
+    const blocked = new Set(result.conflicts.map(conflict => conflict.task_id))
+    const handled = new Set<string>()
+
+    // 1. リモートの変更を取り込む
+    const listed = await this.listChangedEvents(input.syncToken, result)
+    for (const event of listed.events) {
+      const task = await this.store.findTaskByEventId(event.id)
+      if (!task || blocked.has(task.id)) continue
+
+      const outcome = await this.pullEvent(task, event, result.conflicts)
+      if (outcome !== 'unchanged') handled.add(task.id)
+      this.count(result, outcome)
+    }
+
+    // 2. ローカルの変更を送信する
+    const candidates = await this.store.listSyncCandidates()
+    for (const task of candidates) {
+      if (handled.has(task.id) || blocked.has(task.id)) continue
+      this.count(result, await this.pushTask(task, false))
+    }
+
+    result.nextSyncToken = listed.nextSyncToken
+    logger.info('Calendar sync completed', {
+      pushed: result.pushed,
+      pulled: result.pulled,
+      deleted: result.deleted,
+      conflicts: result.conflicts.length,
+    })
+    return result
+  }
+
+  /**
+   * ユーザーが選択した内容で競合を解決する
+   * 解決されなかった競合を返す
+   */
+  async resolveConflicts(
+    conflicts: SyncConflict[],
+    resolutions: Record<string, SyncConflictResolution>
+  ): Promise<SyncConflict[]> {
+    const remaining: SyncConflict[] = []
+
+    for (const conflict of conflicts) {
+      const resolution = resolutions[conflict.task_id]
+      if (!resolution) {
+        remaining.push(conflict)
+        continue
+      }
+
+      const task = await this.store.getTask(conflict.task_id)
+      if (!task) continue
+
+      if (resolution === 'local') {
+        await this.pushTask(task, true)
+        continue
+      }
+
+      const event = await this.provider.getEvent(conflict.event_id)
+      if (!event || event.status === 'cancelled') {
+        await this.unschedule(task)
+      } else {
+        await this.applyRemote(task, event)
+      }
+    }
+
+    return remaining
+  }
+
+  private async listChangedEvents(syncToken: string | null, result: SyncRunOutput): Promise<ListEventsResult> {
+    if (syncToken) {
+      try {
+        return await this.provider.listEvents({ syncToken })
+      } catch (error) {
+        if (!(error instanceof SyncTokenExpiredError)) throw error
+        logger.warn('Calendar sync token expired, running full resync')
+      }
+    }
+
+    result.full_resync = true
+    const now = this.now()
+    return this.provider.listEvents({
+      timeMin: subDays(now, this.initialWindowDays.past).toISOString(),
+      timeMax: addDays(now, this.initialWindowDays.future).toISOString(),
+    })
+  }
+
+  private async pullEvent(task: Task, event: CalendarEvent, conflicts: SyncConflict[]): Promise<PullOutcome> {
+    const remoteChanged = event.etag !== task.google_calendar_etag
+    if (!remoteChanged) return 'unchanged'
+
+    const localChanged = computeTaskSyncHash(task) !== task.google_calendar_sync_hash
+    const remoteDeleted = event.status === 'cancelled'
+
+    if (localChanged) {
+      if (this.policy === 'prompt') {
+        conflicts.push({
+          task_id: task.id,
+          event_id: event.id,
+          local: taskToSnapshot(task),
+          remote: remoteDeleted ? null : eventToSnapshot(event, this.timeZone),
+          detected_at: this.now().toISOString(),
+        })
+        return 'conflict'
+      }
+
+      // last writer wins
+      const localIsNewer = new Date(task.google_calendar_fields_updated_at).getTime() >= new Date(event.updated).getTime()
+      if (localIsNewer) {
+        return this.pushTask(task, true)
+      }
+    }
+
+    if (remoteDeleted) {
+      await this.unschedule(task)
+      return 'deleted'
+    }
+
+    await this.applyRemote(task, event)
+    return 'pulled'
+  }
+
+  /**
+   * タスクをイベントとして送信する
+   * force=true の場合はハッシュが一致していても上書きする
+   */
+  private async pushTask(task: Task, force: boolean): Promise<PullOutcome> {
+    // .ics から取り込んだタスクは元の予定との紐付けを保ったまま送信しない
+    if (task.google_calendar_event_id?.startsWith(ICS_EVENT_ID_PREFIX)) return 'unchanged'
+
+    if (!isTaskSchedulable(task)) {
+      if (!task.google_calendar_event_id) return 'unchanged'
+
+      await this.deleteEvent(task.google_calendar_event_id)
+      await this.store.updateTask(task.id, this.unlinkFields())
+      return 'deleted'
+    }
+
+    const hash = computeTaskSyncHash(task)
+    if (!force && task.google_calendar_event_id && hash === task.google_calendar_sync_hash) {
+      return 'unchanged'
+    }
+
+    const input = taskToEventInput(task, this.timeZone)
+    let event: CalendarEvent
+    if (task.google_calendar_event_id) {
+      try {
+        event = await this.provider.updateEvent(task.google_calendar_event_id, input)
+      } catch (error) {
+        if (!(error instanceof CalendarEventNotFoundError)) throw error
+        event = await this.provider.insertEvent(input)
+      }
+    } else {
+      event = await this.provider.insertEvent(input)
+    }
+
+    await this.store.updateTask(task.id, {
+      google_calendar_event_id: event.id,
+      google_calendar_etag: event.etag,
+      google_calendar_sync_hash: hash,
+      google_calendar_synced_at: this.now().toISOString(),
+    })
+    return 'pushed'
+  }
+
+  private async applyRemote(task: Task, event: CalendarEvent): Promise<void> {
+    const updates = eventToTaskUpdate(event, this.timeZone)
+    const merged = { ...task, ...updates } as Task
+
+    await this.store.updateTask(task.id, {
+      ...updates,
+      google_calendar_event_id: event.id,
+      google_calendar_etag: event.etag,
+      google_calendar_sync_hash: computeTaskSyncHash(merged),
+      google_calendar_synced_at: this.now().toISOString(),
+    })
+  }
+
+  /**
+   * リモートで削除されたイベントに対応するタスクは予定から外す
+   * （タスク自体は削除しない）
+   */
+  private async unschedule(task: Task): Promise<void> {
+    await this.store.updateTask(task.id, {
+      start_date: null,
+      ...this.unlinkFields(),
+    })
+  }
+
+  private async deleteEvent(eventId: string): Promise<void> {
+    try {
+      await this.provider.deleteEvent(eventId)
+    } catch (error) {
+      if (!(error instanceof CalendarEventNotFoundError)) throw error
+    }
+  }
+
+  private unlinkFields(): TaskUpdate {
+    return {
+      google_calendar_event_id: null,
+      google_calendar_etag: null,
+      google_calendar_sync_hash: null,
+      google_calendar_synced_at: this.now().toISOString(),
+    }
+  }
+
+  private count(result: SyncRunOutput, outcome: PullOutcome): void {
+    if (outcome === 'pushed') result.pushed++
+    if (outcome === 'pulled') result.pulled++
+    if (outcome === 'deleted') result.deleted++
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * カレンダープロバイダーの抽象化
+ * Google Calendar API とローカルのインメモリ実装を同じインターフェースで扱う
+ */
+
+import { Task, TaskUpdate } from '@/types/tasks'
+
+// 時間指定は dateTime、終日は date（YYYY-MM-DD）
+export interface CalendarEventTime {
+  dateTime?: string
+  date?: string
+  timeZone?: string
+}
+
+export interface CalendarEvent {
+  id: string
+  etag: string
+  status: 'confirmed' | 'tentative' | 'cancelled'
+  summary?: string
+  description?: string
+  start?: CalendarEventTime
+  end?: CalendarEventTime
+  updated: string
+  extendedProperties?: {
+    private?: Record<string, string>
+  }
+}
+
+export type CalendarEventInput = Pick<CalendarEvent, 'summary' | 'description' | 'start' | 'end' | 'extendedProperties'>
+
+export interface ListEventsParams {
+  // 差分取得用のトークン。指定時は timeMin/timeMax を無視する
+  syncToken?: string | null
+  timeMin?: string
+  timeMax?: string
+}
+
+export interface ListEventsResult {
+  events: CalendarEvent[]
+  nextSyncToken: string | null
+}
+
+export interface CalendarProvider {
+  listEvents(params: ListEventsParams): Promise<ListEventsResult>
+  getEvent(eventId: string): Promise<CalendarEvent | null>
+  insertEvent(input: CalendarEventInput): Promise<CalendarEvent>
+  updateEvent(eventId: string, input: CalendarEventInput): Promise<CalendarEvent>
+  deleteEvent(eventId: string): Promise<void>
+}
+
+/**
+ * 同期エンジンが扱うタスクの永続化先
+ * 1ユーザー分に束縛された実装を渡す
+ */
+export interface SyncTaskStore {
+  getTask(taskId: string): Promise<Task | null>
+  findTaskByEventId(eventId: string): Promise<Task | null>
+  // 予定日時を持つ、またはイベントと紐付いているタスク
+  listSyncCandidates(): Promise<Task[]>
+  updateTask(taskId: string, updates: TaskUpdate): Promise<Task>
+}
+
+// 差分取得トークンが失効した（Google API の 410 Gone）
+export class SyncTokenExpiredError extends Error {
+  constructor() {
+    super('Calendar sync token has expired')
+    this.name = 'SyncTokenExpiredError'
+  }
+}
+
+// イベントが存在しない（削除済みを含む）
+export class CalendarEventNotFoundError extends Error {
+  constructor(eventId: string) {
+    super(`Calendar event not found: ${eventId}`)
+    this.name = 'CalendarEventNotFoundError'
+  }
+}
+
+// タスクとイベントを紐付ける extendedProperties のキー
+export const TASK_ID_PROPERTY = 'taskshootTaskId'
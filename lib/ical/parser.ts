@@ -0,0 +1,204 @@
+/**
+ * iCalendar (.ics, RFC 5545) パーサー
+ * VEVENT のみを読み取り、Google Calendar のイベントと同じ形に変換する
+ * 繰り返し（RRULE）は展開せず、最初の回のみを扱う
+ */
+
+import { addDays, addMinutes } from 'date-fns'
+import { CalendarEvent, CalendarEventTime } from '@/lib/google-calendar/types'
+import { isValidTimeZone, zonedTimeToUtc } from '@/lib/timezone'
+
+// .ics から取り込んだイベントの ID に付ける接頭辞
+export const ICS_EVENT_ID_PREFIX = 'ics:'
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * .ics の内容を解析してイベント一覧を返す
+ * TZID もタイムゾーン指定もない日時（フローティング時刻）は defaultTimeZone として扱う
+ */
+export function parseICalendar(source: string, defaultTimeZone: string): CalendarEvent[] {
+  const lines = unfoldLines(source)
+  const events: CalendarEvent[] = []
+  let current: ContentLine[] | null = null
+  // VEVENT 内の VALARM などは読み飛ばす
+  let nestedDepth = 0
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw)
+    if (!line) continue
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = []
+      nestedDepth = 0
+      continue
+    }
+    if (!current) continue
+
+    if (line.name === 'BEGIN') {
+      nestedDepth++
+    } else if (line.name === 'END' && nestedDepth > 0) {
+      nestedDepth--
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      const event = toCalendarEvent(current, defaultTimeZone)
+      if (event) events.push(event)
+      current = null
+    } else if (nestedDepth === 0) {
+      current.push(line)
+    }
+  }
+
+  return events
+}
+
+function toCalendarEvent(lines: ContentLine[], defaultTimeZone: string): CalendarEvent | null {
+  const find = (name: string) => lines.find(line => line.name === name)
+
+  const uid = find('UID')?.value
+  const dtStart = find('DTSTART')
+  if (!uid || !dtStart) return null
+
+  const start = parseDateValue(dtStart, defaultTimeZone)
+  if (!start) return null
+
+  const dtEnd = find('DTEND')
+  const duration = find('DURATION')
+  let end: CalendarEventTime | null = dtEnd ? parseDateValue(dtEnd, defaultTimeZone) : null
+  if (!end) {
+    end = addDuration(start, duration ? parseDuration(duration.value) : null)
+  }
+
+  // 繰り返しの例外は RECURRENCE-ID ごとに別イベントとして扱う
+  const recurrenceId = find('RECURRENCE-ID')?.value
+  const id = `${ICS_EVENT_ID_PREFIX}${uid}${recurrenceId ? `:${recurrenceId}` : ''}`
+
+  const stamp = find('LAST-MODIFIED') ?? find('DTSTAMP')
+  const updated = stamp ? parseDateValue(stamp, 'UTC')?.dateTime : undefined
+  const status = find('STATUS')?.value.toUpperCase()
+
+  return {
+    id,
+    etag: '',
+    status: status === 'CANCELLED' ? 'cancelled' : status === 'TENTATIVE' ? 'tentative' : 'confirmed',
+    summary: unescapeText(find('SUMMARY')?.value ?? ''),
+    description: find('DESCRIPTION') ? unescapeText(find('DESCRIPTION')!.value) : undefined,
+    start,
+    end,
+    updated: updated ?? new Date(0).toISOString(),
+  }
+}
+
+/**
+ * 75オクテットで折り返された行を結合する
+ */
+function unfoldLines(source: string): string[] {
+  return source
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.length > 0)
+}
+
+function parseContentLine(raw: string): ContentLine | null {
+  // 引用符内のコロン・セミコロンは区切りとみなさない
+  let inQuotes = false
+  let valueStart = -1
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i]
+    if (char === '"') inQuotes = !inQuotes
+    if (char === ':' && !inQuotes) {
+      valueStart = i
+      break
+    }
+  }
+  if (valueStart < 0) return null
+
+  const [name = '', ...paramParts] = raw.slice(0, valueStart).split(';')
+  const params: Record<string, string> = {}
+  for (const part of paramParts) {
+    const separator = part.indexOf('=')
+    if (separator < 0) continue
+    params[part.slice(0, separator).toUpperCase()] = part.slice(separator + 1).replace(/^"|"$/g, '')
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: raw.slice(valueStart + 1),
+  }
+}
+
+function parseDateValue(line: ContentLine, defaultTimeZone: string): CalendarEventTime | null {
+  const value = line.value.trim()
+
+  // 終日（VALUE=DATE）
+  const dateMatch = value.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (dateMatch || line.params.VALUE === 'DATE') {
+    if (!dateMatch) return null
+    return { date: `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}` }
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/)
+  if (!match) return null
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const parts = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  }
+
+  if (utc) {
+    const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second))
+    return { dateTime: date.toISOString() }
+  }
+
+  const tzid = line.params.TZID
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : defaultTimeZone
+  return {
+    dateTime: zonedTimeToUtc(parts, timeZone).toISOString(),
+    timeZone,
+  }
+}
+
+/**
+ * ISO 8601 形式の期間（例: PT1H30M, P1D）を分に変換する
+ */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return null
+
+  const [, sign, weeks, days, hours, minutes] = match
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 60 +
+    Number(days ?? 0) * 24 * 60 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0)
+  return sign === '-' ? -total : total
+}
+
+/**
+ * DTEND がない場合の終了時刻
+ * DURATION があれば加算し、なければ終日は1日、時間指定は開始と同時刻
+ */
+function addDuration(start: CalendarEventTime, minutes: number | null): CalendarEventTime {
+  if (start.date) {
+    const days = minutes ? Math.max(Math.round(minutes / (24 * 60)), 1) : 1
+    const next = addDays(new Date(`${start.date}T00:00:00Z`), days)
+    return { date: next.toISOString().slice(0, 10) }
+  }
+
+  const end = addMinutes(new Date(start.dateTime!), Math.max(minutes ?? 0, 0))
+  return { dateTime: end.toISOString(), timeZone: start.timeZone }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
@@ -0,0 +1,293 @@
+/**
+ * タスクの iCalendar フィード
+ * 開始日時のあるタスクは VEVENT（見積もり時間があれば時間指定、なければ終日）、期限のみのタスクは VTODO にする
+ * 繰り返しタスクはシリーズごとに RRULE を持つ親を出力し、作成済みの各回は RECURRENCE-ID 付きの上書きとして出力する
+ */
+
+import { addMinutes } from 'date-fns'
+import { Task, TaskPriority, TaskStatus } from '@/types/tasks'
+import { formatZonedDate, getZonedParts, shiftDateKey, ZonedDateTimeParts, zonedTimeToUtc } from '@/lib/timezone'
+import { parseRecurrencePattern, patternToRRule } from '@/lib/recurrence/occurrences'
+import { serializeRRule } from '@/lib/recurrence/rrule'
+import { getInstanceBaseDate } from '@/lib/recurrence/series'
+import {
+  buildVTimezone,
+  escapeText,
+  formatDateValue,
+  formatLocalDateTime,
+  formatUtcDateTime,
+  icalProperty,
+  serializeLines,
+} from './writer'
+
+export interface TaskFeedEntry {
+  task: Task
+  categoryName: string | null
+}
+
+export interface TaskFeedOptions {
+  timeZone: string
+  calendarName: string
+  now?: Date
+}
+
+type ComponentType = 'VEVENT' | 'VTODO'
+
+const UID_DOMAIN = 'taskshoot'
+// VTIMEZONE に含める年数（現在から前後）
+const TIMEZONE_YEARS_BEFORE = 20
+const TIMEZONE_YEARS_AFTER = 10
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const FLOATING_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/
+
+const PRIORITY_VALUES: Record<TaskPriority, number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+}
+
+const TODO_STATUS_VALUES: Record<TaskStatus, string> = {
+  pending: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+}
+
+/**
+ * タスクの一覧から .ics の文字列を作る
+ */
+export function buildTaskFeed(entries: TaskFeedEntry[], options: TaskFeedOptions): string {
+  const { timeZone, calendarName } = options
+  const now = options.now ?? new Date()
+
+  const components: string[] = []
+  const series = new Map<string, TaskFeedEntry[]>()
+
+  for (const entry of entries) {
+    const seriesId = entry.task.is_recurring ? entry.task.recurrence_series_id : null
+    if (seriesId) {
+      series.set(seriesId, [...(series.get(seriesId) ?? []), entry])
+    } else {
+      components.push(...buildComponent(entry, now, timeZone))
+    }
+  }
+
+  for (const [seriesId, instances] of Array.from(series.entries())) {
+    const lines = buildSeries(seriesId, instances, now, timeZone)
+    if (lines) {
+      components.push(...lines)
+    } else {
+      // 繰り返しルールを読めないシリーズは各回を個別の予定として出力する
+      for (const entry of instances) components.push(...buildComponent(entry, now, timeZone))
+    }
+  }
+
+  const currentYear = getZonedParts(now, timeZone).year
+
+  return serializeLines([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TaskShoot Calendar//Tasks//JA',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    icalProperty('X-WR-CALNAME', escapeText(calendarName)),
+    icalProperty('X-WR-TIMEZONE', timeZone),
+    icalProperty('REFRESH-INTERVAL', 'PT1H', { VALUE: 'DURATION' }),
+    'X-PUBLISHED-TTL:PT1H',
+    ...buildVTimezone(timeZone, currentYear - TIMEZONE_YEARS_BEFORE, currentYear + TIMEZONE_YEARS_AFTER),
+    ...components,
+    'END:VCALENDAR',
+  ])
+}
+
+// 開始日時があれば予定、期限のみならToDo
+function getComponentType(task: Task): ComponentType {
+  return task.start_date ? 'VEVENT' : 'VTODO'
+}
+
+// 終日として出力するか（VTODO の期限は常に日時で出力する）
+function isAllDay(task: Task, type: ComponentType): boolean {
+  return type === 'VEVENT' && task.estimated_minutes <= 0
+}
+
+function buildComponent(entry: TaskFeedEntry, now: Date, timeZone: string): string[] {
+  const { task } = entry
+  const type = getComponentType(task)
+
+  return [
+    `BEGIN:${type}`,
+    icalProperty('UID', `${task.id}@${UID_DOMAIN}`),
+    ...buildSchedule(task, type, timeZone),
+    ...buildDetails(entry, type, now),
+    `END:${type}`,
+  ]
+}
+
+/**
+ * 繰り返しシリーズ
+ * 親の DTSTART は初回（アンカー）、内容は最新の回に揃える
+ * 各回の種類（予定 / ToDo、終日 / 時間指定）が揃わない場合や、ルールを読めない場合は null
+ */
+function buildSeries(seriesId: string, instances: TaskFeedEntry[], now: Date, timeZone: string): string[] | null {
+  const sorted = [...instances].sort((a, b) => instanceDate(a.task).localeCompare(instanceDate(b.task)))
+  const latest = sorted[sorted.length - 1]!
+  const pattern = parseRecurrencePattern(latest.task.recurrence_pattern)
+  if (!pattern || !latest.task.recurrence_anchor) return null
+
+  const type = getComponentType(latest.task)
+  const allDay = isAllDay(latest.task, type)
+  if (sorted.some(({ task }) => getComponentType(task) !== type || isAllDay(task, type) !== allDay)) {
+    return null
+  }
+
+  const uid = icalProperty('UID', `${seriesId}@${UID_DOMAIN}`)
+  const anchor = new Date(latest.task.recurrence_anchor)
+  const anchorParts = getZonedParts(anchor, timeZone)
+
+  const rule = patternToRRule(pattern, anchorParts, timeZone)
+  const until = rule.until
+    ? formatSeriesDate(resolveRecurrenceDate(rule.until, anchorParts, timeZone), allDay, timeZone, true)
+    : null
+  const rrule = serializeRRule({ ...rule, until: undefined }) + (until ? `;UNTIL=${until}` : '')
+
+  // 未作成の回は未着手として表示する
+  const template: TaskFeedEntry = {
+    ...latest,
+    task: { ...latest.task, status: 'pending', completed_at: null },
+  }
+
+  const lines = [
+    `BEGIN:${type}`,
+    uid,
+    ...(type === 'VEVENT'
+      ? buildSchedule({ ...latest.task, start_date: anchor.toISOString() }, type, timeZone)
+      // VTODO は DUE と DTSTART が同時刻にできないため、アンカーを DTSTART にして繰り返す
+      : [seriesDateProperty('DTSTART', anchor, allDay, timeZone)]),
+    icalProperty('RRULE', rrule),
+  ]
+
+  const exdates = (pattern.exdates ?? []).map(value => resolveRecurrenceDate(value, anchorParts, timeZone))
+  if (exdates.length > 0) {
+    lines.push(
+      icalProperty(
+        'EXDATE',
+        exdates.map(date => formatSeriesDate(date, allDay, timeZone, false)).join(','),
+        allDay ? { VALUE: 'DATE' } : { TZID: timeZone }
+      )
+    )
+  }
+  lines.push(...buildDetails(template, type, now), `END:${type}`)
+
+  for (const entry of sorted) {
+    lines.push(
+      `BEGIN:${type}`,
+      uid,
+      seriesDateProperty('RECURRENCE-ID', new Date(instanceDate(entry.task)), allDay, timeZone),
+      ...buildSchedule(entry.task, type, timeZone),
+      ...buildDetails(entry, type, now),
+      `END:${type}`
+    )
+  }
+
+  return lines
+}
+
+// 回の日時（作成時の基準日時。移動した回でも変わらない）
+function instanceDate(task: Task): string {
+  return task.recurrence_instance_date ?? getInstanceBaseDate(task) ?? task.created_at
+}
+
+function buildSchedule(task: Task, type: ComponentType, timeZone: string): string[] {
+  if (type === 'VTODO') {
+    return [icalProperty('DUE', formatLocalDateTime(new Date(task.due_date!), timeZone), { TZID: timeZone })]
+  }
+
+  const start = new Date(task.start_date!)
+  if (!isAllDay(task, type)) {
+    return [
+      icalProperty('DTSTART', formatLocalDateTime(start, timeZone), { TZID: timeZone }),
+      icalProperty('DTEND', formatLocalDateTime(addMinutes(start, task.estimated_minutes), timeZone), { TZID: timeZone }),
+    ]
+  }
+
+  const date = formatZonedDate(start, timeZone)
+  return [
+    icalProperty('DTSTART', formatDateValue(date), { VALUE: 'DATE' }),
+    icalProperty('DTEND', formatDateValue(shiftDateKey(date, 1)), { VALUE: 'DATE' }),
+  ]
+}
+
+function buildDetails(entry: TaskFeedEntry, type: ComponentType, now: Date): string[] {
+  const { task, categoryName } = entry
+  const summary = type === 'VEVENT' && task.status === 'completed' ? `✓ ${task.title}` : task.title
+  const categories = [categoryName, ...(task.tags ?? [])].filter((value): value is string => Boolean(value))
+
+  const lines = [
+    icalProperty('DTSTAMP', formatUtcDateTime(now)),
+    icalProperty('CREATED', formatUtcDateTime(new Date(task.created_at))),
+    icalProperty('LAST-MODIFIED', formatUtcDateTime(new Date(task.updated_at))),
+    icalProperty('SUMMARY', escapeText(summary)),
+  ]
+
+  if (task.description) {
+    lines.push(icalProperty('DESCRIPTION', escapeText(task.description)))
+  }
+  if (categories.length > 0) {
+    lines.push(icalProperty('CATEGORIES', categories.map(escapeText).join(',')))
+  }
+  lines.push(icalProperty('PRIORITY', String(PRIORITY_VALUES[task.priority])))
+
+  if (type === 'VEVENT') {
+    lines.push(icalProperty('STATUS', task.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'))
+  } else {
+    lines.push(icalProperty('STATUS', TODO_STATUS_VALUES[task.status]))
+    if (task.status === 'completed') {
+      lines.push(
+        icalProperty('COMPLETED', formatUtcDateTime(new Date(task.completed_at ?? task.updated_at))),
+        'PERCENT-COMPLETE:100'
+      )
+    }
+  }
+
+  return lines
+}
+
+// 親の DTSTART と同じ型（終日なら DATE、時間指定なら TZID 付き）の日時プロパティ
+function seriesDateProperty(name: string, date: Date, allDay: boolean, timeZone: string): string {
+  return allDay
+    ? icalProperty(name, formatSeriesDate(date, true, timeZone, false), { VALUE: 'DATE' })
+    : icalProperty(name, formatSeriesDate(date, false, timeZone, false), { TZID: timeZone })
+}
+
+// 終日なら日付、時間指定なら壁時計時刻（UNTIL のみ UTC）
+function formatSeriesDate(date: Date, allDay: boolean, timeZone: string, utc: boolean): string {
+  if (allDay) return formatDateValue(formatZonedDate(date, timeZone))
+  return utc ? formatUtcDateTime(date) : formatLocalDateTime(date, timeZone)
+}
+
+/**
+ * 繰り返しの日時（UNTIL / EXDATE）を時点に変換する
+ * 日付のみの指定はその日のアンカーと同じ時刻の回を指す
+ */
+function resolveRecurrenceDate(value: string, anchor: ZonedDateTimeParts, timeZone: string): Date {
+  if (DATE_PATTERN.test(value)) {
+    const [year, month, day] = value.split('-').map(Number)
+    return zonedTimeToUtc(
+      { year: year ?? 1970, month: month ?? 1, day: day ?? 1, hour: anchor.hour, minute: anchor.minute, second: anchor.second },
+      timeZone
+    )
+  }
+
+  const floating = FLOATING_PATTERN.exec(value)
+  if (floating) {
+    const [, year, month, day, hour, minute, second] = floating.map(Number)
+    return zonedTimeToUtc(
+      { year: year ?? 1970, month: month ?? 1, day: day ?? 1, hour, minute, second },
+      timeZone
+    )
+  }
+
+  return new Date(value)
+}
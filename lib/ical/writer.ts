@@ -0,0 +1,187 @@
+/**
+ * iCalendar (.ics, RFC 5545) の書き出し
+ * プロパティの組み立て・エスケープ・75オクテットでの折り返しと、Intl API の情報からの VTIMEZONE の生成
+ */
+
+import { getTimeZoneOffsetMinutes, getZonedParts } from '@/lib/timezone'
+
+export type ICalParams = Record<string, string | undefined>
+
+const MAX_LINE_OCTETS = 75
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+const encoder = new TextEncoder()
+
+/**
+ * プロパティの行を作る（値は呼び出し側でエスケープ・整形したもの）
+ */
+export function icalProperty(name: string, value: string, params: ICalParams = {}): string {
+  const paramText = Object.entries(params)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, paramValue]) => `;${key}=${/[:;,]/.test(paramValue) ? `"${paramValue}"` : paramValue}`)
+    .join('')
+  return `${name}${paramText}:${value}`
+}
+
+/**
+ * TEXT 型の値のエスケープ（\ ; , 改行）
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * 行を75オクテットごとに折り返す（マルチバイト文字の途中では折り返さない）
+ */
+export function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const chunks: string[] = []
+  let current = ''
+  let octets = 0
+  // 2行目以降は先頭の空白1文字を含めて75オクテット
+  let limit = MAX_LINE_OCTETS
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    if (octets + size > limit) {
+      chunks.push(current)
+      current = ''
+      octets = 0
+      limit = MAX_LINE_OCTETS - 1
+    }
+    current += char
+    octets += size
+  }
+  chunks.push(current)
+
+  return chunks.join('\r\n ')
+}
+
+/**
+ * 行を折り返して CRLF でつなげる
+ */
+export function serializeLines(lines: string[]): string {
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// UTC の日時（YYYYMMDDTHHMMSSZ）
+export function formatUtcDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`
+}
+
+// 指定タイムゾーンの壁時計時刻（YYYYMMDDTHHMMSS、TZID と組み合わせる）
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone)
+  return `${formatDateParts(parts.year, parts.month, parts.day)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`
+}
+
+// 日付（YYYY-MM-DD → YYYYMMDD）
+export function formatDateValue(dateKey: string): string {
+  return dateKey.replace(/-/g, '')
+}
+
+interface OffsetTransition {
+  at: number
+  from: number
+  to: number
+}
+
+/**
+ * タイムゾーンの VTIMEZONE
+ * fromYear〜toYear の UTC オフセットの切り替わりを1日ごとに調べ、切り替わりごとに STANDARD / DAYLIGHT を出力する
+ * 範囲外は最も近い切り替わりのオフセットが続くものとして扱われる
+ */
+export function buildVTimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const start = Date.UTC(fromYear, 0, 1)
+  const end = Date.UTC(toYear + 1, 0, 1)
+  const initialOffset = getTimeZoneOffsetMinutes(new Date(start), timeZone)
+
+  const transitions: OffsetTransition[] = []
+  let previous = initialOffset
+  for (let time = start + DAY_MS; time <= end; time += DAY_MS) {
+    const offset = getTimeZoneOffsetMinutes(new Date(time), timeZone)
+    if (offset !== previous) {
+      transitions.push({ at: findTransition(time - DAY_MS, time, timeZone), from: previous, to: offset })
+      previous = offset
+    }
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', icalProperty('TZID', timeZone)]
+
+  if (transitions.length === 0) {
+    lines.push(
+      'BEGIN:STANDARD',
+      icalProperty('DTSTART', '19700101T000000'),
+      icalProperty('TZOFFSETFROM', formatOffset(initialOffset)),
+      icalProperty('TZOFFSETTO', formatOffset(initialOffset)),
+      ...timeZoneNameLines(new Date(start), timeZone),
+      'END:STANDARD'
+    )
+  } else {
+    // 範囲の先頭から最初の切り替わりまで
+    const first = transitions[0]!
+    transitions.unshift({ at: start, from: first.from, to: first.from })
+
+    // 範囲内で最も小さいオフセットを標準時とみなし、それより大きいオフセットを夏時間とする
+    const standardOffset = Math.min(...transitions.map(transition => transition.to))
+
+    for (const transition of transitions) {
+      const type = transition.to > standardOffset ? 'DAYLIGHT' : 'STANDARD'
+      lines.push(
+        `BEGIN:${type}`,
+        // 切り替わり直前のオフセットでの壁時計時刻
+        icalProperty('DTSTART', formatUtcDateTime(new Date(transition.at + transition.from * MINUTE_MS)).slice(0, 15)),
+        icalProperty('TZOFFSETFROM', formatOffset(transition.from)),
+        icalProperty('TZOFFSETTO', formatOffset(transition.to)),
+        ...timeZoneNameLines(new Date(transition.at), timeZone),
+        `END:${type}`
+      )
+    }
+  }
+
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
+// オフセットが変わる時刻（分単位）を二分探索で求める
+function findTransition(before: number, after: number, timeZone: string): number {
+  const offsetBefore = getTimeZoneOffsetMinutes(new Date(before), timeZone)
+  let low = before
+  let high = after
+  while (high - low > MINUTE_MS) {
+    const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS
+    if (getTimeZoneOffsetMinutes(new Date(middle), timeZone) === offsetBefore) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+  return high
+}
+
+function timeZoneNameLines(date: Date, timeZone: string): string[] {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value
+  return name ? [icalProperty('TZNAME', escapeText(name))] : []
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+'
+  const absolute = Math.abs(minutes)
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`
+}
+
+function formatDateParts(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}${pad(month)}${pad(day)}`
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { Task } from '@/types/tasks'
+import { TaskCreateData, TaskMutation, TaskUpdateData } from '@/types/offline'
+import { TaskOutbox, buildOfflineTask, createTemporaryId } from '../outbox'
+import { InMemoryOfflineStore } from '../memory-store'
+import { SyncRequestError, TaskSyncTransport, TaskWriteOptions } from '../transport'
+
+const USER_ID = 'user-1'
+
+/**
+ * API の代わり（tasks を持ち、updated_at で衝突を検出する）
+ * failNext に指定したエラーで次の1回の送信を失敗させる。lost にすると処理した後に応答だけを失う
+ */
+class InMemoryTaskServer implements TaskSyncTransport {
+  readonly tasks = new Map<string, Task>()
+  failNext: { error: Error; lost?: boolean } | null = null
+  private version = 0
+
+  async createTask(data: TaskCreateData): Promise<Task> {
+    return this.handle(() => {
+      const id = data.id ?? `server-${this.tasks.size + 1}`
+      if (this.tasks.has(id)) {
+        throw new SyncRequestError('このタスクは既に作成されています', 409, 'DUPLICATE')
+      }
+      return this.save({ ...buildOfflineTask(USER_ID, id, data) })
+    })
+  }
+
+  async updateTask(taskId: string, data: TaskUpdateData, options: TaskWriteOptions): Promise<Task> {
+    return this.handle(() => this.save({ ...this.getCurrent(taskId, options), ...data }))
+  }
+
+  async deleteTask(taskId: string, options: TaskWriteOptions): Promise<void> {
+    return this.handle(() => {
+      this.getCurrent(taskId, options)
+      this.tasks.delete(taskId)
+    })
+  }
+
+  async getTask(taskId: string): Promise<Task | null> {
+    return this.tasks.get(taskId) ?? null
+  }
+
+  // 他の端末での変更
+  editElsewhere(taskId: string, data: TaskUpdateData): Task {
+    return this.save({ ...this.tasks.get(taskId)!, ...data })
+  }
+
+  seed(title: string): Task {
+    return this.save(buildOfflineTask(USER_ID, `server-${this.tasks.size + 1}`, { title }))
+  }
+
+  private handle<T>(action: () => T): T {
+    const failure = this.failNext
+    this.failNext = null
+    if (failure && !failure.lost) throw failure.error
+
+    const result = action()
+    if (failure) throw failure.error
+    return result
+  }
+
+  private getCurrent(taskId: string, options: TaskWriteOptions): Task {
+    const task = this.tasks.get(taskId)
+    if (!task) throw new SyncRequestError('タスクが見つかりません', 404, 'TASK_NOT_FOUND')
+    if (options.expected_updated_at && options.expected_updated_at !== task.updated_at) {
+      throw new SyncRequestError(`「${task.title}」は他の端末で変更されています`, 409, 'TASK_CONFLICT')
+    }
+    return task
+  }
+
+  private save(task: Task): Task {
+    const saved = { ...task, updated_at: new Date(Date.UTC(2026, 9, 1, 0, 0, ++this.version)).toISOString() }
+    this.tasks.set(saved.id, saved)
+    return saved
+  }
+}
+
+function update(taskId: string, data: TaskUpdateData, baseUpdatedAt: string | null = null): TaskMutation {
+  return {
+    kind: 'update',
+    task_id: taskId,
+    data,
+    scope: 'this',
+    complete_subtasks: false,
+    ignore_blockers: false,
+    base_updated_at: baseUpdatedAt,
+  }
+}
+
+function remove(taskId: string, baseUpdatedAt: string | null = null): TaskMutation {
+  return { kind: 'delete', task_id: taskId, scope: 'this', base_updated_at: baseUpdatedAt }
+}
+
+describe('TaskOutbox', () => {
+  let store: InMemoryOfflineStore
+  let server: InMemoryTaskServer
+  let outbox: TaskOutbox
+
+  const queued = async () => (await store.listOutbox(USER_ID)).map(entry => entry.mutation)
+
+  beforeEach(() => {
+    store = new InMemoryOfflineStore()
+    server = new InMemoryTaskServer()
+    outbox = new TaskOutbox(store, server)
+  })
+
+  describe('enqueue', () => {
+    it('merges changes to an unsent task into its create', async () => {
+      const taskId = createTemporaryId()
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: taskId, data: { title: '買い物' } })
+      await outbox.enqueue(USER_ID, update(taskId, { priority: 'high' }))
+
+      expect(await queued()).toEqual([
+        { kind: 'create', task_id: taskId, data: { title: '買い物', priority: 'high' } },
+      ])
+    })
+
+    it('drops an unsent task and its subtasks when the task is deleted', async () => {
+      const parentId = createTemporaryId()
+      const childId = createTemporaryId()
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: parentId, data: { title: '旅行の準備' } })
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: childId, data: { title: '切符', parent_task_id: parentId } })
+      await outbox.enqueue(USER_ID, remove(parentId))
+
+      expect(await queued()).toEqual([])
+    })
+
+    it('merges consecutive updates of the same task', async () => {
+      const task = server.seed('掃除')
+      await outbox.enqueue(USER_ID, update(task.id, { title: '大掃除' }, task.updated_at))
+      await outbox.enqueue(USER_ID, update(task.id, { priority: 'low' }, task.updated_at))
+
+      expect(await queued()).toEqual([update(task.id, { title: '大掃除', priority: 'low' }, task.updated_at)])
+    })
+
+    it('notifies listeners of the pending count', async () => {
+      const events: unknown[] = []
+      outbox.subscribe(event => events.push(event))
+
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: createTemporaryId(), data: { title: '読書' } })
+
+      expect(events).toEqual([{ type: 'changed', userId: USER_ID, pending: 1 }])
+    })
+  })
+
+  describe('sync', () => {
+    it('creates unsent tasks and rewrites later changes to the new id', async () => {
+      const parentId = createTemporaryId()
+      const childId = createTemporaryId()
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: parentId, data: { title: '引っ越し', id: 'parent-id' } })
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: childId, data: { title: '荷造り', parent_task_id: parentId } })
+
+      const result = await outbox.sync(USER_ID)
+
+      expect(result).toMatchObject({ synced: 2, conflicts: [], failures: [], remaining: 0 })
+      expect(result.id_map[parentId]).toBe('parent-id')
+      expect(server.tasks.get(result.id_map[childId]!)!.parent_task_id).toBe('parent-id')
+      expect(await queued()).toEqual([])
+    })
+
+    it('does not create a task twice when the response to the create was lost', async () => {
+      const taskId = createTemporaryId()
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: taskId, data: { title: '確定申告', id: 'task-id' } })
+      server.failNext = { error: new TypeError('Failed to fetch'), lost: true }
+
+      const first = await outbox.sync(USER_ID)
+      const second = await outbox.sync(USER_ID)
+
+      expect(first.remaining).toBe(1)
+      expect(second).toMatchObject({ synced: 1, failures: [], remaining: 0 })
+      expect(second.id_map[taskId]).toBe('task-id')
+      expect(server.tasks.size).toBe(1)
+    })
+
+    it('keeps changes that could not be sent and continues from there on the next sync', async () => {
+      const task = server.seed('洗濯')
+      await outbox.enqueue(USER_ID, update(task.id, { title: '洗濯物を畳む' }, task.updated_at))
+      await outbox.enqueue(USER_ID, remove(task.id))
+      server.failNext = { error: new TypeError('Failed to fetch') }
+
+      const first = await outbox.sync(USER_ID)
+
+      expect(first).toMatchObject({ synced: 0, remaining: 2 })
+      expect((await store.listOutbox(USER_ID))[0]!.attempts).toBe(1)
+
+      const second = await outbox.sync(USER_ID)
+
+      expect(second).toMatchObject({ synced: 2, remaining: 0 })
+      expect(server.tasks.has(task.id)).toBe(false)
+    })
+
+    it('reports a conflict and drops the rest of the changes to a task edited elsewhere', async () => {
+      const task = server.seed('会議の資料')
+      await outbox.enqueue(USER_ID, update(task.id, { title: '手元の変更' }, task.updated_at))
+      await outbox.enqueue(USER_ID, remove(task.id, task.updated_at))
+      const edited = server.editElsewhere(task.id, { title: '他の端末の変更' })
+
+      const result = await outbox.sync(USER_ID)
+
+      expect(result.conflicts).toEqual([{
+        task_id: task.id,
+        title: '他の端末の変更',
+        kind: 'update',
+        local: { title: '手元の変更' },
+        server: edited,
+      }])
+      expect(server.tasks.get(task.id)!.title).toBe('他の端末の変更')
+      expect(await queued()).toEqual([])
+    })
+
+    it('checks later changes against the version written by the earlier ones', async () => {
+      const task = server.seed('日報')
+      await outbox.enqueue(USER_ID, update(task.id, { title: '日報を書く' }, task.updated_at))
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: createTemporaryId(), data: { title: '週報' } })
+      await outbox.enqueue(USER_ID, update(task.id, { priority: 'high' }, task.updated_at))
+
+      const result = await outbox.sync(USER_ID)
+
+      expect(result).toMatchObject({ synced: 3, conflicts: [] })
+      expect(server.tasks.get(task.id)).toMatchObject({ title: '日報を書く', priority: 'high' })
+    })
+
+    it('reports changes rejected by the API without retrying them', async () => {
+      const task = server.seed('請求書')
+      await outbox.enqueue(USER_ID, update(task.id, { title: '' }, task.updated_at))
+      server.failNext = { error: new SyncRequestError('タスクのタイトルは必須です', 422, 'VALIDATION_FAILED') }
+
+      const result = await outbox.sync(USER_ID)
+
+      expect(result.failures).toEqual([{ task_id: task.id, kind: 'update', message: 'タスクのタイトルは必須です' }])
+      expect(await queued()).toEqual([])
+    })
+
+    it('treats deleting a task that is already gone as done', async () => {
+      await outbox.enqueue(USER_ID, remove('missing-task'))
+
+      const result = await outbox.sync(USER_ID)
+
+      expect(result).toMatchObject({ synced: 1, failures: [] })
+    })
+
+    it('rewrites changes queued during a sync to the created id', async () => {
+      const taskId = createTemporaryId()
+      await outbox.enqueue(USER_ID, { kind: 'create', task_id: taskId, data: { title: '散歩', id: 'walk-id' } })
+
+      const syncing = outbox.sync(USER_ID)
+      const queuing = outbox.enqueue(USER_ID, update(taskId, { title: '朝の散歩' }))
+      await Promise.all([syncing, queuing])
+
+      expect(await queued()).toEqual([update('walk-id', { title: '朝の散歩' })])
+    })
+  })
+
+  it('clears stored task lists and queued changes', async () => {
+    await store.putTaskList({ key: `tasks:${USER_ID}`, data: [], nextCursor: null, total: 0, timestamp: 0 })
+    await outbox.enqueue(USER_ID, { kind: 'create', task_id: createTemporaryId(), data: { title: '片付け' } })
+
+    await outbox.clear()
+
+    expect(await store.getTaskList(`tasks:${USER_ID}`)).toBeNull()
+    expect(await outbox.pendingCount(USER_ID)).toBe(0)
+  })
+})
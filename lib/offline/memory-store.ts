@@ -0,0 +1,46 @@
+/**
+ * インメモリの端末保存
+ * IndexedDB を使えない環境（プライベートブラウズなど）の代わりと、送信待ちの変更の再送をローカルで検証するためのもの
+ */
+
+import { OutboxEntry, StoredTaskList } from '@/types/offline'
+import { OfflineStore } from './storage'
+
+export class InMemoryOfflineStore implements OfflineStore {
+  readonly taskLists = new Map<string, StoredTaskList>()
+  readonly outbox = new Map<number, OutboxEntry>()
+  private nextSeq = 1
+
+  async getTaskList(key: string): Promise<StoredTaskList | null> {
+    return this.taskLists.get(key) ?? null
+  }
+
+  async putTaskList(list: StoredTaskList): Promise<void> {
+    this.taskLists.set(list.key, list)
+  }
+
+  async listOutbox(userId: string): Promise<OutboxEntry[]> {
+    return Array.from(this.outbox.values())
+      .filter(entry => entry.user_id === userId)
+      .sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))
+  }
+
+  async addOutboxEntry(entry: OutboxEntry): Promise<number> {
+    const seq = this.nextSeq++
+    this.outbox.set(seq, { ...entry, seq })
+    return seq
+  }
+
+  async putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    if (entry.seq !== undefined) this.outbox.set(entry.seq, entry)
+  }
+
+  async deleteOutboxEntry(seq: number): Promise<void> {
+    this.outbox.delete(seq)
+  }
+
+  async clear(): Promise<void> {
+    this.taskLists.clear()
+    this.outbox.clear()
+  }
+}
@@ -0,0 +1,385 @@
+/**
+ * オフライン中のタスクの変更の送信待ち（アウトボックス）
+ * 変更を端末に記録し、接続が戻ったら記録した順に API へ送り直す
+ *
+ * - オフライン中に作成したタスクは仮の ID で扱い、作成できたら以降の変更の ID を置き換える
+ * - 作成はクライアントで採番した ID で送り、応答が届かずに送り直した場合も二重に作成しない
+ * - 手元の updated_at より後にサーバーで変更されたタスクは上書きせず、衝突として返す（サーバーの内容を正とする）
+ * - 通信エラーやサーバーの障害の場合は送れなかった変更を残し、次の送信で続きから送る
+ */
+
+import { logger } from '@/lib/logger'
+import { Task, TaskWithCategory } from '@/types/tasks'
+import {
+  OutboxEntry,
+  TaskConflict,
+  TaskCreateData,
+  TaskMutation,
+  TaskSyncResult,
+  TEMPORARY_ID_PREFIX,
+} from '@/types/offline'
+import { IndexedDBOfflineStore, OfflineStore } from './storage'
+import { InMemoryOfflineStore } from './memory-store'
+import { FetchTaskSyncTransport, SyncRequestError, TaskSyncTransport } from './transport'
+
+export type OutboxEvent =
+  | { type: 'changed'; userId: string; pending: number }
+  | { type: 'synced'; userId: string; result: TaskSyncResult }
+
+type OutboxListener = (event: OutboxEvent) => void
+
+export function createTemporaryId(): string {
+  return `${TEMPORARY_ID_PREFIX}${crypto.randomUUID()}`
+}
+
+export function isTemporaryId(id: string | null | undefined): boolean {
+  return typeof id === 'string' && id.startsWith(TEMPORARY_ID_PREFIX)
+}
+
+// 通信できずに fetch が失敗した（API のエラー応答ではない）
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)
+}
+
+/**
+ * オフライン中に作成したタスクを一覧に表示するための仮のタスク
+ */
+export function buildOfflineTask(userId: string, taskId: string, data: TaskCreateData): TaskWithCategory {
+  const now = new Date().toISOString()
+  return {
+    id: taskId,
+    user_id: userId,
+    category_id: data.category_id ?? null,
+    title: data.title,
+    description: data.description ?? null,
+    status: data.status ?? 'pending',
+    priority: data.priority ?? 'medium',
+    due_date: data.due_date ?? null,
+    start_date: data.start_date ?? null,
+    completed_at: data.completed_at ?? null,
+    estimated_minutes: data.estimated_minutes ?? 0,
+    actual_minutes: 0,
+    tags: data.tags ?? [],
+    notes: data.notes ?? null,
+    is_recurring: data.is_recurring ?? false,
+    recurrence_pattern: data.recurrence_pattern ?? null,
+    google_calendar_event_id: null,
+    google_calendar_synced_at: null,
+    google_calendar_etag: null,
+    google_calendar_sync_hash: null,
+    google_calendar_fields_updated_at: now,
+    recurrence_series_id: null,
+    recurrence_anchor: null,
+    recurrence_instance_date: null,
+    parent_task_id: data.parent_task_id ?? null,
+    deleted_at: null,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+// 4xx のうち、時間をおいて送り直せば成功する可能性があるもの
+const RETRYABLE_STATUSES = [401, 408, 429]
+
+function isRejected(error: unknown): error is SyncRequestError {
+  return error instanceof SyncRequestError &&
+    error.status >= 400 && error.status < 500 &&
+    !RETRYABLE_STATUSES.includes(error.status)
+}
+
+function referencesTask(mutation: TaskMutation, taskId: string): boolean {
+  return mutation.task_id === taskId ||
+    (mutation.kind !== 'delete' && mutation.data.parent_task_id === taskId)
+}
+
+// 仮の ID を作成されたタスクの ID に置き換える
+function replaceTaskId(mutation: TaskMutation, from: string, to: string): TaskMutation {
+  const taskId = mutation.task_id === from ? to : mutation.task_id
+  if (mutation.kind === 'delete' || mutation.data.parent_task_id !== from) {
+    return { ...mutation, task_id: taskId }
+  }
+  return mutation.kind === 'create'
+    ? { ...mutation, task_id: taskId, data: { ...mutation.data, parent_task_id: to } }
+    : { ...mutation, task_id: taskId, data: { ...mutation.data, parent_task_id: to } }
+}
+
+export class TaskOutbox {
+  private readonly listeners = new Set<OutboxListener>()
+  private syncing: Promise<TaskSyncResult> | null = null
+  // 送信済みの仮の ID（送信中に記録された変更の ID を置き換える）
+  private readonly idMap = new Map<string, string>()
+
+  constructor(
+    private readonly store: OfflineStore,
+    private readonly transport: TaskSyncTransport
+  ) {}
+
+  get isSyncing(): boolean {
+    return this.syncing !== null
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  async pendingCount(userId: string): Promise<number> {
+    return (await this.store.listOutbox(userId)).length
+  }
+
+  /**
+   * 変更を記録する
+   * 未送信の作成に対する変更は作成の内容にまとめ、削除は作成ごと取り消す
+   */
+  async enqueue(userId: string, mutation: TaskMutation): Promise<void> {
+    // 送信中の変更にまとめると送信済みの変更を再び記録してしまうため、送信が終わるのを待つ
+    if (this.syncing) {
+      await this.syncing.catch(() => undefined)
+    }
+
+    const entries = await this.store.listOutbox(userId)
+    const mapped = this.idMap.get(mutation.task_id)
+    if (mapped) {
+      mutation = replaceTaskId(mutation, mutation.task_id, mapped)
+    }
+
+    const create = mutation.kind !== 'create' && isTemporaryId(mutation.task_id)
+      ? entries.find(entry => entry.mutation.kind === 'create' && entry.mutation.task_id === mutation.task_id)
+      : undefined
+
+    if (create && create.mutation.kind === 'create' && mutation.kind === 'update') {
+      await this.store.putOutboxEntry({
+        ...create,
+        mutation: { ...create.mutation, data: { ...create.mutation.data, ...mutation.data } },
+      })
+    } else if (create && mutation.kind === 'delete') {
+      await this.discardTemporaryTask(entries, mutation.task_id)
+    } else if (mutation.kind !== 'create' && isTemporaryId(mutation.task_id)) {
+      // 作成に失敗して取り消されたタスク
+      logger.warn('Dropped offline change for unknown temporary task', { taskId: mutation.task_id })
+    } else {
+      const last = entries[entries.length - 1]
+      if (
+        mutation.kind === 'update' &&
+        last?.mutation.kind === 'update' &&
+        last.mutation.task_id === mutation.task_id &&
+        last.mutation.scope === mutation.scope &&
+        last.mutation.complete_subtasks === mutation.complete_subtasks &&
+        last.mutation.ignore_blockers === mutation.ignore_blockers
+      ) {
+        // 続けて行った同じタスクの変更は1回の変更にまとめる（衝突の検出は最初の変更の時点で行う）
+        await this.store.putOutboxEntry({
+          ...last,
+          mutation: { ...last.mutation, data: { ...last.mutation.data, ...mutation.data } },
+        })
+      } else {
+        await this.store.addOutboxEntry({
+          user_id: userId,
+          mutation,
+          queued_at: new Date().toISOString(),
+          attempts: 0,
+        })
+      }
+    }
+
+    this.emit({ type: 'changed', userId, pending: await this.pendingCount(userId) })
+  }
+
+  /**
+   * 記録した変更を順に送る（送信中に呼ばれた場合は実行中の送信の結果を返す）
+   */
+  sync(userId: string): Promise<TaskSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.replay(userId)
+        .then(result => {
+          this.emit({ type: 'synced', userId, result })
+          return result
+        })
+        .finally(() => {
+          this.syncing = null
+        })
+    }
+    return this.syncing
+  }
+
+  /**
+   * 端末に保存したタスク一覧と送信待ちの変更をすべて削除する
+   * 共有の端末で、ログアウトした後に前のユーザーのタスクが残らないようにする
+   */
+  async clear(): Promise<void> {
+    if (this.syncing) {
+      await this.syncing.catch(() => undefined)
+    }
+    await this.store.clear()
+    this.idMap.clear()
+  }
+
+  private emit(event: OutboxEvent) {
+    this.listeners.forEach(listener => listener(event))
+  }
+
+  // 未送信の作成と、そのタスク・サブタスクへの変更をすべて取り消す
+  private async discardTemporaryTask(entries: OutboxEntry[], taskId: string): Promise<void> {
+    const discarded = new Set([taskId])
+    for (const entry of entries) {
+      const { mutation } = entry
+      if (mutation.kind === 'create' && mutation.data.parent_task_id && discarded.has(mutation.data.parent_task_id)) {
+        discarded.add(mutation.task_id)
+      }
+      if (discarded.has(mutation.task_id) && entry.seq !== undefined) {
+        await this.store.deleteOutboxEntry(entry.seq)
+      }
+    }
+  }
+
+  private async replay(userId: string): Promise<TaskSyncResult> {
+    const result: TaskSyncResult = { synced: 0, conflicts: [], failures: [], remaining: 0, id_map: {} }
+    const entries = await this.store.listOutbox(userId)
+    // 送信によって変わった updated_at（同じタスクへの続きの変更の衝突の検出に使う）
+    const latest = new Map<string, string>()
+    // 衝突または拒否されたタスク（以降の変更は送らない）
+    const dropped = new Set<string>()
+
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index]!
+      const { mutation } = entry
+
+      const parentId = mutation.kind !== 'delete' ? mutation.data.parent_task_id : null
+      if (dropped.has(mutation.task_id) || (parentId && dropped.has(parentId))) {
+        await this.store.deleteOutboxEntry(entry.seq!)
+        continue
+      }
+
+      try {
+        await this.send(mutation, latest, entries, index, result)
+        await this.store.deleteOutboxEntry(entry.seq!)
+        result.synced++
+      } catch (error) {
+        if (error instanceof SyncRequestError && error.code === 'TASK_CONFLICT' && mutation.kind !== 'create') {
+          result.conflicts.push(await this.buildConflict(mutation))
+          dropped.add(mutation.task_id)
+          await this.store.deleteOutboxEntry(entry.seq!)
+          continue
+        }
+
+        // ゴミ箱に移す対象が既にない
+        if (mutation.kind === 'delete' && error instanceof SyncRequestError && error.status === 404) {
+          await this.store.deleteOutboxEntry(entry.seq!)
+          result.synced++
+          continue
+        }
+
+        if (isRejected(error)) {
+          logger.warn('Offline task change was rejected', { kind: mutation.kind, taskId: mutation.task_id, error: error.message })
+          result.failures.push({ task_id: mutation.task_id, kind: mutation.kind, message: error.message })
+          dropped.add(mutation.task_id)
+          await this.store.deleteOutboxEntry(entry.seq!)
+          continue
+        }
+
+        // 通信エラー・サーバーの障害は次の送信で続きから送る
+        logger.warn('Failed to sync offline task changes', { error: error instanceof Error ? error.message : error })
+        await this.store.putOutboxEntry({ ...entry, attempts: entry.attempts + 1 })
+        result.remaining = entries.length - index
+        break
+      }
+    }
+
+    return result
+  }
+
+  private async send(
+    mutation: TaskMutation,
+    latest: Map<string, string>,
+    entries: OutboxEntry[],
+    index: number,
+    result: TaskSyncResult
+  ): Promise<void> {
+    switch (mutation.kind) {
+      case 'create': {
+        const task = await this.createOnce(mutation.data)
+        latest.set(task.id, task.updated_at)
+        this.idMap.set(mutation.task_id, task.id)
+        result.id_map[mutation.task_id] = task.id
+
+        // 残りの変更の仮の ID を置き換える（途中で中断しても二重に作成しないよう保存する）
+        for (let next = index + 1; next < entries.length; next++) {
+          const entry = entries[next]!
+          if (referencesTask(entry.mutation, mutation.task_id)) {
+            entries[next] = { ...entry, mutation: replaceTaskId(entry.mutation, mutation.task_id, task.id) }
+            await this.store.putOutboxEntry(entries[next]!)
+          }
+        }
+        return
+      }
+      case 'update': {
+        const task = await this.transport.updateTask(mutation.task_id, mutation.data, {
+          scope: mutation.scope,
+          complete_subtasks: mutation.complete_subtasks,
+          ignore_blockers: mutation.ignore_blockers,
+          expected_updated_at: latest.get(mutation.task_id) ?? mutation.base_updated_at,
+        })
+        latest.set(task.id, task.updated_at)
+        return
+      }
+      case 'delete':
+        await this.transport.deleteTask(mutation.task_id, {
+          scope: mutation.scope,
+          expected_updated_at: latest.get(mutation.task_id) ?? mutation.base_updated_at,
+        })
+        return
+    }
+  }
+
+  // 前回の送信で作成済み（応答が届かなかった）なら、作成されたタスクを返す
+  private async createOnce(data: TaskCreateData): Promise<Task> {
+    try {
+      return await this.transport.createTask(data)
+    } catch (error) {
+      if (data.id && error instanceof SyncRequestError && error.code === 'DUPLICATE') {
+        const task = await this.transport.getTask(data.id)
+        if (task) return task
+      }
+      throw error
+    }
+  }
+
+  private async buildConflict(mutation: Exclude<TaskMutation, { kind: 'create' }>): Promise<TaskConflict> {
+    let server: Task | null = null
+    try {
+      server = await this.transport.getTask(mutation.task_id)
+    } catch (fetchError) {
+      logger.warn('Failed to fetch conflicting task', { taskId: mutation.task_id, error: fetchError })
+    }
+
+    return {
+      task_id: mutation.task_id,
+      title: server?.title ?? (mutation.kind === 'update' ? mutation.data.title : undefined) ?? 'タスク',
+      kind: mutation.kind,
+      local: mutation.kind === 'update' ? mutation.data : null,
+      server,
+    }
+  }
+}
+
+let offlineStore: OfflineStore | null = null
+let taskOutbox: TaskOutbox | null = null
+
+/**
+ * ブラウザで共有する端末保存（IndexedDB を使えない環境ではメモリに保存する）
+ */
+export function getOfflineStore(): OfflineStore {
+  if (!offlineStore) {
+    offlineStore = typeof indexedDB !== 'undefined' ? new IndexedDBOfflineStore() : new InMemoryOfflineStore()
+  }
+  return offlineStore
+}
+
+export function getTaskOutbox(): TaskOutbox {
+  if (!taskOutbox) {
+    taskOutbox = new TaskOutbox(getOfflineStore(), new FetchTaskSyncTransport())
+  }
+  return taskOutbox
+}
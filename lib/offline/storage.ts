@@ -0,0 +1,120 @@
+/**
+ * 端末へのタスクの保存（IndexedDB）
+ * 再読み込みしても直前のタスク一覧を表示でき、オフライン中の変更を送信待ちとして残せる
+ */
+
+import { OutboxEntry, StoredTaskList } from '@/types/offline'
+
+export interface OfflineStore {
+  getTaskList(key: string): Promise<StoredTaskList | null>
+  putTaskList(list: StoredTaskList): Promise<void>
+  // 送信順に並べた送信待ちの変更
+  listOutbox(userId: string): Promise<OutboxEntry[]>
+  // 採番した seq を返す
+  addOutboxEntry(entry: OutboxEntry): Promise<number>
+  putOutboxEntry(entry: OutboxEntry): Promise<void>
+  deleteOutboxEntry(seq: number): Promise<void>
+  // 保存したタスク一覧と送信待ちの変更をすべて削除する（ログアウト時）
+  clear(): Promise<void>
+}
+
+const DB_NAME = 'taskshoot-offline'
+const DB_VERSION = 1
+const TASK_LISTS = 'task_lists'
+const OUTBOX = 'outbox'
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export class IndexedDBOfflineStore implements OfflineStore {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(TASK_LISTS)) {
+            db.createObjectStore(TASK_LISTS, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(OUTBOX)) {
+            const outbox = db.createObjectStore(OUTBOX, { keyPath: 'seq', autoIncrement: true })
+            outbox.createIndex('user_id', 'user_id')
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          this.dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return this.dbPromise
+  }
+
+  async getTaskList(key: string): Promise<StoredTaskList | null> {
+    const db = await this.open()
+    const result = await promisify<StoredTaskList | undefined>(
+      db.transaction(TASK_LISTS).objectStore(TASK_LISTS).get(key)
+    )
+    return result ?? null
+  }
+
+  async putTaskList(list: StoredTaskList): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(TASK_LISTS, 'readwrite')
+    transaction.objectStore(TASK_LISTS).put(list)
+    await transactionDone(transaction)
+  }
+
+  async listOutbox(userId: string): Promise<OutboxEntry[]> {
+    const db = await this.open()
+    const entries = await promisify<OutboxEntry[]>(
+      db.transaction(OUTBOX).objectStore(OUTBOX).index('user_id').getAll(userId)
+    )
+    return entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))
+  }
+
+  async addOutboxEntry(entry: OutboxEntry): Promise<number> {
+    const db = await this.open()
+    const transaction = db.transaction(OUTBOX, 'readwrite')
+    const seq = await promisify(transaction.objectStore(OUTBOX).add(entry))
+    await transactionDone(transaction)
+    return Number(seq)
+  }
+
+  async putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(OUTBOX, 'readwrite')
+    transaction.objectStore(OUTBOX).put(entry)
+    await transactionDone(transaction)
+  }
+
+  async deleteOutboxEntry(seq: number): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(OUTBOX, 'readwrite')
+    transaction.objectStore(OUTBOX).delete(seq)
+    await transactionDone(transaction)
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction([TASK_LISTS, OUTBOX], 'readwrite')
+    transaction.objectStore(TASK_LISTS).clear()
+    transaction.objectStore(OUTBOX).clear()
+    await transactionDone(transaction)
+  }
+}
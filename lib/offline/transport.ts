@@ -0,0 +1,105 @@
+/**
+ * 送信待ちの変更を API に送る
+ */
+
+import { RecurrenceScope, Task } from '@/types/tasks'
+import { TaskCreateData, TaskUpdateData } from '@/types/offline'
+
+interface ApiResponse<T> {
+  data: T
+  success: boolean
+  error?: string
+  code?: string
+}
+
+// API がエラーを返した（通信自体の失敗は fetch の TypeError のまま）
+export class SyncRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string
+  ) {
+    super(message)
+    this.name = 'SyncRequestError'
+  }
+}
+
+export interface TaskWriteOptions {
+  scope: RecurrenceScope
+  // 手元のタスクの updated_at（サーバーでこれより後に変更されていれば 409 になる）
+  expected_updated_at: string | null
+}
+
+export interface TaskSyncTransport {
+  createTask(data: TaskCreateData): Promise<Task>
+  updateTask(
+    taskId: string,
+    data: TaskUpdateData,
+    options: TaskWriteOptions & { complete_subtasks: boolean; ignore_blockers: boolean }
+  ): Promise<Task>
+  deleteTask(taskId: string, options: TaskWriteOptions): Promise<void>
+  getTask(taskId: string): Promise<Task | null>
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  const result: ApiResponse<T> = await response.json().catch(() => ({ success: false } as ApiResponse<T>))
+
+  if (!response.ok || !result.success) {
+    throw new SyncRequestError(result.error || `Request failed with ${response.status}`, response.status, result.code)
+  }
+  return result.data
+}
+
+function writeParams(options: TaskWriteOptions): URLSearchParams {
+  const params = new URLSearchParams({ scope: options.scope })
+  if (options.expected_updated_at) {
+    params.append('expected_updated_at', options.expected_updated_at)
+  }
+  return params
+}
+
+export class FetchTaskSyncTransport implements TaskSyncTransport {
+  createTask(data: TaskCreateData): Promise<Task> {
+    return request<Task>('/api/tasks', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    })
+  }
+
+  updateTask(
+    taskId: string,
+    data: TaskUpdateData,
+    options: TaskWriteOptions & { complete_subtasks: boolean; ignore_blockers: boolean }
+  ): Promise<Task> {
+    const params = writeParams(options)
+    if (options.complete_subtasks) params.append('complete_subtasks', 'true')
+    if (options.ignore_blockers) params.append('ignore_blockers', 'true')
+
+    return request<Task>(`/api/tasks/${taskId}?${params.toString()}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteTask(taskId: string, options: TaskWriteOptions): Promise<void> {
+    await request<null>(`/api/tasks/${taskId}?${writeParams(options).toString()}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getTask(taskId: string): Promise<Task | null> {
+    try {
+      return await request<Task>(`/api/tasks/${taskId}`)
+    } catch (error) {
+      if (error instanceof SyncRequestError && error.status === 404) return null
+      throw error
+    }
+  }
+}
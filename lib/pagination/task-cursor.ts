@@ -0,0 +1,75 @@
+/**
+ * タスク一覧のキーセットページネーション
+ * カーソルは直前のページの最後のタスクの「ソート列の値 + id」を base64url にしたもの
+ * 同じ値のタスクは id で並べるため、ページの境界で重複や抜けが起きない
+ */
+
+import { ValidationError } from '@/lib/errors'
+import { TaskSortOptions, TaskWithCategory } from '@/types/tasks'
+
+export interface TaskCursor {
+  value: string | null
+  id: string
+}
+
+// NULL を取りうるソート列（NULL は昇順で最後、降順で最初に並ぶ）
+const NULLABLE_SORT_FIELDS: ReadonlyArray<TaskSortOptions['field']> = ['due_date']
+
+const INVALID_CURSOR_MESSAGE = 'カーソルが正しくありません'
+
+export function encodeTaskCursor(task: TaskWithCategory, sort: TaskSortOptions): string {
+  const cursor: TaskCursor = { value: task[sort.field] ?? null, id: task.id }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeTaskCursor(value: string): TaskCursor {
+  let cursor: { value?: unknown; id?: unknown } | null = null
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+  } catch {
+    // 下の検証で不正なカーソルとして扱う
+  }
+
+  if (
+    typeof cursor !== 'object' || cursor === null ||
+    typeof cursor.id !== 'string' ||
+    (cursor.value !== null && typeof cursor.value !== 'string')
+  ) {
+    throw new ValidationError(INVALID_CURSOR_MESSAGE, 'INVALID_CURSOR')
+  }
+  return { value: cursor.value, id: cursor.id }
+}
+
+/**
+ * PostgREST のフィルタ値として引用符で囲む（カンマや括弧を含む値のため）
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * カーソルより後ろのタスクを表す .or() 用のフィルタ
+ */
+export function buildKeysetFilter(cursor: TaskCursor, sort: TaskSortOptions): string {
+  const { field } = sort
+  const ascending = sort.direction === 'asc'
+  const id = quote(cursor.id)
+  const idAfter = `id.${ascending ? 'gt' : 'lt'}.${id}`
+
+  if (cursor.value === null) {
+    // 昇順: NULL の中で id が後ろのもの / 降順: NULL の後ろに NULL でないものが続く
+    return ascending
+      ? `and(${field}.is.null,${idAfter})`
+      : `${field}.not.is.null,and(${field}.is.null,${idAfter})`
+  }
+
+  const value = quote(cursor.value)
+  const conditions = [
+    `${field}.${ascending ? 'gt' : 'lt'}.${value}`,
+    `and(${field}.eq.${value},${idAfter})`,
+  ]
+  if (ascending && NULLABLE_SORT_FIELDS.includes(field)) {
+    conditions.push(`${field}.is.null`)
+  }
+  return conditions.join(',')
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from '@jest/globals'
+import { RecurrencePattern } from '@/types/tasks'
+import {
+  countOccurrencesBefore,
+  formatRecurrencePattern,
+  getNextOccurrence,
+  getOccurrencesBetween,
+  iterateOccurrences,
+  parseRecurrencePattern,
+} from '../occurrences'
+
+const TIME_ZONE = 'Asia/Tokyo'
+// 2026-10-01（木）9:00 JST
+const ANCHOR = new Date('2026-10-01T00:00:00.000Z')
+
+function take(pattern: RecurrencePattern, count: number, anchor = ANCHOR, timeZone = TIME_ZONE): string[] {
+  const dates: string[] = []
+  for (const occurrence of iterateOccurrences(pattern, anchor, timeZone)) {
+    if (dates.length === count) break
+    dates.push(occurrence.date.toISOString())
+  }
+  return dates
+}
+
+describe('iterateOccurrences', () => {
+  it('keeps the wall-clock time across a DST change', () => {
+    // 2026-11-01 に夏時間が終わる
+    const anchor = new Date('2026-10-31T13:00:00.000Z')
+
+    expect(take({ type: 'daily', interval: 1 }, 2, anchor, 'America/New_York'))
+      .toEqual(['2026-10-31T13:00:00.000Z', '2026-11-01T14:00:00.000Z'])
+  })
+
+  it('skips excluded dates but still counts them toward COUNT', () => {
+    const pattern: RecurrencePattern = { type: 'daily', interval: 1, rrule: 'FREQ=DAILY;COUNT=3', exdates: ['2026-10-02'] }
+
+    const occurrences = Array.from(iterateOccurrences(pattern, ANCHOR, TIME_ZONE))
+
+    expect(occurrences.map(({ date, index }) => [date.toISOString(), index])).toEqual([
+      ['2026-10-01T00:00:00.000Z', 0],
+      ['2026-10-03T00:00:00.000Z', 2],
+    ])
+  })
+
+  it('matches excluded wall-clock times and instants against each occurrence', () => {
+    const pattern: RecurrencePattern = {
+      type: 'daily',
+      interval: 1,
+      exdates: ['2026-10-02T09:00:00', '2026-10-03T00:00:00.000Z', '2026-10-04T10:00:00'],
+    }
+
+    expect(take(pattern, 2)).toEqual(['2026-10-01T00:00:00.000Z', '2026-10-04T00:00:00.000Z'])
+  })
+
+  it('includes the UNTIL date', () => {
+    const pattern: RecurrencePattern = { type: 'weekly', interval: 1, rrule: 'FREQ=WEEKLY;UNTIL=20261015' }
+
+    expect(take(pattern, 10)).toEqual(['2026-10-01T00:00:00.000Z', '2026-10-08T00:00:00.000Z', '2026-10-15T00:00:00.000Z'])
+  })
+
+  it('ends legacy patterns at end_date in the user time zone', () => {
+    // 10月3日 0:30 JST
+    const pattern: RecurrencePattern = { type: 'daily', interval: 1, end_date: '2026-10-02T15:30:00.000Z' }
+
+    expect(take(pattern, 10)).toHaveLength(3)
+  })
+
+  it('moves legacy monthly dates past the end of the month to the last day', () => {
+    const anchor = new Date('2027-01-31T00:00:00.000Z')
+
+    expect(take({ type: 'monthly', interval: 1 }, 3, anchor))
+      .toEqual(['2027-01-31T00:00:00.000Z', '2027-02-28T00:00:00.000Z', '2027-03-31T00:00:00.000Z'])
+  })
+
+  it('counts legacy weekly intervals in Sunday-based weeks', () => {
+    // 木曜日から始まり、2週ごとの日曜日と木曜日
+    const pattern: RecurrencePattern = { type: 'weekly', interval: 2, days_of_week: [0, 4] }
+
+    expect(take(pattern, 3)).toEqual(['2026-10-01T00:00:00.000Z', '2026-10-11T00:00:00.000Z', '2026-10-15T00:00:00.000Z'])
+  })
+})
+
+describe('occurrence queries', () => {
+  const pattern: RecurrencePattern = { type: 'weekly', interval: 1, exdates: ['2026-10-08'] }
+
+  it('finds the next occurrence after a date', () => {
+    expect(getNextOccurrence(pattern, ANCHOR, TIME_ZONE, new Date('2026-10-01T00:00:00.000Z'))).toEqual({
+      date: new Date('2026-10-15T00:00:00.000Z'),
+      index: 2,
+    })
+  })
+
+  it('lists occurrences within a range', () => {
+    const occurrences = getOccurrencesBetween(
+      pattern,
+      ANCHOR,
+      TIME_ZONE,
+      new Date('2026-10-01T00:00:00.000Z'),
+      new Date('2026-10-22T00:00:00.000Z')
+    )
+
+    expect(occurrences.map(occurrence => occurrence.index)).toEqual([0, 2])
+  })
+
+  it('returns nothing once COUNT is used up', () => {
+    const limited: RecurrencePattern = { type: 'weekly', interval: 1, occurrences: 2 }
+
+    expect(getNextOccurrence(limited, ANCHOR, TIME_ZONE, new Date('2026-10-08T00:00:00.000Z'))).toBeNull()
+  })
+
+  it('counts excluded occurrences before a date', () => {
+    expect(countOccurrencesBefore(pattern, ANCHOR, TIME_ZONE, new Date('2026-10-15T00:00:00.000Z'))).toBe(2)
+  })
+})
+
+describe('parseRecurrencePattern', () => {
+  it('reads RRULE / EXDATE text', () => {
+    expect(parseRecurrencePattern('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU\nEXDATE;VALUE=DATE:20261110')).toEqual({
+      type: 'monthly',
+      interval: 2,
+      rrule: 'FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU',
+      exdates: ['2026-11-10'],
+    })
+  })
+
+  it('prefers rrule over the legacy fields', () => {
+    expect(parseRecurrencePattern({ type: 'daily', interval: 3, rrule: 'FREQ=WEEKLY' })).toEqual({
+      type: 'weekly',
+      interval: 1,
+      rrule: 'FREQ=WEEKLY',
+    })
+  })
+
+  it.each([
+    ['an invalid RRULE', 'FREQ=HOURLY'],
+    ['an unknown type', { type: 'hourly', interval: 1 }],
+    ['an invalid interval', { type: 'daily', interval: 0 }],
+    ['an invalid exdate', { type: 'daily', interval: 1, exdates: ['tomorrow'] }],
+  ])('returns null for %s', (_, value) => {
+    expect(parseRecurrencePattern(value)).toBeNull()
+  })
+})
+
+describe('formatRecurrencePattern', () => {
+  it('writes legacy patterns as RRULE / EXDATE text', () => {
+    const pattern: RecurrencePattern = {
+      type: 'weekly',
+      interval: 1,
+      days_of_week: [1, 4],
+      occurrences: 10,
+      exdates: ['2026-10-08', '2026-10-12T00:00:00.000Z'],
+    }
+
+    expect(formatRecurrencePattern(pattern, ANCHOR, TIME_ZONE)).toBe([
+      'RRULE:FREQ=WEEKLY;COUNT=10;BYDAY=MO,TH;WKST=SU',
+      'EXDATE;VALUE=DATE:20261008',
+      'EXDATE:20261012T000000Z',
+    ].join('\n'))
+  })
+})
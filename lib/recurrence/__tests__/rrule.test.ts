@@ -0,0 +1,104 @@
+import { describe, expect, it } from '@jest/globals'
+import { ValidationError } from '@/lib/errors'
+import { getZonedParts } from '@/lib/timezone'
+import { expandRRule, parseRecurrenceText, parseRRule, serializeRRule, toDateKey } from '../rrule'
+
+// 初回の日付から count 件の日付を YYYY-MM-DD で返す
+function expand(rrule: string, anchor: string, count: number): string[] {
+  const dates: string[] = []
+  for (const date of expandRRule(parseRRule(rrule), getZonedParts(new Date(`${anchor}T09:00:00Z`), 'UTC'))) {
+    dates.push(toDateKey(date))
+    if (dates.length === count) break
+  }
+  return dates
+}
+
+describe('parseRRule', () => {
+  it('parses ordinal weekdays and fills in the defaults', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=2TU,-1FR')).toEqual({
+      freq: 'MONTHLY',
+      interval: 1,
+      weekStart: 1,
+      byDay: [{ weekday: 2, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+    })
+  })
+
+  it('parses UNTIL as a date, a wall-clock time or an instant', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261031').until).toBe('2026-10-31')
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261031T090000').until).toBe('2026-10-31T09:00:00')
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261031T090000Z').until).toBe('2026-10-31T09:00:00.000Z')
+  })
+
+  it.each([
+    ['', 'RRULE は必須です'],
+    ['FREQ=HOURLY', 'RRULE の FREQ には DAILY / WEEKLY / MONTHLY / YEARLY のいずれかを指定してください'],
+    ['FREQ=DAILY;BYHOUR=9', 'RRULE の BYHOUR には対応していません'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20261031', 'RRULE の COUNT と UNTIL は同時に指定できません'],
+    ['FREQ=WEEKLY;BYMONTHDAY=1', 'RRULE の BYMONTHDAY は FREQ=WEEKLY では指定できません'],
+    ['FREQ=WEEKLY;BYDAY=2TU', 'RRULE の BYDAY の値が正しくありません（2TU）'],
+    ['FREQ=DAILY;INTERVAL=0', 'RRULE の INTERVAL の値が正しくありません'],
+  ])('rejects %j', (value, message) => {
+    expect(() => parseRRule(value)).toThrow(new ValidationError(message, 'INVALID_RECURRENCE'))
+  })
+
+  it('round-trips through serializeRRule', () => {
+    const value = 'FREQ=YEARLY;INTERVAL=2;COUNT=5;BYMONTH=3;BYDAY=-1SU;WKST=SU'
+
+    expect(serializeRRule(parseRRule(value))).toBe(value)
+  })
+})
+
+describe('parseRecurrenceText', () => {
+  it('reads RRULE and EXDATE lines and skips DTSTART', () => {
+    const text = [
+      'DTSTART;TZID=Asia/Tokyo:20261001T090000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,TH',
+      'EXDATE;VALUE=DATE:20261008,20261005',
+      'EXDATE;TZID=Asia/Tokyo:20261012T090000',
+      'EXDATE:20261015T090000',
+    ].join('\r\n')
+
+    const { rule, exdates } = parseRecurrenceText(text)
+
+    expect(serializeRRule(rule)).toBe('FREQ=WEEKLY;BYDAY=MO,TH')
+    expect(exdates).toEqual(['2026-10-05', '2026-10-08', '2026-10-12T00:00:00.000Z', '2026-10-15T09:00:00'])
+  })
+
+  it('rejects text without exactly one RRULE', () => {
+    expect(() => parseRecurrenceText('EXDATE:20261005')).toThrow(ValidationError)
+    expect(() => parseRecurrenceText('RRULE:FREQ=DAILY\nRRULE:FREQ=WEEKLY')).toThrow(ValidationError)
+  })
+})
+
+describe('expandRRule', () => {
+  it('repeats weekly on the given weekdays', () => {
+    // 2026-10-01 は木曜日
+    expect(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2026-10-01', 4))
+      .toEqual(['2026-10-01', '2026-10-12', '2026-10-15', '2026-10-26'])
+  })
+
+  it('picks the nth weekday of the month', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=2TU', '2026-10-13', 3)).toEqual(['2026-10-13', '2026-11-10', '2026-12-08'])
+  })
+
+  it('picks the last weekday of the month with BYSETPOS', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2026-10-30', 3))
+      .toEqual(['2026-10-30', '2026-11-30', '2026-12-31'])
+  })
+
+  it('skips months that do not have the day', () => {
+    expect(expand('FREQ=MONTHLY', '2026-10-31', 3)).toEqual(['2026-10-31', '2026-12-31', '2027-01-31'])
+  })
+
+  it('counts negative month days from the end of the month', () => {
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=-1', '2027-01-31', 3)).toEqual(['2027-01-31', '2027-02-28', '2027-03-31'])
+  })
+
+  it('repeats yearly on leap days only in leap years', () => {
+    expect(expand('FREQ=YEARLY', '2028-02-29', 2)).toEqual(['2028-02-29', '2032-02-29'])
+  })
+
+  it('does not return dates before the anchor', () => {
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=1,15', '2026-10-10', 2)).toEqual(['2026-10-15', '2026-11-01'])
+  })
+})
@@ -0,0 +1,255 @@
+/**
+ * 繰り返しルールの展開
+ * ルールは RRULE に変換して展開する（lib/recurrence/rrule.ts）
+ * 日付の計算はユーザーのタイムゾーンの壁時計時刻で行い、時刻は初回（アンカー）に揃える
+ * そのため DST をまたいでも「毎日9:00」は9:00のまま維持される
+ */
+
+import { RecurrencePattern } from '@/types/tasks'
+import { formatZonedDate, getZonedParts, ZonedDateTimeParts, zonedTimeToUtc } from '@/lib/timezone'
+import {
+  compareRecurrenceDate,
+  expandRRule,
+  formatRecurrenceText,
+  isRecurrenceDate,
+  normalizeRecurrenceDates,
+  parseRecurrenceText,
+  parseRRule,
+  RRule,
+  RRuleFrequency,
+  serializeRRule,
+} from './rrule'
+
+export interface Occurrence {
+  date: Date
+  // 0 が初回
+  index: number
+}
+
+const RECURRENCE_TYPES: RecurrencePattern['type'][] = ['daily', 'weekly', 'monthly', 'yearly']
+// 終了条件がないルールでの探索上限
+const MAX_ITERATIONS = 10000
+
+/**
+ * DB の JSON（または RRULE / EXDATE の文字列）から繰り返しルールを取り出す
+ * 不正な値の場合は null を返す
+ */
+export function parseRecurrencePattern(value: unknown): RecurrencePattern | null {
+  if (typeof value === 'string') {
+    try {
+      const { rule, exdates } = parseRecurrenceText(value)
+      return buildRRulePattern(rule, exdates)
+    } catch {
+      return null
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+
+  const raw = value as Record<string, unknown>
+
+  let exdates: string[] = []
+  if (raw.exdates !== undefined) {
+    if (!Array.isArray(raw.exdates) || !raw.exdates.every(item => typeof item === 'string' && isRecurrenceDate(item))) {
+      return null
+    }
+    exdates = normalizeRecurrenceDates(raw.exdates as string[])
+  }
+
+  // RRULE がある場合はそちらを優先し、type / interval は RRULE から求める
+  if (raw.rrule !== undefined) {
+    if (typeof raw.rrule !== 'string') return null
+    try {
+      return buildRRulePattern(parseRRule(raw.rrule), exdates)
+    } catch {
+      return null
+    }
+  }
+
+  if (!RECURRENCE_TYPES.includes(raw.type as RecurrencePattern['type'])) return null
+
+  const interval = Number(raw.interval ?? 1)
+  if (!Number.isInteger(interval) || interval < 1) return null
+
+  const pattern: RecurrencePattern = {
+    type: raw.type as RecurrencePattern['type'],
+    interval,
+  }
+
+  if (Array.isArray(raw.days_of_week)) {
+    const days = raw.days_of_week.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)
+    if (days.length > 0) pattern.days_of_week = Array.from(new Set(days)).sort((a, b) => a - b)
+  }
+  if (Number.isInteger(raw.day_of_month) && (raw.day_of_month as number) >= 1 && (raw.day_of_month as number) <= 31) {
+    pattern.day_of_month = raw.day_of_month as number
+  }
+  if (typeof raw.end_date === 'string' && !Number.isNaN(new Date(raw.end_date).getTime())) {
+    pattern.end_date = raw.end_date
+  }
+  if (Number.isInteger(raw.occurrences) && (raw.occurrences as number) >= 1) {
+    pattern.occurrences = raw.occurrences as number
+  }
+  if (exdates.length > 0) pattern.exdates = exdates
+
+  return pattern
+}
+
+/**
+ * 繰り返しルールを RRULE に変換する
+ * 従来の形式（type / interval など）も同じ日付になるよう変換する
+ */
+export function patternToRRule(pattern: RecurrencePattern, anchor: ZonedDateTimeParts, timeZone: string): RRule {
+  if (pattern.rrule) return parseRRule(pattern.rrule)
+
+  const rule: RRule = {
+    freq: pattern.type.toUpperCase() as RRuleFrequency,
+    interval: Math.max(pattern.interval, 1),
+    weekStart: 1,
+  }
+
+  switch (pattern.type) {
+    case 'weekly':
+      // 従来の形式は日曜始まりの週で数える
+      rule.weekStart = 0
+      rule.byDay = (pattern.days_of_week?.length ? pattern.days_of_week : [anchor.weekday]).map(weekday => ({ weekday }))
+      break
+    case 'monthly':
+      Object.assign(rule, clampedMonthDay(pattern.day_of_month ?? anchor.day))
+      break
+    case 'yearly':
+      rule.byMonth = [anchor.month]
+      Object.assign(rule, clampedMonthDay(anchor.day))
+      break
+  }
+
+  if (pattern.occurrences !== undefined) {
+    rule.count = pattern.occurrences
+  } else if (pattern.end_date) {
+    rule.until = formatZonedDate(new Date(pattern.end_date), timeZone)
+  }
+  return rule
+}
+
+/**
+ * 繰り返しルールを RRULE / EXDATE の文字列にする
+ */
+export function formatRecurrencePattern(pattern: RecurrencePattern, anchor: Date, timeZone: string): string {
+  const rule = patternToRRule(pattern, getZonedParts(anchor, timeZone), timeZone)
+  return formatRecurrenceText(serializeRRule(rule), pattern.exdates)
+}
+
+/**
+ * アンカーから順に発生日時を返す
+ * RRULE の COUNT（初回を含む回数）・UNTIL で打ち切り、EXDATE の回は飛ばす
+ * 飛ばした回も index は消費する
+ */
+export function* iterateOccurrences(
+  pattern: RecurrencePattern,
+  anchor: Date,
+  timeZone: string
+): Generator<Occurrence> {
+  for (const occurrence of expandOccurrences(pattern, anchor, timeZone, true)) {
+    if (!occurrence.excluded) yield { date: occurrence.date, index: occurrence.index }
+  }
+}
+
+/**
+ * 指定日時より後の最初の発生日時
+ */
+export function getNextOccurrence(
+  pattern: RecurrencePattern,
+  anchor: Date,
+  timeZone: string,
+  after: Date
+): Occurrence | null {
+  for (const occurrence of iterateOccurrences(pattern, anchor, timeZone)) {
+    if (occurrence.date.getTime() > after.getTime()) return occurrence
+  }
+  return null
+}
+
+/**
+ * 期間内（from 以上 to 未満）の発生日時
+ */
+export function getOccurrencesBetween(
+  pattern: RecurrencePattern,
+  anchor: Date,
+  timeZone: string,
+  from: Date,
+  to: Date,
+  limit = 100
+): Occurrence[] {
+  const occurrences: Occurrence[] = []
+  for (const occurrence of iterateOccurrences(pattern, anchor, timeZone)) {
+    if (occurrence.date.getTime() >= to.getTime() || occurrences.length >= limit) break
+    if (occurrence.date.getTime() >= from.getTime()) occurrences.push(occurrence)
+  }
+  return occurrences
+}
+
+/**
+ * 指定日時より前に発生する回数（= その日時の回の index）
+ */
+export function countOccurrencesBefore(
+  pattern: RecurrencePattern,
+  anchor: Date,
+  timeZone: string,
+  date: Date
+): number {
+  let count = 0
+  for (const occurrence of expandOccurrences(pattern, anchor, timeZone, false)) {
+    if (occurrence.date.getTime() >= date.getTime()) break
+    count++
+  }
+  return count
+}
+
+function* expandOccurrences(
+  pattern: RecurrencePattern,
+  anchor: Date,
+  timeZone: string,
+  applyCount: boolean
+): Generator<Occurrence & { excluded: boolean }> {
+  const parts = getZonedParts(anchor, timeZone)
+  const rule = patternToRRule(pattern, parts, timeZone)
+  const exdates = pattern.exdates ?? []
+
+  let index = 0
+  let iterations = 0
+  for (const day of expandRRule(rule, parts)) {
+    if (++iterations > MAX_ITERATIONS) return
+    if (applyCount && rule.count !== undefined && index >= rule.count) return
+
+    const local = { ...day, hour: parts.hour, minute: parts.minute, second: parts.second }
+    const date = zonedTimeToUtc(local, timeZone)
+    if (rule.until && compareRecurrenceDate(date, local, rule.until) > 0) return
+
+    yield {
+      date,
+      index,
+      excluded: exdates.some(exdate => compareRecurrenceDate(date, local, exdate) === 0),
+    }
+    index++
+  }
+}
+
+function buildRRulePattern(rule: RRule, exdates: string[]): RecurrencePattern {
+  const pattern: RecurrencePattern = {
+    type: rule.freq.toLowerCase() as RecurrencePattern['type'],
+    interval: rule.interval,
+    rrule: serializeRRule(rule),
+  }
+  if (exdates.length > 0) pattern.exdates = exdates
+  return pattern
+}
+
+/**
+ * 月末を超える日付（31日など）はその月の末日に丸める
+ * RRULE ではその月が飛ばされるため、候補の日のうち最後の日を選ぶ形にする
+ */
+function clampedMonthDay(day: number): Pick<RRule, 'byMonthDay' | 'bySetPos'> {
+  if (day <= 28) return { byMonthDay: [day] }
+  return {
+    byMonthDay: Array.from({ length: day - 27 }, (_, i) => 28 + i),
+    bySetPos: [-1],
+  }
+}
@@ -0,0 +1,460 @@
+/**
+ * RFC 5545 の RRULE / EXDATE の解析・書き出しと展開
+ * 対象は日単位の繰り返し（FREQ=DAILY〜YEARLY）で、時刻は常に初回（アンカー）に揃える
+ * そのため BYHOUR などの時刻単位の指定や FREQ=HOURLY などには対応しない
+ */
+
+import { isValidTimeZone, ZonedDateTimeParts, zonedTimeToUtc } from '@/lib/timezone'
+import { ValidationError } from '@/lib/errors'
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface RRuleWeekday {
+  weekday: number // 0=Sunday
+  // 月内（FREQ=YEARLY で BYMONTH がない場合は年内）の何番目か。負数は末尾から
+  ordinal?: number
+}
+
+export interface RRule {
+  freq: RRuleFrequency
+  interval: number
+  count?: number
+  // 繰り返しの日時の形式（isRecurrenceDate を参照）
+  until?: string
+  byDay?: RRuleWeekday[]
+  byMonthDay?: number[]
+  byMonth?: number[]
+  bySetPos?: number[]
+  weekStart: number // 0=Sunday
+}
+
+export interface CalendarDate {
+  year: number
+  month: number // 1-12
+  day: number
+}
+
+type LocalDateTime = CalendarDate & Pick<ZonedDateTimeParts, 'hour' | 'minute' | 'second'>
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'WKST']
+// 一致する日がないルールでも展開を打ち切るための期間数の上限
+const MAX_PERIODS = 10000
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const FLOATING_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/
+const ICAL_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+
+/**
+ * RRULE の値（"FREQ=MONTHLY;BYDAY=2TU" など）を解析する
+ * 先頭の "RRULE:" は省略できる。不正な値や未対応の指定はエラーにする
+ */
+export function parseRRule(value: string): RRule {
+  const source = value.trim().replace(/^RRULE:/i, '')
+  if (!source) {
+    throw new ValidationError('RRULE は必須です', 'INVALID_RECURRENCE')
+  }
+
+  const parts = new Map<string, string>()
+  for (const segment of source.split(';')) {
+    if (!segment) continue
+    const separator = segment.indexOf('=')
+    if (separator <= 0) {
+      throw new ValidationError(`RRULE の形式が正しくありません（${segment}）`, 'INVALID_RECURRENCE')
+    }
+    const name = segment.slice(0, separator).toUpperCase()
+    if (!SUPPORTED_PARTS.includes(name)) {
+      throw new ValidationError(`RRULE の ${name} には対応していません`, 'INVALID_RECURRENCE')
+    }
+    if (parts.has(name)) {
+      throw new ValidationError(`RRULE の ${name} が重複しています`, 'INVALID_RECURRENCE')
+    }
+    parts.set(name, segment.slice(separator + 1).toUpperCase())
+  }
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new ValidationError('RRULE の FREQ には DAILY / WEEKLY / MONTHLY / YEARLY のいずれかを指定してください', 'INVALID_RECURRENCE')
+  }
+
+  const rule: RRule = {
+    freq,
+    interval: parts.has('INTERVAL') ? parseIntegerList('INTERVAL', parts.get('INTERVAL')!, 1, 1000, false)[0]! : 1,
+    weekStart: 1,
+  }
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new ValidationError('RRULE の COUNT と UNTIL は同時に指定できません', 'INVALID_RECURRENCE')
+  }
+  if (parts.has('COUNT')) {
+    rule.count = parseIntegerList('COUNT', parts.get('COUNT')!, 1, 1000, false)[0]
+  }
+  if (parts.has('UNTIL')) {
+    rule.until = parseICalDate(parts.get('UNTIL')!)
+  }
+  if (parts.has('BYMONTH')) {
+    rule.byMonth = parseIntegerList('BYMONTH', parts.get('BYMONTH')!, 1, 12, false)
+  }
+  if (parts.has('BYMONTHDAY')) {
+    if (freq === 'WEEKLY') {
+      throw new ValidationError('RRULE の BYMONTHDAY は FREQ=WEEKLY では指定できません', 'INVALID_RECURRENCE')
+    }
+    rule.byMonthDay = parseIntegerList('BYMONTHDAY', parts.get('BYMONTHDAY')!, 1, 31, true)
+  }
+  if (parts.has('BYDAY')) {
+    rule.byDay = parseWeekdays(parts.get('BYDAY')!, freq, Boolean(rule.byMonth))
+  }
+  if (parts.has('BYSETPOS')) {
+    if (!rule.byDay && !rule.byMonthDay && !rule.byMonth) {
+      throw new ValidationError('RRULE の BYSETPOS は BYDAY などと組み合わせて指定してください', 'INVALID_RECURRENCE')
+    }
+    rule.bySetPos = parseIntegerList('BYSETPOS', parts.get('BYSETPOS')!, 1, 366, true)
+  }
+  if (parts.has('WKST')) {
+    const weekStart = WEEKDAY_CODES.indexOf(parts.get('WKST')!)
+    if (weekStart < 0) {
+      throw new ValidationError('RRULE の WKST の値が正しくありません', 'INVALID_RECURRENCE')
+    }
+    rule.weekStart = weekStart
+  }
+
+  return rule
+}
+
+/**
+ * RRULE を文字列に戻す（"RRULE:" は付けない）
+ * 既定値（INTERVAL=1、WKST=MO）は省略する
+ */
+export function serializeRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${formatICalDate(rule.until)}`)
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`)
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`)
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`)
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`)
+  return parts.join(';')
+}
+
+/**
+ * RRULE / EXDATE の行からなる文字列を解析する
+ * DTSTART は初回の日時をタスクから決めるため読み飛ばす
+ */
+export function parseRecurrenceText(text: string): { rule: RRule; exdates: string[] } {
+  let rule: RRule | null = null
+  const exdates: string[] = []
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const separator = line.indexOf(':')
+    const head = separator >= 0 ? line.slice(0, separator) : ''
+    const [rawName = '', ...params] = head.split(';')
+    const name = rawName.toUpperCase()
+
+    if (name === 'DTSTART') continue
+
+    if (name === 'EXDATE') {
+      exdates.push(...parseExdateLine(params, line.slice(separator + 1)))
+      continue
+    }
+
+    if (name === 'RRULE' || (separator < 0 && /FREQ=/i.test(line))) {
+      if (rule) {
+        throw new ValidationError('RRULE は1つだけ指定してください', 'INVALID_RECURRENCE')
+      }
+      rule = parseRRule(line)
+      continue
+    }
+
+    throw new ValidationError(`繰り返しルールの形式が正しくありません（${line}）`, 'INVALID_RECURRENCE')
+  }
+
+  if (!rule) {
+    throw new ValidationError('RRULE は必須です', 'INVALID_RECURRENCE')
+  }
+  return { rule, exdates: normalizeRecurrenceDates(exdates) }
+}
+
+/**
+ * RRULE と除外日を RRULE / EXDATE の行からなる文字列にする
+ */
+export function formatRecurrenceText(rrule: string, exdates: string[] = []): string {
+  const lines = [`RRULE:${rrule.replace(/^RRULE:/i, '')}`]
+
+  const dates = exdates.filter(value => DATE_PATTERN.test(value))
+  const dateTimes = exdates.filter(value => !DATE_PATTERN.test(value))
+  if (dates.length > 0) {
+    lines.push(`EXDATE;VALUE=DATE:${dates.map(formatICalDate).join(',')}`)
+  }
+  if (dateTimes.length > 0) {
+    lines.push(`EXDATE:${dateTimes.map(formatICalDate).join(',')}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * 繰り返しの日時として有効な形式か
+ * YYYY-MM-DD（終日）、YYYY-MM-DDTHH:mm:ss（ユーザーのタイムゾーンの壁時計時刻）、
+ * タイムゾーン付きの ISO 8601（特定の時点）のいずれか
+ */
+export function isRecurrenceDate(value: string): boolean {
+  if (DATE_PATTERN.test(value) || FLOATING_PATTERN.test(value)) {
+    return !Number.isNaN(new Date(`${value.slice(0, 10)}T00:00:00Z`).getTime())
+  }
+  return /(Z|[+-]\d{2}:?\d{2})$/.test(value) && !Number.isNaN(new Date(value).getTime())
+}
+
+/**
+ * 除外日を重複なく並べ、時点の指定は UTC の ISO 8601 に揃える
+ */
+export function normalizeRecurrenceDates(values: string[]): string[] {
+  const normalized = values.map(value =>
+    DATE_PATTERN.test(value) || FLOATING_PATTERN.test(value) ? value : new Date(value).toISOString()
+  )
+  return Array.from(new Set(normalized)).sort()
+}
+
+/**
+ * 回の日時と繰り返しの日時（UNTIL / EXDATE）を比較する
+ * 終日・壁時計時刻の指定は回の壁時計時刻と、時点の指定は回の時点と比べる
+ */
+export function compareRecurrenceDate(date: Date, local: LocalDateTime, value: string): number {
+  if (DATE_PATTERN.test(value)) {
+    return compareStrings(toDateKey(local), value)
+  }
+  if (FLOATING_PATTERN.test(value)) {
+    return compareStrings(toDateTimeKey(local), value)
+  }
+  return Math.sign(date.getTime() - new Date(value).getTime())
+}
+
+/**
+ * ルールに一致する日付を初回（アンカー）以降について順に返す
+ * COUNT / UNTIL による打ち切りは呼び出し側で行う
+ */
+export function* expandRRule(rule: RRule, anchor: ZonedDateTimeParts): Generator<CalendarDate> {
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const dates = getPeriodDates(rule, anchor, period)
+    dates.sort(compareDates)
+
+    const unique = dates.filter((date, i) => i === 0 || compareDates(date, dates[i - 1]!) !== 0)
+    for (const date of applySetPos(unique, rule.bySetPos)) {
+      if (compareDates(date, anchor) >= 0) yield date
+    }
+  }
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day
+}
+
+export function toDateKey(date: CalendarDate): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`
+}
+
+function getPeriodDates(rule: RRule, anchor: ZonedDateTimeParts, period: number): CalendarDate[] {
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = addDays(anchor, period * rule.interval)
+      return matchesDailyFilters(rule, date) ? [date] : []
+    }
+    case 'WEEKLY': {
+      const offset = (anchor.weekday - rule.weekStart + 7) % 7
+      const weekStart = addDays(anchor, period * rule.interval * 7 - offset)
+      const weekdays = rule.byDay?.map(day => day.weekday) ?? [anchor.weekday]
+      return range(7)
+        .map(i => addDays(weekStart, i))
+        .filter(date => weekdays.includes(getWeekday(date)) && (!rule.byMonth || rule.byMonth.includes(date.month)))
+    }
+    case 'MONTHLY': {
+      const monthIndex = anchor.month - 1 + period * rule.interval
+      const year = anchor.year + Math.floor(monthIndex / 12)
+      const month = (monthIndex % 12) + 1
+      if (rule.byMonth && !rule.byMonth.includes(month)) return []
+      return getMonthDates(rule, year, month, anchor.day)
+    }
+    case 'YEARLY':
+      return getYearDates(rule, anchor.year + period * rule.interval, anchor)
+  }
+}
+
+function matchesDailyFilters(rule: RRule, date: CalendarDate): boolean {
+  if (rule.byMonth && !rule.byMonth.includes(date.month)) return false
+  if (rule.byMonthDay && !resolveMonthDays(rule.byMonthDay, daysInMonth(date.year, date.month)).includes(date.day)) {
+    return false
+  }
+  if (rule.byDay && !rule.byDay.some(day => day.weekday === getWeekday(date))) return false
+  return true
+}
+
+/**
+ * 月内で一致する日
+ * BYMONTHDAY / BYDAY がなければ初回と同じ日（その月にない日付は飛ばす）
+ */
+function getMonthDates(rule: RRule, year: number, month: number, defaultDay: number): CalendarDate[] {
+  const length = daysInMonth(year, month)
+  let days: number[] | null = rule.byMonthDay ? resolveMonthDays(rule.byMonthDay, length) : null
+
+  if (rule.byDay) {
+    const weekdayDays = expandWeekdays(rule.byDay, { year, month, day: 1 }, length).map(date => date.day)
+    days = days ? days.filter(day => weekdayDays.includes(day)) : weekdayDays
+  }
+
+  return (days ?? (defaultDay <= length ? [defaultDay] : [])).map(day => ({ year, month, day }))
+}
+
+function getYearDates(rule: RRule, year: number, anchor: ZonedDateTimeParts): CalendarDate[] {
+  // BYMONTH なしの BYDAY は年内での何番目かを表す
+  if (rule.byDay && !rule.byMonth) {
+    const length = daysInMonth(year, 2) === 29 ? 366 : 365
+    const dates = expandWeekdays(rule.byDay, { year, month: 1, day: 1 }, length)
+    const byMonthDay = rule.byMonthDay
+    return byMonthDay
+      ? dates.filter(date => resolveMonthDays(byMonthDay, daysInMonth(date.year, date.month)).includes(date.day))
+      : dates
+  }
+
+  const months = rule.byMonth ?? (rule.byMonthDay ? range(12).map(i => i + 1) : [anchor.month])
+  return months.flatMap(month => getMonthDates(rule, year, month, anchor.day))
+}
+
+/**
+ * start から length 日の範囲で BYDAY に一致する日
+ */
+function expandWeekdays(byDay: RRuleWeekday[], start: CalendarDate, length: number): CalendarDate[] {
+  const days = range(length).map(i => addDays(start, i))
+  return byDay.flatMap(({ weekday, ordinal }) => {
+    const matches = days.filter(date => getWeekday(date) === weekday)
+    if (ordinal === undefined) return matches
+    const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]
+    return match ? [match] : []
+  })
+}
+
+function resolveMonthDays(byMonthDay: number[], length: number): number[] {
+  return byMonthDay
+    .map(day => (day > 0 ? day : length + day + 1))
+    .filter(day => day >= 1 && day <= length)
+}
+
+function applySetPos(dates: CalendarDate[], bySetPos: number[] | undefined): CalendarDate[] {
+  if (!bySetPos) return dates
+  return bySetPos
+    .map(position => (position > 0 ? dates[position - 1] : dates[dates.length + position]))
+    .filter((date): date is CalendarDate => date !== undefined)
+    .sort(compareDates)
+}
+
+function parseIntegerList(name: string, value: string, min: number, max: number, allowNegative: boolean): number[] {
+  const values = value.split(',').map(item => {
+    if (!/^[+-]?\d+$/.test(item)) return NaN
+    return Number(item)
+  })
+  const valid = values.every(item => {
+    const abs = Math.abs(item)
+    return Number.isInteger(item) && (allowNegative || item > 0) && abs >= min && abs <= max
+  })
+  if (!valid || values.length === 0) {
+    throw new ValidationError(`RRULE の ${name} の値が正しくありません`, 'INVALID_RECURRENCE')
+  }
+  return values
+}
+
+function parseWeekdays(value: string, freq: RRuleFrequency, hasByMonth: boolean): RRuleWeekday[] {
+  // 何番目かの指定は FREQ=MONTHLY では月内、FREQ=YEARLY では年内（BYMONTH があれば月内）
+  const maxOrdinal = freq === 'MONTHLY' || (freq === 'YEARLY' && hasByMonth) ? 5 : freq === 'YEARLY' ? 53 : 0
+
+  return value.split(',').map(item => {
+    const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/)
+    if (!match) {
+      throw new ValidationError(`RRULE の BYDAY の値が正しくありません（${item}）`, 'INVALID_RECURRENCE')
+    }
+
+    const weekday = WEEKDAY_CODES.indexOf(match[2]!)
+    if (match[1] === undefined) return { weekday }
+
+    const ordinal = Number(match[1])
+    if (ordinal === 0 || Math.abs(ordinal) > maxOrdinal) {
+      throw new ValidationError(`RRULE の BYDAY の値が正しくありません（${item}）`, 'INVALID_RECURRENCE')
+    }
+    return { weekday, ordinal }
+  })
+}
+
+function parseExdateLine(params: string[], value: string): string[] {
+  const timeZone = params.find(param => param.toUpperCase().startsWith('TZID='))?.slice(5)
+
+  return value.split(',').filter(Boolean).map(item => parseICalDate(item.trim().toUpperCase(), timeZone))
+}
+
+/**
+ * iCalendar の日付・日時（20260310 / 20260310T090000 / 20260310T000000Z）を繰り返しの日時の形式にする
+ */
+function parseICalDate(value: string, timeZone?: string): string {
+  const match = value.match(ICAL_DATE_PATTERN)
+  if (!match) {
+    throw new ValidationError(`日時の形式が正しくありません（${value}）`, 'INVALID_RECURRENCE')
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const date = `${year}-${month}-${day}`
+  if (hour === undefined) return date
+
+  const local = `${date}T${hour}:${minute}:${second}`
+  if (utc) return new Date(`${local}Z`).toISOString()
+  if (!timeZone) return local
+
+  if (!isValidTimeZone(timeZone)) {
+    throw new ValidationError(`タイムゾーンが正しくありません（${timeZone}）`, 'INVALID_RECURRENCE')
+  }
+  return zonedTimeToUtc(
+    { year: Number(year), month: Number(month), day: Number(day), hour: Number(hour), minute: Number(minute), second: Number(second) },
+    timeZone
+  ).toISOString()
+}
+
+function formatICalDate(value: string): string {
+  if (DATE_PATTERN.test(value)) return value.replace(/-/g, '')
+  if (FLOATING_PATTERN.test(value)) return value.replace(/[-:]/g, '')
+  return `${new Date(value).toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const result = new Date(Date.UTC(date.year, date.month - 1, date.day + days))
+  return {
+    year: result.getUTCFullYear(),
+    month: result.getUTCMonth() + 1,
+    day: result.getUTCDate(),
+  }
+}
+
+function getWeekday(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function range(length: number): number[] {
+  return Array.from({ length }, (_, i) => i)
+}
+
+function toDateTimeKey(date: LocalDateTime): string {
+  return `${toDateKey(date)}T${pad(date.hour)}:${pad(date.minute)}:${pad(date.second)}`
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
@@ -0,0 +1,161 @@
+/**
+ * 繰り返しシリーズの各回（タスク行）に関する計算
+ */
+
+import { ValidationError } from '@/lib/errors'
+import { RecurrencePattern, Task, TaskInsert } from '@/types/tasks'
+import { countOccurrencesBefore, parseRecurrencePattern } from './occurrences'
+import { parseRRule, serializeRRule } from './rrule'
+
+type SeriesSource = Pick<TaskInsert, 'is_recurring' | 'recurrence_pattern' | 'start_date' | 'due_date'>
+
+/**
+ * 回の基準日時（開始日時、なければ期限）
+ */
+export function getInstanceBaseDate(task: Pick<Task, 'start_date' | 'due_date'>): string | null {
+  return task.start_date ?? task.due_date ?? null
+}
+
+/**
+ * 新しく作成する繰り返しタスクをシリーズの初回として初期化する
+ */
+export function initializeSeries<T extends SeriesSource>(task: T): T {
+  if (!task.is_recurring || !task.recurrence_pattern) return task
+
+  if (!parseRecurrencePattern(task.recurrence_pattern)) {
+    throw new ValidationError('繰り返し設定の読み込みに失敗しました', 'INVALID_RECURRENCE')
+  }
+
+  const base = task.start_date ?? task.due_date
+  if (!base) {
+    throw new ValidationError('繰り返しタスクには開始日時または期限が必須です', 'INVALID_RECURRENCE')
+  }
+
+  const baseDate = new Date(base).toISOString()
+  return {
+    ...task,
+    recurrence_series_id: crypto.randomUUID(),
+    recurrence_anchor: baseDate,
+    recurrence_instance_date: baseDate,
+  }
+}
+
+/**
+ * 別の回の開始日時・期限
+ * 開始〜期限の長さはもとの回と同じにする
+ */
+export function getInstanceSchedule(
+  task: Pick<Task, 'start_date' | 'due_date'>,
+  instanceDate: Date
+): Pick<Task, 'start_date' | 'due_date'> {
+  if (task.start_date) {
+    const duration = task.due_date
+      ? new Date(task.due_date).getTime() - new Date(task.start_date).getTime()
+      : null
+    return {
+      start_date: instanceDate.toISOString(),
+      due_date: duration !== null ? new Date(instanceDate.getTime() + duration).toISOString() : null,
+    }
+  }
+
+  return {
+    start_date: null,
+    due_date: instanceDate.toISOString(),
+  }
+}
+
+/**
+ * 次の回として作成するタスク
+ * 状態や実績は引き継がない
+ */
+export function buildNextInstance(task: Task, instanceDate: Date): TaskInsert {
+  return {
+    user_id: task.user_id,
+    category_id: task.category_id,
+    parent_task_id: task.parent_task_id,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    status: 'pending',
+    estimated_minutes: task.estimated_minutes,
+    tags: task.tags,
+    notes: task.notes,
+    is_recurring: true,
+    recurrence_pattern: task.recurrence_pattern,
+    recurrence_series_id: task.recurrence_series_id,
+    recurrence_anchor: task.recurrence_anchor,
+    recurrence_instance_date: instanceDate.toISOString(),
+    ...getInstanceSchedule(task, instanceDate),
+  }
+}
+
+/**
+ * シリーズを指定日時の前日で終了させた繰り返しルール
+ */
+export function endPatternBefore(pattern: Task['recurrence_pattern'], instanceDate: string): Task['recurrence_pattern'] {
+  const parsed = parseRecurrencePattern(pattern)
+  if (!parsed) return pattern
+
+  // 発生は1日1回までなので、前日を終了日にすればその回以降は発生しない
+  const endDate = new Date(new Date(instanceDate).getTime() - 24 * 60 * 60 * 1000)
+  if (parsed.rrule) {
+    const rule = parseRRule(parsed.rrule)
+    return { ...parsed, rrule: serializeRRule({ ...rule, count: undefined, until: endDate.toISOString() }) }
+  }
+  return { ...parsed, end_date: endDate.toISOString() }
+}
+
+/**
+ * 回数指定のあるルールから、既に発生した回数を差し引く
+ */
+export function skipPatternOccurrences(pattern: RecurrencePattern, skipped: number): RecurrencePattern {
+  if (pattern.rrule) {
+    const rule = parseRRule(pattern.rrule)
+    if (rule.count === undefined) return pattern
+    return { ...pattern, rrule: serializeRRule({ ...rule, count: Math.max(rule.count - skipped, 1) }) }
+  }
+  if (!pattern.occurrences) return pattern
+  return { ...pattern, occurrences: Math.max(pattern.occurrences - skipped, 1) }
+}
+
+type SeriesMember = Pick<Task, 'id' | 'is_recurring' | 'recurrence_series_id' | 'recurrence_instance_date' | 'start_date' | 'due_date'>
+
+/**
+ * シリーズごとの最新の回（以降の回を生成する回）のID
+ */
+export function findLatestInstanceIds(tasks: SeriesMember[]): Set<string> {
+  const latest = new Map<string, SeriesMember>()
+  for (const task of tasks) {
+    if (!task.is_recurring || !task.recurrence_series_id) continue
+    const current = latest.get(task.recurrence_series_id)
+    if (!current || getInstanceKey(task) > getInstanceKey(current)) {
+      latest.set(task.recurrence_series_id, task)
+    }
+  }
+  return new Set(Array.from(latest.values()).map(task => task.id))
+}
+
+function getInstanceKey(task: SeriesMember): string {
+  const value = task.recurrence_instance_date ?? getInstanceBaseDate(task)
+  return value ? new Date(value).toISOString() : ''
+}
+
+/**
+ * 指定した回を初回とする繰り返しルール（シリーズを別の場所に作り直すときに使う）
+ * 回数指定がある場合は残りの回数に減らす
+ */
+export function rebasePattern(
+  task: Pick<Task, 'recurrence_pattern' | 'recurrence_anchor' | 'recurrence_instance_date'>,
+  timeZone: string
+): RecurrencePattern | null {
+  const pattern = parseRecurrencePattern(task.recurrence_pattern)
+  if (!pattern || !task.recurrence_anchor || !task.recurrence_instance_date) return pattern
+
+  const index = countOccurrencesBefore(
+    pattern,
+    new Date(task.recurrence_anchor),
+    timeZone,
+    new Date(task.recurrence_instance_date)
+  )
+  return skipPatternOccurrences(pattern, index)
+}
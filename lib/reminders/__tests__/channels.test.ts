@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals'
+import { DEFAULT_REMINDER_POLICY } from '@/types/reminders'
+import { EmailReminderChannel, WebPushReminderChannel } from '../channels'
+import { InMemoryEmailTransport, InMemoryPushService } from '../memory-channels'
+import { PushSubscriptionTarget, ReminderDelivery } from '../types'
+
+const delivery: ReminderDelivery = {
+  notification: {
+    id: 'notification-1',
+    user_id: 'user-1',
+    task_id: 'task-1',
+    reminder_key: 'default:due:1440',
+    anchor: 'due',
+    offset_minutes: 1440,
+    fire_at: '2026-10-19T00:00:00.000Z',
+    title: '請求書を送る',
+    body: '1日後が期限です（10月20日 9:00）',
+    deliveries: {},
+    read_at: null,
+    created_at: '2026-10-19T00:00:00.000Z',
+  },
+  recipient: {
+    user_id: 'user-1',
+    email: 'user@example.com',
+    time_zone: 'Asia/Tokyo',
+    policy: DEFAULT_REMINDER_POLICY,
+  },
+}
+
+function subscription(endpoint: string): PushSubscriptionTarget {
+  return { endpoint, p256dh: 'key', auth: 'secret' }
+}
+
+describe('WebPushReminderChannel', () => {
+  it('sends to every subscription of the user', async () => {
+    const push = new InMemoryPushService(new Map([['user-1', [subscription('a'), subscription('b')]]]))
+
+    await new WebPushReminderChannel(push, push).deliver(delivery)
+
+    expect(push.sent.map(target => target.endpoint)).toEqual(['a', 'b'])
+  })
+
+  it('removes expired subscriptions and keeps sending to the others', async () => {
+    const push = new InMemoryPushService(new Map([['user-1', [subscription('a'), subscription('b')]]]), new Set(['a']))
+
+    await new WebPushReminderChannel(push, push).deliver(delivery)
+
+    expect(push.sent.map(target => target.endpoint)).toEqual(['b'])
+    expect((await push.listSubscriptions('user-1')).map(target => target.endpoint)).toEqual(['b'])
+  })
+
+  it('fails when no subscription received the push', async () => {
+    const push = new InMemoryPushService(new Map([['user-1', [subscription('a')]]]), new Set(['a']))
+
+    await expect(new WebPushReminderChannel(push, push).deliver(delivery)).rejects.toThrow()
+  })
+
+  it('fails when the user has no subscriptions', async () => {
+    const push = new InMemoryPushService(new Map())
+
+    await expect(new WebPushReminderChannel(push, push).deliver(delivery)).rejects.toThrow('No push subscriptions')
+  })
+})
+
+describe('EmailReminderChannel', () => {
+  it('sends the reminder to the recipient address', async () => {
+    const transport = new InMemoryEmailTransport()
+
+    await new EmailReminderChannel(transport).deliver(delivery)
+
+    expect(transport.messages).toEqual([{
+      to: 'user@example.com',
+      subject: '【リマインダー】請求書を送る',
+      text: '請求書を送る\n1日後が期限です（10月20日 9:00）\n\n（期限の1日前の通知です）',
+    }])
+  })
+})
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { DEFAULT_REMINDER_POLICY, ReminderChannelName, TaskReminder } from '@/types/reminders'
+import { ReminderScheduler } from '../scheduler'
+import { InMemoryReminderChannel, InMemoryReminderStore } from '../memory-channels'
+import { ReminderChannel, ReminderDelivery, ReminderRecipient, ReminderTask } from '../types'
+
+const NOW = new Date('2026-10-19T00:00:00.000Z')
+
+function buildTask(overrides: Partial<ReminderTask> = {}): ReminderTask {
+  return {
+    id: 'task-1',
+    user_id: 'user-1',
+    title: '定例ミーティング',
+    status: 'pending',
+    // 既定の設定（開始の10分前）の通知の時刻がちょうど現在になる
+    start_date: '2026-10-19T00:10:00.000Z',
+    due_date: null,
+    ...overrides,
+  }
+}
+
+function buildRecipient(channels: ReminderChannelName[] = ['in_app']): ReminderRecipient {
+  return {
+    user_id: 'user-1',
+    email: 'user@example.com',
+    time_zone: 'Asia/Tokyo',
+    policy: { ...DEFAULT_REMINDER_POLICY, channels },
+  }
+}
+
+function buildReminder(overrides: Partial<TaskReminder> = {}): TaskReminder {
+  return {
+    id: 'reminder-1',
+    task_id: 'task-1',
+    user_id: 'user-1',
+    anchor: 'start',
+    offset_minutes: 0,
+    created_at: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('ReminderScheduler', () => {
+  let inApp: InMemoryReminderChannel
+
+  beforeEach(() => {
+    inApp = new InMemoryReminderChannel('in_app')
+  })
+
+  const createScheduler = (store: InMemoryReminderStore, channels: ReminderChannel[] = [inApp]) =>
+    new ReminderScheduler({ store, channels, now: () => NOW })
+
+  it('records and sends reminders whose time has come', async () => {
+    const store = new InMemoryReminderStore({ tasks: [buildTask()], recipients: [buildRecipient()] })
+
+    const result = await createScheduler(store).run()
+
+    expect(result).toEqual({ due: 1, sent: 1, failed: 0 })
+    expect(store.notifications).toHaveLength(1)
+    expect(store.notifications[0]).toMatchObject({
+      task_id: 'task-1',
+      reminder_key: 'default:start:10',
+      fire_at: NOW.toISOString(),
+      title: '定例ミーティング',
+      body: '10分後に開始します（10月19日 9:10）',
+      deliveries: { in_app: 'sent' },
+    })
+    expect(inApp.deliveries).toHaveLength(1)
+  })
+
+  it('does not send the same reminder twice', async () => {
+    const store = new InMemoryReminderStore({ tasks: [buildTask()], recipients: [buildRecipient()] })
+    const scheduler = createScheduler(store)
+
+    await scheduler.run()
+    const second = await scheduler.run()
+
+    expect(second).toEqual({ due: 1, sent: 0, failed: 0 })
+    expect(inApp.deliveries).toHaveLength(1)
+  })
+
+  it('uses the task reminders instead of the default policy', async () => {
+    const store = new InMemoryReminderStore({
+      tasks: [buildTask({ start_date: NOW.toISOString() })],
+      reminders: [buildReminder()],
+      recipients: [buildRecipient()],
+    })
+
+    await createScheduler(store).run()
+
+    expect(store.notifications.map(notification => notification.reminder_key)).toEqual(['reminder-1'])
+  })
+
+  it('skips completed tasks and reminders past the lookback window', async () => {
+    const store = new InMemoryReminderStore({
+      tasks: [
+        buildTask({ id: 'task-1', status: 'completed' }),
+        buildTask({ id: 'task-2', start_date: '2026-10-18T23:00:00.000Z' }),
+      ],
+      recipients: [buildRecipient()],
+    })
+
+    const result = await createScheduler(store).run()
+
+    expect(result.due).toBe(0)
+    expect(store.notifications).toEqual([])
+  })
+
+  it('skips channels that are not configured on the server', async () => {
+    const store = new InMemoryReminderStore({ tasks: [buildTask()], recipients: [buildRecipient(['in_app', 'email'])] })
+
+    const result = await createScheduler(store).run()
+
+    expect(result).toEqual({ due: 1, sent: 1, failed: 0 })
+    expect(store.notifications[0]!.deliveries).toEqual({ in_app: 'sent', email: 'skipped' })
+  })
+
+  it('counts a reminder as failed when a channel fails', async () => {
+    const email = new InMemoryReminderChannel('email', { fail: true })
+    const store = new InMemoryReminderStore({ tasks: [buildTask()], recipients: [buildRecipient(['in_app', 'email'])] })
+
+    const result = await createScheduler(store, [inApp, email]).run()
+
+    expect(result).toEqual({ due: 1, sent: 0, failed: 1 })
+    expect(store.notifications[0]!.deliveries).toEqual({ in_app: 'sent', email: 'failed' })
+  })
+
+  it('marks deliveries as pending while the channels are sending', async () => {
+    const store = new InMemoryReminderStore({ tasks: [buildTask()], recipients: [buildRecipient(['web_push'])] })
+    // Service Worker が通知を取得するときの状態を記録する
+    const seen: unknown[] = []
+    const webPush: ReminderChannel = {
+      name: 'web_push',
+      async deliver({ notification }: ReminderDelivery) {
+        seen.push(store.notifications.find(item => item.id === notification.id)?.deliveries)
+      },
+    }
+
+    await createScheduler(store, [webPush]).run()
+
+    expect(seen).toEqual([{ web_push: 'pending' }])
+    expect(store.notifications[0]!.deliveries).toEqual({ web_push: 'sent' })
+  })
+
+  it('does not notify users without a recipient profile', async () => {
+    const store = new InMemoryReminderStore({ tasks: [buildTask({ user_id: 'user-2' })], recipients: [buildRecipient()] })
+
+    const result = await createScheduler(store).run()
+
+    expect(result.due).toBe(0)
+    expect(store.notifications).toEqual([])
+  })
+})
@@ -0,0 +1,38 @@
+/**
+ * このブラウザでの通知（Web Push）の購読
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js'
+
+export function isWebPushSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+/**
+ * このブラウザの購読をサーバーから削除して解除する
+ * ログアウト後に同じブラウザで前のユーザーの通知を受け取らないようにする
+ */
+export async function removeBrowserPushSubscription(): Promise<void> {
+  if (!isWebPushSupported()) return
+
+  const subscription = await getPushSubscription()
+  if (!subscription) return
+
+  try {
+    const endpoint = encodeURIComponent(subscription.endpoint)
+    await fetch(`/api/reminders/push-subscriptions?endpoint=${endpoint}`, {
+      method: 'DELETE',
+    })
+  } finally {
+    // サーバーから削除できなくても、解除した購読は送信時に無効になり削除される
+    await subscription.unsubscribe()
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * リマインダーの通知方法
+ */
+
+import { logger } from '@/lib/logger'
+import { formatReminderTiming } from './schedule'
+import {
+  EmailMessage,
+  EmailTransport,
+  PushSender,
+  PushSubscriptionExpiredError,
+  PushSubscriptionStore,
+  ReminderChannel,
+  ReminderDelivery,
+} from './types'
+
+/**
+ * アプリ内の通知
+ * 記録した通知（reminder_notifications）がそのまま受信箱になり、画面が未読の通知をトーストで表示する
+ */
+export class InAppReminderChannel implements ReminderChannel {
+  readonly name = 'in_app' as const
+
+  async deliver(): Promise<void> {
+    // 送信する処理はない
+  }
+}
+
+/**
+ * ブラウザの通知（Web Push）
+ * ユーザーの購読しているすべてのブラウザに送り、失効した購読は削除する
+ */
+export class WebPushReminderChannel implements ReminderChannel {
+  readonly name = 'web_push' as const
+
+  constructor(
+    private readonly sender: PushSender,
+    private readonly subscriptions: PushSubscriptionStore
+  ) {}
+
+  async deliver({ recipient }: ReminderDelivery): Promise<void> {
+    const targets = await this.subscriptions.listSubscriptions(recipient.user_id)
+    if (targets.length === 0) {
+      throw new Error('No push subscriptions')
+    }
+
+    let delivered = 0
+    for (const target of targets) {
+      try {
+        await this.sender.send(target)
+        delivered++
+      } catch (error) {
+        if (error instanceof PushSubscriptionExpiredError) {
+          await this.subscriptions.removeSubscription(target.endpoint)
+          continue
+        }
+        logger.warn('Failed to send push notification', { userId: recipient.user_id, error })
+      }
+    }
+
+    if (delivered === 0) {
+      throw new Error('Push notification was not delivered to any subscription')
+    }
+  }
+}
+
+/**
+ * メールの通知
+ */
+export class EmailReminderChannel implements ReminderChannel {
+  readonly name = 'email' as const
+
+  constructor(private readonly transport: EmailTransport) {}
+
+  async deliver({ notification, recipient }: ReminderDelivery): Promise<void> {
+    await this.transport.send({
+      to: recipient.email,
+      subject: `【リマインダー】${notification.title}`,
+      text: [
+        notification.title,
+        notification.body,
+        '',
+        `（${formatReminderTiming(notification.anchor, notification.offset_minutes)}の通知です）`,
+      ].join('\n'),
+    })
+  }
+}
+
+/**
+ * Resend の API でメールを送る
+ */
+export class ResendEmailTransport implements EmailTransport {
+  constructor(private readonly options: { apiKey: string; from: string }) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.options.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.options.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Email API responded with ${response.status}`)
+    }
+  }
+}
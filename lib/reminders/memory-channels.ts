@@ -0,0 +1,143 @@
+/**
+ * インメモリのリマインダーの永続化先と通知方法
+ * データベースや外部サービスの代わりにローカルでスケジューラーを検証するためのもの
+ */
+
+import {
+  ReminderChannelName,
+  ReminderDeliveryStatus,
+  ReminderNotification,
+  ReminderNotificationInsert,
+  TaskReminder,
+} from '@/types/reminders'
+import {
+  EmailMessage,
+  EmailTransport,
+  PushSender,
+  PushSubscriptionExpiredError,
+  PushSubscriptionStore,
+  PushSubscriptionTarget,
+  ReminderChannel,
+  ReminderDelivery,
+  ReminderRecipient,
+  ReminderStore,
+  ReminderTask,
+} from './types'
+
+export class InMemoryReminderStore implements ReminderStore {
+  readonly notifications: ReminderNotification[] = []
+  private nextId = 1
+
+  constructor(
+    private readonly data: {
+      tasks: ReminderTask[]
+      reminders?: TaskReminder[]
+      recipients: ReminderRecipient[]
+    }
+  ) {}
+
+  async listCandidateTasks(from: Date, to: Date): Promise<ReminderTask[]> {
+    const inRange = (value: string | null) =>
+      value !== null && new Date(value) >= from && new Date(value) <= to
+    return this.data.tasks.filter(task =>
+      task.status !== 'completed' &&
+      task.status !== 'cancelled' &&
+      (inRange(task.start_date) || inRange(task.due_date))
+    )
+  }
+
+  async listTaskReminders(taskIds: string[]): Promise<TaskReminder[]> {
+    return (this.data.reminders ?? []).filter(reminder => taskIds.includes(reminder.task_id))
+  }
+
+  async getRecipients(userIds: string[]): Promise<ReminderRecipient[]> {
+    return this.data.recipients.filter(recipient => userIds.includes(recipient.user_id))
+  }
+
+  async recordNotifications(inserts: ReminderNotificationInsert[]): Promise<ReminderNotification[]> {
+    const recorded: ReminderNotification[] = []
+    for (const insert of inserts) {
+      const exists = this.notifications.some(notification =>
+        notification.task_id === insert.task_id &&
+        notification.reminder_key === insert.reminder_key &&
+        new Date(notification.fire_at).getTime() === new Date(insert.fire_at).getTime()
+      )
+      if (exists) continue
+
+      const notification: ReminderNotification = {
+        id: String(this.nextId++),
+        deliveries: {},
+        read_at: null,
+        created_at: new Date().toISOString(),
+        ...insert,
+      }
+      this.notifications.push(notification)
+      recorded.push(notification)
+    }
+    return recorded
+  }
+
+  async saveDeliveries(
+    notificationId: string,
+    deliveries: Partial<Record<ReminderChannelName, ReminderDeliveryStatus>>
+  ): Promise<void> {
+    const notification = this.notifications.find(item => item.id === notificationId)
+    if (notification) notification.deliveries = deliveries
+  }
+}
+
+/**
+ * 受け取った通知を記録する（fail を指定すると送信に失敗する）
+ */
+export class InMemoryReminderChannel implements ReminderChannel {
+  readonly deliveries: ReminderDelivery[] = []
+
+  constructor(
+    readonly name: ReminderChannelName,
+    private readonly options: { fail?: boolean } = {}
+  ) {}
+
+  async deliver(delivery: ReminderDelivery): Promise<void> {
+    if (this.options.fail) {
+      throw new Error(`Delivery failed: ${this.name}`)
+    }
+    this.deliveries.push(delivery)
+  }
+}
+
+/**
+ * 購読とプッシュの送信先を兼ねる（expired に含まれる購読への送信は失効として扱う）
+ */
+export class InMemoryPushService implements PushSender, PushSubscriptionStore {
+  readonly sent: PushSubscriptionTarget[] = []
+
+  constructor(
+    private readonly subscriptions: Map<string, PushSubscriptionTarget[]>,
+    private readonly expired: Set<string> = new Set()
+  ) {}
+
+  async listSubscriptions(userId: string): Promise<PushSubscriptionTarget[]> {
+    return this.subscriptions.get(userId) ?? []
+  }
+
+  async removeSubscription(endpoint: string): Promise<void> {
+    this.subscriptions.forEach((targets, userId) => {
+      this.subscriptions.set(userId, targets.filter(target => target.endpoint !== endpoint))
+    })
+  }
+
+  async send(subscription: PushSubscriptionTarget): Promise<void> {
+    if (this.expired.has(subscription.endpoint)) {
+      throw new PushSubscriptionExpiredError(subscription.endpoint)
+    }
+    this.sent.push(subscription)
+  }
+}
+
+export class InMemoryEmailTransport implements EmailTransport {
+  readonly messages: EmailMessage[] = []
+
+  async send(message: EmailMessage): Promise<void> {
+    this.messages.push(message)
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * 送信するリマインダーの計算と通知の文面
+ * 永続化や送信には依存しない
+ */
+
+import { z } from 'zod'
+import { getZonedParts } from '@/lib/timezone'
+import { Json } from '@/types/database'
+import {
+  DEFAULT_REMINDER_POLICY,
+  REMINDER_CONSTRAINTS,
+  ReminderAnchor,
+  ReminderPolicy,
+  TaskReminder,
+} from '@/types/reminders'
+import { ReminderTask } from './types'
+
+export interface PendingReminder {
+  task: ReminderTask
+  // task_reminders の ID、または既定の設定の default:<anchor>:<offset>
+  reminder_key: string
+  anchor: ReminderAnchor
+  offset_minutes: number
+  fire_at: Date
+}
+
+interface ReminderRule {
+  key: string
+  anchor: ReminderAnchor
+  offset_minutes: number
+}
+
+const offsetsSchema = z
+  .array(z.number().int().min(0).max(REMINDER_CONSTRAINTS.MAX_OFFSET_MINUTES))
+  .max(REMINDER_CONSTRAINTS.MAX_OFFSETS_PER_ANCHOR)
+
+// 保存済みの設定の読み込み用（不正な項目は既定値にする）
+const storedPolicySchema = z.object({
+  enabled: z.boolean().catch(DEFAULT_REMINDER_POLICY.enabled),
+  start_offsets: offsetsSchema.catch(DEFAULT_REMINDER_POLICY.start_offsets),
+  due_offsets: offsetsSchema.catch(DEFAULT_REMINDER_POLICY.due_offsets),
+  channels: z.array(z.enum(['in_app', 'web_push', 'email'])).catch(DEFAULT_REMINDER_POLICY.channels),
+})
+
+/**
+ * profiles.preferences から既定の通知設定を取り出す
+ */
+export function resolveReminderPolicy(preferences: Json | null | undefined): ReminderPolicy {
+  const stored = preferences && typeof preferences === 'object' && !Array.isArray(preferences)
+    ? preferences.reminders
+    : undefined
+  const parsed = storedPolicySchema.safeParse(stored ?? DEFAULT_REMINDER_POLICY)
+  return parsed.success ? parsed.data : DEFAULT_REMINDER_POLICY
+}
+
+/**
+ * 通知の時刻になったリマインダー
+ * 通知を個別に設定したタスクはその設定だけを使い、それ以外のタスクには既定の設定を適用する
+ * 通知の時刻から lookbackMinutes 以上過ぎたものは送らない
+ */
+export function computePendingReminders(input: {
+  tasks: ReminderTask[]
+  reminders: TaskReminder[]
+  policies: Map<string, ReminderPolicy>
+  now: Date
+  lookbackMinutes?: number
+}): PendingReminder[] {
+  const lookbackMinutes = input.lookbackMinutes ?? REMINDER_CONSTRAINTS.LOOKBACK_MINUTES
+  const windowStart = input.now.getTime() - lookbackMinutes * 60000
+
+  const remindersByTask = new Map<string, TaskReminder[]>()
+  for (const reminder of input.reminders) {
+    remindersByTask.set(reminder.task_id, [...(remindersByTask.get(reminder.task_id) ?? []), reminder])
+  }
+
+  const pending: PendingReminder[] = []
+  for (const task of input.tasks) {
+    if (task.status === 'completed' || task.status === 'cancelled') continue
+
+    const own = remindersByTask.get(task.id) ?? []
+    const rules = own.length > 0
+      ? own.map(reminder => ({ key: reminder.id, anchor: reminder.anchor, offset_minutes: reminder.offset_minutes }))
+      : getDefaultRules(input.policies.get(task.user_id) ?? DEFAULT_REMINDER_POLICY)
+
+    for (const rule of rules) {
+      const anchorDate = rule.anchor === 'start' ? task.start_date : task.due_date
+      if (!anchorDate) continue
+
+      const fireAt = new Date(anchorDate).getTime() - rule.offset_minutes * 60000
+      if (fireAt > input.now.getTime() || fireAt <= windowStart) continue
+
+      pending.push({
+        task,
+        reminder_key: rule.key,
+        anchor: rule.anchor,
+        offset_minutes: rule.offset_minutes,
+        fire_at: new Date(fireAt),
+      })
+    }
+  }
+  return pending
+}
+
+function getDefaultRules(policy: ReminderPolicy): ReminderRule[] {
+  if (!policy.enabled) return []
+  const rules = (anchor: ReminderAnchor, offsets: number[]) =>
+    offsets.map(offset => ({ key: `default:${anchor}:${offset}`, anchor, offset_minutes: offset }))
+  return [...rules('start', policy.start_offsets), ...rules('due', policy.due_offsets)]
+}
+
+/**
+ * 「10分」「2時間」「1日」の形式
+ */
+export function formatReminderOffset(minutes: number): string {
+  if (minutes > 0 && minutes % 1440 === 0) return `${minutes / 1440}日`
+  if (minutes > 0 && minutes % 60 === 0) return `${minutes / 60}時間`
+  return `${minutes}分`
+}
+
+/**
+ * 「開始の10分前」「期限の時刻」の形式
+ */
+export function formatReminderTiming(anchor: ReminderAnchor, offsetMinutes: number): string {
+  const base = anchor === 'start' ? '開始' : '期限'
+  return offsetMinutes === 0 ? `${base}の時刻` : `${base}の${formatReminderOffset(offsetMinutes)}前`
+}
+
+/**
+ * 通知のタイトルと本文
+ */
+export function buildReminderMessage(reminder: PendingReminder, timeZone: string): { title: string; body: string } {
+  const anchorDate = reminder.anchor === 'start' ? reminder.task.start_date : reminder.task.due_date
+  const { month, day, hour, minute } = getZonedParts(new Date(anchorDate!), timeZone)
+  const when = `${month}月${day}日 ${hour}:${String(minute).padStart(2, '0')}`
+
+  const offset = formatReminderOffset(reminder.offset_minutes)
+  const body = reminder.anchor === 'start'
+    ? reminder.offset_minutes === 0 ? `開始時刻です（${when}）` : `${offset}後に開始します（${when}）`
+    : reminder.offset_minutes === 0 ? `期限です（${when}）` : `${offset}後が期限です（${when}）`
+
+  return { title: reminder.task.title, body }
+}
@@ -0,0 +1,134 @@
+/**
+ * リマインダーのスケジューラー
+ * 定期実行のたびに通知の時刻になったリマインダーを記録し、ユーザーの選んだ方法で送信する
+ * 記録は通知ごとに一意なため、同じ通知が重なった実行で二重に送られることはない
+ */
+
+import { logger } from '@/lib/logger'
+import {
+  DEFAULT_REMINDER_POLICY,
+  REMINDER_CONSTRAINTS,
+  ReminderChannelName,
+  ReminderDeliveryStatus,
+  ReminderRunResult,
+} from '@/types/reminders'
+import { buildReminderMessage, computePendingReminders } from './schedule'
+import { ReminderChannel, ReminderDelivery, ReminderStore } from './types'
+
+export interface ReminderSchedulerOptions {
+  store: ReminderStore
+  // サーバーで使える通知方法（ユーザーが選んでいても、ここにないものは送らない）
+  channels: ReminderChannel[]
+  now?: () => Date
+}
+
+export class ReminderScheduler {
+  private readonly store: ReminderStore
+  private readonly channels: ReminderChannel[]
+  private readonly now: () => Date
+
+  constructor(options: ReminderSchedulerOptions) {
+    this.store = options.store
+    this.channels = options.channels
+    this.now = options.now ?? (() => new Date())
+  }
+
+  async run(): Promise<ReminderRunResult> {
+    const now = this.now()
+    const result: ReminderRunResult = { due: 0, sent: 0, failed: 0 }
+
+    // 通知の時刻が「猶予の範囲 〜 現在」になる開始日時・期限の範囲
+    const tasks = await this.store.listCandidateTasks(
+      new Date(now.getTime() - REMINDER_CONSTRAINTS.LOOKBACK_MINUTES * 60000),
+      new Date(now.getTime() + REMINDER_CONSTRAINTS.MAX_OFFSET_MINUTES * 60000)
+    )
+    if (tasks.length === 0) return result
+
+    const [reminders, recipients] = await Promise.all([
+      this.store.listTaskReminders(tasks.map(task => task.id)),
+      this.store.getRecipients(Array.from(new Set(tasks.map(task => task.user_id)))),
+    ])
+    const recipientsById = new Map(recipients.map(recipient => [recipient.user_id, recipient]))
+
+    const pending = computePendingReminders({
+      tasks,
+      reminders,
+      policies: new Map(recipients.map(recipient => [recipient.user_id, recipient.policy])),
+      now,
+    }).filter(reminder => recipientsById.has(reminder.task.user_id))
+    result.due = pending.length
+    if (pending.length === 0) return result
+
+    const recorded = await this.store.recordNotifications(pending.map(reminder => {
+      const recipient = recipientsById.get(reminder.task.user_id)!
+      return {
+        user_id: reminder.task.user_id,
+        task_id: reminder.task.id,
+        reminder_key: reminder.reminder_key,
+        anchor: reminder.anchor,
+        offset_minutes: reminder.offset_minutes,
+        fire_at: reminder.fire_at.toISOString(),
+        ...buildReminderMessage(reminder, recipient.time_zone),
+      }
+    }))
+
+    for (const notification of recorded) {
+      const recipient = recipientsById.get(notification.user_id)!
+      const channels = this.selectChannels(recipient.policy.channels)
+
+      // Web Push は本文を含めずに送り、受け取った Service Worker が通知を取得する
+      // 送信の結果を保存する前に取得されるため、送信前に送信中として記録しておく
+      const sending = channels.filter(name => this.channels.some(channel => channel.name === name))
+      if (sending.length > 0) {
+        await this.store.saveDeliveries(
+          notification.id,
+          Object.fromEntries(sending.map(name => [name, 'pending' as const]))
+        )
+      }
+
+      const deliveries = await this.deliver({ notification, recipient }, channels)
+      await this.store.saveDeliveries(notification.id, deliveries)
+
+      if (Object.values(deliveries).includes('failed')) {
+        result.failed++
+      } else {
+        result.sent++
+      }
+    }
+
+    logger.info('Reminders processed', result)
+    return result
+  }
+
+  private selectChannels(channels: ReminderChannelName[]): ReminderChannelName[] {
+    return channels.length > 0 ? channels : DEFAULT_REMINDER_POLICY.channels
+  }
+
+  private async deliver(
+    delivery: ReminderDelivery,
+    selected: ReminderChannelName[]
+  ): Promise<Partial<Record<ReminderChannelName, ReminderDeliveryStatus>>> {
+    const deliveries: Partial<Record<ReminderChannelName, ReminderDeliveryStatus>> = {}
+
+    for (const name of selected) {
+      const channel = this.channels.find(item => item.name === name)
+      if (!channel) {
+        deliveries[name] = 'skipped'
+        continue
+      }
+
+      try {
+        await channel.deliver(delivery)
+        deliveries[name] = 'sent'
+      } catch (error) {
+        deliveries[name] = 'failed'
+        logger.warn('Failed to deliver reminder', {
+          channel: name,
+          notificationId: delivery.notification.id,
+          error: error instanceof Error ? error.message : error,
+        })
+      }
+    }
+    return deliveries
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * リマインダーの送信の抽象化
+ * 通知方法（アプリ内・Web Push・メール）と永続化先を差し替えられるようにし、
+ * 本番の実装とローカルのインメモリ実装を同じインターフェースで扱う
+ */
+
+import { Task } from '@/types/tasks'
+import {
+  ReminderChannelName,
+  ReminderDeliveryStatus,
+  ReminderNotification,
+  ReminderNotificationInsert,
+  ReminderPolicy,
+  TaskReminder,
+} from '@/types/reminders'
+
+export type ReminderTask = Pick<Task, 'id' | 'user_id' | 'title' | 'status' | 'start_date' | 'due_date'>
+
+// 通知の送信先のユーザー
+export interface ReminderRecipient {
+  user_id: string
+  email: string
+  time_zone: string
+  policy: ReminderPolicy
+}
+
+export interface ReminderDelivery {
+  notification: ReminderNotification
+  recipient: ReminderRecipient
+}
+
+export interface ReminderChannel {
+  readonly name: ReminderChannelName
+  deliver(delivery: ReminderDelivery): Promise<void>
+}
+
+/**
+ * スケジューラーが扱う永続化先（全ユーザー分）
+ */
+export interface ReminderStore {
+  // 開始日時または期限が期間内にある未完了のタスク
+  listCandidateTasks(from: Date, to: Date): Promise<ReminderTask[]>
+  listTaskReminders(taskIds: string[]): Promise<TaskReminder[]>
+  getRecipients(userIds: string[]): Promise<ReminderRecipient[]>
+  // 同じ通知（タスク・リマインダー・通知時刻）が記録済みのものは除き、新たに記録したものだけを返す
+  recordNotifications(notifications: ReminderNotificationInsert[]): Promise<ReminderNotification[]>
+  saveDeliveries(
+    notificationId: string,
+    deliveries: Partial<Record<ReminderChannelName, ReminderDeliveryStatus>>
+  ): Promise<void>
+}
+
+export interface PushSubscriptionTarget {
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+export interface PushSubscriptionStore {
+  listSubscriptions(userId: string): Promise<PushSubscriptionTarget[]>
+  removeSubscription(endpoint: string): Promise<void>
+}
+
+// 本文なしのプッシュを送る（通知の内容は Service Worker が API から取得する）
+export interface PushSender {
+  send(subscription: PushSubscriptionTarget): Promise<void>
+}
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>
+}
+
+// 購読が失効している（プッシュサービスの 404 / 410）
+export class PushSubscriptionExpiredError extends Error {
+  constructor(endpoint: string) {
+    super(`Push subscription has expired: ${endpoint}`)
+    this.name = 'PushSubscriptionExpiredError'
+  }
+}
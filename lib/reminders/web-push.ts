@@ -0,0 +1,71 @@
+/**
+ * Web Push の送信（VAPID 認証、RFC 8292）
+ * 本文を暗号化しないよう本文なしで送り、通知の内容は Service Worker が API から取得する
+ */
+
+import { createPrivateKey, sign } from 'crypto'
+import { PushSender, PushSubscriptionExpiredError, PushSubscriptionTarget } from './types'
+
+export interface VapidKeys {
+  // 非圧縮の P-256 公開鍵（65バイト）と秘密鍵（32バイト）の base64url
+  publicKey: string
+  privateKey: string
+  // 連絡先（mailto: または https: の URL）
+  subject: string
+}
+
+// プッシュサービスで保持する期間（秒）
+const PUSH_TTL_SECONDS = 60 * 60
+// VAPID の JWT の有効期間（最大24時間）
+const JWT_EXPIRES_IN_SECONDS = 12 * 60 * 60
+
+export class WebPushSender implements PushSender {
+  constructor(private readonly vapid: VapidKeys) {}
+
+  async send(subscription: PushSubscriptionTarget): Promise<void> {
+    const audience = new URL(subscription.endpoint).origin
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        TTL: String(PUSH_TTL_SECONDS),
+        Urgency: 'high',
+        Authorization: `vapid t=${createVapidJwt(audience, this.vapid)}, k=${this.vapid.publicKey}`,
+        'Content-Length': '0',
+      },
+    })
+
+    if (response.status === 404 || response.status === 410) {
+      throw new PushSubscriptionExpiredError(subscription.endpoint)
+    }
+    if (!response.ok) {
+      throw new Error(`Push service responded with ${response.status}`)
+    }
+  }
+}
+
+function createVapidJwt(audience: string, vapid: VapidKeys): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const unsigned = [
+    encode({ typ: 'JWT', alg: 'ES256' }),
+    encode({
+      aud: audience,
+      exp: Math.floor(Date.now() / 1000) + JWT_EXPIRES_IN_SECONDS,
+      sub: vapid.subject,
+    }),
+  ].join('.')
+
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url')
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  })
+  const signature = sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' })
+
+  return `${unsigned}.${signature.toString('base64url')}`
+}
@@ -0,0 +1,131 @@
+/**
+ * 見積もりと実績の集計
+ * 見積もりと実績の両方があるタスクだけを対象にする（どちらかが 0 のタスクは誤差を求められない）
+ */
+
+import { formatZonedDate, getZonedParts, shiftDateKey } from '@/lib/timezone'
+import {
+  CategoryTime,
+  EstimateGroup,
+  EstimateSummary,
+  EstimateTendency,
+  REPORT_CONSTRAINTS,
+  TaskEstimate,
+} from '@/types/reports'
+import { TaskWithCategory } from '@/types/tasks'
+
+export function toTaskEstimate(task: TaskWithCategory): TaskEstimate | null {
+  if (!task.completed_at || task.estimated_minutes <= 0 || task.actual_minutes <= 0) return null
+
+  const difference = task.actual_minutes - task.estimated_minutes
+  return {
+    task_id: task.id,
+    title: task.title,
+    category_id: task.category_id,
+    category_name: task.category?.name ?? null,
+    category_color: task.category?.color ?? null,
+    tags: task.tags,
+    completed_at: task.completed_at,
+    estimated_minutes: task.estimated_minutes,
+    actual_minutes: task.actual_minutes,
+    difference_minutes: difference,
+    error_rate: Math.abs(difference) / task.estimated_minutes,
+  }
+}
+
+export function getEstimateTendency(biasRatio: number | null): EstimateTendency | null {
+  if (biasRatio === null) return null
+  if (biasRatio > 1 + REPORT_CONSTRAINTS.ACCURATE_BIAS_TOLERANCE) return 'under'
+  if (biasRatio < 1 - REPORT_CONSTRAINTS.ACCURATE_BIAS_TOLERANCE) return 'over'
+  return 'accurate'
+}
+
+export function summarizeEstimates(estimates: TaskEstimate[]): EstimateSummary {
+  const count = estimates.length
+  const estimated = estimates.reduce((sum, item) => sum + item.estimated_minutes, 0)
+  const actual = estimates.reduce((sum, item) => sum + item.actual_minutes, 0)
+  const absoluteError = estimates.reduce((sum, item) => sum + Math.abs(item.difference_minutes), 0)
+  const errorRate = estimates.reduce((sum, item) => sum + item.error_rate, 0)
+  const biasRatio = estimated > 0 ? actual / estimated : null
+
+  return {
+    task_count: count,
+    estimated_minutes: estimated,
+    actual_minutes: actual,
+    difference_minutes: actual - estimated,
+    mean_absolute_error_minutes: count > 0 ? Math.round(absoluteError / count) : 0,
+    mean_absolute_error_rate: count > 0 ? errorRate / count : 0,
+    bias_ratio: biasRatio,
+    tendency: getEstimateTendency(biasRatio),
+  }
+}
+
+interface GroupKey {
+  key: string
+  label: string
+  color?: string | null
+}
+
+/**
+ * グループごとに集計する（1つのタスクが複数のグループに入ってもよい）
+ */
+export function groupEstimates(
+  estimates: TaskEstimate[],
+  getKeys: (estimate: TaskEstimate) => GroupKey[]
+): EstimateGroup[] {
+  const groups = new Map<string, { group: GroupKey; items: TaskEstimate[] }>()
+
+  for (const estimate of estimates) {
+    for (const group of getKeys(estimate)) {
+      const current = groups.get(group.key)
+      if (current) {
+        current.items.push(estimate)
+      } else {
+        groups.set(group.key, { group, items: [estimate] })
+      }
+    }
+  }
+
+  return Array.from(groups.values()).map(({ group, items }) => ({
+    ...group,
+    ...summarizeEstimates(items),
+  }))
+}
+
+/**
+ * 指定タイムゾーンでの週の開始日（月曜日）
+ */
+export function getWeekStartKey(value: string, timeZone: string): string {
+  const date = new Date(value)
+  const { weekday } = getZonedParts(date, timeZone)
+  return shiftDateKey(formatZonedDate(date, timeZone), -((weekday + 6) % 7))
+}
+
+export function byCategory(estimate: TaskEstimate): GroupKey[] {
+  return [{
+    key: estimate.category_id ?? 'none',
+    label: estimate.category_name ?? '未分類',
+    color: estimate.category_color,
+  }]
+}
+
+export function byTag(estimate: TaskEstimate): GroupKey[] {
+  return estimate.tags.map(tag => ({ key: tag, label: tag }))
+}
+
+export function byWeek(timeZone: string) {
+  return (estimate: TaskEstimate): GroupKey[] => {
+    const key = getWeekStartKey(estimate.completed_at, timeZone)
+    return [{ key, label: key }]
+  }
+}
+
+/**
+ * 作業時間の多い順に並べる（未分類は最後）
+ */
+export function sortCategoryTimes(times: CategoryTime[]): CategoryTime[] {
+  return [...times].sort((a, b) => {
+    if ((a.category_id === null) !== (b.category_id === null)) return a.category_id === null ? 1 : -1
+    return b.minutes - a.minutes
+  })
+}
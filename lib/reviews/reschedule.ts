@@ -0,0 +1,37 @@
+/**
+ * レビューで残ったタスクを別の日に移すときの日時の計算
+ */
+
+import { formatZonedDate, getZonedParts, zonedTimeToUtc } from '@/lib/timezone'
+import { Task, TaskUpdate } from '@/types/tasks'
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000)
+}
+
+function shiftInstant(value: string, days: number, timeZone: string): string {
+  const parts = getZonedParts(new Date(value), timeZone)
+  return zonedTimeToUtc({ ...parts, day: parts.day + days }, timeZone).toISOString()
+}
+
+/**
+ * 開始日時（なければ期限）が targetDate になるようにタスクの日時をずらす
+ * 時刻と、開始から期限までの日数はそのまま保つ
+ * 日時のないタスクは何も変えない
+ */
+export function shiftTaskSchedule(
+  task: Pick<Task, 'start_date' | 'due_date'>,
+  targetDate: string,
+  timeZone: string
+): Pick<TaskUpdate, 'start_date' | 'due_date'> {
+  const base = task.start_date ?? task.due_date
+  if (!base) return {}
+
+  const days = daysBetween(formatZonedDate(new Date(base), timeZone), targetDate)
+  if (days === 0) return {}
+
+  return {
+    ...(task.start_date ? { start_date: shiftInstant(task.start_date, days, timeZone) } : {}),
+    ...(task.due_date ? { due_date: shiftInstant(task.due_date, days, timeZone) } : {}),
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * 検索結果の強調表示
+ * search_tasks（014_task_search.sql）は一致した語を [[[ と ]]] で囲んで返す
+ * HTML ではなく区切り文字で受け取り、画面では分割した断片を要素として描画する
+ */
+
+export const HIGHLIGHT_START = '[[['
+export const HIGHLIGHT_END = ']]]'
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+export function splitHighlights(value: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let rest = value
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START)
+    const end = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length)
+
+    // 閉じていない区切り文字はそのまま文字として扱う
+    if (start === -1 || end === -1) {
+      segments.push({ text: rest, highlighted: false })
+      break
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false })
+    }
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true })
+    rest = rest.slice(end + HIGHLIGHT_END.length)
+  }
+
+  return segments.filter(segment => segment.text.length > 0)
+}
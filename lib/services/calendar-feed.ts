@@ -0,0 +1,156 @@
+/**
+ * iCalendar フィードのサービス層
+ * 購読用のトークンはユーザーごとに1つで、DB にはハッシュのみを保存する
+ * フィードの取得はセッションなしで行われるため、トークンの照合とタスクの取得は DB 関数で行う
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { UpstreamError } from '@/lib/errors'
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/timezone'
+import { buildTaskFeed, TaskFeedEntry } from '@/lib/ical/task-feed'
+import { Task } from '@/types/tasks'
+import { CalendarFeedStatus, CalendarFeedToken } from '@/types/calendar'
+
+export const CALENDAR_FEED_PATH = '/api/calendar/feed.ics'
+
+const CALENDAR_NAME = 'TaskShoot タスク'
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export class CalendarFeedService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  async getStatus(userId: string): Promise<CalendarFeedStatus> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('created_at, last_used_at')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) {
+        logger.error('Failed to fetch calendar feed token', error)
+        throw new UpstreamError('カレンダーフィードの状態の取得に失敗しました')
+      }
+
+      return {
+        enabled: Boolean(data),
+        created_at: data?.created_at ?? null,
+        last_used_at: data?.last_used_at ?? null,
+      }
+    } catch (error) {
+      logger.error('Error in getStatus', error)
+      throw error
+    }
+  }
+
+  /**
+   * トークンを発行する（発行済みの場合は置き換え、古い URL は使えなくなる）
+   * トークンはここでしか返さない
+   */
+  async issueToken(userId: string, origin: string): Promise<CalendarFeedToken> {
+    try {
+      const token = randomBytes(32).toString('base64url')
+
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .upsert({
+          user_id: userId,
+          token_hash: hashToken(token),
+          created_at: new Date().toISOString(),
+          last_used_at: null,
+        })
+        .select('created_at')
+        .single()
+
+      if (error) {
+        logger.error('Failed to issue calendar feed token', error)
+        throw new UpstreamError('カレンダーフィードの URL の発行に失敗しました')
+      }
+
+      logger.info('Calendar feed token issued', { userId })
+
+      const url = new URL(CALENDAR_FEED_PATH, origin)
+      url.searchParams.set('token', token)
+      return {
+        token,
+        url: url.toString(),
+        webcal_url: url.toString().replace(/^https?:/, 'webcal:'),
+        created_at: data.created_at,
+      }
+    } catch (error) {
+      logger.error('Error in issueToken', error)
+      throw error
+    }
+  }
+
+  async revokeToken(userId: string): Promise<void> {
+    try {
+      const supabase = this.getSupabase()
+      const { error } = await supabase
+        .from('calendar_feed_tokens')
+        .delete()
+        .eq('user_id', userId)
+
+      if (error) {
+        logger.error('Failed to revoke calendar feed token', error)
+        throw new UpstreamError('カレンダーフィードの無効化に失敗しました')
+      }
+
+      logger.info('Calendar feed token revoked', { userId })
+    } catch (error) {
+      logger.error('Error in revokeToken', error)
+      throw error
+    }
+  }
+
+  /**
+   * トークンの持ち主のタスクを .ics にする
+   * トークンが無効な場合は null
+   */
+  async buildFeed(token: string): Promise<string | null> {
+    try {
+      const tokenHash = hashToken(token)
+      const supabase = this.getSupabase()
+
+      const { data: owners, error } = await supabase
+        .rpc('resolve_calendar_feed_token', { p_token_hash: tokenHash })
+
+      if (error) {
+        logger.error('Failed to resolve calendar feed token', error)
+        throw new UpstreamError('カレンダーフィードの取得に失敗しました')
+      }
+
+      const owner = owners?.[0]
+      if (!owner) return null
+
+      const { data: rows, error: tasksError } = await supabase
+        .rpc('get_calendar_feed_tasks', { p_token_hash: tokenHash })
+
+      if (tasksError) {
+        logger.error('Failed to fetch calendar feed tasks', tasksError)
+        throw new UpstreamError('カレンダーフィードの取得に失敗しました')
+      }
+
+      const entries: TaskFeedEntry[] = (rows || []).map((row: { category_name: string | null; task: Task }) => ({
+        task: row.task,
+        categoryName: row.category_name,
+      }))
+      const timeZone = owner.time_zone && isValidTimeZone(owner.time_zone) ? owner.time_zone : DEFAULT_TIMEZONE
+      return buildTaskFeed(entries, { timeZone, calendarName: CALENDAR_NAME })
+    } catch (error) {
+      logger.error('Error in buildFeed', error)
+      throw error
+    }
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService()
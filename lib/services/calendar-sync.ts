@@ -0,0 +1,298 @@
+/**
+ * Google Calendar 同期のサービス層
+ * 同期設定の永続化と、同期エンジンへの依存注入を行う
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { env } from '@/lib/env'
+import { ForbiddenError, UpstreamError } from '@/lib/errors'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import { ICS_EVENT_ID_PREFIX } from '@/lib/ical/parser'
+import { CalendarSyncEngine } from '@/lib/google-calendar/sync-engine'
+import { GoogleCalendarProvider, refreshGoogleAccessToken } from '@/lib/google-calendar/google-provider'
+import { CalendarEventNotFoundError, CalendarProvider, SyncTaskStore } from '@/lib/google-calendar/types'
+import { Task, TaskUpdate } from '@/types/tasks'
+import {
+  CalendarSyncResult,
+  CalendarSyncSettings,
+  CalendarSyncStatus,
+  SyncConflict,
+  SyncConflictPolicy,
+  SyncConflictResolution,
+} from '@/types/calendar'
+
+export interface CalendarSyncSettingsUpdate {
+  sync_enabled?: boolean
+  conflict_policy?: SyncConflictPolicy
+  calendar_id?: string
+}
+
+export class CalendarSyncService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  async getStatus(userId: string): Promise<CalendarSyncStatus> {
+    const settings = await this.getSettings(userId)
+    return this.toStatus(settings)
+  }
+
+  async updateSettings(userId: string, updates: CalendarSyncSettingsUpdate): Promise<CalendarSyncStatus> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('calendar_sync_settings')
+        .upsert({ user_id: userId, ...updates })
+        .select()
+        .single()
+
+      if (error) {
+        logger.error('Failed to update calendar sync settings', error)
+        throw new UpstreamError('同期設定の更新に失敗しました')
+      }
+
+      logger.info('Calendar sync settings updated', { userId })
+      return this.toStatus(data)
+    } catch (error) {
+      logger.error('Error in updateSettings', error)
+      throw error
+    }
+  }
+
+  /**
+   * サインイン時に取得したリフレッシュトークンを保存する
+   */
+  async saveRefreshToken(userId: string, refreshToken: string): Promise<void> {
+    const supabase = this.getSupabase()
+    const { error } = await supabase
+      .from('calendar_sync_settings')
+      .upsert({ user_id: userId, google_refresh_token: refreshToken })
+
+    if (error) {
+      logger.error('Failed to save Google refresh token', error)
+      throw new UpstreamError('Google連携情報の保存に失敗しました')
+    }
+  }
+
+  /**
+   * 同期を実行する。resolutions を渡すと未解決の競合を先に解決する
+   */
+  async sync(
+    userId: string,
+    resolutions: Record<string, SyncConflictResolution> = {}
+  ): Promise<CalendarSyncResult> {
+    if (!env.isGoogleOAuthConfigured) {
+      throw new ForbiddenError('Google OAuth が設定されていません', 'CALENDAR_NOT_CONFIGURED')
+    }
+
+    const settings = await this.getSettings(userId)
+    if (!settings?.google_refresh_token) {
+      throw new ForbiddenError('Googleカレンダーが連携されていません。再度ログインしてください', 'CALENDAR_NOT_CONNECTED')
+    }
+    if (!settings.sync_enabled) {
+      throw new ForbiddenError('Googleカレンダー同期が無効になっています', 'CALENDAR_SYNC_DISABLED')
+    }
+
+    const engine = new CalendarSyncEngine({
+      provider: this.createProvider(settings),
+      store: this.createTaskStore(userId),
+      timeZone: await this.getUserTimezone(userId),
+      policy: settings.conflict_policy,
+    })
+
+    try {
+      const pending = await engine.resolveConflicts(
+        this.parseConflicts(settings.pending_conflicts),
+        resolutions
+      )
+      const result = await engine.sync({
+        syncToken: settings.sync_token,
+        pendingConflicts: pending,
+      })
+
+      await this.saveSyncState(userId, {
+        sync_token: result.nextSyncToken,
+        pending_conflicts: result.conflicts as unknown as CalendarSyncSettings['pending_conflicts'],
+        last_synced_at: new Date().toISOString(),
+        last_error: null,
+      })
+
+      const { nextSyncToken: _nextSyncToken, ...summary } = result
+      return summary
+    } catch (error) {
+      logger.error('Error in calendar sync', error)
+      await this.saveSyncState(userId, {
+        last_error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw new UpstreamError('Googleカレンダーとの同期に失敗しました', 'CALENDAR_API_ERROR')
+    }
+  }
+
+  /**
+   * 連携済みユーザーのカレンダープロバイダーを返す
+   */
+  async getProvider(userId: string): Promise<CalendarProvider> {
+    if (!env.isGoogleOAuthConfigured) {
+      throw new ForbiddenError('Google OAuth が設定されていません', 'CALENDAR_NOT_CONFIGURED')
+    }
+
+    const settings = await this.getSettings(userId)
+    if (!settings?.google_refresh_token) {
+      throw new ForbiddenError('Googleカレンダーが連携されていません。再度ログインしてください', 'CALENDAR_NOT_CONNECTED')
+    }
+    return this.createProvider(settings)
+  }
+
+  /**
+   * ユーザーのタイムゾーン（未設定の場合は既定値）
+   */
+  async getUserTimezone(userId: string): Promise<string> {
+    const supabase = this.getSupabase()
+    const { data } = await supabase
+      .from('profiles')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle()
+
+    return data?.timezone || DEFAULT_TIMEZONE
+  }
+
+  /**
+   * タスク削除時に対応するイベントを削除する（失敗しても処理は継続）
+   */
+  async removeTaskEvent(userId: string, eventId: string): Promise<void> {
+    // .ics から取り込んだタスクは Google 側にイベントがない
+    if (eventId.startsWith(ICS_EVENT_ID_PREFIX)) return
+
+    try {
+      const settings = await this.getSettings(userId)
+      if (!settings?.sync_enabled || !settings.google_refresh_token) return
+
+      await this.createProvider(settings).deleteEvent(eventId)
+      logger.info('Calendar event removed for deleted task', { userId, eventId })
+    } catch (error) {
+      if (error instanceof CalendarEventNotFoundError) return
+      logger.warn('Failed to remove calendar event for deleted task', { userId, eventId, error })
+    }
+  }
+
+  private async getSettings(userId: string): Promise<CalendarSyncSettings | null> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('calendar_sync_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch calendar sync settings', error)
+      throw new UpstreamError('同期設定の取得に失敗しました')
+    }
+    return data
+  }
+
+  private async saveSyncState(userId: string, updates: Partial<CalendarSyncSettings>): Promise<void> {
+    const supabase = this.getSupabase()
+    const { error } = await supabase
+      .from('calendar_sync_settings')
+      .update(updates)
+      .eq('user_id', userId)
+
+    if (error) {
+      logger.error('Failed to save calendar sync state', error)
+    }
+  }
+
+  private createProvider(settings: CalendarSyncSettings): CalendarProvider {
+    // 1回の同期中はアクセストークンを使い回す
+    let accessToken: Promise<string> | null = null
+
+    return new GoogleCalendarProvider({
+      calendarId: settings.calendar_id,
+      getAccessToken: () => {
+        accessToken ??= refreshGoogleAccessToken(settings.google_refresh_token!, {
+          clientId: env.GOOGLE_CLIENT_ID,
+          clientSecret: env.GOOGLE_CLIENT_SECRET,
+        })
+        return accessToken
+      },
+    })
+  }
+
+  private createTaskStore(userId: string): SyncTaskStore {
+    const supabase = this.getSupabase()
+
+    return {
+      async getTask(taskId: string): Promise<Task | null> {
+        const { data, error } = await supabase
+          .from('tasks')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('id', taskId)
+          .is('deleted_at', null)
+          .maybeSingle()
+
+        if (error) throw new UpstreamError('タスクの取得に失敗しました')
+        return data
+      },
+
+      async findTaskByEventId(eventId: string): Promise<Task | null> {
+        const { data, error } = await supabase
+          .from('tasks')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('google_calendar_event_id', eventId)
+          .is('deleted_at', null)
+          .maybeSingle()
+
+        if (error) throw new UpstreamError('タスクの取得に失敗しました')
+        return data
+      },
+
+      async listSyncCandidates(): Promise<Task[]> {
+        const { data, error } = await supabase
+          .from('tasks')
+          .select('*')
+          .eq('user_id', userId)
+          .is('deleted_at', null)
+          .or('start_date.not.is.null,google_calendar_event_id.not.is.null')
+
+        if (error) throw new UpstreamError('タスクの取得に失敗しました')
+        return data || []
+      },
+
+      async updateTask(taskId: string, updates: TaskUpdate): Promise<Task> {
+        const { data, error } = await supabase
+          .from('tasks')
+          .update(updates)
+          .eq('user_id', userId)
+          .eq('id', taskId)
+          .select()
+          .single()
+
+        if (error) throw new UpstreamError('タスクの更新に失敗しました')
+        return data
+      },
+    }
+  }
+
+  private parseConflicts(value: CalendarSyncSettings['pending_conflicts']): SyncConflict[] {
+    return Array.isArray(value) ? (value as unknown as SyncConflict[]) : []
+  }
+
+  private toStatus(settings: CalendarSyncSettings | null): CalendarSyncStatus {
+    return {
+      connected: Boolean(settings?.google_refresh_token),
+      sync_enabled: settings?.sync_enabled ?? false,
+      calendar_id: settings?.calendar_id ?? 'primary',
+      conflict_policy: settings?.conflict_policy ?? 'last_writer_wins',
+      last_synced_at: settings?.last_synced_at ?? null,
+      last_error: settings?.last_error ?? null,
+      pending_conflicts: this.parseConflicts(settings?.pending_conflicts ?? []),
+    }
+  }
+}
+
+// シングルトンインスタンス
+export const calendarSyncService = new CalendarSyncService()
@@ -0,0 +1,380 @@
+/**
+ * デイリーログ（TaskShoot 形式の1日の計画）のサービス層
+ * その日に実行するタスクを順番に並べ、見積もりと実績・終了予測を返す
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { ConflictError, UpstreamError } from '@/lib/errors'
+import { formatZonedDate, parseZonedDate, shiftDateKey } from '@/lib/timezone'
+import { predictSchedule, summarizeTimeEntries } from '@/lib/daily-log/schedule'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { taskService } from '@/lib/services/tasks'
+import { DailyLog, DailyPlanItem, DAILY_LOG_CONSTRAINTS } from '@/types/daily-log'
+import { TaskWithCategory, TimeEntry } from '@/types/tasks'
+
+type PlanItemWithTask = DailyPlanItem & { task: TaskWithCategory }
+
+export class DailyLogService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * 指定日（省略時は今日）のデイリーログ
+   * 今日以降の日を初めて開いたときは、その日に予定されているタスクを予定に加える
+   * （持ち越しなどで既に予定がある場合はその後に加える。初期化は日ごとに1回のみで、
+   *   予定をすべて外した日を開き直しても再び初期化しない）
+   */
+  async getDailyLog(userId: string, date?: string): Promise<DailyLog> {
+    try {
+      const timeZone = await calendarSyncService.getUserTimezone(userId)
+      const now = new Date()
+      const today = formatZonedDate(now, timeZone)
+      const planDate = date ?? today
+
+      let planItems = await this.getPlanItems(userId, planDate)
+      if (planDate >= today && await this.claimSeed(userId, planDate)) {
+        await this.seedFromSchedule(userId, planDate, timeZone, planItems)
+        planItems = await this.getPlanItems(userId, planDate)
+      }
+
+      const entries = await this.getTimeEntries(userId, planDate, timeZone)
+      const actuals = summarizeTimeEntries(entries, now)
+
+      const items = planItems.map(item => {
+        const actual = actuals.get(item.task_id)
+        return {
+          id: item.id,
+          sort_order: item.sort_order,
+          task: item.task,
+          actual_start: actual?.start ?? null,
+          actual_end: actual?.end ?? null,
+          actual_minutes: actual?.minutes ?? 0,
+          is_running: actual?.running ?? false,
+        }
+      })
+
+      // 予測は今日のみ（過去・未来の日は合計だけを表示する）
+      const isToday = planDate === today
+      const schedule = isToday
+        ? predictSchedule(items, actuals, now)
+        : { items: items.map(item => ({ ...item, predicted_start: null, predicted_end: null })), finish: null }
+
+      return {
+        date: planDate,
+        time_zone: timeZone,
+        is_today: isToday,
+        items: schedule.items,
+        total_estimated_minutes: items.reduce((sum, item) => sum + item.task.estimated_minutes, 0),
+        total_actual_minutes: items.reduce((sum, item) => sum + item.actual_minutes, 0),
+        predicted_finish: schedule.finish?.toISOString() ?? null,
+      }
+    } catch (error) {
+      logger.error('Error in getDailyLog', error)
+      throw error
+    }
+  }
+
+  /**
+   * タスクをその日の予定の最後に追加する
+   * タスクが見つからない場合は false を返す
+   */
+  async addTask(userId: string, date: string, taskId: string): Promise<boolean> {
+    try {
+      const task = await taskService.getTaskById(userId, taskId)
+      if (!task) return false
+
+      const planItems = await this.getPlanItems(userId, date)
+      if (planItems.some(item => item.task_id === taskId)) {
+        throw new ConflictError('タスクの追加に失敗しました（既にこの日の予定にあります）', 'DUPLICATE')
+      }
+      if (planItems.length >= DAILY_LOG_CONSTRAINTS.MAX_ITEMS_PER_DAY) {
+        throw new ConflictError(`タスクの追加に失敗しました（1日の予定は${DAILY_LOG_CONSTRAINTS.MAX_ITEMS_PER_DAY}件までです）`)
+      }
+
+      const supabase = this.getSupabase()
+      const { error } = await supabase
+        .from('daily_plan_items')
+        .insert({
+          user_id: userId,
+          task_id: taskId,
+          plan_date: date,
+          sort_order: this.getNextSortOrder(planItems),
+        })
+
+      if (error) {
+        logger.error('Failed to add task to daily plan', error)
+        throw new UpstreamError('タスクの追加に失敗しました')
+      }
+
+      logger.info('Task added to daily plan', { userId, date, taskId })
+      return true
+    } catch (error) {
+      logger.error('Error in addTask (daily log)', error)
+      throw error
+    }
+  }
+
+  async removeTask(userId: string, date: string, taskId: string): Promise<void> {
+    try {
+      const supabase = this.getSupabase()
+      const { error } = await supabase
+        .from('daily_plan_items')
+        .delete()
+        .eq('user_id', userId)
+        .eq('plan_date', date)
+        .eq('task_id', taskId)
+
+      if (error) {
+        logger.error('Failed to remove task from daily plan', error)
+        throw new UpstreamError('タスクの削除に失敗しました')
+      }
+
+      logger.info('Task removed from daily plan', { userId, date, taskId })
+    } catch (error) {
+      logger.error('Error in removeTask (daily log)', error)
+      throw error
+    }
+  }
+
+  /**
+   * 予定を指定した順に並べ替える
+   * taskIds はその日の予定のタスクと一致している必要がある
+   */
+  async reorder(userId: string, date: string, taskIds: string[]): Promise<void> {
+    try {
+      const planItems = await this.getPlanItems(userId, date)
+      const planned = new Set(planItems.map(item => item.task_id))
+      if (taskIds.length !== planned.size || new Set(taskIds).size !== taskIds.length || !taskIds.every(id => planned.has(id))) {
+        throw new ConflictError('並び替えに失敗しました（予定のタスクと一致しません）')
+      }
+
+      const supabase = this.getSupabase()
+      for (const [index, taskId] of taskIds.entries()) {
+        const item = planItems.find(planItem => planItem.task_id === taskId)
+        if (item?.sort_order === index) continue
+
+        const { error } = await supabase
+          .from('daily_plan_items')
+          .update({ sort_order: index })
+          .eq('user_id', userId)
+          .eq('plan_date', date)
+          .eq('task_id', taskId)
+
+        if (error) {
+          logger.error('Failed to reorder daily plan', error)
+          throw new UpstreamError('並び替えに失敗しました')
+        }
+      }
+
+      logger.info('Daily plan reordered', { userId, date, count: taskIds.length })
+    } catch (error) {
+      logger.error('Error in reorder (daily log)', error)
+      throw error
+    }
+  }
+
+  /**
+   * 未完了のタスクを翌日の予定の最後に移し、移した件数を返す
+   */
+  async carryOver(userId: string, date: string): Promise<number> {
+    try {
+      const planItems = await this.getPlanItems(userId, date)
+      const unfinished = planItems.filter(item =>
+        item.task.status !== 'completed' && item.task.status !== 'cancelled'
+      )
+      if (unfinished.length === 0) return 0
+
+      const nextDate = shiftDateKey(date, 1)
+      await this.moveItems(userId, date, nextDate, unfinished.map(item => item.task_id))
+
+      logger.info('Daily plan carried over', { userId, date, nextDate, count: unfinished.length })
+      return unfinished.length
+    } catch (error) {
+      logger.error('Error in carryOver', error)
+      throw error
+    }
+  }
+
+  /**
+   * タスクを別の日の予定の最後に移す（移動先に既にある場合は元の日から外すだけ）
+   */
+  async moveTask(userId: string, date: string, toDate: string, taskId: string): Promise<void> {
+    try {
+      await this.moveItems(userId, date, toDate, [taskId])
+      logger.info('Task moved to another day', { userId, date, toDate, taskId })
+    } catch (error) {
+      logger.error('Error in moveTask (daily log)', error)
+      throw error
+    }
+  }
+
+  private async moveItems(userId: string, date: string, toDate: string, taskIds: string[]): Promise<void> {
+    const targetItems = await this.getPlanItems(userId, toDate)
+    const planned = new Set(targetItems.map(item => item.task_id))
+    let sortOrder = this.getNextSortOrder(targetItems)
+
+    const supabase = this.getSupabase()
+    const inserts = taskIds
+      .filter(taskId => !planned.has(taskId))
+      .map(taskId => ({
+        user_id: userId,
+        task_id: taskId,
+        plan_date: toDate,
+        sort_order: sortOrder++,
+      }))
+
+    if (inserts.length > 0) {
+      const { error: insertError } = await supabase
+        .from('daily_plan_items')
+        .insert(inserts)
+
+      if (insertError) {
+        logger.error('Failed to move daily plan items', insertError)
+        throw new UpstreamError('予定の移動に失敗しました')
+      }
+    }
+
+    if (date === toDate) return
+
+    const { error: deleteError } = await supabase
+      .from('daily_plan_items')
+      .delete()
+      .eq('user_id', userId)
+      .eq('plan_date', date)
+      .in('task_id', taskIds)
+
+    if (deleteError) {
+      logger.error('Failed to remove moved daily plan items', deleteError)
+      throw new UpstreamError('予定の移動に失敗しました')
+    }
+  }
+
+  /**
+   * その日の予定（ゴミ箱に移したタスクの行は除く）
+   */
+  private async getPlanItems(userId: string, date: string): Promise<PlanItemWithTask[]> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('daily_plan_items')
+      .select(`
+        *,
+        task:tasks(
+          *,
+          category:categories(*)
+        )
+      `)
+      .eq('user_id', userId)
+      .eq('plan_date', date)
+      // ゴミ箱に移したタスクは task が null になる（行自体は残り、復元すると予定に戻る）
+      .is('task.deleted_at', null)
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      logger.error('Failed to fetch daily plan', error)
+      throw new UpstreamError('デイリーログの取得に失敗しました')
+    }
+
+    return (data || []).filter((item): item is PlanItemWithTask => item.task !== null)
+  }
+
+  /**
+   * その日を初期化済みとして記録する
+   * 初めて記録した場合のみ true を返す（同時に開いた場合も初期化は1回になる）
+   */
+  private async claimSeed(userId: string, date: string): Promise<boolean> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('daily_plan_seeds')
+      .upsert({ user_id: userId, plan_date: date }, { onConflict: 'user_id,plan_date', ignoreDuplicates: true })
+      .select()
+
+    if (error) {
+      logger.error('Failed to record daily plan seed', error)
+      throw new UpstreamError('デイリーログの作成に失敗しました')
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * その日に予定されている未完了のタスクを開始日時順に、既にある予定の後に加える
+   */
+  private async seedFromSchedule(
+    userId: string,
+    date: string,
+    timeZone: string,
+    planItems: PlanItemWithTask[]
+  ): Promise<void> {
+    const limit = DAILY_LOG_CONSTRAINTS.MAX_ITEMS_PER_DAY - planItems.length
+    if (limit <= 0) return
+
+    const tasks = await taskService.getTasks(
+      userId,
+      {
+        status: ['pending', 'in_progress'],
+        scheduled_from: parseZonedDate(date, timeZone).toISOString(),
+        scheduled_to: parseZonedDate(shiftDateKey(date, 1), timeZone).toISOString(),
+      },
+      { field: 'due_date', direction: 'asc' },
+      DAILY_LOG_CONSTRAINTS.MAX_ITEMS_PER_DAY
+    )
+    const planned = new Set(planItems.map(item => item.task_id))
+    const seeds = tasks.filter(task => !planned.has(task.id)).slice(0, limit)
+    if (seeds.length === 0) return
+
+    // 開始日時（なければ期限）の早い順。ISO 8601 の文字列同士なのでそのまま比較できる
+    const scheduledAt = (task: TaskWithCategory) => task.start_date ?? task.due_date ?? ''
+    seeds.sort((a, b) => scheduledAt(a).localeCompare(scheduledAt(b)))
+
+    const sortOrder = this.getNextSortOrder(planItems)
+    const supabase = this.getSupabase()
+    const { error } = await supabase
+      .from('daily_plan_items')
+      .upsert(
+        seeds.map((task, index) => ({
+          user_id: userId,
+          task_id: task.id,
+          plan_date: date,
+          sort_order: sortOrder + index,
+        })),
+        { onConflict: 'user_id,plan_date,task_id', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      logger.error('Failed to seed daily plan', error)
+      throw new UpstreamError('デイリーログの作成に失敗しました')
+    }
+
+    logger.info('Daily plan seeded', { userId, date, count: seeds.length })
+  }
+
+  /**
+   * その日に開始した作業記録
+   */
+  private async getTimeEntries(userId: string, date: string, timeZone: string): Promise<TimeEntry[]> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('start_time', parseZonedDate(date, timeZone).toISOString())
+      .lt('start_time', parseZonedDate(shiftDateKey(date, 1), timeZone).toISOString())
+      .order('start_time', { ascending: true })
+
+    if (error) {
+      logger.error('Failed to fetch time entries for daily log', error)
+      throw new UpstreamError('作業記録の取得に失敗しました')
+    }
+
+    return data || []
+  }
+
+  private getNextSortOrder(items: DailyPlanItem[]): number {
+    return items.reduce((max, item) => Math.max(max, item.sort_order + 1), 0)
+  }
+}
+
+// シングルトンインスタンス
+export const dailyLogService = new DailyLogService()
@@ -0,0 +1,631 @@
+/**
+ * データのエクスポート・インポートのサービス層
+ * エクスポートは CSV（タスク・作業記録）と、すべてをまとめた JSON バンドル
+ * インポートは行ごとに値を変換・検証し、dry_run では保存せずに行ごとの結果だけを返す
+ * タスクの作成は通常の作成と同じ TaskService.createTask で行う
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { AppError, ConflictError, FieldError, UpstreamError } from '@/lib/errors'
+import { toFieldErrors } from '@/lib/api/validation'
+import { formatCsv } from '@/lib/data-transfer/csv'
+import { normalizeImportValues } from '@/lib/data-transfer/import-values'
+import { formatRecurrencePattern } from '@/lib/recurrence/occurrences'
+import { findLatestInstanceIds, getInstanceBaseDate, rebasePattern } from '@/lib/recurrence/series'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { taskService } from '@/lib/services/tasks'
+import { createCategorySchema, createChecklistItemSchema, ImportRequestInput, importTaskSchema, ImportTaskInput } from '@/lib/validation/task-schemas'
+import {
+  CategoryInsert,
+  DEFAULT_CATEGORY_COLORS,
+  TASK_CONSTRAINTS,
+  TaskChecklistItemInsert,
+  TimeEntryInsert,
+} from '@/types/tasks'
+import {
+  EXPORT_BUNDLE_VERSION,
+  ExportBundle,
+  ExportDataset,
+  ExportedCategory,
+  ExportedTask,
+  ExportedTimeEntry,
+  ImportChecklistItem,
+  ImportReport,
+  ImportRowResult,
+} from '@/types/data-transfer'
+
+// 1回の取得・保存の件数
+const PAGE_SIZE = 1000
+const INSERT_CHUNK_SIZE = 200
+// 同時に作成するタスクの件数
+const CREATE_CONCURRENCY = 10
+
+const EXPORTED_TASK_COLUMNS = [
+  'id',
+  'parent_task_id',
+  'category_id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'due_date',
+  'start_date',
+  'completed_at',
+  'estimated_minutes',
+  'actual_minutes',
+  'tags',
+  'notes',
+  'is_recurring',
+  'recurrence_pattern',
+  'recurrence_series_id',
+  'recurrence_anchor',
+  'recurrence_instance_date',
+  'created_at',
+  'updated_at',
+].join(', ')
+
+// タスクの CSV の列（インポートの列の自動割り当てと同じ名前）
+const TASK_CSV_HEADER = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'category',
+  'start_date',
+  'due_date',
+  'estimated_minutes',
+  'actual_minutes',
+  'tags',
+  'notes',
+  'recurrence',
+  'completed_at',
+  'created_at',
+  'updated_at',
+]
+
+const TIME_ENTRY_CSV_HEADER = ['id', 'task_id', 'task_title', 'start_time', 'end_time', 'duration_minutes', 'description']
+
+// 取り込み対象として検証済みの行
+interface PreparedRow {
+  result: ImportRowResult
+  task: ImportTaskInput | null
+  // カテゴリ名（小文字で比較する）
+  categoryKey: string | null
+  sourceId?: string
+  parentSourceId?: string | null
+  checklist: ImportChecklistItem[]
+  // 作成したタスクのID
+  taskId?: string
+}
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: unknown }>
+
+export class DataTransferService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * すべてのデータを JSON バンドルにまとめる（ゴミ箱のものを除く）
+   */
+  async exportBundle(userId: string): Promise<ExportBundle> {
+    try {
+      const supabase = this.getSupabase()
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('timezone, language, preferences')
+        .eq('id', userId)
+        .maybeSingle()
+
+      if (profileError) {
+        logger.error('Failed to fetch profile for export', profileError)
+        throw new UpstreamError('設定の取得に失敗しました')
+      }
+
+      const [categories, tasks, timeEntries] = await Promise.all([
+        this.fetchCategories(userId),
+        this.fetchTasks(userId),
+        this.fetchTimeEntries(userId),
+      ])
+
+      const taskIds = new Set(tasks.map(task => task.id))
+
+      logger.info('Data exported', { userId, tasks: tasks.length })
+      return {
+        version: EXPORT_BUNDLE_VERSION,
+        exported_at: new Date().toISOString(),
+        preferences: {
+          timezone: profile?.timezone ?? '',
+          language: profile?.language ?? '',
+          preferences: profile?.preferences ?? {},
+        },
+        categories,
+        tasks,
+        time_entries: timeEntries.filter(entry => taskIds.has(entry.task_id)),
+      }
+    } catch (error) {
+      logger.error('Error in exportBundle', error)
+      throw error
+    }
+  }
+
+  /**
+   * タスクまたは作業記録の CSV
+   * 繰り返しタスクの RRULE はシリーズの最新の回にだけ出力する（取り込むとその回からシリーズが再開する）
+   */
+  async exportCsv(userId: string, dataset: ExportDataset): Promise<string> {
+    try {
+      const tasks = await this.fetchTasks(userId)
+
+      if (dataset === 'time_entries') {
+        const titles = new Map(tasks.map(task => [task.id, task.title]))
+        const entries = await this.fetchTimeEntries(userId)
+        return formatCsv([
+          TIME_ENTRY_CSV_HEADER,
+          ...entries
+            .filter(entry => titles.has(entry.task_id))
+            .map(entry => [
+              entry.id,
+              entry.task_id,
+              titles.get(entry.task_id),
+              entry.start_time,
+              entry.end_time,
+              entry.duration_minutes,
+              entry.description,
+            ]),
+        ])
+      }
+
+      const [categories, timeZone] = await Promise.all([
+        this.fetchCategories(userId),
+        calendarSyncService.getUserTimezone(userId),
+      ])
+      const categoryNames = new Map(categories.map(category => [category.id, category.name]))
+      const seriesHeads = findLatestInstanceIds(tasks)
+
+      return formatCsv([
+        TASK_CSV_HEADER,
+        ...tasks.map(task => [
+          task.id,
+          task.title,
+          task.description,
+          task.status,
+          task.priority,
+          task.category_id ? categoryNames.get(task.category_id) : null,
+          task.start_date,
+          task.due_date,
+          task.estimated_minutes,
+          task.actual_minutes,
+          task.tags.join(','),
+          task.notes,
+          seriesHeads.has(task.id) ? this.formatRecurrence(task, timeZone) : null,
+          task.completed_at,
+          task.created_at,
+          task.updated_at,
+        ]),
+      ])
+    } catch (error) {
+      logger.error('Error in exportCsv', error)
+      throw error
+    }
+  }
+
+  /**
+   * タスクを取り込む
+   * 見つからないカテゴリは options.create_categories に従って作成し、
+   * 既存のタスク・同じファイルの行と「タイトル・開始日時・期限」が同じ行は重複として扱う
+   */
+  async importTasks(userId: string, request: ImportRequestInput): Promise<ImportReport> {
+    try {
+      const timeZone = await calendarSyncService.getUserTimezone(userId)
+      const categories = await this.fetchCategories(userId)
+      const categoryIds = new Map(categories.map(category => [category.name.toLowerCase(), category.id]))
+
+      // 作成するカテゴリ（小文字の名前 → 表示する名前）
+      const newCategories = new Map<string, string>()
+
+      const prepared = request.rows.map(row => {
+        const normalized = normalizeImportValues(row.values, timeZone)
+        const parsed = importTaskSchema.safeParse({
+          ...normalized.input,
+          completed_at: row.completed_at ?? undefined,
+          actual_minutes: row.actual_minutes,
+        })
+
+        const errors: FieldError[] = [
+          ...normalized.errors,
+          ...(parsed.success ? [] : toFieldErrors(parsed.error).map(toImportFieldError)),
+        ]
+        const task = parsed.success ? parsed.data : null
+
+        if (task?.is_recurring && !getInstanceBaseDate({ start_date: task.start_date ?? null, due_date: task.due_date ?? null })) {
+          errors.push({ field: 'recurrence', message: '繰り返しタスクには開始日時または期限が必須です' })
+        }
+
+        let categoryKey: string | null = null
+        if (normalized.category) {
+          const name = createCategorySchema.shape.name.safeParse(normalized.category)
+          if (!name.success) {
+            errors.push({ field: 'category', message: name.error.errors[0]?.message ?? 'カテゴリ名が正しくありません' })
+          } else {
+            categoryKey = name.data.toLowerCase()
+            if (!categoryIds.has(categoryKey)) {
+              if (request.options.create_categories) {
+                if (!newCategories.has(categoryKey)) newCategories.set(categoryKey, name.data)
+              } else {
+                errors.push({ field: 'category', message: `カテゴリ「${name.data}」が見つかりません` })
+              }
+            }
+          }
+        }
+
+        const checklist = (row.checklist ?? []).flatMap(item => {
+          const title = createChecklistItemSchema.shape.title.safeParse(item.title)
+          if (title.success) return [{ title: title.data, is_done: item.is_done }]
+          errors.push({ field: 'checklist', message: `チェックリスト: ${title.error.errors[0]?.message ?? '項目名が正しくありません'}` })
+          return []
+        })
+        if (checklist.length > TASK_CONSTRAINTS.CHECKLIST_MAX_ITEMS) {
+          errors.push({ field: 'checklist', message: `チェックリストは${TASK_CONSTRAINTS.CHECKLIST_MAX_ITEMS}項目までです` })
+        }
+
+        const prepared: PreparedRow = {
+          result: {
+            row: row.row,
+            title: task?.title ?? (typeof row.values.title === 'string' ? row.values.title : ''),
+            status: errors.length > 0 ? 'error' : 'create',
+            errors,
+          },
+          task: errors.length > 0 ? null : task,
+          categoryKey,
+          sourceId: row.source_id,
+          parentSourceId: row.parent_source_id,
+          checklist,
+        }
+        return prepared
+      })
+
+      await this.markDuplicates(userId, prepared, request.options.skip_duplicates)
+
+      const importable = prepared.filter(row => row.result.status === 'create')
+      const usedCategories = new Set(importable.map(row => row.categoryKey))
+      const categoriesToCreate = Array.from(newCategories).filter(([key]) => usedCategories.has(key))
+
+      const report: ImportReport = {
+        dry_run: request.dry_run,
+        total: prepared.length,
+        created: importable.length,
+        duplicates: prepared.filter(row => row.result.status === 'duplicate').length,
+        failed: prepared.filter(row => row.result.status === 'error').length,
+        categories_created: categoriesToCreate.map(([, name]) => name),
+        time_entries_created: 0,
+        rows: prepared.map(row => row.result),
+      }
+
+      if (request.dry_run || importable.length === 0) {
+        return report
+      }
+
+      const createdCategoryIds = await this.insertCategories(userId, categoriesToCreate, request.categories ?? [])
+      createdCategoryIds.forEach((id, key) => categoryIds.set(key, id))
+
+      const taskIds = await this.insertTasks(userId, importable, categoryIds)
+      report.created = importable.filter(row => row.taskId).length
+      report.failed = prepared.filter(row => row.result.status === 'error').length
+      await this.insertChecklistItems(userId, importable)
+      report.time_entries_created = await this.insertTimeEntries(userId, request.time_entries ?? [], taskIds)
+
+      logger.info('Tasks imported', {
+        userId,
+        created: report.created,
+        categories: report.categories_created.length,
+        timeEntries: report.time_entries_created,
+      })
+      return report
+    } catch (error) {
+      logger.error('Error in importTasks', error)
+      throw error
+    }
+  }
+
+  private formatRecurrence(task: ExportedTask, timeZone: string): string | null {
+    const pattern = rebasePattern(task, timeZone)
+    const base = task.recurrence_instance_date ?? getInstanceBaseDate(task)
+    if (!pattern || !base) return null
+    return formatRecurrencePattern(pattern, new Date(base), timeZone)
+  }
+
+  /**
+   * 重複する行を duplicate にする（skip_duplicates が false の場合は duplicate_of だけを付ける）
+   */
+  private async markDuplicates(userId: string, rows: PreparedRow[], skipDuplicates: boolean): Promise<void> {
+    const candidates = rows.filter(row => row.task !== null)
+    const existing = await this.findExistingTasks(userId, Array.from(new Set(candidates.map(row => row.task!.title))))
+    const seen = new Map<string, number>()
+
+    for (const row of candidates) {
+      const key = duplicateKey(row.task!.title, row.task!.start_date, row.task!.due_date)
+      const existingId = existing.get(key)
+      const previousRow = seen.get(key)
+
+      if (existingId) {
+        row.result.duplicate_of = { task_id: existingId }
+      } else if (previousRow !== undefined) {
+        row.result.duplicate_of = { row: previousRow }
+      } else {
+        seen.set(key, row.result.row)
+        continue
+      }
+
+      if (skipDuplicates) row.result.status = 'duplicate'
+    }
+  }
+
+  private async findExistingTasks(userId: string, titles: string[]): Promise<Map<string, string>> {
+    const existing = new Map<string, string>()
+    const supabase = this.getSupabase()
+
+    // URL の長さを抑えるため分割して問い合わせる
+    for (const chunk of chunked(titles, 50)) {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, start_date, due_date')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .in('title', chunk)
+
+      if (error) {
+        logger.error('Failed to fetch tasks for duplicate check', error)
+        throw new UpstreamError('重複の確認に失敗しました')
+      }
+
+      for (const task of data || []) {
+        existing.set(duplicateKey(task.title, task.start_date, task.due_date), task.id)
+      }
+    }
+    return existing
+  }
+
+  private async insertCategories(
+    userId: string,
+    categories: [string, string][],
+    details: NonNullable<ImportRequestInput['categories']>
+  ): Promise<Map<string, string>> {
+    const created = new Map<string, string>()
+    if (categories.length === 0) return created
+
+    const detailsByName = new Map(details.map(detail => [detail.name.trim().toLowerCase(), detail]))
+    const inserts: CategoryInsert[] = categories.map(([key, name], index) => {
+      const detail = detailsByName.get(key)
+      // 色などが不正な場合は名前だけで作成する
+      const parsed = createCategorySchema.safeParse({
+        name,
+        description: detail?.description ?? undefined,
+        color: detail?.color ?? DEFAULT_CATEGORY_COLORS[index % DEFAULT_CATEGORY_COLORS.length],
+        icon: detail?.icon ?? undefined,
+      })
+      return { ...(parsed.success ? parsed.data : { name }), user_id: userId }
+    })
+
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('categories')
+      .insert(inserts)
+      .select('id, name')
+
+    if (error) {
+      logger.error('Failed to create categories for import', error)
+      if (error.code === '23505') {
+        throw new ConflictError('カテゴリの作成に失敗しました（同じ名前のカテゴリが既にあります）', 'DUPLICATE')
+      }
+      throw new UpstreamError('カテゴリの作成に失敗しました')
+    }
+
+    for (const category of data || []) {
+      created.set(category.name.toLowerCase(), category.id)
+    }
+    return created
+  }
+
+  /**
+   * タスクを親から順に作成し、元のID → 作成したタスクのIDを返す
+   * ID は事前に採番し、子タスクの parent_task_id に使う
+   * 作成できなかった行（とそのサブタスク）は行ごとの結果をエラーにして続ける
+   */
+  private async insertTasks(
+    userId: string,
+    rows: PreparedRow[],
+    categoryIds: Map<string, string>
+  ): Promise<Map<string, string>> {
+    const sourceIds = new Set(rows.map(row => row.sourceId).filter(Boolean))
+    const created = new Map<string, string>()
+    const failed = new Set<string>()
+    const now = new Date().toISOString()
+
+    const isSettled = (sourceId: string) => created.has(sourceId) || failed.has(sourceId)
+
+    let pending = rows
+    while (pending.length > 0) {
+      // 親がこの取り込みに含まれない行、または親の作成を終えた行
+      const ready = pending.filter(row =>
+        !row.parentSourceId || !sourceIds.has(row.parentSourceId) || isSettled(row.parentSourceId)
+      )
+      // 親子関係が循環している行は親なしで作成する
+      const level = ready.length > 0 ? ready : pending
+
+      for (const chunk of chunked(level, CREATE_CONCURRENCY)) {
+        await Promise.all(chunk.map(async row => {
+          const parentSourceId = row.parentSourceId ?? null
+          if (parentSourceId && failed.has(parentSourceId)) {
+            this.markRowFailed(row, '親タスクを取り込めなかったため取り込めません')
+            if (row.sourceId) failed.add(row.sourceId)
+            return
+          }
+
+          const task = row.task!
+          const id = crypto.randomUUID()
+          try {
+            await taskService.createTask(userId, {
+              ...task,
+              id,
+              category_id: row.categoryKey ? categoryIds.get(row.categoryKey) ?? null : null,
+              parent_task_id: parentSourceId ? created.get(parentSourceId) ?? null : null,
+              completed_at: task.status === 'completed' ? task.completed_at ?? now : null,
+            })
+            row.taskId = id
+            if (row.sourceId) created.set(row.sourceId, id)
+          } catch (error) {
+            this.markRowFailed(row, error instanceof AppError ? error.message : 'タスクの作成に失敗しました')
+            if (row.sourceId) failed.add(row.sourceId)
+          }
+        }))
+      }
+
+      const levelSet = new Set(level)
+      pending = pending.filter(row => !levelSet.has(row))
+    }
+
+    return created
+  }
+
+  private markRowFailed(row: PreparedRow, message: string): void {
+    row.result.status = 'error'
+    row.result.errors.push({ field: 'task', message })
+  }
+
+  private async insertChecklistItems(userId: string, rows: PreparedRow[]): Promise<void> {
+    const inserts: TaskChecklistItemInsert[] = rows.flatMap(row =>
+      row.taskId
+        ? row.checklist.map((item, index) => ({
+          user_id: userId,
+          task_id: row.taskId!,
+          title: item.title,
+          is_done: item.is_done,
+          position: index,
+        }))
+        : []
+    )
+
+    const supabase = this.getSupabase()
+    for (const chunk of chunked(inserts, INSERT_CHUNK_SIZE)) {
+      const { error } = await supabase.from('task_checklist_items').insert(chunk)
+      if (error) {
+        logger.error('Failed to insert imported checklist items', error)
+        throw new UpstreamError('チェックリストの取り込みに失敗しました（タスクは作成済みです）')
+      }
+    }
+  }
+
+  private async insertTimeEntries(
+    userId: string,
+    entries: NonNullable<ImportRequestInput['time_entries']>,
+    taskIds: Map<string, string>
+  ): Promise<number> {
+    const inserts: TimeEntryInsert[] = entries
+      .filter(entry => taskIds.has(entry.task_source_id))
+      .map(entry => {
+        const start = new Date(entry.start_time)
+        const end = new Date(entry.end_time)
+        return {
+          user_id: userId,
+          task_id: taskIds.get(entry.task_source_id)!,
+          start_time: start.toISOString(),
+          end_time: end.toISOString(),
+          duration_minutes: Math.round((end.getTime() - start.getTime()) / 60000),
+          description: entry.description?.slice(0, 500) ?? null,
+        }
+      })
+      .filter(entry => entry.duration_minutes >= 0)
+
+    const supabase = this.getSupabase()
+    for (const chunk of chunked(inserts, INSERT_CHUNK_SIZE)) {
+      const { error } = await supabase.from('time_entries').insert(chunk)
+      if (error) {
+        logger.error('Failed to insert imported time entries', error)
+        throw new UpstreamError('作業記録の取り込みに失敗しました（タスクは作成済みです）')
+      }
+    }
+    return inserts.length
+  }
+
+  private async fetchCategories(userId: string): Promise<ExportedCategory[]> {
+    return this.fetchAll('categories', (from, to) =>
+      this.getSupabase()
+        .from('categories')
+        .select('id, name, description, color, icon, sort_order')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('sort_order', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    )
+  }
+
+  private async fetchTasks(userId: string): Promise<ExportedTask[]> {
+    return this.fetchAll('tasks', (from, to) =>
+      this.getSupabase()
+        .from('tasks')
+        .select(EXPORTED_TASK_COLUMNS)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+        .returns<ExportedTask[]>()
+    )
+  }
+
+  private async fetchTimeEntries(userId: string): Promise<ExportedTimeEntry[]> {
+    return this.fetchAll('time entries', (from, to) =>
+      this.getSupabase()
+        .from('time_entries')
+        .select('id, task_id, start_time, end_time, duration_minutes, description')
+        .eq('user_id', userId)
+        .not('end_time', 'is', null)
+        .order('start_time', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    )
+  }
+
+  // 1回の取得件数の上限を超えるデータをページごとに取得する
+  private async fetchAll<T>(label: string, fetchPage: (from: number, to: number) => PageResult<T>): Promise<T[]> {
+    const rows: T[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+      if (error) {
+        logger.error(`Failed to fetch ${label} for export`, error)
+        throw new UpstreamError('データの取得に失敗しました')
+      }
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) return rows
+    }
+  }
+}
+
+function duplicateKey(title: string, startDate?: string | null, dueDate?: string | null): string {
+  const toKey = (value?: string | null) => (value ? new Date(value).toISOString() : '')
+  return [title.trim(), toKey(startDate), toKey(dueDate)].join('\u0000')
+}
+
+// スキーマの項目名を取り込みの項目名に揃える
+function toImportFieldError(error: FieldError): FieldError {
+  if (error.field.startsWith('recurrence_pattern') || error.field === 'is_recurring') {
+    return { ...error, field: 'recurrence' }
+  }
+  return error
+}
+
+function chunked<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// シングルトンインスタンス
+export const dataTransferService = new DataTransferService()
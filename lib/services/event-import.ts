@@ -0,0 +1,277 @@
+/**
+ * 既存の予定からタスクを生成するサービス層
+ * Google カレンダーまたはアップロードされた .ics の予定を取り込む
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { AppError, ConflictError, NotFoundError, UpstreamError, ValidationError } from '@/lib/errors'
+import { parseICalendar } from '@/lib/ical/parser'
+import { parseZonedDate } from '@/lib/timezone'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { computeTaskSyncHash, eventToTaskUpdate } from '@/lib/google-calendar/mapping'
+import { CalendarEvent, CalendarEventTime, TASK_ID_PROPERTY } from '@/lib/google-calendar/types'
+import { createTaskSchema } from '@/lib/validation/task-schemas'
+import { TASK_CONSTRAINTS, TaskInsert } from '@/types/tasks'
+import { EventImportResult, EventImportSource, ImportableEvent } from '@/types/calendar'
+
+// .ics ファイルの最大サイズ
+export const ICS_MAX_LENGTH = 2 * 1024 * 1024
+// 一度に取り込めるイベント数
+export const IMPORT_MAX_EVENTS = 200
+
+export interface EventImportRequest {
+  source: EventImportSource
+  event_ids: string[]
+  // source が ics の場合のファイル内容
+  ics?: string
+  category_id?: string | null
+}
+
+export class EventImportService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * Google カレンダーの指定期間の予定を取り込み候補として返す
+   */
+  async listGoogleEvents(userId: string, from: string, to: string): Promise<ImportableEvent[]> {
+    try {
+      const provider = await calendarSyncService.getProvider(userId)
+      const { events } = await provider.listEvents({ timeMin: from, timeMax: to })
+      return this.toImportableEvents(userId, events)
+    } catch (error) {
+      logger.error('Error in listGoogleEvents', error)
+      // 未連携などのアプリのエラーはそのまま返す
+      if (error instanceof AppError) throw error
+      throw new UpstreamError('Googleカレンダーの予定の取得に失敗しました', 'CALENDAR_API_ERROR')
+    }
+  }
+
+  /**
+   * .ics の内容から指定期間の予定を取り込み候補として返す
+   */
+  async listIcsEvents(userId: string, content: string, from: string, to: string): Promise<ImportableEvent[]> {
+    const events = await this.parseIcs(userId, content)
+    const timeZone = await calendarSyncService.getUserTimezone(userId)
+    const rangeStart = new Date(from).getTime()
+    const rangeEnd = new Date(to).getTime()
+
+    const inRange = events.filter(event => {
+      const { start, end } = this.getEventBounds(event, timeZone)
+      return start < rangeEnd && end > rangeStart
+    })
+    return this.toImportableEvents(userId, inRange)
+  }
+
+  /**
+   * 選択された予定をタスクとして作成する
+   * 取り込み済みの予定はスキップする
+   */
+  async importEvents(userId: string, request: EventImportRequest): Promise<EventImportResult> {
+    const ids = new Set(request.event_ids)
+    if (ids.size === 0) {
+      throw new ValidationError('取り込む予定の選択は必須です')
+    }
+    if (ids.size > IMPORT_MAX_EVENTS) {
+      throw new ValidationError(`予定の取り込みに失敗しました（一度に${IMPORT_MAX_EVENTS}件まで）`)
+    }
+
+    // クライアントの値は信用せず、元の予定を取得し直す
+    const events = request.source === 'google'
+      ? await this.fetchGoogleEvents(userId, Array.from(ids))
+      : (await this.parseIcs(userId, request.ics ?? '')).filter(event => ids.has(event.id))
+
+    const categoryId = request.category_id || null
+    if (categoryId) {
+      await this.assertCategoryExists(userId, categoryId)
+    }
+
+    const timeZone = await calendarSyncService.getUserTimezone(userId)
+    const existing = await this.findLinkedTasks(userId, events.map(event => event.id))
+    const now = new Date().toISOString()
+
+    const inserts: TaskInsert[] = []
+    for (const event of events) {
+      if (!this.isImportable(event) || existing.has(event.id)) continue
+
+      const update = eventToTaskUpdate(event, timeZone)
+      // 予定のタイトル・説明はタスクの上限を超えることがあるため切り詰める
+      const parsed = createTaskSchema.safeParse({
+        title: update.title!.slice(0, TASK_CONSTRAINTS.TITLE_MAX_LENGTH),
+        description: update.description?.slice(0, TASK_CONSTRAINTS.DESCRIPTION_MAX_LENGTH),
+        start_date: update.start_date ?? undefined,
+        estimated_minutes: update.estimated_minutes ?? 0,
+      })
+      if (!parsed.success) {
+        // タスクにできない予定（長すぎる予定など）はスキップする
+        logger.warn('Skipped event that cannot be imported as a task', {
+          userId,
+          eventId: event.id,
+          issue: parsed.error.errors[0]?.message,
+        })
+        continue
+      }
+
+      const task = {
+        title: parsed.data.title,
+        description: parsed.data.description ?? null,
+        start_date: parsed.data.start_date ?? null,
+        estimated_minutes: parsed.data.estimated_minutes,
+        status: 'pending' as const,
+      }
+
+      inserts.push({
+        ...task,
+        user_id: userId,
+        priority: 'medium',
+        category_id: categoryId,
+        google_calendar_event_id: event.id,
+        // Google の予定は同期済みの状態で紐付ける
+        ...(request.source === 'google' && {
+          google_calendar_etag: event.etag,
+          google_calendar_sync_hash: computeTaskSyncHash(task),
+          google_calendar_synced_at: now,
+        }),
+      })
+    }
+
+    if (inserts.length > 0) {
+      const supabase = this.getSupabase()
+      const { error } = await supabase.from('tasks').insert(inserts)
+
+      if (error) {
+        logger.error('Failed to import events as tasks', error)
+        if (error.code === '23505') {
+          throw new ConflictError('予定の取り込みに失敗しました（同じ予定が既に取り込まれています）', 'DUPLICATE')
+        }
+        throw new UpstreamError('予定の取り込みに失敗しました')
+      }
+    }
+
+    logger.info('Events imported as tasks', {
+      userId,
+      source: request.source,
+      created: inserts.length,
+    })
+
+    return {
+      created: inserts.length,
+      skipped: ids.size - inserts.length,
+    }
+  }
+
+  private async assertCategoryExists(userId: string, categoryId: string): Promise<void> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('categories')
+      .select('id')
+      .eq('id', categoryId)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch category for import', error)
+      throw new UpstreamError('カテゴリの取得に失敗しました')
+    }
+    if (!data) {
+      throw new NotFoundError('カテゴリが見つかりません')
+    }
+  }
+
+  private async fetchGoogleEvents(userId: string, eventIds: string[]): Promise<CalendarEvent[]> {
+    const provider = await calendarSyncService.getProvider(userId)
+    try {
+      const events = await Promise.all(eventIds.map(id => provider.getEvent(id)))
+      return events.filter((event): event is CalendarEvent => event !== null)
+    } catch (error) {
+      logger.error('Failed to fetch Google events for import', error)
+      throw new UpstreamError('Googleカレンダーの予定の取得に失敗しました', 'CALENDAR_API_ERROR')
+    }
+  }
+
+  private async parseIcs(userId: string, content: string): Promise<CalendarEvent[]> {
+    if (!content.trim()) {
+      throw new ValidationError('.ics ファイルの内容は必須です')
+    }
+    if (content.length > ICS_MAX_LENGTH) {
+      throw new ValidationError('.ics ファイルの読み込みに失敗しました（2MBまで）')
+    }
+    if (!content.includes('BEGIN:VCALENDAR')) {
+      throw new ValidationError('.ics ファイルの読み込みに失敗しました（形式が正しくありません）')
+    }
+
+    const timeZone = await calendarSyncService.getUserTimezone(userId)
+    return parseICalendar(content, timeZone)
+  }
+
+  /**
+   * 取り込み対象にできる予定か
+   * キャンセル済みの予定と、TaskShoot から送信した予定は除く
+   */
+  private isImportable(event: CalendarEvent): boolean {
+    return event.status !== 'cancelled' && !event.extendedProperties?.private?.[TASK_ID_PROPERTY]
+  }
+
+  private async findLinkedTasks(userId: string, eventIds: string[]): Promise<Map<string, string>> {
+    const linked = new Map<string, string>()
+    if (eventIds.length === 0) return linked
+
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, google_calendar_event_id')
+      .eq('user_id', userId)
+      .in('google_calendar_event_id', eventIds)
+
+    if (error) {
+      logger.error('Failed to fetch linked tasks', error)
+      throw new UpstreamError('取り込み済みタスクの確認に失敗しました')
+    }
+
+    for (const row of data || []) {
+      if (row.google_calendar_event_id) {
+        linked.set(row.google_calendar_event_id, row.id)
+      }
+    }
+    return linked
+  }
+
+  private async toImportableEvents(userId: string, events: CalendarEvent[]): Promise<ImportableEvent[]> {
+    const importable = events.filter(event => this.isImportable(event))
+    const timeZone = await calendarSyncService.getUserTimezone(userId)
+    const linked = await this.findLinkedTasks(userId, importable.map(event => event.id))
+
+    return importable
+      .map(event => {
+        const update = eventToTaskUpdate(event, timeZone)
+        return {
+          event_id: event.id,
+          title: update.title!,
+          description: update.description ?? null,
+          start_date: update.start_date!,
+          estimated_minutes: update.estimated_minutes ?? 0,
+          all_day: !event.start?.dateTime,
+          task_id: linked.get(event.id) ?? null,
+        }
+      })
+      .filter(event => Boolean(event.start_date))
+      .sort((a, b) => a.start_date.localeCompare(b.start_date))
+  }
+
+  private getEventBounds(event: CalendarEvent, timeZone: string): { start: number; end: number } {
+    const toTime = (value?: CalendarEventTime) => {
+      if (value?.dateTime) return new Date(value.dateTime).getTime()
+      if (value?.date) return parseZonedDate(value.date, timeZone).getTime()
+      return null
+    }
+
+    const start = toTime(event.start) ?? 0
+    return { start, end: toTime(event.end) ?? start }
+  }
+}
+
+// シングルトンインスタンス
+export const eventImportService = new EventImportService()
@@ -0,0 +1,394 @@
+/**
+ * 繰り返しタスクのサービス層
+ * 完了時の次の回の作成と、「この回のみ / これ以降 / すべて」の更新・削除を扱う
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { UpstreamError } from '@/lib/errors'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import { taskService } from '@/lib/services/tasks'
+import {
+  countOccurrencesBefore,
+  getNextOccurrence,
+  parseRecurrencePattern,
+} from '@/lib/recurrence/occurrences'
+import {
+  buildNextInstance,
+  endPatternBefore,
+  getInstanceBaseDate,
+  initializeSeries,
+  skipPatternOccurrences,
+} from '@/lib/recurrence/series'
+import { RecurrenceScope, Task, TaskUpdate, buildTaskTrashUpdate } from '@/types/tasks'
+
+// 状態・実績に関するフィールドは常に操作した回だけに適用する
+const INSTANCE_ONLY_FIELDS = ['status', 'completed_at', 'actual_minutes', 'start_date', 'due_date'] as const
+
+export class RecurrenceService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * 範囲を指定してタスクを更新する
+   * 完了にした場合は次の回を作成する
+   * expectedUpdatedAt を指定すると、操作したタスクがその版から変更されている場合は更新しない（TASK_CONFLICT）
+   */
+  async updateTask(
+    userId: string,
+    taskId: string,
+    updates: Omit<TaskUpdate, 'user_id' | 'id'>,
+    scope: RecurrenceScope = 'this',
+    expectedUpdatedAt?: string
+  ): Promise<Task | null> {
+    const current = await taskService.getTaskById(userId, taskId)
+    if (!current) return null
+
+    // 通常のタスクを繰り返しに変更した場合はこの回を初回としてシリーズを始める
+    if (!current.recurrence_series_id) {
+      const series = initializeSeries({ ...current, ...updates })
+      if (series.recurrence_series_id) {
+        updates = {
+          ...updates,
+          recurrence_series_id: series.recurrence_series_id,
+          recurrence_anchor: series.recurrence_anchor,
+          recurrence_instance_date: series.recurrence_instance_date,
+        }
+      }
+    }
+
+    let task: Task
+    if (current.recurrence_series_id && scope !== 'this') {
+      if (expectedUpdatedAt) {
+        await taskService.claimTaskVersion(userId, taskId, expectedUpdatedAt)
+      }
+      task = await this.updateSeries(userId, current, updates, scope)
+    } else {
+      task = await taskService.updateTask(userId, taskId, updates, expectedUpdatedAt)
+    }
+
+    if (updates.status === 'completed' && current.status !== 'completed') {
+      await this.createNextInstance(userId, task)
+    }
+
+    return task
+  }
+
+  /**
+   * 範囲を指定してタスクをゴミ箱に移し、移す前のタスクを返す
+   * expectedUpdatedAt を指定すると、操作したタスクがその版から変更されている場合は移さない（TASK_CONFLICT）
+   */
+  async deleteTask(
+    userId: string,
+    taskId: string,
+    scope: RecurrenceScope = 'this',
+    expectedUpdatedAt?: string
+  ): Promise<Task[]> {
+    const current = await taskService.getTaskById(userId, taskId)
+    if (!current) return []
+
+    if (!current.recurrence_series_id || scope === 'this') {
+      await taskService.deleteTask(userId, taskId, expectedUpdatedAt)
+      // 未完了の回を削除した場合はその回を飛ばしてシリーズを続ける
+      if (current.recurrence_series_id && current.status !== 'completed' && current.status !== 'cancelled') {
+        await this.createNextInstance(userId, current)
+      }
+      return [current]
+    }
+
+    if (expectedUpdatedAt) {
+      await taskService.claimTaskVersion(userId, taskId, expectedUpdatedAt)
+    }
+
+    try {
+      const supabase = this.getSupabase()
+      let targetQuery = supabase
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('recurrence_series_id', current.recurrence_series_id)
+        .is('deleted_at', null)
+
+      if (scope === 'following') {
+        targetQuery = targetQuery.gte('recurrence_instance_date', current.recurrence_instance_date!)
+      }
+
+      // 連携済みのカレンダーイベントを削除できるよう、移す前の内容を取得しておく
+      const { data, error: targetError } = await targetQuery
+
+      if (targetError) {
+        logger.error('Failed to fetch recurring tasks', targetError)
+        throw new UpstreamError('繰り返しタスクの削除に失敗しました')
+      }
+
+      const { error } = await supabase
+        .from('tasks')
+        .update(buildTaskTrashUpdate())
+        .eq('user_id', userId)
+        .in('id', (data || []).map(task => task.id))
+
+      if (error) {
+        logger.error('Failed to delete recurring tasks', error)
+        throw new UpstreamError('繰り返しタスクの削除に失敗しました')
+      }
+
+      if (scope === 'following') {
+        await this.endSeriesBefore(userId, current)
+      }
+
+      logger.info('Recurring tasks moved to trash', {
+        userId,
+        seriesId: current.recurrence_series_id,
+        scope,
+        count: data?.length ?? 0,
+      })
+      return data || []
+    } catch (error) {
+      logger.error('Error in deleteTask (recurrence)', error)
+      throw error
+    }
+  }
+
+  /**
+   * 次の回を作成する
+   * シリーズが終了している場合や、既に後の回がある場合は何もしない
+   */
+  async createNextInstance(userId: string, task: Task): Promise<Task | null> {
+    const pattern = parseRecurrencePattern(task.recurrence_pattern)
+    if (!task.is_recurring || !pattern || !task.recurrence_series_id || !task.recurrence_anchor || !task.recurrence_instance_date) {
+      return null
+    }
+
+    try {
+      const timeZone = await this.getUserTimezone(userId)
+      const next = getNextOccurrence(
+        pattern,
+        new Date(task.recurrence_anchor),
+        timeZone,
+        new Date(task.recurrence_instance_date)
+      )
+      if (!next) {
+        logger.info('Recurring series has ended', { userId, seriesId: task.recurrence_series_id })
+        return null
+      }
+
+      const supabase = this.getSupabase()
+      const { data: later, error: laterError } = await supabase
+        .from('tasks')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('recurrence_series_id', task.recurrence_series_id)
+        .gt('recurrence_instance_date', task.recurrence_instance_date)
+        .is('deleted_at', null)
+        .limit(1)
+
+      if (laterError) {
+        logger.error('Failed to check later occurrences', laterError)
+        throw new UpstreamError('繰り返しタスクの作成に失敗しました')
+      }
+      if (later && later.length > 0) return null
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert(buildNextInstance(task, next.date))
+        .select()
+        .single()
+
+      if (error) {
+        // 同時に完了された場合など、既に作成済み
+        if (error.code === '23505') return null
+        logger.error('Failed to create next occurrence', error)
+        throw new UpstreamError('繰り返しタスクの作成に失敗しました')
+      }
+
+      logger.info('Next occurrence created', {
+        userId,
+        seriesId: task.recurrence_series_id,
+        taskId: data.id,
+        index: next.index,
+      })
+      return data
+    } catch (error) {
+      logger.error('Error in createNextInstance', error)
+      throw error
+    }
+  }
+
+  /**
+   * 「これ以降」「すべて」の更新
+   * 完了・キャンセル済みの回は履歴として変更しない
+   */
+  private async updateSeries(
+    userId: string,
+    current: Task,
+    updates: Omit<TaskUpdate, 'user_id' | 'id'>,
+    scope: Exclude<RecurrenceScope, 'this'>
+  ): Promise<Task> {
+    const supabase = this.getSupabase()
+    const shared: TaskUpdate = { ...updates }
+    for (const field of INSTANCE_ONLY_FIELDS) {
+      delete shared[field]
+    }
+
+    // 基準日時の移動量は他の回にも同じだけ適用する
+    const baseField = current.start_date ? 'start_date' : 'due_date'
+    const newBase = updates[baseField]
+    const oldBase = getInstanceBaseDate(current)
+    const shift = newBase && oldBase ? new Date(newBase).getTime() - new Date(oldBase).getTime() : 0
+
+    // 初回から「これ以降」を選んだ場合はすべてと同じ
+    const isFirst = current.recurrence_instance_date === current.recurrence_anchor
+    const splitSeries = scope === 'following' && !isFirst
+
+    const seriesUpdates: TaskUpdate = {}
+    if (splitSeries) {
+      seriesUpdates.recurrence_series_id = crypto.randomUUID()
+      seriesUpdates.recurrence_anchor = this.shiftDate(current.recurrence_instance_date!, shift)
+      seriesUpdates.recurrence_pattern = await this.getSplitPattern(userId, current, updates)
+    } else {
+      if (shift !== 0) {
+        seriesUpdates.recurrence_anchor = this.shiftDate(current.recurrence_anchor!, shift)
+      }
+      if (updates.recurrence_pattern !== undefined) {
+        seriesUpdates.recurrence_pattern = updates.recurrence_pattern
+      }
+    }
+
+    try {
+      let query = supabase
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('recurrence_series_id', current.recurrence_series_id!)
+        .not('status', 'in', '(completed,cancelled)')
+        .neq('id', current.id)
+        .is('deleted_at', null)
+
+      if (scope === 'following') {
+        query = query.gte('recurrence_instance_date', current.recurrence_instance_date!)
+      }
+
+      const { data: targets, error } = await query
+
+      if (error) {
+        logger.error('Failed to fetch recurring tasks', error)
+        throw new UpstreamError('繰り返しタスクの更新に失敗しました')
+      }
+
+      // シリーズ全体で共有する値（アンカー・ルール）は完了済みの回にも反映する
+      if (!splitSeries && Object.keys(seriesUpdates).length > 0) {
+        const { error: seriesError } = await supabase
+          .from('tasks')
+          .update(seriesUpdates)
+          .eq('user_id', userId)
+          .eq('recurrence_series_id', current.recurrence_series_id!)
+
+        if (seriesError) {
+          logger.error('Failed to update recurring series', seriesError)
+          throw new UpstreamError('繰り返しタスクの更新に失敗しました')
+        }
+      }
+
+      for (const target of targets || []) {
+        await taskService.updateTask(userId, target.id, {
+          ...shared,
+          ...(splitSeries && seriesUpdates),
+          ...this.shiftSchedule(target, shift),
+        })
+      }
+
+      const task = await taskService.updateTask(userId, current.id, {
+        ...updates,
+        ...(splitSeries && seriesUpdates),
+        recurrence_instance_date: this.shiftDate(current.recurrence_instance_date!, shift),
+      })
+
+      if (splitSeries) {
+        await this.endSeriesBefore(userId, current)
+      }
+
+      logger.info('Recurring tasks updated', {
+        userId,
+        seriesId: current.recurrence_series_id,
+        scope,
+        count: (targets?.length ?? 0) + 1,
+      })
+      return task
+    } catch (error) {
+      logger.error('Error in updateSeries', error)
+      throw error
+    }
+  }
+
+  /**
+   * 分割後のシリーズのルール
+   * 回数指定がある場合は残りの回数に減らす
+   */
+  private async getSplitPattern(
+    userId: string,
+    current: Task,
+    updates: Omit<TaskUpdate, 'user_id' | 'id'>
+  ): Promise<Task['recurrence_pattern']> {
+    if (updates.recurrence_pattern !== undefined) return updates.recurrence_pattern
+
+    const pattern = parseRecurrencePattern(current.recurrence_pattern)
+    if (!pattern) return current.recurrence_pattern
+
+    const timeZone = await this.getUserTimezone(userId)
+    const index = countOccurrencesBefore(
+      pattern,
+      new Date(current.recurrence_anchor!),
+      timeZone,
+      new Date(current.recurrence_instance_date!)
+    )
+    return skipPatternOccurrences(pattern, index)
+  }
+
+  /**
+   * 指定した回より前の回だけが残るよう、シリーズの終了日を設定する
+   */
+  private async endSeriesBefore(userId: string, current: Task): Promise<void> {
+    const supabase = this.getSupabase()
+    const { error } = await supabase
+      .from('tasks')
+      .update({ recurrence_pattern: endPatternBefore(current.recurrence_pattern, current.recurrence_instance_date!) })
+      .eq('user_id', userId)
+      .eq('recurrence_series_id', current.recurrence_series_id!)
+      .lt('recurrence_instance_date', current.recurrence_instance_date!)
+
+    if (error) {
+      logger.error('Failed to end recurring series', error)
+      throw new UpstreamError('繰り返しタスクの更新に失敗しました')
+    }
+  }
+
+  private shiftSchedule(task: Task, shift: number): TaskUpdate {
+    if (shift === 0) return {}
+    return {
+      start_date: task.start_date ? this.shiftDate(task.start_date, shift) : null,
+      due_date: task.due_date ? this.shiftDate(task.due_date, shift) : null,
+      recurrence_instance_date: task.recurrence_instance_date
+        ? this.shiftDate(task.recurrence_instance_date, shift)
+        : null,
+    }
+  }
+
+  private shiftDate(value: string, shift: number): string {
+    return new Date(new Date(value).getTime() + shift).toISOString()
+  }
+
+  private async getUserTimezone(userId: string): Promise<string> {
+    const supabase = this.getSupabase()
+    const { data } = await supabase
+      .from('profiles')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle()
+
+    return data?.timezone || DEFAULT_TIMEZONE
+  }
+}
+
+// シングルトンインスタンス
+export const recurrenceService = new RecurrenceService()
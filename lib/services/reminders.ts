@@ -0,0 +1,490 @@
+/**
+ * リマインダーのサービス層
+ * タスクごとの通知・既定の通知設定・受信箱・Web Push の購読の永続化と、
+ * スケジューラーへの依存注入（全ユーザー分を扱うためサービスロールのクライアントを使う）を行う
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { logger } from '@/lib/logger'
+import { env } from '@/lib/env'
+import { ConflictError, ForbiddenError, NotFoundError, UpstreamError, ValidationError } from '@/lib/errors'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import { ReminderScheduler } from '@/lib/reminders/scheduler'
+import { resolveReminderPolicy } from '@/lib/reminders/schedule'
+import {
+  EmailReminderChannel,
+  InAppReminderChannel,
+  ResendEmailTransport,
+  WebPushReminderChannel,
+} from '@/lib/reminders/channels'
+import { WebPushSender } from '@/lib/reminders/web-push'
+import { PushSubscriptionStore, ReminderChannel, ReminderStore, ReminderTask } from '@/lib/reminders/types'
+import { CreateTaskReminderInput, PushSubscriptionInput } from '@/lib/validation/task-schemas'
+import { Json } from '@/types/database'
+import {
+  REMINDER_CHANNEL_CONFIG,
+  REMINDER_CONSTRAINTS,
+  ReminderChannelName,
+  ReminderNotification,
+  ReminderPolicy,
+  ReminderRunResult,
+  ReminderSettings,
+  TaskReminder,
+} from '@/types/reminders'
+
+// スケジューラーが1回に取得する件数
+const PAGE_SIZE = 1000
+const IN_CHUNK_SIZE = 100
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+export class ReminderService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  async getTaskReminders(userId: string, taskId: string): Promise<TaskReminder[]> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_reminders')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('task_id', taskId)
+        .order('anchor', { ascending: false })
+        .order('offset_minutes', { ascending: false })
+
+      if (error) {
+        logger.error('Failed to fetch task reminders', error)
+        throw new UpstreamError('通知の取得に失敗しました')
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error('Error in getTaskReminders', error)
+      throw error
+    }
+  }
+
+  /**
+   * タスクに通知を追加する（タスクに通知を設定すると既定の通知設定は適用しない）
+   */
+  async addTaskReminder(userId: string, taskId: string, input: CreateTaskReminderInput): Promise<TaskReminder> {
+    try {
+      const reminders = await this.getTaskReminders(userId, taskId)
+      if (reminders.length >= REMINDER_CONSTRAINTS.MAX_PER_TASK) {
+        throw new ValidationError(
+          `通知は1つのタスクに${REMINDER_CONSTRAINTS.MAX_PER_TASK}件までです`,
+          'REMINDER_LIMIT_EXCEEDED'
+        )
+      }
+
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_reminders')
+        .insert({
+          user_id: userId,
+          task_id: taskId,
+          anchor: input.anchor,
+          offset_minutes: input.offset_minutes,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new ConflictError('同じタイミングの通知が既にあります', 'DUPLICATE')
+        }
+        logger.error('Failed to add task reminder', error)
+        throw new UpstreamError('通知の追加に失敗しました')
+      }
+
+      logger.info('Task reminder added', { userId, taskId, reminderId: data.id })
+      return data
+    } catch (error) {
+      logger.error('Error in addTaskReminder', error)
+      throw error
+    }
+  }
+
+  async deleteTaskReminder(userId: string, taskId: string, reminderId: string): Promise<void> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_reminders')
+        .delete()
+        .eq('user_id', userId)
+        .eq('task_id', taskId)
+        .eq('id', reminderId)
+        .select('id')
+
+      if (error) {
+        logger.error('Failed to delete task reminder', error)
+        throw new UpstreamError('通知の削除に失敗しました')
+      }
+      if (!data || data.length === 0) {
+        throw new NotFoundError('通知が見つかりません', 'REMINDER_NOT_FOUND')
+      }
+
+      logger.info('Task reminder deleted', { userId, taskId, reminderId })
+    } catch (error) {
+      logger.error('Error in deleteTaskReminder', error)
+      throw error
+    }
+  }
+
+  async getSettings(userId: string): Promise<ReminderSettings> {
+    try {
+      const preferences = await this.getPreferences(userId)
+      return this.toSettings(resolveReminderPolicy(preferences))
+    } catch (error) {
+      logger.error('Error in getReminderSettings', error)
+      throw error
+    }
+  }
+
+  /**
+   * 既定の通知設定を profiles.preferences.reminders に保存する（他の設定はそのまま）
+   */
+  async updatePolicy(userId: string, policy: ReminderPolicy): Promise<ReminderSettings> {
+    try {
+      const available = this.getAvailableChannels()
+      const unavailable = policy.channels.filter(channel => !available.includes(channel))
+      if (unavailable.length > 0) {
+        const labels = unavailable.map(channel => REMINDER_CHANNEL_CONFIG[channel].label).join('・')
+        throw new ForbiddenError(`${labels}の通知は設定されていないため使えません`, 'REMINDER_CHANNEL_NOT_CONFIGURED')
+      }
+
+      const preferences = await this.getPreferences(userId)
+      const base = preferences && typeof preferences === 'object' && !Array.isArray(preferences) ? preferences : {}
+
+      const supabase = this.getSupabase()
+      const { error } = await supabase
+        .from('profiles')
+        .update({ preferences: { ...base, reminders: { ...policy } } })
+        .eq('id', userId)
+
+      if (error) {
+        logger.error('Failed to update reminder policy', error)
+        throw new UpstreamError('通知設定の保存に失敗しました')
+      }
+
+      logger.info('Reminder policy updated', { userId })
+      return this.toSettings(policy)
+    } catch (error) {
+      logger.error('Error in updateReminderPolicy', error)
+      throw error
+    }
+  }
+
+  /**
+   * 受信した通知（新しい順）
+   */
+  async getNotifications(
+    userId: string,
+    query: { unread: boolean; channel?: ReminderChannelName; limit: number }
+  ): Promise<ReminderNotification[]> {
+    try {
+      const supabase = this.getSupabase()
+      let request = supabase
+        .from('reminder_notifications')
+        .select('*')
+        .eq('user_id', userId)
+
+      if (query.unread) {
+        request = request.is('read_at', null)
+      }
+      if (query.channel) {
+        // 送信中のものを含める（Web Push は送信の結果を保存する前に Service Worker が取得する）
+        request = request.in(`deliveries->>${query.channel}`, ['pending', 'sent'])
+      }
+
+      const { data, error } = await request
+        .order('created_at', { ascending: false })
+        .limit(query.limit)
+
+      if (error) {
+        logger.error('Failed to fetch reminder notifications', error)
+        throw new UpstreamError('通知の取得に失敗しました')
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error('Error in getNotifications', error)
+      throw error
+    }
+  }
+
+  /**
+   * 通知を既読にする（ids を省略するとすべて）
+   */
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<{ updated: number }> {
+    try {
+      const supabase = this.getSupabase()
+      let request = supabase
+        .from('reminder_notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null)
+
+      if (ids) {
+        request = request.in('id', ids)
+      }
+
+      const { data, error } = await request.select('id')
+
+      if (error) {
+        logger.error('Failed to mark reminder notifications as read', error)
+        throw new UpstreamError('通知の更新に失敗しました')
+      }
+
+      return { updated: data?.length ?? 0 }
+    } catch (error) {
+      logger.error('Error in markNotificationsRead', error)
+      throw error
+    }
+  }
+
+  /**
+   * ブラウザの購読を登録する（同じ endpoint の場合は鍵を更新する）
+   */
+  async savePushSubscription(userId: string, input: PushSubscriptionInput, userAgent: string | null): Promise<void> {
+    try {
+      if (!env.isWebPushConfigured) {
+        throw new ForbiddenError('ブラウザの通知は設定されていないため使えません', 'REMINDER_CHANNEL_NOT_CONFIGURED')
+      }
+
+      // 同じブラウザで別のユーザーが登録していた場合も、このユーザーの購読に付け替える
+      const supabase = this.getSupabase()
+      const { error } = await supabase.rpc('save_push_subscription', {
+        p_endpoint: input.endpoint,
+        p_p256dh: input.keys.p256dh,
+        p_auth: input.keys.auth,
+        p_user_agent: userAgent?.slice(0, 500) ?? null,
+      })
+
+      if (error) {
+        logger.error('Failed to save push subscription', error)
+        throw new UpstreamError('ブラウザの通知の登録に失敗しました')
+      }
+
+      logger.info('Push subscription saved', { userId })
+    } catch (error) {
+      logger.error('Error in savePushSubscription', error)
+      throw error
+    }
+  }
+
+  async removePushSubscription(userId: string, endpoint: string): Promise<void> {
+    try {
+      const supabase = this.getSupabase()
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('endpoint', endpoint)
+
+      if (error) {
+        logger.error('Failed to remove push subscription', error)
+        throw new UpstreamError('ブラウザの通知の解除に失敗しました')
+      }
+
+      logger.info('Push subscription removed', { userId })
+    } catch (error) {
+      logger.error('Error in removePushSubscription', error)
+      throw error
+    }
+  }
+
+  /**
+   * 通知の時刻になったリマインダーを全ユーザー分送信する（定期実行ジョブ用）
+   */
+  async runScheduler(): Promise<ReminderRunResult> {
+    try {
+      const supabase = createAdminClient()
+      const scheduler = new ReminderScheduler({
+        store: this.createSchedulerStore(supabase),
+        channels: this.createChannels(supabase),
+      })
+      return await scheduler.run()
+    } catch (error) {
+      logger.error('Error in runScheduler', error)
+      throw error
+    }
+  }
+
+  // サーバーで使える通知方法（環境変数が設定されているもの）
+  getAvailableChannels(): ReminderChannelName[] {
+    return [
+      'in_app',
+      ...(env.isWebPushConfigured ? ['web_push' as const] : []),
+      ...(env.isReminderEmailConfigured ? ['email' as const] : []),
+    ]
+  }
+
+  private toSettings(policy: ReminderPolicy): ReminderSettings {
+    return {
+      policy,
+      available_channels: this.getAvailableChannels(),
+      web_push_public_key: env.isWebPushConfigured ? env.VAPID_PUBLIC_KEY : null,
+    }
+  }
+
+  private async getPreferences(userId: string): Promise<Json | null> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('preferences')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch preferences', error)
+      throw new UpstreamError('通知設定の取得に失敗しました')
+    }
+    return data?.preferences ?? null
+  }
+
+  private createChannels(supabase: AdminClient): ReminderChannel[] {
+    const channels: ReminderChannel[] = [new InAppReminderChannel()]
+
+    if (env.isWebPushConfigured) {
+      const sender = new WebPushSender({
+        publicKey: env.VAPID_PUBLIC_KEY,
+        privateKey: env.VAPID_PRIVATE_KEY,
+        subject: env.VAPID_SUBJECT,
+      })
+      channels.push(new WebPushReminderChannel(sender, this.createPushSubscriptionStore(supabase)))
+    }
+    if (env.isReminderEmailConfigured) {
+      channels.push(new EmailReminderChannel(new ResendEmailTransport({
+        apiKey: env.RESEND_API_KEY,
+        from: env.REMINDER_EMAIL_FROM,
+      })))
+    }
+    return channels
+  }
+
+  private createPushSubscriptionStore(supabase: AdminClient): PushSubscriptionStore {
+    return {
+      async listSubscriptions(userId) {
+        const { data, error } = await supabase
+          .from('push_subscriptions')
+          .select('endpoint, p256dh, auth')
+          .eq('user_id', userId)
+
+        if (error) throw new UpstreamError('ブラウザの通知の購読の取得に失敗しました')
+        return data || []
+      },
+
+      async removeSubscription(endpoint) {
+        const { error } = await supabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('endpoint', endpoint)
+
+        if (error) {
+          logger.error('Failed to remove expired push subscription', error)
+        }
+      },
+    }
+  }
+
+  private createSchedulerStore(supabase: AdminClient): ReminderStore {
+    return {
+      async listCandidateTasks(from, to) {
+        const f = `"${from.toISOString()}"`
+        const t = `"${to.toISOString()}"`
+        const tasks: ReminderTask[] = []
+
+        for (let offset = 0; ; offset += PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from('tasks')
+            .select('id, user_id, title, status, start_date, due_date')
+            .is('deleted_at', null)
+            .in('status', ['pending', 'in_progress'])
+            .or(`and(start_date.gte.${f},start_date.lte.${t}),and(due_date.gte.${f},due_date.lte.${t})`)
+            .order('id', { ascending: true })
+            .range(offset, offset + PAGE_SIZE - 1)
+
+          if (error) {
+            logger.error('Failed to fetch tasks for reminders', error)
+            throw new UpstreamError('通知の対象のタスクの取得に失敗しました')
+          }
+
+          tasks.push(...(data || []))
+          if (!data || data.length < PAGE_SIZE) return tasks
+        }
+      },
+
+      async listTaskReminders(taskIds) {
+        const reminders: TaskReminder[] = []
+        for (let i = 0; i < taskIds.length; i += IN_CHUNK_SIZE) {
+          const { data, error } = await supabase
+            .from('task_reminders')
+            .select('*')
+            .in('task_id', taskIds.slice(i, i + IN_CHUNK_SIZE))
+
+          if (error) {
+            logger.error('Failed to fetch task reminders for scheduler', error)
+            throw new UpstreamError('通知の取得に失敗しました')
+          }
+          reminders.push(...(data || []))
+        }
+        return reminders
+      },
+
+      async getRecipients(userIds) {
+        const recipients = []
+        for (let i = 0; i < userIds.length; i += IN_CHUNK_SIZE) {
+          const { data, error } = await supabase
+            .from('profiles')
+            .select('id, email, timezone, preferences')
+            .in('id', userIds.slice(i, i + IN_CHUNK_SIZE))
+
+          if (error) {
+            logger.error('Failed to fetch profiles for reminders', error)
+            throw new UpstreamError('通知の送信先の取得に失敗しました')
+          }
+
+          recipients.push(...(data || []).map(profile => ({
+            user_id: profile.id,
+            email: profile.email,
+            time_zone: profile.timezone || DEFAULT_TIMEZONE,
+            policy: resolveReminderPolicy(profile.preferences),
+          })))
+        }
+        return recipients
+      },
+
+      async recordNotifications(notifications) {
+        // 記録済みの通知は無視し、新たに記録した行だけが返る
+        const { data, error } = await supabase
+          .from('reminder_notifications')
+          .upsert(notifications, { onConflict: 'task_id,reminder_key,fire_at', ignoreDuplicates: true })
+          .select()
+
+        if (error) {
+          logger.error('Failed to record reminder notifications', error)
+          throw new UpstreamError('通知の記録に失敗しました')
+        }
+        return data || []
+      },
+
+      async saveDeliveries(notificationId, deliveries) {
+        const { error } = await supabase
+          .from('reminder_notifications')
+          .update({ deliveries })
+          .eq('id', notificationId)
+
+        if (error) {
+          logger.error('Failed to save reminder deliveries', error)
+        }
+      },
+    }
+  }
+}
+
+// シングルトンインスタンス
+export const reminderService = new ReminderService()
@@ -0,0 +1,150 @@
+/**
+ * 見積もりと実績の分析レポートのサービス層
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { UpstreamError } from '@/lib/errors'
+import { formatZonedDate, parseZonedDate, shiftDateKey } from '@/lib/timezone'
+import {
+  byCategory,
+  byTag,
+  byWeek,
+  groupEstimates,
+  sortCategoryTimes,
+  summarizeEstimates,
+  toTaskEstimate,
+} from '@/lib/reports/estimates'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { CategoryTime, EstimateReport, REPORT_CONSTRAINTS, TaskEstimate } from '@/types/reports'
+import { Category, TaskWithCategory } from '@/types/tasks'
+
+interface TrackedEntry {
+  duration_minutes: number
+  task: { category: Pick<Category, 'id' | 'name' | 'color'> | null } | null
+}
+
+export class ReportService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * from〜to（YYYY-MM-DD、両端を含む）の見積もり・実績レポート
+   * 省略した側は直近 DEFAULT_RANGE_DAYS 日になるように補う
+   * 見積もりの分析は期間中に完了したタスク、作業時間は期間中に開始した作業記録が対象
+   */
+  async getEstimateReport(userId: string, rangeFrom?: string, rangeTo?: string): Promise<EstimateReport> {
+    try {
+      const timeZone = await calendarSyncService.getUserTimezone(userId)
+      const span = REPORT_CONSTRAINTS.DEFAULT_RANGE_DAYS - 1
+      const to = rangeTo ?? (rangeFrom ? shiftDateKey(rangeFrom, span) : formatZonedDate(new Date(), timeZone))
+      const from = rangeFrom ?? shiftDateKey(to, -span)
+      const rangeStart = parseZonedDate(from, timeZone).toISOString()
+      const rangeEnd = parseZonedDate(shiftDateKey(to, 1), timeZone).toISOString()
+
+      const [tasks, entries] = await Promise.all([
+        this.getCompletedTasks(userId, rangeStart, rangeEnd),
+        this.getTrackedEntries(userId, rangeStart, rangeEnd),
+      ])
+
+      const estimates = tasks
+        .map(toTaskEstimate)
+        .filter((estimate): estimate is TaskEstimate => estimate !== null)
+
+      const timeByCategory = this.summarizeTrackedTime(entries)
+
+      return {
+        from,
+        to,
+        time_zone: timeZone,
+        summary: summarizeEstimates(estimates),
+        by_category: groupEstimates(estimates, byCategory)
+          .sort((a, b) => b.actual_minutes - a.actual_minutes),
+        by_tag: groupEstimates(estimates, byTag)
+          .sort((a, b) => b.actual_minutes - a.actual_minutes),
+        by_week: groupEstimates(estimates, byWeek(timeZone))
+          .sort((a, b) => a.key.localeCompare(b.key)),
+        // 誤差の大きい順
+        tasks: estimates.sort((a, b) => Math.abs(b.difference_minutes) - Math.abs(a.difference_minutes)),
+        time_by_category: timeByCategory,
+        total_tracked_minutes: timeByCategory.reduce((sum, item) => sum + item.minutes, 0),
+      }
+    } catch (error) {
+      logger.error('Error in getEstimateReport', error)
+      throw error
+    }
+  }
+
+  private async getCompletedTasks(userId: string, rangeStart: string, rangeEnd: string): Promise<TaskWithCategory[]> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(`
+        *,
+        category:categories(*)
+      `)
+      .eq('user_id', userId)
+      .eq('status', 'completed')
+      .is('deleted_at', null)
+      .gte('completed_at', rangeStart)
+      .lt('completed_at', rangeEnd)
+      .order('completed_at', { ascending: true })
+
+    if (error) {
+      logger.error('Failed to fetch completed tasks for report', error)
+      throw new UpstreamError('レポートの取得に失敗しました')
+    }
+
+    return data || []
+  }
+
+  private async getTrackedEntries(userId: string, rangeStart: string, rangeEnd: string): Promise<TrackedEntry[]> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select(`
+        duration_minutes,
+        task:tasks(
+          category:categories(id, name, color)
+        )
+      `)
+      .eq('user_id', userId)
+      .not('end_time', 'is', null)
+      .gte('start_time', rangeStart)
+      .lt('start_time', rangeEnd)
+
+    if (error) {
+      logger.error('Failed to fetch time entries for report', error)
+      throw new UpstreamError('レポートの取得に失敗しました')
+    }
+
+    // 多対一の結合はオブジェクトで返る（生成型は配列として推論する）
+    return (data || []) as unknown as TrackedEntry[]
+  }
+
+  private summarizeTrackedTime(entries: TrackedEntry[]): CategoryTime[] {
+    const times = new Map<string, CategoryTime>()
+
+    for (const entry of entries) {
+      const category = entry.task?.category ?? null
+      const key = category?.id ?? 'none'
+      const current = times.get(key)
+      if (current) {
+        current.minutes += entry.duration_minutes
+      } else {
+        times.set(key, {
+          category_id: category?.id ?? null,
+          name: category?.name ?? '未分類',
+          color: category?.color ?? null,
+          minutes: entry.duration_minutes,
+        })
+      }
+    }
+
+    return sortCategoryTimes(Array.from(times.values()))
+  }
+}
+
+// シングルトンインスタンス
+export const reportService = new ReportService()
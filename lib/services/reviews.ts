@@ -0,0 +1,302 @@
+/**
+ * 日次・週次レビューのサービス層
+ * 日次レビューはデイリーログの予定と実績をまとめ、残ったタスクをまとめて片付ける
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { NotFoundError, UpstreamError, ValidationError } from '@/lib/errors'
+import { isDateKey, parseZonedDate, shiftDateKey } from '@/lib/timezone'
+import { getWeekStartKey, summarizeEstimates, toTaskEstimate } from '@/lib/reports/estimates'
+import { shiftTaskSchedule } from '@/lib/reviews/reschedule'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { dailyLogService } from '@/lib/services/daily-log'
+import { recurrenceService } from '@/lib/services/recurrence'
+import { taskService } from '@/lib/services/tasks'
+import { TaskEstimate } from '@/types/reports'
+import {
+  DailyReview,
+  DailyReviewInput,
+  DailyReviewSummary,
+  LeftoverAction,
+  LEFTOVER_ACTION_LABELS,
+  REVIEW_CONSTRAINTS,
+  WeeklyReview,
+} from '@/types/reviews'
+import { TaskWithCategory } from '@/types/tasks'
+
+// 期限切れで手付かずのタスクとして表示する最大件数
+const OVERDUE_LIMIT = 50
+
+export class ReviewService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * 指定日（省略時は今日）の日次レビューのまとめ
+   */
+  async getDailySummary(userId: string, date?: string): Promise<DailyReviewSummary> {
+    try {
+      const log = await dailyLogService.getDailyLog(userId, date)
+      const dayStart = parseZonedDate(log.date, log.time_zone).toISOString()
+      const dayEnd = parseZonedDate(shiftDateKey(log.date, 1), log.time_zone).toISOString()
+
+      const [completed, overdue, review] = await Promise.all([
+        this.getCompletedTasks(userId, dayStart, dayEnd),
+        this.getUntouchedOverdueTasks(userId, dayEnd),
+        this.getReview(userId, log.date),
+      ])
+
+      const plannedIds = new Set(log.items.map(item => item.task.id))
+      const isFinished = (task: TaskWithCategory) => task.status === 'completed' || task.status === 'cancelled'
+      const estimates = completed
+        .map(toTaskEstimate)
+        .filter((estimate): estimate is TaskEstimate => estimate !== null)
+
+      return {
+        date: log.date,
+        time_zone: log.time_zone,
+        planned: log.items,
+        planned_count: log.items.length,
+        completed_count: log.items.filter(item => item.task.status === 'completed').length,
+        unplanned_completed: completed.filter(task => !plannedIds.has(task.id)),
+        estimate: summarizeEstimates(estimates),
+        leftovers: log.items.map(item => item.task).filter(task => !isFinished(task)),
+        overdue_untouched: overdue.filter(task => !plannedIds.has(task.id)),
+        review,
+      }
+    } catch (error) {
+      logger.error('Error in getDailySummary', error)
+      throw error
+    }
+  }
+
+  /**
+   * 日次レビューを保存し、残ったタスクの扱いをまとめて反映する
+   * 予定・実績の数値はタスクを移す前の状態で記録する
+   */
+  async saveDailyReview(userId: string, date: string, input: DailyReviewInput): Promise<DailyReview> {
+    try {
+      this.validateReviewInput(input)
+
+      const summary = await this.getDailySummary(userId, date)
+      const timeZone = summary.time_zone
+
+      for (const action of input.actions ?? []) {
+        await this.applyLeftoverAction(userId, date, action, timeZone)
+      }
+
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('daily_reviews')
+        .upsert(
+          {
+            user_id: userId,
+            review_date: date,
+            notes: input.notes?.trim() || null,
+            mood: input.mood ?? null,
+            score: input.score ?? null,
+            planned_count: summary.planned_count,
+            completed_count: summary.completed_count,
+            estimated_minutes: summary.planned.reduce((sum, item) => sum + item.task.estimated_minutes, 0),
+            actual_minutes: summary.planned.reduce((sum, item) => sum + item.actual_minutes, 0),
+          },
+          { onConflict: 'user_id,review_date' }
+        )
+        .select()
+        .single()
+
+      if (error) {
+        logger.error('Failed to save daily review', error)
+        throw new UpstreamError('レビューの保存に失敗しました')
+      }
+
+      logger.info('Daily review saved', { userId, date, actions: input.actions?.length ?? 0 })
+      return data
+    } catch (error) {
+      logger.error('Error in saveDailyReview', error)
+      throw error
+    }
+  }
+
+  /**
+   * weekStart を含む週（月曜日〜日曜日）の日次レビューの集計
+   * 省略時は今週
+   */
+  async getWeeklyReview(userId: string, weekStart?: string): Promise<WeeklyReview> {
+    try {
+      const timeZone = await calendarSyncService.getUserTimezone(userId)
+      const reference = weekStart ? parseZonedDate(weekStart, timeZone) : new Date()
+      const start = getWeekStartKey(reference.toISOString(), timeZone)
+      const end = shiftDateKey(start, 6)
+
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('daily_reviews')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('review_date', start)
+        .lte('review_date', end)
+        .order('review_date', { ascending: true })
+
+      if (error) {
+        logger.error('Failed to fetch weekly reviews', error)
+        throw new UpstreamError('週次レビューの取得に失敗しました')
+      }
+
+      const reviews: DailyReview[] = data || []
+      const average = (values: number[]) =>
+        values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null
+      const total = (pick: (review: DailyReview) => number) =>
+        reviews.reduce((sum, review) => sum + pick(review), 0)
+
+      const plannedCount = total(review => review.planned_count)
+      const completedCount = total(review => review.completed_count)
+
+      return {
+        week_start: start,
+        week_end: end,
+        reviews,
+        reviewed_days: reviews.length,
+        average_mood: average(reviews.flatMap(review => review.mood !== null ? [review.mood] : [])),
+        average_score: average(reviews.flatMap(review => review.score !== null ? [review.score] : [])),
+        planned_count: plannedCount,
+        completed_count: completedCount,
+        completion_rate: plannedCount > 0 ? Math.round((completedCount / plannedCount) * 100) : 0,
+        estimated_minutes: total(review => review.estimated_minutes),
+        actual_minutes: total(review => review.actual_minutes),
+      }
+    } catch (error) {
+      logger.error('Error in getWeeklyReview', error)
+      throw error
+    }
+  }
+
+  private async applyLeftoverAction(
+    userId: string,
+    date: string,
+    action: LeftoverAction,
+    timeZone: string
+  ): Promise<void> {
+    if (action.action === 'keep') return
+
+    const task = await taskService.getTaskById(userId, action.task_id)
+    if (!task) {
+      throw new NotFoundError('レビューの保存に失敗しました（タスクが見つかりません）', 'TASK_NOT_FOUND')
+    }
+
+    if (action.action === 'cancel') {
+      await recurrenceService.updateTask(userId, task.id, { status: 'cancelled' })
+      return
+    }
+
+    const targetDate = action.action === 'defer' ? shiftDateKey(date, 1) : action.date!
+    const schedule = shiftTaskSchedule(task, targetDate, timeZone)
+    if (Object.keys(schedule).length > 0) {
+      await recurrenceService.updateTask(userId, task.id, schedule)
+    }
+    await dailyLogService.moveTask(userId, date, targetDate, task.id)
+  }
+
+  private async getReview(userId: string, date: string): Promise<DailyReview | null> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('daily_reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('review_date', date)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch daily review', error)
+      throw new UpstreamError('レビューの取得に失敗しました')
+    }
+
+    return data
+  }
+
+  private async getCompletedTasks(userId: string, dayStart: string, dayEnd: string): Promise<TaskWithCategory[]> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(`
+        *,
+        category:categories(*)
+      `)
+      .eq('user_id', userId)
+      .eq('status', 'completed')
+      .is('deleted_at', null)
+      .gte('completed_at', dayStart)
+      .lt('completed_at', dayEnd)
+      .order('completed_at', { ascending: true })
+
+    if (error) {
+      logger.error('Failed to fetch completed tasks for review', error)
+      throw new UpstreamError('レビューの取得に失敗しました')
+    }
+
+    return data || []
+  }
+
+  /**
+   * その日の終わりまでに期限が来ていて、まだ作業記録のない未着手のタスク
+   */
+  private async getUntouchedOverdueTasks(userId: string, dayEnd: string): Promise<TaskWithCategory[]> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(`
+        *,
+        category:categories(*)
+      `)
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .is('deleted_at', null)
+      .eq('actual_minutes', 0)
+      .lt('due_date', dayEnd)
+      .order('due_date', { ascending: true })
+      .limit(OVERDUE_LIMIT)
+
+    if (error) {
+      logger.error('Failed to fetch overdue tasks for review', error)
+      throw new UpstreamError('レビューの取得に失敗しました')
+    }
+
+    return data || []
+  }
+
+  private validateReviewInput(input: DailyReviewInput): void {
+    if (input.notes && input.notes.length > REVIEW_CONSTRAINTS.NOTES_MAX_LENGTH) {
+      throw new ValidationError(`振り返りメモは${REVIEW_CONSTRAINTS.NOTES_MAX_LENGTH}文字以内で入力してください`)
+    }
+
+    const isIntegerInRange = (value: number, min: number, max: number) =>
+      Number.isInteger(value) && value >= min && value <= max
+    if (input.mood != null && !isIntegerInRange(input.mood, REVIEW_CONSTRAINTS.MOOD_MIN, REVIEW_CONSTRAINTS.MOOD_MAX)) {
+      throw new ValidationError(`レビューの保存に失敗しました（気分は${REVIEW_CONSTRAINTS.MOOD_MIN}〜${REVIEW_CONSTRAINTS.MOOD_MAX}で指定してください）`)
+    }
+    if (input.score != null && !isIntegerInRange(input.score, REVIEW_CONSTRAINTS.SCORE_MIN, REVIEW_CONSTRAINTS.SCORE_MAX)) {
+      throw new ValidationError(`レビューの保存に失敗しました（点数は${REVIEW_CONSTRAINTS.SCORE_MIN}〜${REVIEW_CONSTRAINTS.SCORE_MAX}で指定してください）`)
+    }
+
+    const actions = input.actions ?? []
+    if (actions.length > REVIEW_CONSTRAINTS.MAX_ACTIONS) {
+      throw new ValidationError(`レビューの保存に失敗しました（一度に扱えるタスクは${REVIEW_CONSTRAINTS.MAX_ACTIONS}件までです）`)
+    }
+    for (const action of actions) {
+      if (!action.task_id) {
+        throw new ValidationError('task_id は必須です')
+      }
+      if (!Object.keys(LEFTOVER_ACTION_LABELS).includes(action.action)) {
+        throw new ValidationError('レビューの保存に失敗しました（タスクの扱いが正しくありません）')
+      }
+      if (action.action === 'reschedule' && (!action.date || !isDateKey(action.date))) {
+        throw new ValidationError('移動先の日付は必須です（YYYY-MM-DD 形式）', 'INVALID_DATE')
+      }
+    }
+  }
+}
+
+// シングルトンインスタンス
+export const reviewService = new ReviewService()
@@ -0,0 +1,186 @@
+/**
+ * サブタスクとチェックリストのサービス層
+ * 階層の深さ・循環の検証、ゴミ箱への移動と復元の連動は DB のトリガーで行う
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { NotFoundError, UpstreamError, ValidationError } from '@/lib/errors'
+import { recurrenceService } from '@/lib/services/recurrence'
+import { Task, TaskChecklistItem, TaskChecklistItemUpdate, TASK_CONSTRAINTS } from '@/types/tasks'
+
+export class SubtaskService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * 指定したタスクの下にあるすべての階層のサブタスク（ゴミ箱のものを除く）
+   */
+  async getDescendants(userId: string, taskIds: string[]): Promise<Task[]> {
+    try {
+      if (taskIds.length === 0) return []
+
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase.rpc('get_task_descendants', {
+        p_user_id: userId,
+        p_task_ids: taskIds,
+      })
+
+      if (error) {
+        logger.error('Failed to fetch subtasks', error)
+        throw new UpstreamError('サブタスクの取得に失敗しました')
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error('Error in getDescendants', error)
+      throw error
+    }
+  }
+
+  /**
+   * 完了・キャンセルしていないサブタスクをすべて完了にし、完了にしたサブタスクを返す
+   * 繰り返しのサブタスクは単体で完了にした場合と同じく次の回を作成する
+   */
+  async completeSubtasks(userId: string, taskId: string): Promise<Task[]> {
+    try {
+      const open = (await this.getDescendants(userId, [taskId])).filter(task =>
+        task.status !== 'completed' && task.status !== 'cancelled'
+      )
+
+      // 同じシリーズの回を同時に作成しないよう順番に行う
+      const completed: Task[] = []
+      for (const task of open) {
+        const updated = await recurrenceService.updateTask(userId, task.id, { status: 'completed' })
+        if (updated) completed.push(updated)
+      }
+
+      logger.info('Subtasks completed', { userId, taskId, count: completed.length })
+      return completed
+    } catch (error) {
+      logger.error('Error in completeSubtasks', error)
+      throw error
+    }
+  }
+
+  // チェックリスト関連のメソッド
+  async getChecklist(userId: string, taskId: string): Promise<TaskChecklistItem[]> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_checklist_items')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('task_id', taskId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        logger.error('Failed to fetch checklist', error)
+        throw new UpstreamError('チェックリストの取得に失敗しました')
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error('Error in getChecklist', error)
+      throw error
+    }
+  }
+
+  /**
+   * チェックリストの末尾に項目を追加する
+   */
+  async addChecklistItem(userId: string, taskId: string, title: string): Promise<TaskChecklistItem> {
+    try {
+      const items = await this.getChecklist(userId, taskId)
+      if (items.length >= TASK_CONSTRAINTS.CHECKLIST_MAX_ITEMS) {
+        throw new ValidationError(
+          `チェックリストは${TASK_CONSTRAINTS.CHECKLIST_MAX_ITEMS}項目までです`,
+          'CHECKLIST_LIMIT_EXCEEDED'
+        )
+      }
+
+      const last = items[items.length - 1]
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_checklist_items')
+        .insert({
+          user_id: userId,
+          task_id: taskId,
+          title,
+          position: last ? last.position + 1 : 0,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        logger.error('Failed to add checklist item', error)
+        throw new UpstreamError('チェックリストの項目の追加に失敗しました')
+      }
+
+      logger.info('Checklist item added', { userId, taskId, itemId: data.id })
+      return data
+    } catch (error) {
+      logger.error('Error in addChecklistItem', error)
+      throw error
+    }
+  }
+
+  async updateChecklistItem(
+    userId: string,
+    taskId: string,
+    itemId: string,
+    updates: Pick<TaskChecklistItemUpdate, 'title' | 'is_done' | 'position'>
+  ): Promise<TaskChecklistItem> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_checklist_items')
+        .update(updates)
+        .eq('user_id', userId)
+        .eq('task_id', taskId)
+        .eq('id', itemId)
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new NotFoundError('チェックリストの項目が見つかりません')
+        }
+        logger.error('Failed to update checklist item', error)
+        throw new UpstreamError('チェックリストの項目の更新に失敗しました')
+      }
+
+      return data
+    } catch (error) {
+      logger.error('Error in updateChecklistItem', error)
+      throw error
+    }
+  }
+
+  async deleteChecklistItem(userId: string, taskId: string, itemId: string): Promise<void> {
+    try {
+      const supabase = this.getSupabase()
+      const { error } = await supabase
+        .from('task_checklist_items')
+        .delete()
+        .eq('user_id', userId)
+        .eq('task_id', taskId)
+        .eq('id', itemId)
+
+      if (error) {
+        logger.error('Failed to delete checklist item', error)
+        throw new UpstreamError('チェックリストの項目の削除に失敗しました')
+      }
+
+      logger.info('Checklist item deleted', { userId, taskId, itemId })
+    } catch (error) {
+      logger.error('Error in deleteChecklistItem', error)
+      throw error
+    }
+  }
+}
+
+// シングルトンインスタンス
+export const subtaskService = new SubtaskService()
@@ -0,0 +1,179 @@
+/**
+ * タスクの一括操作のサービス層
+ * 操作そのものは DB 関数 bulk_update_tasks で1つのトランザクションとして適用し、
+ * 繰り返しの次の回の作成やカレンダーイベントの削除はその後に行う
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { ConflictError, NotFoundError, UpstreamError, ValidationError } from '@/lib/errors'
+import { calendarSyncService } from '@/lib/services/calendar-sync'
+import { recurrenceService } from '@/lib/services/recurrence'
+import { subtaskService } from '@/lib/services/subtasks'
+import { BulkTaskOperation, BulkTaskResult, Task, TASK_CONSTRAINTS } from '@/types/tasks'
+
+export class TaskBulkService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * ignoreBlockers が false の場合、先行タスクが完了していないタスクは進行中にしない（単体の更新と同じ確認）
+   */
+  async applyOperation(
+    userId: string,
+    taskIds: string[],
+    operation: BulkTaskOperation,
+    ignoreBlockers = false
+  ): Promise<BulkTaskResult> {
+    try {
+      const ids = Array.from(new Set(taskIds))
+      const before = await this.getTasks(userId, ids)
+      if (before.length !== ids.length) {
+        throw new NotFoundError('一部のタスクが見つかりません', 'TASK_NOT_FOUND')
+      }
+
+      if (operation.type === 'add_tags') {
+        this.validateTagCounts(before, operation.tags)
+      }
+      if (operation.type === 'set_status' && operation.status === 'in_progress' && !ignoreBlockers) {
+        await this.assertNotBlocked(userId, before.filter(task => task.status !== 'in_progress'))
+      }
+
+      // 親と一緒にゴミ箱に移るサブタスクのカレンダーイベントも削除できるよう、移す前に取得しておく
+      const subtasks = operation.type === 'delete'
+        ? (await subtaskService.getDescendants(userId, ids)).filter(task => !ids.includes(task.id))
+        : []
+
+      const { type, ...payload } = operation
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase.rpc('bulk_update_tasks', {
+        p_user_id: userId,
+        p_task_ids: ids,
+        p_operation: type,
+        p_payload: payload,
+        p_time_zone: type === 'shift_dates' ? await calendarSyncService.getUserTimezone(userId) : undefined,
+      })
+
+      if (error) {
+        // 確認の後に削除された
+        if (error.code === 'P0002') {
+          throw new NotFoundError('一部のタスクが見つかりません', 'TASK_NOT_FOUND')
+        }
+        if (error.code === '23503') {
+          throw new NotFoundError('カテゴリが見つかりません')
+        }
+        logger.error('Failed to apply bulk task operation', error)
+        throw new UpstreamError('タスクの一括操作に失敗しました')
+      }
+
+      const tasks = data || []
+      await this.afterOperation(userId, operation, before, tasks, subtasks)
+
+      logger.info('Bulk task operation applied', { userId, operation: type, count: tasks.length })
+      return { operation: type, tasks: type === 'delete' ? before : tasks }
+    } catch (error) {
+      logger.error('Error in applyOperation', error)
+      throw error
+    }
+  }
+
+  private async getTasks(userId: string, ids: string[]): Promise<Task[]> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', ids)
+      .is('deleted_at', null)
+
+    if (error) {
+      logger.error('Failed to fetch tasks for bulk operation', error)
+      throw new UpstreamError('タスクの取得に失敗しました')
+    }
+
+    return data || []
+  }
+
+  private async assertNotBlocked(userId: string, tasks: Task[]): Promise<void> {
+    if (tasks.length === 0) return
+
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase.rpc('get_task_blockers', {
+      p_user_id: userId,
+      p_task_ids: tasks.map(task => task.id),
+    })
+
+    if (error) {
+      logger.error('Failed to fetch task blockers for bulk operation', error)
+      throw new UpstreamError('先行タスクの取得に失敗しました')
+    }
+
+    const blockedIds = new Set((data || []).map((blocker: { blocked_task_id: string }) => blocker.blocked_task_id))
+    const blocked = tasks.filter(task => blockedIds.has(task.id))
+    if (blocked.length > 0) {
+      const titles = blocked.map(task => `「${task.title}」`).join('、')
+      throw new ConflictError(`${titles}は先行タスクが完了していません`, 'TASK_BLOCKED')
+    }
+  }
+
+  private validateTagCounts(tasks: Task[], tags: string[]): void {
+    for (const task of tasks) {
+      const merged = new Set([...(task.tags ?? []), ...tags])
+      if (merged.size > TASK_CONSTRAINTS.TAGS_MAX_COUNT) {
+        throw new ValidationError(`タグは${TASK_CONSTRAINTS.TAGS_MAX_COUNT}個以内で設定してください（${task.title}）`)
+      }
+    }
+  }
+
+  /**
+   * 単体の更新・削除と同じ後処理を行う
+   * 失敗しても一括操作自体は確定しているため、ログに残して続ける
+   */
+  private async afterOperation(
+    userId: string,
+    operation: BulkTaskOperation,
+    before: Task[],
+    after: Task[],
+    trashedSubtasks: Task[]
+  ): Promise<void> {
+    const previous = new Map(before.map(task => [task.id, task]))
+
+    const followUps: Array<() => Promise<unknown>> = []
+    if (operation.type === 'set_status' && operation.status === 'completed') {
+      // 完了にした繰り返しタスクは次の回を作成する
+      for (const task of after) {
+        if (previous.get(task.id)?.status !== 'completed') {
+          followUps.push(() => recurrenceService.createNextInstance(userId, task))
+        }
+      }
+    }
+
+    if (operation.type === 'delete') {
+      for (const task of before) {
+        // 未完了の回を削除した場合はその回を飛ばしてシリーズを続ける
+        if (task.recurrence_series_id && task.status !== 'completed' && task.status !== 'cancelled') {
+          followUps.push(() => recurrenceService.createNextInstance(userId, task))
+        }
+      }
+      for (const task of [...before, ...trashedSubtasks]) {
+        const eventId = task.google_calendar_event_id
+        if (eventId) {
+          followUps.push(() => calendarSyncService.removeTaskEvent(userId, eventId))
+        }
+      }
+    }
+
+    // 同じシリーズの回を同時に作成しないよう順番に行う
+    for (const followUp of followUps) {
+      try {
+        await followUp()
+      } catch (error) {
+        logger.warn('Follow-up step failed after bulk task operation', { userId, operation: operation.type, error })
+      }
+    }
+  }
+}
+
+// シングルトンインスタンス
+export const taskBulkService = new TaskBulkService()
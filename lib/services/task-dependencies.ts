@@ -0,0 +1,152 @@
+/**
+ * タスクの依存関係のサービス層
+ * 相手のタスクの所有者・ゴミ箱の確認と循環の検出は DB のトリガーで行う
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { ConflictError, NotFoundError, UpstreamError, ValidationError } from '@/lib/errors'
+import { TaskDependencies, TaskDependency, TaskDependencyType, TaskStatus } from '@/types/tasks'
+
+export class TaskDependencyService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  /**
+   * タスクの先行タスクと後続タスク（ゴミ箱のものを除く、設定した順）
+   */
+  async getDependencies(userId: string, taskId: string): Promise<TaskDependencies> {
+    try {
+      const supabase = this.getSupabase()
+      const { data: links, error } = await supabase
+        .from('task_dependencies')
+        .select('*')
+        .eq('user_id', userId)
+        .or(`blocking_task_id.eq.${taskId},blocked_task_id.eq.${taskId}`)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        logger.error('Failed to fetch task dependencies', error)
+        throw new UpstreamError('依存関係の取得に失敗しました')
+      }
+
+      const otherIds = (links || []).map(link =>
+        link.blocked_task_id === taskId ? link.blocking_task_id : link.blocked_task_id
+      )
+      if (otherIds.length === 0) return { blocked_by: [], blocks: [] }
+
+      const { data: tasks, error: tasksError } = await supabase
+        .from('tasks')
+        .select('id, title, status')
+        .eq('user_id', userId)
+        .in('id', otherIds)
+        .is('deleted_at', null)
+
+      if (tasksError) {
+        logger.error('Failed to fetch dependent tasks', tasksError)
+        throw new UpstreamError('依存関係の取得に失敗しました')
+      }
+
+      const tasksById = new Map((tasks || []).map(task => [task.id, task]))
+      const dependencies: TaskDependencies = { blocked_by: [], blocks: [] }
+
+      for (const link of links || []) {
+        const isBlocked = link.blocked_task_id === taskId
+        const other = tasksById.get(isBlocked ? link.blocking_task_id : link.blocked_task_id)
+        if (!other) continue
+
+        dependencies[isBlocked ? 'blocked_by' : 'blocks'].push({
+          dependency_id: link.id,
+          task_id: other.id,
+          title: other.title,
+          status: other.status as TaskStatus,
+        })
+      }
+
+      return dependencies
+    } catch (error) {
+      logger.error('Error in getDependencies', error)
+      throw error
+    }
+  }
+
+  /**
+   * 依存関係を追加する
+   * type が blocked_by なら otherTaskId を先行タスクに、blocks なら後続タスクにする
+   */
+  async addDependency(
+    userId: string,
+    taskId: string,
+    otherTaskId: string,
+    type: TaskDependencyType
+  ): Promise<TaskDependency> {
+    try {
+      if (taskId === otherTaskId) {
+        throw new ValidationError('タスク自身を依存関係に設定することはできません', 'DEPENDENCY_CYCLE')
+      }
+
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_dependencies')
+        .insert({
+          user_id: userId,
+          blocking_task_id: type === 'blocked_by' ? otherTaskId : taskId,
+          blocked_task_id: type === 'blocked_by' ? taskId : otherTaskId,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        switch (error.code) {
+          case '23503':
+            throw new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND')
+          case '23505':
+            throw new ConflictError('この依存関係はすでに設定されています', 'DUPLICATE')
+          case '42P19':
+            throw new ValidationError('依存関係が循環するため設定できません', 'DEPENDENCY_CYCLE')
+        }
+        logger.error('Failed to add task dependency', error)
+        throw new UpstreamError('依存関係の追加に失敗しました')
+      }
+
+      logger.info('Task dependency added', { userId, taskId, dependencyId: data.id })
+      return data
+    } catch (error) {
+      logger.error('Error in addDependency', error)
+      throw error
+    }
+  }
+
+  /**
+   * タスクの依存関係を削除する（先行・後続のどちら側からでも削除できる）
+   */
+  async removeDependency(userId: string, taskId: string, dependencyId: string): Promise<void> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', dependencyId)
+        .or(`blocking_task_id.eq.${taskId},blocked_task_id.eq.${taskId}`)
+        .select('id')
+
+      if (error) {
+        logger.error('Failed to remove task dependency', error)
+        throw new UpstreamError('依存関係の削除に失敗しました')
+      }
+      if (!data || data.length === 0) {
+        throw new NotFoundError('依存関係が見つかりません')
+      }
+
+      logger.info('Task dependency removed', { userId, taskId, dependencyId })
+    } catch (error) {
+      logger.error('Error in removeDependency', error)
+      throw error
+    }
+  }
+}
+
+// シングルトンインスタンス
+export const taskDependencyService = new TaskDependencyService()
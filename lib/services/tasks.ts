@@ -5,6 +5,10 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
+import { AppError, ConflictError, NotFoundError, UpstreamError, ValidationError } from '@/lib/errors'
+import { recurrencePatternSchema } from '@/lib/validation/task-schemas'
+import { initializeSeries } from '@/lib/recurrence/series'
+import { buildKeysetFilter, decodeTaskCursor, encodeTaskCursor } from '@/lib/pagination/task-cursor'
 import {
   Task,
   TaskInsert,
@@ -12,12 +16,28 @@ import {
   TaskWithCategory,
   TaskFilters,
   TaskSortOptions,
+  TaskPage,
+  TaskSearchMatch,
+  TaskSearchPage,
+  TaskSearchResult,
   TaskStats,
   Category,
   CategoryInsert,
   CategoryUpdate,
+  CategoryDeleteOptions,
+  RunningTimeEntry,
+  TaskEvent,
+  TaskRollup,
+  isTaskBlocked,
+  TaskDependencyLink,
+  TaskStatus,
+  TimeEntry,
   TASK_CONSTRAINTS,
-  CATEGORY_CONSTRAINTS
+  TASK_PAGINATION,
+  TASK_HISTORY_PAGINATION,
+  TASK_SEARCH_PAGINATION,
+  CATEGORY_CONSTRAINTS,
+  buildTaskTrashUpdate
 } from '@/types/tasks'
 
 export class TaskService {
@@ -30,40 +50,10 @@ export class TaskService {
     userId: string,
     filters?: TaskFilters,
     sort?: TaskSortOptions,
-    limit?: number,
-    offset?: number
+    limit?: number
   ): Promise<TaskWithCategory[]> {
     try {
-      const supabase = this.getSupabase()
-      let query = supabase
-        .from('tasks')
-        .select(`
-          *,
-          category:categories(*)
-        `)
-        .eq('user_id', userId)
-
-      // フィルタリング
-      if (filters) {
-        if (filters.status && filters.status.length > 0) {
-          query = query.in('status', filters.status)
-        }
-        if (filters.priority && filters.priority.length > 0) {
-          query = query.in('priority', filters.priority)
-        }
-        if (filters.category_id && filters.category_id.length > 0) {
-          query = query.in('category_id', filters.category_id)
-        }
-        if (filters.due_date_from) {
-          query = query.gte('due_date', filters.due_date_from)
-        }
-        if (filters.due_date_to) {
-          query = query.lte('due_date', filters.due_date_to)
-        }
-        if (filters.search) {
-          query = query.or(`title.ilike.%${filters.search}%,description.ilike.%${filters.search}%`)
-        }
-      }
+      let query = this.buildTaskQuery(userId, filters)
 
       // ソート
       if (sort) {
@@ -72,19 +62,15 @@ export class TaskService {
         query = query.order('created_at', { ascending: false })
       }
 
-      // ページネーション
       if (limit) {
         query = query.limit(limit)
       }
-      if (offset) {
-        query = query.range(offset, offset + (limit || 10) - 1)
-      }
 
       const { data, error } = await query
 
       if (error) {
         logger.error('Failed to fetch tasks', error)
-        throw new Error('タスクの取得に失敗しました')
+        throw new UpstreamError('タスクの取得に失敗しました')
       }
 
       return data || []
@@ -94,6 +80,156 @@ export class TaskService {
     }
   }
 
+  /**
+   * キーセットページネーションでタスクを取得する
+   * total はフィルタに一致する全件数（カーソルの位置に関係しない）
+   */
+  async getTaskPage(
+    userId: string,
+    filters: TaskFilters | undefined,
+    sort: TaskSortOptions,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<TaskPage> {
+    try {
+      const limit = Math.min(
+        Math.max(options.limit ?? TASK_PAGINATION.DEFAULT_LIMIT, 1),
+        TASK_PAGINATION.MAX_LIMIT
+      )
+      const cursor = options.cursor ? decodeTaskCursor(options.cursor) : null
+      const ascending = sort.direction === 'asc'
+
+      let query = this.buildTaskQuery(userId, filters, { count: cursor ? undefined : 'exact' })
+      if (cursor) {
+        query = query.or(buildKeysetFilter(cursor, sort))
+      }
+
+      // 1件多く取得して次のページの有無を判定する
+      const { data, error, count } = await query
+        .order(sort.field, { ascending, nullsFirst: !ascending })
+        .order('id', { ascending })
+        .limit(limit + 1)
+
+      if (error) {
+        logger.error('Failed to fetch task page', error)
+        throw new UpstreamError('タスクの取得に失敗しました')
+      }
+
+      const rows: TaskWithCategory[] = data || []
+      const items = await this.attachDetails(userId, rows.slice(0, limit))
+      const last = items[items.length - 1]
+
+      return {
+        items,
+        nextCursor: rows.length > limit && last ? encodeTaskCursor(last, sort) : null,
+        total: cursor ? await this.countTasks(userId, filters) : count ?? items.length,
+      }
+    } catch (error) {
+      logger.error('Error in getTaskPage', error)
+      throw error
+    }
+  }
+
+  private async countTasks(userId: string, filters?: TaskFilters): Promise<number> {
+    const { count, error } = await this.buildTaskQuery(userId, filters, { count: 'exact', head: true })
+
+    if (error) {
+      logger.error('Failed to count tasks', error)
+      throw new UpstreamError('タスクの取得に失敗しました')
+    }
+
+    return count ?? 0
+  }
+
+  /**
+   * フィルタを適用したタスクのクエリ（カテゴリ付き）
+   */
+  private buildTaskQuery(
+    userId: string,
+    filters?: TaskFilters,
+    options?: { count?: 'exact'; head?: boolean }
+  ) {
+    let query = this.getSupabase()
+      .from('tasks')
+      .select(`
+        *,
+        category:categories(*)
+      `, options)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+
+    if (!filters) return query
+
+    if (filters.status && filters.status.length > 0) {
+      query = query.in('status', filters.status)
+    }
+    if (filters.priority && filters.priority.length > 0) {
+      query = query.in('priority', filters.priority)
+    }
+    if (filters.category_id && filters.category_id.length > 0) {
+      query = query.in('category_id', filters.category_id)
+    }
+    if (filters.due_date_from) {
+      query = query.gte('due_date', filters.due_date_from)
+    }
+    if (filters.due_date_to) {
+      query = query.lte('due_date', filters.due_date_to)
+    }
+    if (filters.scheduled_from && filters.scheduled_to) {
+      query = query.or(this.buildScheduledRangeFilter(filters.scheduled_from, filters.scheduled_to))
+    }
+    if (filters.search) {
+      // search_document は tasks の計算列（014_task_search.sql）。検索語はフィルタの構文として解釈されない
+      query = query.textSearch('search_document', filters.search, { config: 'japanese', type: 'websearch' })
+    }
+    if (filters.parent_task_id) {
+      query = query.eq('parent_task_id', filters.parent_task_id)
+    }
+    if (filters.blocked !== undefined) {
+      // is_blocked は tasks の計算列（013_task_dependencies.sql）
+      query = query.eq('is_blocked', filters.blocked)
+    }
+    return query
+  }
+
+  /**
+   * サブタスク・チェックリストの進捗と時間の集計、完了していない先行タスクを付与する
+   */
+  private async attachDetails(userId: string, tasks: TaskWithCategory[]): Promise<TaskWithCategory[]> {
+    if (tasks.length === 0) return tasks
+
+    const supabase = this.getSupabase()
+    const taskIds = tasks.map(task => task.id)
+    const [rollupResult, blockerResult] = await Promise.all([
+      supabase.rpc('get_task_rollups', { p_user_id: userId, p_task_ids: taskIds }),
+      supabase.rpc('get_task_blockers', { p_user_id: userId, p_task_ids: taskIds }),
+    ])
+
+    if (rollupResult.error) {
+      logger.error('Failed to fetch task rollups', rollupResult.error)
+      throw new UpstreamError('サブタスクの集計に失敗しました')
+    }
+    if (blockerResult.error) {
+      logger.error('Failed to fetch task blockers', blockerResult.error)
+      throw new UpstreamError('先行タスクの取得に失敗しました')
+    }
+
+    const rollups = new Map<string, TaskRollup>(
+      (rollupResult.data || []).map(({ task_id, ...rollup }: TaskRollup & { task_id: string }) => [task_id, rollup])
+    )
+    const blockers = new Map<string, TaskDependencyLink[]>()
+    for (const { blocked_task_id, ...blocker } of blockerResult.data || []) {
+      const list = blockers.get(blocked_task_id) ?? []
+      list.push({ ...blocker, status: blocker.status as TaskStatus })
+      blockers.set(blocked_task_id, list)
+    }
+
+    return tasks.map(task => ({
+      ...task,
+      rollup: rollups.get(task.id),
+      blocked_by: blockers.get(task.id) ?? [],
+    }))
+  }
+
   async getTaskById(userId: string, taskId: string): Promise<TaskWithCategory | null> {
     try {
       const supabase = this.getSupabase()
@@ -105,6 +241,7 @@ export class TaskService {
         `)
         .eq('user_id', userId)
         .eq('id', taskId)
+        .is('deleted_at', null)
         .single()
 
       if (error) {
@@ -112,16 +249,86 @@ export class TaskService {
           return null // タスクが見つからない
         }
         logger.error('Failed to fetch task by ID', error)
-        throw new Error('タスクの取得に失敗しました')
+        throw new UpstreamError('タスクの取得に失敗しました')
       }
 
-      return data
+      const [task] = await this.attachDetails(userId, [data])
+      return task ?? data
     } catch (error) {
       logger.error('Error in getTaskById', error)
       throw error
     }
   }
 
+  /**
+   * タイトル・説明・メモ・タグの全文検索（関連度の高い順、一致箇所を強調した抜粋付き）
+   */
+  async searchTasks(
+    userId: string,
+    query: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<TaskSearchPage> {
+    try {
+      const limit = Math.min(
+        Math.max(options.limit ?? TASK_SEARCH_PAGINATION.DEFAULT_LIMIT, 1),
+        TASK_SEARCH_PAGINATION.MAX_LIMIT
+      )
+      const offset = Math.max(options.offset ?? 0, 0)
+
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase.rpc('search_tasks', {
+        p_user_id: userId,
+        p_query: query,
+        p_limit: limit,
+        p_offset: offset,
+      })
+
+      if (error) {
+        logger.error('Failed to search tasks', error)
+        throw new UpstreamError('タスクの検索に失敗しました')
+      }
+
+      const matches: TaskSearchMatch[] = data || []
+      const first = matches[0]
+      if (!first) return { items: [], total: 0, nextOffset: null }
+
+      const { data: tasks, error: tasksError } = await supabase
+        .from('tasks')
+        .select(`
+          *,
+          category:categories(*)
+        `)
+        .eq('user_id', userId)
+        .in('id', matches.map(match => match.task_id))
+        .is('deleted_at', null)
+
+      if (tasksError) {
+        logger.error('Failed to fetch searched tasks', tasksError)
+        throw new UpstreamError('タスクの検索に失敗しました')
+      }
+
+      const tasksById = new Map(
+        (await this.attachDetails(userId, tasks || [])).map(task => [task.id, task])
+      )
+      const items: TaskSearchResult[] = []
+      for (const match of matches) {
+        const task = tasksById.get(match.task_id)
+        if (!task) continue
+        items.push({ task, rank: match.rank, title_highlight: match.title_highlight, snippet: match.snippet })
+      }
+
+      const total = Number(first.total_count)
+      return {
+        items,
+        total,
+        nextOffset: offset + matches.length < total ? offset + matches.length : null,
+      }
+    } catch (error) {
+      logger.error('Error in searchTasks', error)
+      throw error
+    }
+  }
+
   async createTask(userId: string, taskData: Omit<TaskInsert, 'user_id'>): Promise<Task> {
     try {
       // バリデーション
@@ -131,15 +338,21 @@ export class TaskService {
       const { data, error } = await supabase
         .from('tasks')
         .insert({
-          ...taskData,
+          ...initializeSeries(taskData),
           user_id: userId,
         })
         .select()
         .single()
 
       if (error) {
+        const hierarchyError = this.toHierarchyError(error)
+        if (hierarchyError) throw hierarchyError
+        // 指定した ID のタスクが既にある（作成の送り直し）
+        if (error.code === '23505' && taskData.id && error.message?.includes('tasks_pkey')) {
+          throw new ConflictError('このタスクは既に作成されています', 'DUPLICATE')
+        }
         logger.error('Failed to create task', error)
-        throw new Error('タスクの作成に失敗しました')
+        throw new UpstreamError('タスクの作成に失敗しました')
       }
 
       logger.info('Task created successfully', { taskId: data.id, userId })
@@ -150,10 +363,15 @@ export class TaskService {
     }
   }
 
+  /**
+   * expectedUpdatedAt を指定すると、タスクがその版から変更されていない場合のみ更新する
+   * （変更されていた場合は TASK_CONFLICT。確認と更新は同じ UPDATE で行う）
+   */
   async updateTask(
     userId: string,
     taskId: string,
-    updates: Omit<TaskUpdate, 'user_id' | 'id'>
+    updates: Omit<TaskUpdate, 'user_id' | 'id'>,
+    expectedUpdatedAt?: string
   ): Promise<Task> {
     try {
       // バリデーション
@@ -167,17 +385,30 @@ export class TaskService {
       }
 
       const supabase = this.getSupabase()
-      const { data, error } = await supabase
+      let query = supabase
         .from('tasks')
         .update(updates)
         .eq('user_id', userId)
         .eq('id', taskId)
+        .is('deleted_at', null)
+
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt)
+      }
+
+      const { data, error } = await query
         .select()
         .single()
 
       if (error) {
+        if (error.code === 'PGRST116') {
+          if (expectedUpdatedAt) await this.assertTaskMissing(userId, taskId)
+          throw new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND')
+        }
+        const hierarchyError = this.toHierarchyError(error)
+        if (hierarchyError) throw hierarchyError
         logger.error('Failed to update task', error)
-        throw new Error('タスクの更新に失敗しました')
+        throw new UpstreamError('タスクの更新に失敗しました')
       }
 
       logger.info('Task updated successfully', { taskId, userId })
@@ -188,27 +419,67 @@ export class TaskService {
     }
   }
 
-  async deleteTask(userId: string, taskId: string): Promise<void> {
+  /**
+   * タスクをゴミ箱に移す（完全な削除は TrashService で行う）
+   * expectedUpdatedAt を指定すると、タスクがその版から変更されていない場合のみ移す
+   */
+  async deleteTask(userId: string, taskId: string, expectedUpdatedAt?: string): Promise<void> {
     try {
       const supabase = this.getSupabase()
-      const { error } = await supabase
+      let query = supabase
         .from('tasks')
-        .delete()
+        .update(buildTaskTrashUpdate())
         .eq('user_id', userId)
         .eq('id', taskId)
+        .is('deleted_at', null)
+
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt)
+      }
+
+      const { data, error } = await query.select('id')
 
       if (error) {
         logger.error('Failed to delete task', error)
-        throw new Error('タスクの削除に失敗しました')
+        throw new UpstreamError('タスクの削除に失敗しました')
+      }
+      if (expectedUpdatedAt && (data || []).length === 0) {
+        await this.assertTaskMissing(userId, taskId)
+        throw new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND')
       }
 
-      logger.info('Task deleted successfully', { taskId, userId })
+      logger.info('Task moved to trash', { taskId, userId })
     } catch (error) {
       logger.error('Error in deleteTask', error)
       throw error
     }
   }
 
+  /**
+   * タスクが expectedUpdatedAt の版から変更されていなければ版を進める（変更されていた場合は TASK_CONFLICT）
+   * 複数の行を更新する操作（繰り返しの範囲指定）で、書き込みを始める前に他の変更と競合していないことを確定させる
+   */
+  async claimTaskVersion(userId: string, taskId: string, expectedUpdatedAt: string): Promise<void> {
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('id', taskId)
+      .eq('updated_at', expectedUpdatedAt)
+      .is('deleted_at', null)
+      .select('id')
+
+    if (error) {
+      logger.error('Failed to claim task version', error)
+      throw new UpstreamError('タスクの更新に失敗しました')
+    }
+    if ((data || []).length === 0) {
+      await this.assertTaskMissing(userId, taskId)
+      throw new NotFoundError('タスクが見つかりません', 'TASK_NOT_FOUND')
+    }
+  }
+
   async getTaskStats(userId: string): Promise<TaskStats> {
     try {
       const supabase = this.getSupabase()
@@ -217,7 +488,7 @@ export class TaskService {
 
       if (error) {
         logger.error('Failed to get task stats', error)
-        throw new Error('タスク統計の取得に失敗しました')
+        throw new UpstreamError('タスク統計の取得に失敗しました')
       }
 
       return data[0] || {
@@ -243,11 +514,12 @@ export class TaskService {
         .select('*')
         .eq('user_id', userId)
         .eq('is_active', true)
+        .is('deleted_at', null)
         .order('sort_order', { ascending: true })
 
       if (error) {
         logger.error('Failed to fetch categories', error)
-        throw new Error('カテゴリの取得に失敗しました')
+        throw new UpstreamError('カテゴリの取得に失敗しました')
       }
 
       return data || []
@@ -277,7 +549,7 @@ export class TaskService {
 
       if (error) {
         logger.error('Failed to create category', error)
-        throw new Error('カテゴリの作成に失敗しました')
+        throw new UpstreamError('カテゴリの作成に失敗しました')
       }
 
       logger.info('Category created successfully', { categoryId: data.id, userId })
@@ -303,12 +575,16 @@ export class TaskService {
         .update(updates)
         .eq('user_id', userId)
         .eq('id', categoryId)
+        .is('deleted_at', null)
         .select()
         .single()
 
       if (error) {
+        if (error.code === 'PGRST116') {
+          throw new NotFoundError('カテゴリが見つかりません')
+        }
         logger.error('Failed to update category', error)
-        throw new Error('カテゴリの更新に失敗しました')
+        throw new UpstreamError('カテゴリの更新に失敗しました')
       }
 
       logger.info('Category updated successfully', { categoryId, userId })
@@ -319,78 +595,401 @@ export class TaskService {
     }
   }
 
-  async deleteCategory(userId: string, categoryId: string): Promise<void> {
+  /**
+   * カテゴリをゴミ箱に移し、所属するタスクを別のカテゴリに移すか一緒にゴミ箱に移す
+   * 一緒にゴミ箱に移したタスクを返す（連携済みのカレンダーイベントの削除に使う）
+   */
+  async deleteCategory(userId: string, categoryId: string, options: CategoryDeleteOptions): Promise<Task[]> {
+    try {
+      const supabase = this.getSupabase()
+
+      let trashed: Task[] = []
+      if (options.task_action === 'trash') {
+        const { data, error } = await supabase
+          .from('tasks')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('category_id', categoryId)
+          .is('deleted_at', null)
+
+        if (error) {
+          logger.error('Failed to fetch category tasks', error)
+          throw new UpstreamError('カテゴリの削除に失敗しました')
+        }
+        trashed = data || []
+      }
+
+      const { data: count, error } = await supabase.rpc('delete_category', {
+        p_user_id: userId,
+        p_category_id: categoryId,
+        p_task_action: options.task_action,
+        p_target_category_id: options.target_category_id ?? null,
+      })
+
+      if (error) {
+        if (error.code === 'P0002') {
+          throw new NotFoundError('カテゴリが見つかりません')
+        }
+        if (error.code === '23503') {
+          throw new NotFoundError('移動先のカテゴリが見つかりません')
+        }
+        logger.error('Failed to delete category', error)
+        throw new UpstreamError('カテゴリの削除に失敗しました')
+      }
+
+      logger.info('Category moved to trash', { categoryId, userId, taskAction: options.task_action, taskCount: count })
+      return trashed
+    } catch (error) {
+      logger.error('Error in deleteCategory', error)
+      throw error
+    }
+  }
+
+  // 履歴関連のメソッド
+
+  /**
+   * タスクの変更履歴（新しい順）
+   * 履歴は DB のトリガーで記録され、アプリケーションからは書き込まない
+   */
+  async getTaskHistory(
+    userId: string,
+    taskId: string,
+    limit: number = TASK_HISTORY_PAGINATION.DEFAULT_LIMIT
+  ): Promise<TaskEvent[]> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('task_events')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        logger.error('Failed to fetch task history', error)
+        throw new UpstreamError('変更履歴の取得に失敗しました')
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error('Error in getTaskHistory', error)
+      throw error
+    }
+  }
+
+  // 時間計測関連のメソッド
+  async getTimeEntries(userId: string, taskId: string): Promise<TimeEntry[]> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('task_id', taskId)
+        .order('start_time', { ascending: false })
+
+      if (error) {
+        logger.error('Failed to fetch time entries', error)
+        throw new UpstreamError('作業記録の取得に失敗しました')
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error('Error in getTimeEntries', error)
+      throw error
+    }
+  }
+
+  /**
+   * 計測中のタイマー（ユーザーごとに最大1件）
+   */
+  async getRunningTimeEntry(userId: string): Promise<RunningTimeEntry | null> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select(`
+          *,
+          task:tasks(id, title)
+        `)
+        .eq('user_id', userId)
+        .is('end_time', null)
+        .maybeSingle()
+
+      if (error) {
+        logger.error('Failed to fetch running time entry', error)
+        throw new UpstreamError('タイマーの取得に失敗しました')
+      }
+
+      return data
+    } catch (error) {
+      logger.error('Error in getRunningTimeEntry', error)
+      throw error
+    }
+  }
+
+  /**
+   * タイマーを開始する
+   * 別のタスクのタイマーが計測中の場合は停止してから開始する
+   * タスクが見つからない場合は null を返す
+   * 未着手のタスクは進行中になるため、ignoreBlockers が false なら先行タスクが完了していないタスクでは開始しない
+   */
+  async startTimer(
+    userId: string,
+    taskId: string,
+    description?: string,
+    ignoreBlockers = false
+  ): Promise<TimeEntry | null> {
+    try {
+      const task = await this.getTaskById(userId, taskId)
+      if (!task) return null
+
+      if (task.status === 'completed' || task.status === 'cancelled') {
+        throw new ConflictError('タイマーの開始に失敗しました（完了済みのタスクです）', 'TASK_CLOSED')
+      }
+      if (description && description.length > TASK_CONSTRAINTS.TIME_ENTRY_DESCRIPTION_MAX_LENGTH) {
+        throw new ValidationError(`作業メモは${TASK_CONSTRAINTS.TIME_ENTRY_DESCRIPTION_MAX_LENGTH}文字以内で入力してください`)
+      }
+      if (task.status === 'pending' && !ignoreBlockers && isTaskBlocked(task)) {
+        const titles = task.blocked_by!.map(blocker => `「${blocker.title}」`).join('、')
+        throw new ConflictError(`先行タスク${titles}が完了していません`, 'TASK_BLOCKED')
+      }
+
+      const running = await this.getRunningTimeEntry(userId)
+      if (running?.task_id === taskId) {
+        return running
+      }
+      if (running) {
+        try {
+          await this.finishTimeEntry(userId, running)
+        } catch (error) {
+          // 他の端末で既に停止されていればそのまま開始する
+          if (!(error instanceof ConflictError && error.code === 'TIMER_NOT_RUNNING')) throw error
+        }
+      }
+
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('time_entries')
+        .insert({
+          user_id: userId,
+          task_id: taskId,
+          start_time: new Date().toISOString(),
+          description: description || null,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        // 同時に別のタイマーが開始された
+        if (error.code === '23505') {
+          throw new ConflictError('タイマーの開始に失敗しました（他のタイマーが計測中です）', 'TIMER_ALREADY_RUNNING')
+        }
+        logger.error('Failed to start timer', error)
+        throw new UpstreamError('タイマーの開始に失敗しました')
+      }
+
+      // 未着手のタスクは計測開始で進行中にする
+      if (task.status === 'pending') {
+        await this.updateTask(userId, taskId, { status: 'in_progress' })
+      }
+
+      logger.info('Timer started', { userId, taskId, entryId: data.id })
+      return data
+    } catch (error) {
+      logger.error('Error in startTimer', error)
+      throw error
+    }
+  }
+
+  /**
+   * タスクの計測中のタイマーを停止する
+   * 計測中でない場合は null を返す
+   */
+  async stopTimer(userId: string, taskId: string): Promise<TimeEntry | null> {
+    try {
+      const running = await this.getRunningTimeEntry(userId)
+      if (!running || running.task_id !== taskId) return null
+
+      return await this.finishTimeEntry(userId, running)
+    } catch (error) {
+      logger.error('Error in stopTimer', error)
+      throw error
+    }
+  }
+
+  async deleteTimeEntry(userId: string, taskId: string, entryId: string): Promise<void> {
     try {
       const supabase = this.getSupabase()
       const { error } = await supabase
-        .from('categories')
+        .from('time_entries')
         .delete()
         .eq('user_id', userId)
-        .eq('id', categoryId)
+        .eq('task_id', taskId)
+        .eq('id', entryId)
 
       if (error) {
-        logger.error('Failed to delete category', error)
-        throw new Error('カテゴリの削除に失敗しました')
+        logger.error('Failed to delete time entry', error)
+        throw new UpstreamError('作業記録の削除に失敗しました')
       }
 
-      logger.info('Category deleted successfully', { categoryId, userId })
+      logger.info('Time entry deleted', { userId, taskId, entryId })
     } catch (error) {
-      logger.error('Error in deleteCategory', error)
+      logger.error('Error in deleteTimeEntry', error)
       throw error
     }
   }
 
+  /**
+   * 計測中の記録を終了し、経過時間（分）を記録する
+   * tasks.actual_minutes への集計は DB のトリガーで行う
+   * 他の端末などで既に停止されていた場合は TIMER_NOT_RUNNING
+   */
+  private async finishTimeEntry(userId: string, entry: TimeEntry): Promise<TimeEntry> {
+    const endTime = new Date()
+    const durationMinutes = Math.max(
+      Math.round((endTime.getTime() - new Date(entry.start_time).getTime()) / 60000),
+      0
+    )
+
+    const supabase = this.getSupabase()
+    const { data, error } = await supabase
+      .from('time_entries')
+      .update({
+        end_time: endTime.toISOString(),
+        duration_minutes: durationMinutes,
+      })
+      .eq('user_id', userId)
+      .eq('id', entry.id)
+      .is('end_time', null)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to stop timer', error)
+      throw new UpstreamError('タイマーの停止に失敗しました')
+    }
+    if (!data) {
+      throw new ConflictError('計測中のタイマーがありません', 'TIMER_NOT_RUNNING')
+    }
+
+    logger.info('Timer stopped', { userId, taskId: entry.task_id, entryId: entry.id, durationMinutes })
+    return data
+  }
+
+  /**
+   * 表示期間と重なるタスクを取得するための PostgREST フィルタ
+   * 期間内に開始・期限があるもの、または期間をまたぐものを対象とする
+   */
+  private buildScheduledRangeFilter(from: string, to: string): string {
+    const fromDate = new Date(from)
+    const toDate = new Date(to)
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      throw new ValidationError('表示期間の指定が不正です', 'INVALID_DATE_RANGE')
+    }
+
+    const f = `"${fromDate.toISOString()}"`
+    const t = `"${toDate.toISOString()}"`
+    return [
+      `and(start_date.gte.${f},start_date.lt.${t})`,
+      `and(due_date.gte.${f},due_date.lt.${t})`,
+      `and(start_date.lt.${f},due_date.gte.${f})`,
+    ].join(',')
+  }
+
+  /**
+   * 版を指定した更新で対象の行がなかった場合、タスクが残っていれば他で変更されたものとして TASK_CONFLICT にする
+   */
+  private async assertTaskMissing(userId: string, taskId: string): Promise<void> {
+    const task = await this.getTaskById(userId, taskId)
+    if (task) {
+      throw new ConflictError(`「${task.title}」は他の端末で変更されています`, 'TASK_CONFLICT')
+    }
+  }
+
+  /**
+   * 親タスクの検証（DB のトリガー）のエラーを API のエラーに変換する
+   * カテゴリの外部キーや他の CHECK 制約も同じコードになるため、トリガーのメッセージのものに限る
+   */
+  private toHierarchyError(error: { code: string; message?: string }): AppError | null {
+    if (!error.message?.includes('check_task_hierarchy')) return null
+
+    switch (error.code) {
+      case '23503':
+        return new NotFoundError('親タスクが見つかりません', 'PARENT_TASK_NOT_FOUND')
+      case '42P19':
+        return new ValidationError('タスクを自身やそのサブタスクの下に移動することはできません', 'SUBTASK_CYCLE')
+      case '23514':
+        return new ValidationError(
+          `サブタスクは${TASK_CONSTRAINTS.SUBTASK_MAX_DEPTH}階層までです`,
+          'SUBTASK_DEPTH_EXCEEDED'
+        )
+      default:
+        return null
+    }
+  }
+
   // バリデーション メソッド
   private validateTaskData(data: Partial<TaskInsert | TaskUpdate>): void {
     if (data.title !== undefined) {
       if (!data.title.trim()) {
-        throw new Error('タスクのタイトルは必須です')
+        throw new ValidationError('タスクのタイトルは必須です')
       }
       if (data.title.length > TASK_CONSTRAINTS.TITLE_MAX_LENGTH) {
-        throw new Error(`タスクのタイトルは${TASK_CONSTRAINTS.TITLE_MAX_LENGTH}文字以内で入力してください`)
+        throw new ValidationError(`タスクのタイトルは${TASK_CONSTRAINTS.TITLE_MAX_LENGTH}文字以内で入力してください`)
       }
     }
 
     if (data.description !== undefined && data.description && data.description.length > TASK_CONSTRAINTS.DESCRIPTION_MAX_LENGTH) {
-      throw new Error(`タスクの説明は${TASK_CONSTRAINTS.DESCRIPTION_MAX_LENGTH}文字以内で入力してください`)
+      throw new ValidationError(`タスクの説明は${TASK_CONSTRAINTS.DESCRIPTION_MAX_LENGTH}文字以内で入力してください`)
     }
 
     if (data.notes !== undefined && data.notes && data.notes.length > TASK_CONSTRAINTS.NOTES_MAX_LENGTH) {
-      throw new Error(`タスクのメモは${TASK_CONSTRAINTS.NOTES_MAX_LENGTH}文字以内で入力してください`)
+      throw new ValidationError(`タスクのメモは${TASK_CONSTRAINTS.NOTES_MAX_LENGTH}文字以内で入力してください`)
     }
 
     if (data.tags !== undefined && data.tags) {
       if (data.tags.length > TASK_CONSTRAINTS.TAGS_MAX_COUNT) {
-        throw new Error(`タグは${TASK_CONSTRAINTS.TAGS_MAX_COUNT}個以内で設定してください`)
+        throw new ValidationError(`タグは${TASK_CONSTRAINTS.TAGS_MAX_COUNT}個以内で設定してください`)
       }
       for (const tag of data.tags) {
         if (tag.length > TASK_CONSTRAINTS.TAG_MAX_LENGTH) {
-          throw new Error(`タグは${TASK_CONSTRAINTS.TAG_MAX_LENGTH}文字以内で入力してください`)
+          throw new ValidationError(`タグは${TASK_CONSTRAINTS.TAG_MAX_LENGTH}文字以内で入力してください`)
         }
       }
     }
 
     if (data.estimated_minutes !== undefined && data.estimated_minutes < 0) {
-      throw new Error('見積もり時間は0以上で入力してください')
+      throw new ValidationError('見積もり時間は0以上で入力してください')
     }
 
     if (data.actual_minutes !== undefined && data.actual_minutes < 0) {
-      throw new Error('実際の時間は0以上で入力してください')
+      throw new ValidationError('実際の時間は0以上で入力してください')
+    }
+
+    if (data.recurrence_pattern) {
+      const result = recurrencePatternSchema.safeParse(data.recurrence_pattern)
+      if (!result.success) {
+        throw new ValidationError(`繰り返し設定の検証に失敗しました: ${result.error.errors[0]?.message}`, 'INVALID_RECURRENCE')
+      }
+      // RRULE の文字列なども保存用の JSON 形式に揃える
+      data.recurrence_pattern = result.data
     }
   }
 
   private validateCategoryData(data: Partial<CategoryInsert | CategoryUpdate>): void {
     if (data.name !== undefined) {
       if (!data.name.trim()) {
-        throw new Error('カテゴリ名は必須です')
+        throw new ValidationError('カテゴリ名は必須です')
       }
       if (data.name.length > CATEGORY_CONSTRAINTS.NAME_MAX_LENGTH) {
-        throw new Error(`カテゴリ名は${CATEGORY_CONSTRAINTS.NAME_MAX_LENGTH}文字以内で入力してください`)
+        throw new ValidationError(`カテゴリ名は${CATEGORY_CONSTRAINTS.NAME_MAX_LENGTH}文字以内で入力してください`)
       }
     }
 
     if (data.description !== undefined && data.description && data.description.length > CATEGORY_CONSTRAINTS.DESCRIPTION_MAX_LENGTH) {
-      throw new Error(`カテゴリの説明は${CATEGORY_CONSTRAINTS.DESCRIPTION_MAX_LENGTH}文字以内で入力してください`)
+      throw new ValidationError(`カテゴリの説明は${CATEGORY_CONSTRAINTS.DESCRIPTION_MAX_LENGTH}文字以内で入力してください`)
     }
   }
 }
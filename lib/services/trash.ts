@@ -0,0 +1,336 @@
+/**
+ * ゴミ箱のサービス層
+ * ゴミ箱に移したタスク・カテゴリの一覧、復元、完全な削除と、保持期間を過ぎたものの自動削除を扱う
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { logger } from '@/lib/logger'
+import { env } from '@/lib/env'
+import { ConflictError, NotFoundError, UpstreamError } from '@/lib/errors'
+import { Category, Task, TrashContents, TrashedCategory, TrashedTask } from '@/types/tasks'
+
+export interface TrashPurgeResult {
+  tasks_purged: number
+  categories_purged: number
+}
+
+export class TrashService {
+  private getSupabase() {
+    return createClient()
+  }
+
+  async getTrash(userId: string): Promise<TrashContents> {
+    try {
+      const supabase = this.getSupabase()
+      const [tasksResult, categoriesResult] = await Promise.all([
+        supabase
+          .from('tasks')
+          .select(`
+            *,
+            category:categories(*)
+          `)
+          .eq('user_id', userId)
+          .not('deleted_at', 'is', null)
+          .order('deleted_at', { ascending: false }),
+        supabase
+          .from('categories')
+          .select('*')
+          .eq('user_id', userId)
+          .not('deleted_at', 'is', null)
+          .order('deleted_at', { ascending: false }),
+      ])
+
+      if (tasksResult.error || categoriesResult.error) {
+        logger.error('Failed to fetch trash', tasksResult.error ?? categoriesResult.error)
+        throw new UpstreamError('ゴミ箱の取得に失敗しました')
+      }
+
+      const tasks = tasksResult.data || []
+      const categories = categoriesResult.data || []
+
+      return {
+        tasks: tasks.map((task): TrashedTask => ({ ...task, purge_at: this.getPurgeAt(task.deleted_at!) })),
+        categories: categories.map((category): TrashedCategory => ({
+          ...category,
+          purge_at: this.getPurgeAt(category.deleted_at!),
+          // カテゴリと一緒にゴミ箱に移したタスクは deleted_at が同じ
+          task_count: tasks.filter(task =>
+            task.category_id === category.id && task.deleted_at === category.deleted_at
+          ).length,
+        })),
+        retention_days: env.TRASH_RETENTION_DAYS,
+      }
+    } catch (error) {
+      logger.error('Error in getTrash', error)
+      throw error
+    }
+  }
+
+  /**
+   * タスクを復元する
+   * 所属していたカテゴリがゴミ箱にある場合は未分類として、親タスクがゴミ箱にある場合は最上位のタスクとして復元する
+   * 親タスクと一緒にゴミ箱に移したサブタスクも DB のトリガーで復元される
+   */
+  async restoreTask(userId: string, taskId: string): Promise<Task> {
+    try {
+      const supabase = this.getSupabase()
+      const { data: task, error: fetchError } = await supabase
+        .from('tasks')
+        .select(`
+          *,
+          category:categories(*)
+        `)
+        .eq('user_id', userId)
+        .eq('id', taskId)
+        .not('deleted_at', 'is', null)
+        .maybeSingle()
+
+      if (fetchError) {
+        logger.error('Failed to fetch trashed task', fetchError)
+        throw new UpstreamError('タスクの復元に失敗しました')
+      }
+      if (!task) {
+        throw new NotFoundError('ゴミ箱にタスクが見つかりません', 'TASK_NOT_FOUND')
+      }
+
+      const parentTrashed = task.parent_task_id ? await this.isTaskTrashed(userId, task.parent_task_id) : false
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .update({
+          deleted_at: null,
+          ...(task.category?.deleted_at && { category_id: null }),
+          ...(parentTrashed && { parent_task_id: null }),
+        })
+        .eq('user_id', userId)
+        .eq('id', taskId)
+        .select()
+        .single()
+
+      if (error) {
+        // 同じ回の繰り返しタスクが作り直されている
+        if (error.code === '23505') {
+          throw new ConflictError('同じ日の繰り返しタスクがあるため復元できません', 'DUPLICATE')
+        }
+        logger.error('Failed to restore task', error)
+        throw new UpstreamError('タスクの復元に失敗しました')
+      }
+
+      logger.info('Task restored from trash', { taskId, userId })
+      return data
+    } catch (error) {
+      logger.error('Error in restoreTask', error)
+      throw error
+    }
+  }
+
+  /**
+   * カテゴリと、一緒にゴミ箱に移したタスクを復元する
+   */
+  async restoreCategory(userId: string, categoryId: string): Promise<Category> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase.rpc('restore_category', {
+        p_user_id: userId,
+        p_category_id: categoryId,
+      })
+
+      if (error) {
+        if (error.code === 'P0002') {
+          throw new NotFoundError('ゴミ箱にカテゴリが見つかりません')
+        }
+        if (error.code === '23505') {
+          throw new ConflictError('同じ名前のカテゴリがあるため復元できません', 'DUPLICATE')
+        }
+        logger.error('Failed to restore category', error)
+        throw new UpstreamError('カテゴリの復元に失敗しました')
+      }
+
+      const category = data?.[0]
+      if (!category) {
+        throw new NotFoundError('ゴミ箱にカテゴリが見つかりません')
+      }
+
+      logger.info('Category restored from trash', { categoryId, userId })
+      return category
+    } catch (error) {
+      logger.error('Error in restoreCategory', error)
+      throw error
+    }
+  }
+
+  /**
+   * ゴミ箱のタスクを完全に削除する
+   */
+  async purgeTask(userId: string, taskId: string): Promise<void> {
+    try {
+      const supabase = this.getSupabase()
+      const { data, error } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', taskId)
+        .not('deleted_at', 'is', null)
+        .select('id')
+
+      if (error) {
+        logger.error('Failed to purge task', error)
+        throw new UpstreamError('タスクの削除に失敗しました')
+      }
+      if (!data || data.length === 0) {
+        throw new NotFoundError('ゴミ箱にタスクが見つかりません', 'TASK_NOT_FOUND')
+      }
+
+      logger.info('Task purged from trash', { taskId, userId })
+    } catch (error) {
+      logger.error('Error in purgeTask', error)
+      throw error
+    }
+  }
+
+  /**
+   * ゴミ箱のカテゴリを完全に削除する
+   * 一緒にゴミ箱に移したタスクも削除する（ゴミ箱以外のタスクは未分類になる）
+   */
+  async purgeCategory(userId: string, categoryId: string): Promise<void> {
+    try {
+      const supabase = this.getSupabase()
+      const { data: category, error: fetchError } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('id', categoryId)
+        .not('deleted_at', 'is', null)
+        .maybeSingle()
+
+      if (fetchError) {
+        logger.error('Failed to fetch trashed category', fetchError)
+        throw new UpstreamError('カテゴリの削除に失敗しました')
+      }
+      if (!category) {
+        throw new NotFoundError('ゴミ箱にカテゴリが見つかりません')
+      }
+
+      const { error: tasksError } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('user_id', userId)
+        .eq('category_id', categoryId)
+        .eq('deleted_at', category.deleted_at!)
+
+      if (tasksError) {
+        logger.error('Failed to purge category tasks', tasksError)
+        throw new UpstreamError('カテゴリの削除に失敗しました')
+      }
+
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', categoryId)
+
+      if (error) {
+        logger.error('Failed to purge category', error)
+        throw new UpstreamError('カテゴリの削除に失敗しました')
+      }
+
+      logger.info('Category purged from trash', { categoryId, userId })
+    } catch (error) {
+      logger.error('Error in purgeCategory', error)
+      throw error
+    }
+  }
+
+  /**
+   * ゴミ箱を空にする
+   */
+  async emptyTrash(userId: string): Promise<TrashPurgeResult> {
+    try {
+      const supabase = this.getSupabase()
+      const { data: tasks, error: tasksError } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
+        .select('id')
+
+      if (tasksError) {
+        logger.error('Failed to empty trash (tasks)', tasksError)
+        throw new UpstreamError('ゴミ箱を空にできませんでした')
+      }
+
+      const { data: categories, error: categoriesError } = await supabase
+        .from('categories')
+        .delete()
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
+        .select('id')
+
+      if (categoriesError) {
+        logger.error('Failed to empty trash (categories)', categoriesError)
+        throw new UpstreamError('ゴミ箱を空にできませんでした')
+      }
+
+      const result = {
+        tasks_purged: tasks?.length ?? 0,
+        categories_purged: categories?.length ?? 0,
+      }
+      logger.info('Trash emptied', { userId, ...result })
+      return result
+    } catch (error) {
+      logger.error('Error in emptyTrash', error)
+      throw error
+    }
+  }
+
+  /**
+   * 保持期間を過ぎたものを全ユーザー分削除する（定期実行ジョブ用）
+   */
+  async purgeExpired(retentionDays: number = env.TRASH_RETENTION_DAYS): Promise<TrashPurgeResult> {
+    try {
+      const supabase = createAdminClient()
+      const { data, error } = await supabase.rpc('purge_deleted_items', {
+        p_retention_days: retentionDays,
+      })
+
+      if (error) {
+        logger.error('Failed to purge expired trash', error)
+        throw new UpstreamError('ゴミ箱の自動削除に失敗しました')
+      }
+
+      const result = data?.[0] ?? { tasks_purged: 0, categories_purged: 0 }
+      logger.info('Expired trash purged', { retentionDays, ...result })
+      return result
+    } catch (error) {
+      logger.error('Error in purgeExpired', error)
+      throw error
+    }
+  }
+
+  private async isTaskTrashed(userId: string, taskId: string): Promise<boolean> {
+    const { data, error } = await this.getSupabase()
+      .from('tasks')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('id', taskId)
+      .not('deleted_at', 'is', null)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch parent task', error)
+      throw new UpstreamError('タスクの復元に失敗しました')
+    }
+
+    return data !== null
+  }
+
+  private getPurgeAt(deletedAt: string): string {
+    const purgeAt = new Date(deletedAt)
+    purgeAt.setUTCDate(purgeAt.getUTCDate() + env.TRASH_RETENTION_DAYS)
+    return purgeAt.toISOString()
+  }
+}
+
+// シングルトンインスタンス
+export const trashService = new TrashService()
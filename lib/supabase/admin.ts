@@ -0,0 +1,26 @@
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/types/database';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+
+/**
+ * サービスロールのクライアント（RLS を経由しない）
+ * ユーザーのセッションがない定期実行ジョブ専用。リクエストの処理では使わない
+ */
+export function createAdminClient() {
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+    logger.error('Supabase service role key is not configured');
+    throw new Error('Supabase admin client initialization failed');
+  }
+
+  return createClient<Database>(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.SUPABASE_SERVICE_ROLE_KEY,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * タイムゾーン変換ユーティリティ
+ * Intl API を使い、ユーザーのタイムゾーン（profiles.timezone）での壁時計時刻を扱う
+ */
+
+export const DEFAULT_TIMEZONE = 'Asia/Tokyo'
+
+export interface ZonedDateTimeParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+  weekday: number // 0=Sunday
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * タイムゾーン名が有効かどうか
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 指定タイムゾーンでの日時の各要素を取得する
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateTimeParts {
+  const parts = getFormatter(timeZone).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(part => part.type === type)?.value ?? '0'
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  }
+}
+
+/**
+ * 指定時点での UTC からのオフセット（分）
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  const truncated = Math.floor(date.getTime() / 1000) * 1000
+  return Math.round((asUtc - truncated) / 60000)
+}
+
+/**
+ * 指定タイムゾーンの壁時計時刻を UTC の Date に変換する
+ * DST の切り替わりで存在しない時刻は後ろにずらして解決する
+ */
+export function zonedTimeToUtc(
+  parts: Pick<ZonedDateTimeParts, 'year' | 'month' | 'day'> & Partial<Pick<ZonedDateTimeParts, 'hour' | 'minute' | 'second'>>,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour ?? 0, parts.minute ?? 0, parts.second ?? 0)
+  const firstOffset = getTimeZoneOffsetMinutes(new Date(guess), timeZone)
+  const candidate = guess - firstOffset * 60000
+  const secondOffset = getTimeZoneOffsetMinutes(new Date(candidate), timeZone)
+  return new Date(firstOffset === secondOffset ? candidate : guess - secondOffset * 60000)
+}
+
+/**
+ * 指定タイムゾーンでの日付を YYYY-MM-DD 形式で返す
+ */
+export function formatZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * YYYY-MM-DD 形式の日付を指定タイムゾーンの 0:00 として UTC に変換する
+ */
+export function parseZonedDate(value: string, timeZone: string): Date {
+  const [year, month, day] = value.split('-').map(Number)
+  return zonedTimeToUtc({ year: year ?? 1970, month: month ?? 1, day: day ?? 1 }, timeZone)
+}
+
+/**
+ * YYYY-MM-DD 形式の日付を指定日数ずらす
+ */
+export function shiftDateKey(value: string, days: number): string {
+  const [year, month, day] = value.split('-').map(Number)
+  const date = new Date(Date.UTC(year ?? 1970, (month ?? 1) - 1, (day ?? 1) + days))
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * YYYY-MM-DD 形式の実在する日付かどうか
+ */
+export function isDateKey(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  return shiftDateKey(value, 0) === value
+}
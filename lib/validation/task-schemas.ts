@@ -4,23 +4,104 @@
  */
 
 import { z } from 'zod'
-import { TASK_CONSTRAINTS, CATEGORY_CONSTRAINTS } from '@/types/tasks'
+import {
+  TASK_CONSTRAINTS,
+  TASK_PAGINATION,
+  TASK_HISTORY_PAGINATION,
+  TASK_SEARCH_PAGINATION,
+  TASK_BULK_CONSTRAINTS,
+  CATEGORY_CONSTRAINTS,
+  RecurrencePattern
+} from '@/types/tasks'
+import { IMPORT_CONSTRAINTS } from '@/types/data-transfer'
+import { REMINDER_CONSTRAINTS } from '@/types/reminders'
+import { DAILY_LOG_CONSTRAINTS } from '@/types/daily-log'
+import { REVIEW_CONSTRAINTS } from '@/types/reviews'
+import { REPORT_CONSTRAINTS } from '@/types/reports'
+import { isDateKey } from '@/lib/timezone'
+import { parseRecurrencePattern } from '@/lib/recurrence/occurrences'
+import { isRecurrenceDate, parseRecurrenceText, parseRRule } from '@/lib/recurrence/rrule'
 
 // 基本的なバリデーションルール
 const uuidSchema = z.string().uuid('無効なUUID形式です')
-const dateSchema = z.string().datetime('無効な日時形式です').optional()
+const dateSchema = z.string().datetime({ offset: true, message: '無効な日時形式です' }).optional()
+// ユーザーのタイムゾーンでの日（YYYY-MM-DD）
+const dateKeySchema = z
+  .string({ message: '日付は YYYY-MM-DD 形式で指定してください' })
+  .refine(isDateKey, '日付は YYYY-MM-DD 形式で指定してください')
 
 // Task Status と Priority の列挙型
 const taskStatusSchema = z.enum(['pending', 'in_progress', 'completed', 'cancelled'])
 const taskPrioritySchema = z.enum(['low', 'medium', 'high', 'urgent'])
 
+// RFC 5545 の RRULE（"RRULE:" は省略可）
+const rruleSchema = z
+  .string()
+  .max(TASK_CONSTRAINTS.RRULE_MAX_LENGTH, `RRULEは${TASK_CONSTRAINTS.RRULE_MAX_LENGTH}文字以内で入力してください`)
+  .superRefine((value, ctx) => {
+    try {
+      parseRRule(value)
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'RRULEの形式が正しくありません' })
+    }
+  })
+
+const exdatesSchema = z
+  .array(z.string().refine(isRecurrenceDate, '除外日の形式が正しくありません'))
+  .max(TASK_CONSTRAINTS.EXDATES_MAX_COUNT, `除外日は${TASK_CONSTRAINTS.EXDATES_MAX_COUNT}件以内で設定してください`)
+
+const recurrencePatternObjectSchema = z.object({
+  type: z.enum(['daily', 'weekly', 'monthly', 'yearly']).optional(),
+  interval: z.number().int().min(1).max(365).optional(),
+  days_of_week: z.array(z.number().int().min(0).max(6)).optional(),
+  day_of_month: z.number().int().min(1).max(31).optional(),
+  end_date: dateSchema,
+  occurrences: z.number().int().min(1).max(1000).optional(),
+  rrule: rruleSchema.optional(),
+  exdates: exdatesSchema.optional(),
+}).refine(pattern => pattern.type !== undefined || pattern.rrule !== undefined, {
+  message: '繰り返しの種類またはRRULEは必須です',
+  path: ['type'],
+})
+
+// RRULE / EXDATE の行からなる文字列（"RRULE:FREQ=WEEKLY;BYDAY=MO\nEXDATE:20260105T000000Z" など）
+const recurrenceTextSchema = z
+  .string()
+  .max(TASK_CONSTRAINTS.RRULE_MAX_LENGTH * 10, '繰り返しルールが長すぎます')
+  .superRefine((value, ctx) => {
+    try {
+      const { exdates } = parseRecurrenceText(value)
+      if (exdates.length > TASK_CONSTRAINTS.EXDATES_MAX_COUNT) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `除外日は${TASK_CONSTRAINTS.EXDATES_MAX_COUNT}件以内で設定してください` })
+      }
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'RRULEの形式が正しくありません' })
+    }
+  })
+
+// 繰り返しルール
+// 従来の JSON 形式・RRULE を含む JSON・RRULE / EXDATE の文字列を受け付け、保存する JSON 形式に揃える
+export const recurrencePatternSchema = z
+  .union([recurrenceTextSchema, recurrencePatternObjectSchema])
+  .transform((value, ctx) => {
+    const pattern = parseRecurrencePattern(value)
+    if (!pattern) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: '繰り返し設定の形式が正しくありません' })
+      return z.NEVER
+    }
+    return pattern
+  })
+
 // タスク作成スキーマ
 export const createTaskSchema = z.object({
+  // クライアントで採番した ID（作成の応答が届かずに送り直しても二重に作成しないため）
+  id: uuidSchema.optional(),
+
   title: z
     .string()
+    .trim()
     .min(1, 'タスクのタイトルは必須です')
-    .max(TASK_CONSTRAINTS.TITLE_MAX_LENGTH, `タイトルは${TASK_CONSTRAINTS.TITLE_MAX_LENGTH}文字以内で入力してください`)
-    .trim(),
+    .max(TASK_CONSTRAINTS.TITLE_MAX_LENGTH, `タイトルは${TASK_CONSTRAINTS.TITLE_MAX_LENGTH}文字以内で入力してください`),
     
   description: z
     .string()
@@ -28,6 +109,9 @@ export const createTaskSchema = z.object({
     .optional(),
     
   category_id: uuidSchema.optional(),
+
+  // 親タスク（階層の深さは DB のトリガーで検証する）
+  parent_task_id: uuidSchema.optional(),
   
   status: taskStatusSchema.default('pending'),
   
@@ -56,19 +140,18 @@ export const createTaskSchema = z.object({
     
   is_recurring: z.boolean().default(false),
   
-  recurrence_pattern: z.object({
-    type: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
-    interval: z.number().int().min(1).max(365),
-    days_of_week: z.array(z.number().int().min(0).max(6)).optional(),
-    day_of_month: z.number().int().min(1).max(31).optional(),
-    end_date: dateSchema,
-    occurrences: z.number().int().min(1).max(1000).optional(),
-  }).optional(),
-})
-
-// タスク更新スキーマ（すべてのフィールドがオプショナル）
-export const updateTaskSchema = createTaskSchema.partial().extend({
-  completed_at: dateSchema,
+  recurrence_pattern: recurrencePatternSchema.nullable().optional(),
+})
+
+// タスク更新スキーマ（すべてのフィールドがオプショナル、null で値を消せる列は nullable）
+export const updateTaskSchema = createTaskSchema.omit({ id: true }).partial().extend({
+  description: createTaskSchema.shape.description.nullable(),
+  category_id: uuidSchema.nullable().optional(),
+  parent_task_id: uuidSchema.nullable().optional(),
+  due_date: dateSchema.nullable(),
+  start_date: dateSchema.nullable(),
+  notes: createTaskSchema.shape.notes.nullable(),
+  completed_at: dateSchema.nullable(),
   actual_minutes: z
     .number()
     .int('実際の時間は整数で入力してください')
@@ -81,9 +164,9 @@ export const updateTaskSchema = createTaskSchema.partial().extend({
 export const createCategorySchema = z.object({
   name: z
     .string()
+    .trim()
     .min(1, 'カテゴリ名は必須です')
-    .max(CATEGORY_CONSTRAINTS.NAME_MAX_LENGTH, `カテゴリ名は${CATEGORY_CONSTRAINTS.NAME_MAX_LENGTH}文字以内で入力してください`)
-    .trim(),
+    .max(CATEGORY_CONSTRAINTS.NAME_MAX_LENGTH, `カテゴリ名は${CATEGORY_CONSTRAINTS.NAME_MAX_LENGTH}文字以内で入力してください`),
     
   description: z
     .string()
@@ -117,7 +200,11 @@ export const taskFiltersSchema = z.object({
   category_id: z.array(uuidSchema).optional(),
   due_date_from: dateSchema,
   due_date_to: dateSchema,
+  scheduled_from: dateSchema,
+  scheduled_to: dateSchema,
   search: z.string().max(100, '検索キーワードは100文字以内で入力してください').optional(),
+  parent_task_id: uuidSchema.optional(),
+  blocked: z.boolean({ message: 'blocked は true, false のいずれかです' }).optional(),
 })
 
 // ソートオプションスキーマ
@@ -126,20 +213,473 @@ export const taskSortSchema = z.object({
   direction: z.enum(['asc', 'desc']).default('desc'),
 })
 
-// ページネーションスキーマ
+// ページネーションスキーマ（キーセット方式）
 export const paginationSchema = z.object({
   limit: z
     .number()
     .int('制限数は整数で入力してください')
     .min(1, '制限数は1以上で入力してください')
-    .max(100, '制限数は100以下で入力してください')
+    .max(TASK_PAGINATION.MAX_LIMIT, `制限数は${TASK_PAGINATION.MAX_LIMIT}以下で入力してください`)
     .optional(),
-    
-  offset: z
-    .number()
-    .int('オフセットは整数で入力してください')
-    .min(0, 'オフセットは0以上で入力してください')
+
+  cursor: z
+    .string()
+    .min(1, 'カーソルが正しくありません')
+    .optional(),
+})
+
+// 一括操作スキーマ
+const bulkTagsSchema = z
+  .array(z.string().trim().min(1, 'タグは必須です').max(TASK_CONSTRAINTS.TAG_MAX_LENGTH, `タグは${TASK_CONSTRAINTS.TAG_MAX_LENGTH}文字以内で入力してください`))
+  .min(1, 'タグは必須です')
+  .max(TASK_CONSTRAINTS.TAGS_MAX_COUNT, `タグは${TASK_CONSTRAINTS.TAGS_MAX_COUNT}個以内で設定してください`)
+
+export const bulkTaskOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('set_status'), status: taskStatusSchema }),
+  z.object({ type: z.literal('set_priority'), priority: taskPrioritySchema }),
+  z.object({ type: z.literal('move_category'), category_id: uuidSchema.nullable() }),
+  z.object({ type: z.literal('add_tags'), tags: bulkTagsSchema }),
+  z.object({ type: z.literal('remove_tags'), tags: bulkTagsSchema }),
+  z.object({
+    type: z.literal('shift_dates'),
+    days: z
+      .number()
+      .int('ずらす日数は整数で入力してください')
+      .min(-TASK_BULK_CONSTRAINTS.MAX_SHIFT_DAYS, `ずらす日数は${TASK_BULK_CONSTRAINTS.MAX_SHIFT_DAYS}日以内で入力してください`)
+      .max(TASK_BULK_CONSTRAINTS.MAX_SHIFT_DAYS, `ずらす日数は${TASK_BULK_CONSTRAINTS.MAX_SHIFT_DAYS}日以内で入力してください`)
+      .refine(days => days !== 0, 'ずらす日数は0以外で入力してください'),
+  }),
+  z.object({ type: z.literal('delete') }),
+])
+
+export const bulkTaskSchema = z.object({
+  task_ids: z
+    .array(uuidSchema)
+    .min(1, '操作するタスクの選択は必須です')
+    .max(TASK_BULK_CONSTRAINTS.MAX_TASKS, `一度に操作できるタスクは${TASK_BULK_CONSTRAINTS.MAX_TASKS}件までです`),
+  operation: bulkTaskOperationSchema,
+  // true でブロック中のタスクも進行中にする（確認済み）
+  ignore_blockers: z.boolean({ message: 'ignore_blockers は true, false のいずれかです' }).default(false),
+})
+
+// GET /api/tasks のクエリ（配列はカンマ区切り、数値は文字列で届く）
+const splitComma = (value: unknown) => (typeof value === 'string' ? value.split(',').filter(Boolean) : value)
+const toNumber = (value: unknown) => (typeof value === 'string' ? Number(value) : value)
+const toBoolean = (value: unknown) => (value === 'true' ? true : value === 'false' ? false : value)
+
+export const taskListQuerySchema = z.object({
+  status: z.preprocess(splitComma, taskFiltersSchema.shape.status),
+  priority: z.preprocess(splitComma, taskFiltersSchema.shape.priority),
+  category_id: z.preprocess(splitComma, taskFiltersSchema.shape.category_id),
+  due_date_from: taskFiltersSchema.shape.due_date_from,
+  due_date_to: taskFiltersSchema.shape.due_date_to,
+  scheduled_from: taskFiltersSchema.shape.scheduled_from,
+  scheduled_to: taskFiltersSchema.shape.scheduled_to,
+  search: taskFiltersSchema.shape.search,
+  parent_task_id: taskFiltersSchema.shape.parent_task_id,
+  blocked: z.preprocess(toBoolean, taskFiltersSchema.shape.blocked),
+  sort_field: taskSortSchema.shape.field,
+  sort_direction: taskSortSchema.shape.direction,
+  limit: z.preprocess(toNumber, paginationSchema.shape.limit),
+  cursor: paginationSchema.shape.cursor,
+}).refine(query => Boolean(query.scheduled_from) === Boolean(query.scheduled_to), {
+  message: 'scheduled_from と scheduled_to は両方指定してください',
+  path: ['scheduled_to'],
+})
+
+// 動的ルートの id
+export const idParamsSchema = z.object({
+  id: uuidSchema,
+})
+
+// 繰り返しタスクの操作範囲（未指定時はこの回のみ）
+export const recurrenceScopeQuerySchema = z.object({
+  scope: z
+    .enum(['this', 'following', 'all'], { message: 'scope は this, following, all のいずれかです' })
+    .default('this'),
+})
+
+// タスク削除時のクエリ
+// expected_updated_at を指定すると、タスクがその日時より後に変更されていた場合は 409（TASK_CONFLICT）になる
+export const deleteTaskQuerySchema = recurrenceScopeQuerySchema.extend({
+  expected_updated_at: z.string().datetime({ offset: true, message: 'expected_updated_at の日時形式が正しくありません' }).optional(),
+})
+
+// タスク更新時のクエリ
+// complete_subtasks=true で完了にしたタスクのサブタスクもすべて完了にする
+// ignore_blockers=true でブロック中のタスクも進行中にする（確認済み）
+export const updateTaskQuerySchema = deleteTaskQuerySchema.extend({
+  complete_subtasks: z
+    .enum(['true', 'false'], { message: 'complete_subtasks は true, false のいずれかです' })
+    .default('false')
+    .transform(value => value === 'true'),
+  ignore_blockers: z
+    .enum(['true', 'false'], { message: 'ignore_blockers は true, false のいずれかです' })
+    .default('false')
+    .transform(value => value === 'true'),
+})
+
+// タイマー開始スキーマ
+// 開始すると未着手のタスクは進行中になるため、ブロック中のタスクは ignore_blockers=true（確認済み）が必要
+export const startTimerSchema = z.object({
+  description: z
+    .string()
+    .max(
+      TASK_CONSTRAINTS.TIME_ENTRY_DESCRIPTION_MAX_LENGTH,
+      `作業メモは${TASK_CONSTRAINTS.TIME_ENTRY_DESCRIPTION_MAX_LENGTH}文字以内で入力してください`
+    )
     .optional(),
+  ignore_blockers: z.boolean({ message: 'ignore_blockers は true, false のいずれかです' }).default(false),
+})
+
+// 作業記録の削除対象
+export const timeEntryQuerySchema = z.object({
+  entryId: uuidSchema,
+})
+
+// GET /api/tasks/search のクエリ（q は websearch 構文: "フレーズ"、OR、-除外）
+export const taskSearchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(1, '検索キーワードは必須です')
+    .max(100, '検索キーワードは100文字以内で入力してください'),
+  limit: z.preprocess(
+    toNumber,
+    z
+      .number()
+      .int('制限数は整数で入力してください')
+      .min(1, '制限数は1以上で入力してください')
+      .max(TASK_SEARCH_PAGINATION.MAX_LIMIT, `制限数は${TASK_SEARCH_PAGINATION.MAX_LIMIT}以下で入力してください`)
+      .default(TASK_SEARCH_PAGINATION.DEFAULT_LIMIT)
+  ),
+  offset: z.preprocess(
+    toNumber,
+    z
+      .number()
+      .int('開始位置は整数で入力してください')
+      .min(0, '開始位置は0以上で入力してください')
+      .default(0)
+  ),
+})
+
+// タスクの変更履歴（新しい順に limit 件）
+export const taskHistoryQuerySchema = z.object({
+  limit: z.preprocess(
+    toNumber,
+    z
+      .number()
+      .int('制限数は整数で入力してください')
+      .min(1, '制限数は1以上で入力してください')
+      .max(TASK_HISTORY_PAGINATION.MAX_LIMIT, `制限数は${TASK_HISTORY_PAGINATION.MAX_LIMIT}以下で入力してください`)
+      .default(TASK_HISTORY_PAGINATION.DEFAULT_LIMIT)
+  ),
+})
+
+// チェックリストの項目
+const checklistTitleSchema = z
+  .string()
+  .trim()
+  .min(1, '項目名は必須です')
+  .max(TASK_CONSTRAINTS.CHECKLIST_ITEM_MAX_LENGTH, `項目名は${TASK_CONSTRAINTS.CHECKLIST_ITEM_MAX_LENGTH}文字以内で入力してください`)
+
+export const createChecklistItemSchema = z.object({
+  title: checklistTitleSchema,
+})
+
+export const updateChecklistItemSchema = z
+  .object({
+    title: checklistTitleSchema.optional(),
+    is_done: z.boolean().optional(),
+    position: z.number().int('並び順は整数で入力してください').min(0, '並び順は0以上で入力してください').optional(),
+  })
+  .refine(data => Object.values(data).some(value => value !== undefined), {
+    message: '変更する項目を指定してください',
+  })
+
+export const checklistItemParamsSchema = z.object({
+  id: uuidSchema,
+  itemId: uuidSchema,
+})
+
+// タスクの依存関係（type: blocked_by は task_id を先行タスクに、blocks は後続タスクにする）
+export const createTaskDependencySchema = z.object({
+  task_id: uuidSchema,
+  type: z.enum(['blocked_by', 'blocks'], { message: 'type は blocked_by, blocks のいずれかです' }),
+})
+
+export const taskDependencyParamsSchema = z.object({
+  id: uuidSchema,
+  dependencyId: uuidSchema,
+})
+
+// カテゴリ削除時の所属タスクの扱い（未指定時は未分類に移す）
+export const deleteCategoryQuerySchema = z
+  .object({
+    task_action: z
+      .enum(['move', 'trash'], { message: 'task_action は move, trash のいずれかです' })
+      .default('move'),
+    target_category_id: uuidSchema.optional(),
+  })
+  .refine(data => data.task_action === 'move' || !data.target_category_id, {
+    message: 'target_category_id は task_action が move の場合のみ指定できます',
+    path: ['target_category_id'],
+  })
+
+// ゴミ箱の操作対象（task または category）
+export const trashItemParamsSchema = z.object({
+  type: z.enum(['tasks', 'categories'], { message: '種類は tasks, categories のいずれかです' }),
+  id: uuidSchema,
+})
+
+// インポートするタスク（カテゴリと親タスクは名前・元のIDから別に解決する）
+export const importTaskSchema = createTaskSchema.omit({ id: true, category_id: true, parent_task_id: true }).extend({
+  completed_at: dateSchema.nullable(),
+  actual_minutes: updateTaskSchema.shape.actual_minutes,
+})
+
+const importSourceIdSchema = z.string().min(1).max(100)
+
+// POST /api/import（行の値の変換と検証は行ごとに行い、エラーは行ごとの結果で返す）
+export const importRequestSchema = z.object({
+  rows: z
+    .array(z.object({
+      row: z.number().int().min(0),
+      values: z.record(z.unknown()),
+      source_id: importSourceIdSchema.optional(),
+      parent_source_id: importSourceIdSchema.nullable().optional(),
+      completed_at: z.string().nullable().optional(),
+      actual_minutes: z.number().optional(),
+      checklist: z
+        .array(z.object({ title: z.string(), is_done: z.boolean() }))
+        .optional(),
+    }))
+    .min(1, '取り込む行がありません')
+    .max(IMPORT_CONSTRAINTS.MAX_ROWS, `一度に取り込めるのは${IMPORT_CONSTRAINTS.MAX_ROWS}件までです`),
+  categories: z
+    .array(z.object({
+      name: z.string(),
+      description: z.string().nullable().optional(),
+      color: z.string().optional(),
+      icon: z.string().nullable().optional(),
+    }))
+    .max(IMPORT_CONSTRAINTS.MAX_ROWS)
+    .optional(),
+  time_entries: z
+    .array(z.object({
+      task_source_id: importSourceIdSchema,
+      start_time: z.string().datetime({ offset: true, message: '作業記録の開始日時の形式が正しくありません' }),
+      end_time: z.string().datetime({ offset: true, message: '作業記録の終了日時の形式が正しくありません' }),
+      description: z.string().nullable().optional(),
+    }))
+    .max(IMPORT_CONSTRAINTS.MAX_TIME_ENTRIES, `一度に取り込める作業記録は${IMPORT_CONSTRAINTS.MAX_TIME_ENTRIES}件までです`)
+    .optional(),
+  options: z.object({
+    create_categories: z.boolean().default(true),
+    skip_duplicates: z.boolean().default(true),
+  }).default({}),
+  dry_run: z.boolean().default(true),
+})
+
+// GET /api/export のクエリ（dataset は CSV の場合のみ）
+export const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'json'], { message: 'format は csv, json のいずれかです' }).default('json'),
+  dataset: z.enum(['tasks', 'time_entries'], { message: 'dataset は tasks, time_entries のいずれかです' }).default('tasks'),
+})
+
+// リマインダー（開始日時・期限の何分前か）
+const reminderAnchorSchema = z.enum(['start', 'due'], { message: 'anchor は start, due のいずれかです' })
+const reminderOffsetSchema = z
+  .number({ message: '通知のタイミングは分単位の数値で指定してください' })
+  .int('通知のタイミングは分単位の整数で指定してください')
+  .min(0, '通知のタイミングは0分以上で指定してください')
+  .max(REMINDER_CONSTRAINTS.MAX_OFFSET_MINUTES, `通知のタイミングは${REMINDER_CONSTRAINTS.MAX_OFFSET_MINUTES / 1440}日前までです`)
+const reminderOffsetsSchema = z
+  .array(reminderOffsetSchema)
+  .max(REMINDER_CONSTRAINTS.MAX_OFFSETS_PER_ANCHOR, `通知のタイミングは${REMINDER_CONSTRAINTS.MAX_OFFSETS_PER_ANCHOR}つまでです`)
+  .transform(offsets => Array.from(new Set(offsets)).sort((a, b) => b - a))
+
+export const createTaskReminderSchema = z.object({
+  anchor: reminderAnchorSchema,
+  offset_minutes: reminderOffsetSchema,
+})
+
+export const taskReminderParamsSchema = z.object({
+  id: uuidSchema,
+  reminderId: uuidSchema,
+})
+
+// PUT /api/reminders/settings（既定の通知設定）
+export const reminderPolicySchema = z.object({
+  enabled: z.boolean(),
+  start_offsets: reminderOffsetsSchema,
+  due_offsets: reminderOffsetsSchema,
+  channels: z
+    .array(z.enum(['in_app', 'web_push', 'email'], { message: 'channels は in_app, web_push, email のいずれかです' }))
+    .min(1, '通知方法を1つ以上選んでください')
+    .transform(channels => Array.from(new Set(channels))),
+})
+
+// GET /api/reminders/notifications（channel はその方法で送信した・送信中の通知のみ）
+export const reminderNotificationsQuerySchema = z.object({
+  unread: z
+    .enum(['true', 'false'], { message: 'unread は true, false のいずれかです' })
+    .default('false')
+    .transform(value => value === 'true'),
+  channel: z.enum(['in_app', 'web_push', 'email'], { message: 'channel は in_app, web_push, email のいずれかです' }).optional(),
+  limit: z.preprocess(toNumber, z.number().int().min(1).max(50).default(20)),
+})
+
+// POST /api/reminders/notifications/read（ids を省略するとすべて既読にする）
+export const markRemindersReadSchema = z.object({
+  ids: z.array(uuidSchema).max(100).optional(),
+})
+
+// POST /api/reminders/push-subscriptions（PushSubscription.toJSON() の形式）
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url('endpoint が正しくありません').max(2000).startsWith('https://', 'endpoint が正しくありません'),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100),
+  }),
+})
+
+export const pushSubscriptionQuerySchema = z.object({
+  endpoint: pushSubscriptionSchema.shape.endpoint,
+})
+
+// デイリーログ（date は省略時は今日）
+export const dailyLogQuerySchema = z.object({
+  date: dateKeySchema.optional(),
+})
+
+// タスクを予定に追加・予定から外す（DELETE はクエリで指定する）
+export const dailyLogTaskSchema = z.object({
+  date: dateKeySchema,
+  task_id: uuidSchema,
+})
+
+// task_ids はその日の予定のタスクを並べたい順に
+export const reorderDailyLogSchema = z.object({
+  date: dateKeySchema,
+  task_ids: z
+    .array(uuidSchema)
+    .max(DAILY_LOG_CONSTRAINTS.MAX_ITEMS_PER_DAY, `1日の予定は${DAILY_LOG_CONSTRAINTS.MAX_ITEMS_PER_DAY}件までです`),
+})
+
+export const carryOverDailyLogSchema = z.object({
+  date: dateKeySchema,
+})
+
+// 日次レビュー（残ったタスクの扱い。reschedule の場合は移動先の日付が必須）
+const leftoverActionSchema = z
+  .object({
+    task_id: uuidSchema,
+    action: z.enum(['reschedule', 'defer', 'cancel', 'keep'], { message: 'action は reschedule, defer, cancel, keep のいずれかです' }),
+    date: dateKeySchema.optional(),
+  })
+  .refine(action => action.action !== 'reschedule' || action.date !== undefined, {
+    message: '移動先の日付は必須です（YYYY-MM-DD 形式）',
+    path: ['date'],
+  })
+
+export const dailyReviewQuerySchema = z.object({
+  date: dateKeySchema.optional(),
+})
+
+export const saveDailyReviewSchema = z.object({
+  date: dateKeySchema,
+  notes: z
+    .string()
+    .max(REVIEW_CONSTRAINTS.NOTES_MAX_LENGTH, `振り返りメモは${REVIEW_CONSTRAINTS.NOTES_MAX_LENGTH}文字以内で入力してください`)
+    .nullable()
+    .optional(),
+  mood: z
+    .number({ message: '気分は数値で指定してください' })
+    .int('気分は整数で指定してください')
+    .min(REVIEW_CONSTRAINTS.MOOD_MIN, `気分は${REVIEW_CONSTRAINTS.MOOD_MIN}〜${REVIEW_CONSTRAINTS.MOOD_MAX}で指定してください`)
+    .max(REVIEW_CONSTRAINTS.MOOD_MAX, `気分は${REVIEW_CONSTRAINTS.MOOD_MIN}〜${REVIEW_CONSTRAINTS.MOOD_MAX}で指定してください`)
+    .nullable()
+    .optional(),
+  score: z
+    .number({ message: '点数は数値で指定してください' })
+    .int('点数は整数で指定してください')
+    .min(REVIEW_CONSTRAINTS.SCORE_MIN, `点数は${REVIEW_CONSTRAINTS.SCORE_MIN}〜${REVIEW_CONSTRAINTS.SCORE_MAX}で指定してください`)
+    .max(REVIEW_CONSTRAINTS.SCORE_MAX, `点数は${REVIEW_CONSTRAINTS.SCORE_MIN}〜${REVIEW_CONSTRAINTS.SCORE_MAX}で指定してください`)
+    .nullable()
+    .optional(),
+  actions: z
+    .array(leftoverActionSchema)
+    .max(REVIEW_CONSTRAINTS.MAX_ACTIONS, `一度に扱えるタスクは${REVIEW_CONSTRAINTS.MAX_ACTIONS}件までです`)
+    .optional(),
+})
+
+// 週次レビュー（week_start を含む週、省略時は今週）
+export const weeklyReviewQuerySchema = z.object({
+  week_start: dateKeySchema.optional(),
+})
+
+// GET /api/reports（省略時は直近の期間）
+export const reportQuerySchema = z
+  .object({
+    from: dateKeySchema.optional(),
+    to: dateKeySchema.optional(),
+  })
+  .superRefine(({ from, to }, ctx) => {
+    if (!from || !to) return
+    const days = (Date.parse(to) - Date.parse(from)) / 86400000 + 1
+    if (days < 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: '開始日は終了日以前の日付を指定してください', path: ['to'] })
+    } else if (days > REPORT_CONSTRAINTS.MAX_RANGE_DAYS) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `期間は${REPORT_CONSTRAINTS.MAX_RANGE_DAYS}日以内で指定してください`, path: ['to'] })
+    }
+  })
+
+// 取り込み候補の予定を一覧する期間
+const CALENDAR_EVENT_RANGE_MAX_DAYS = 366
+const eventRangeShape = {
+  from: z.string({ message: '期間（from）は必須です' }).datetime({ offset: true, message: '期間（from）の日時形式が正しくありません' }),
+  to: z.string({ message: '期間（to）は必須です' }).datetime({ offset: true, message: '期間（to）の日時形式が正しくありません' }),
+}
+
+function refineEventRange(range: { from: string; to: string }, ctx: z.RefinementCtx) {
+  const span = Date.parse(range.to) - Date.parse(range.from)
+  if (span <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: '期間の終了は開始より後の日時を指定してください', path: ['to'] })
+  } else if (span > CALENDAR_EVENT_RANGE_MAX_DAYS * 86400000) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `期間は${CALENDAR_EVENT_RANGE_MAX_DAYS}日以内で指定してください`, path: ['to'] })
+  }
+}
+
+export const calendarEventsQuerySchema = z.object(eventRangeShape).superRefine(refineEventRange)
+
+// POST /api/calendar/events（.ics の内容の検証はサービス側で行う）
+export const icsEventsSchema = z.object({ ...eventRangeShape, ics: z.string().optional() }).superRefine(refineEventRange)
+
+// POST /api/calendar/events/import（件数の上限はサービス側で検証する）
+export const importEventsSchema = z.object({
+  source: z.enum(['google', 'ics'], { message: 'source は google, ics のいずれかです' }),
+  event_ids: z
+    .array(z.string().min(1, '予定の指定が正しくありません').max(1024, '予定の指定が正しくありません'))
+    .min(1, '取り込む予定の選択は必須です'),
+  ics: z.string().optional(),
+  category_id: uuidSchema.nullable().optional(),
+})
+
+// PUT /api/calendar/sync（更新する項目のみ）
+export const calendarSyncSettingsSchema = z.object({
+  sync_enabled: z.boolean({ message: 'sync_enabled は true, false のいずれかです' }).optional(),
+  conflict_policy: z
+    .enum(['last_writer_wins', 'prompt'], { message: 'conflict_policy は last_writer_wins, prompt のいずれかです' })
+    .optional(),
+  calendar_id: z.string().trim().min(1, 'カレンダーIDは必須です').max(1024, 'カレンダーIDが長すぎます').optional(),
+})
+
+// POST /api/calendar/sync（保留中の競合の解決内容。タスクの id ごとに local または remote）
+export const calendarSyncRequestSchema = z.object({
+  resolutions: z
+    .record(uuidSchema, z.enum(['local', 'remote'], { message: '競合の解決方法は local, remote のいずれかです' }))
+    .default({}),
 })
 
 // 型エクスポート
@@ -150,6 +690,13 @@ export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>
 export type TaskFiltersInput = z.infer<typeof taskFiltersSchema>
 export type TaskSortInput = z.infer<typeof taskSortSchema>
 export type PaginationInput = z.infer<typeof paginationSchema>
+export type TaskListQueryInput = z.infer<typeof taskListQuerySchema>
+export type BulkTaskInput = z.infer<typeof bulkTaskSchema>
+export type RecurrencePatternInput = z.input<typeof recurrencePatternSchema>
+export type ImportTaskInput = z.infer<typeof importTaskSchema>
+export type ImportRequestInput = z.infer<typeof importRequestSchema>
+export type CreateTaskReminderInput = z.infer<typeof createTaskReminderSchema>
+export type PushSubscriptionInput = z.infer<typeof pushSubscriptionSchema>
 
 // バリデーション関数
 export function validateCreateTask(data: unknown): CreateTaskInput {
@@ -180,6 +727,10 @@ export function validatePagination(data: unknown): PaginationInput {
   return paginationSchema.parse(data)
 }
 
+export function validateRecurrencePattern(data: unknown): RecurrencePattern {
+  return recurrencePatternSchema.parse(data)
+}
+
 // エラーメッセージの日本語化
 export function formatValidationError(error: z.ZodError): string {
   return error.errors
@@ -0,0 +1,49 @@
+/**
+ * TaskShoot のリマインダー通知（Web Push）を表示する Service Worker
+ * プッシュは本文なしで届くため、未読の通知を API から取得して表示する
+ */
+
+self.addEventListener('push', event => {
+  event.waitUntil(showUnreadReminders())
+})
+
+async function showUnreadReminders() {
+  try {
+    const response = await fetch('/api/reminders/notifications?unread=true&channel=web_push&limit=5', {
+      credentials: 'same-origin',
+    })
+    const result = await response.json()
+
+    if (!response.ok || !result.success || result.data.length === 0) {
+      // ユーザーに見える通知を必ず表示する（userVisibleOnly）
+      await self.registration.showNotification('TaskShoot', { body: 'リマインダーがあります', tag: 'taskshoot-reminder' })
+      return
+    }
+
+    // tag に通知の ID を使い、同じ通知を重ねて表示しない
+    await Promise.all(result.data.map(notification =>
+      self.registration.showNotification(notification.title, {
+        body: notification.body,
+        tag: notification.id,
+        data: { url: '/' },
+      })
+    ))
+  } catch (error) {
+    await self.registration.showNotification('TaskShoot', { body: 'リマインダーがあります', tag: 'taskshoot-reminder' })
+  }
+}
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  event.waitUntil(focusApp())
+})
+
+async function focusApp() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  const existing = windows.find(client => new URL(client.url).origin === self.location.origin)
+  if (existing) {
+    await existing.focus()
+    return
+  }
+  await self.clients.openWindow('/')
+}
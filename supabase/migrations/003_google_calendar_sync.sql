@@ -0,0 +1,58 @@
+-- Google Calendar sync support
+-- Tracks per-task sync state and per-user sync settings
+
+-- Per-task sync state
+-- google_calendar_etag: etag of the event as last seen by the sync engine
+-- google_calendar_sync_hash: hash of the task fields as last pushed/pulled
+ALTER TABLE public.tasks
+  ADD COLUMN google_calendar_etag TEXT,
+  ADD COLUMN google_calendar_sync_hash TEXT;
+
+CREATE INDEX tasks_google_calendar_event_idx
+  ON public.tasks(user_id, google_calendar_event_id)
+  WHERE google_calendar_event_id IS NOT NULL;
+
+-- Per-user sync settings
+CREATE TABLE public.calendar_sync_settings (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  calendar_id TEXT NOT NULL DEFAULT 'primary',
+  sync_enabled BOOLEAN NOT NULL DEFAULT false,
+  conflict_policy TEXT NOT NULL DEFAULT 'last_writer_wins'
+    CHECK (conflict_policy IN ('last_writer_wins', 'prompt')),
+
+  -- Google OAuth refresh token (obtained at sign-in with offline access)
+  google_refresh_token TEXT,
+
+  -- Incremental sync state
+  sync_token TEXT,
+  pending_conflicts JSONB NOT NULL DEFAULT '[]',
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER calendar_sync_settings_updated_at
+  BEFORE UPDATE ON public.calendar_sync_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.calendar_sync_settings ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own sync settings
+CREATE POLICY "Users can view own sync settings" ON public.calendar_sync_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert their own sync settings
+CREATE POLICY "Users can insert own sync settings" ON public.calendar_sync_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own sync settings
+CREATE POLICY "Users can update own sync settings" ON public.calendar_sync_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own sync settings
+CREATE POLICY "Users can delete own sync settings" ON public.calendar_sync_settings
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,10 @@
+-- Event import support
+-- Tasks created from calendar events keep the source event id in
+-- google_calendar_event_id ("ics:<UID>" for uploaded .ics files),
+-- so the same event can only be linked to one task per user
+
+DROP INDEX IF EXISTS public.tasks_google_calendar_event_idx;
+
+CREATE UNIQUE INDEX tasks_google_calendar_event_idx
+  ON public.tasks(user_id, google_calendar_event_id)
+  WHERE google_calendar_event_id IS NOT NULL;
@@ -0,0 +1,23 @@
+-- Recurring task series
+-- Each occurrence of a recurring task is materialized as its own task row.
+-- Occurrences of the same series share recurrence_series_id and are computed
+-- from recurrence_anchor (the first occurrence) and recurrence_pattern.
+
+ALTER TABLE public.tasks
+  ADD COLUMN recurrence_series_id UUID,
+  ADD COLUMN recurrence_anchor TIMESTAMP WITH TIME ZONE,
+  -- Nominal start of this occurrence (unchanged when the occurrence itself is rescheduled)
+  ADD COLUMN recurrence_instance_date TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT tasks_recurrence_series_check CHECK (
+    recurrence_series_id IS NULL
+    OR (recurrence_anchor IS NOT NULL AND recurrence_instance_date IS NOT NULL)
+  );
+
+-- One task per occurrence; also guards against creating the next occurrence twice
+CREATE UNIQUE INDEX tasks_recurrence_instance_idx
+  ON public.tasks(recurrence_series_id, recurrence_instance_date)
+  WHERE recurrence_series_id IS NOT NULL;
+
+CREATE INDEX tasks_recurrence_series_idx
+  ON public.tasks(user_id, recurrence_series_id)
+  WHERE recurrence_series_id IS NOT NULL;
@@ -0,0 +1,93 @@
+-- Time tracking for tasks
+-- Each row is one timer session; a row without end_time is the running timer
+
+CREATE TABLE public.time_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  end_time TIMESTAMP WITH TIME ZONE,
+  duration_minutes INTEGER CHECK (duration_minutes >= 0),
+  description TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT time_entries_end_after_start CHECK (end_time IS NULL OR end_time >= start_time),
+  CONSTRAINT time_entries_duration_when_stopped CHECK ((end_time IS NULL) = (duration_minutes IS NULL)),
+  CONSTRAINT time_entries_description_length CHECK (length(description) <= 500)
+);
+
+CREATE TRIGGER time_entries_updated_at
+  BEFORE UPDATE ON public.time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Only one running timer per user
+CREATE UNIQUE INDEX time_entries_running_idx
+  ON public.time_entries(user_id)
+  WHERE end_time IS NULL;
+
+CREATE INDEX time_entries_task_id_idx ON public.time_entries(task_id, start_time);
+CREATE INDEX time_entries_user_start_idx ON public.time_entries(user_id, start_time);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own time entries
+CREATE POLICY "Users can view own time entries" ON public.time_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert time entries for their own tasks
+CREATE POLICY "Users can insert own time entries" ON public.time_entries
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_id AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Users can update their own time entries
+CREATE POLICY "Users can update own time entries" ON public.time_entries
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own time entries
+CREATE POLICY "Users can delete own time entries" ON public.time_entries
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Roll finished durations up into tasks.actual_minutes
+CREATE OR REPLACE FUNCTION public.recalculate_task_actual_minutes(p_task_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.tasks
+  SET actual_minutes = (
+    SELECT COALESCE(SUM(duration_minutes), 0)
+    FROM public.time_entries
+    WHERE task_id = p_task_id AND end_time IS NOT NULL
+  )
+  WHERE id = p_task_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.handle_time_entry_rollup()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.recalculate_task_actual_minutes(NEW.task_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.recalculate_task_actual_minutes(OLD.task_id);
+  ELSIF TG_OP = 'UPDATE' AND OLD.task_id IS DISTINCT FROM NEW.task_id THEN
+    PERFORM public.recalculate_task_actual_minutes(OLD.task_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER time_entries_rollup
+  AFTER INSERT OR UPDATE OF end_time, duration_minutes, task_id OR DELETE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.handle_time_entry_rollup();
@@ -0,0 +1,51 @@
+-- Daily log (TaskShoot-style plan of the day)
+-- Each row places a task on a day's plan in execution order
+
+CREATE TABLE public.daily_plan_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+
+  -- Day in the user's timezone
+  plan_date DATE NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- A task appears at most once per day
+  UNIQUE(user_id, plan_date, task_id)
+);
+
+CREATE TRIGGER daily_plan_items_updated_at
+  BEFORE UPDATE ON public.daily_plan_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX daily_plan_items_day_idx ON public.daily_plan_items(user_id, plan_date, sort_order);
+CREATE INDEX daily_plan_items_task_id_idx ON public.daily_plan_items(task_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.daily_plan_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own plan items
+CREATE POLICY "Users can view own plan items" ON public.daily_plan_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert plan items for their own tasks
+CREATE POLICY "Users can insert own plan items" ON public.daily_plan_items
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_id AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Users can update their own plan items
+CREATE POLICY "Users can update own plan items" ON public.daily_plan_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own plan items
+CREATE POLICY "Users can delete own plan items" ON public.daily_plan_items
+  FOR DELETE USING (auth.uid() = user_id);
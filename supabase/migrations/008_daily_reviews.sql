@@ -0,0 +1,49 @@
+-- Daily review records
+-- One row per user and day; weekly reviews aggregate these rows
+
+CREATE TABLE public.daily_reviews (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Day in the user's timezone
+  review_date DATE NOT NULL,
+  notes TEXT,
+  mood SMALLINT CHECK (mood BETWEEN 1 AND 5),
+  score SMALLINT CHECK (score BETWEEN 0 AND 100),
+
+  -- Snapshot of the day's numbers at review time
+  planned_count INTEGER NOT NULL DEFAULT 0 CHECK (planned_count >= 0),
+  completed_count INTEGER NOT NULL DEFAULT 0 CHECK (completed_count >= 0),
+  estimated_minutes INTEGER NOT NULL DEFAULT 0 CHECK (estimated_minutes >= 0),
+  actual_minutes INTEGER NOT NULL DEFAULT 0 CHECK (actual_minutes >= 0),
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT daily_reviews_notes_length CHECK (length(notes) <= 5000),
+  UNIQUE(user_id, review_date)
+);
+
+CREATE TRIGGER daily_reviews_updated_at
+  BEFORE UPDATE ON public.daily_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.daily_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own reviews
+CREATE POLICY "Users can view own reviews" ON public.daily_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert their own reviews
+CREATE POLICY "Users can insert own reviews" ON public.daily_reviews
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own reviews
+CREATE POLICY "Users can update own reviews" ON public.daily_reviews
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own reviews
+CREATE POLICY "Users can delete own reviews" ON public.daily_reviews
+  FOR DELETE USING (auth.uid() = user_id);
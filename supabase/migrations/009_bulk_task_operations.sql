@@ -0,0 +1,117 @@
+-- Bulk task operations
+-- Applies one operation to many tasks in a single transaction: either every task changes or none does
+
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(
+  p_user_id UUID,
+  p_task_ids UUID[],
+  p_operation TEXT,
+  p_payload JSONB DEFAULT '{}'::JSONB,
+  -- Used by shift_dates so that times keep their wall-clock value across DST changes
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS SETOF public.tasks AS $$
+DECLARE
+  v_ids UUID[] := ARRAY(SELECT DISTINCT unnest(p_task_ids));
+  v_found INTEGER;
+  v_status TEXT;
+  v_category_id UUID;
+  v_tags TEXT[];
+  v_days INTEGER;
+BEGIN
+  -- Lock the target rows; every id must belong to the user
+  SELECT COUNT(*) INTO v_found
+  FROM (
+    SELECT id FROM public.tasks
+    WHERE user_id = p_user_id AND id = ANY(v_ids)
+    FOR UPDATE
+  ) AS locked;
+
+  IF v_found <> cardinality(v_ids) THEN
+    RAISE EXCEPTION 'bulk_update_tasks: some tasks were not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  CASE p_operation
+    WHEN 'set_status' THEN
+      v_status := p_payload->>'status';
+
+      RETURN QUERY
+      UPDATE public.tasks
+      SET status = v_status,
+          -- Keep the original completion time when the task was already completed
+          completed_at = CASE
+            WHEN v_status <> 'completed' THEN NULL
+            WHEN status = 'completed' THEN completed_at
+            ELSE NOW()
+          END
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'set_priority' THEN
+      RETURN QUERY
+      UPDATE public.tasks
+      SET priority = p_payload->>'priority'
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'move_category' THEN
+      v_category_id := NULLIF(p_payload->>'category_id', '')::UUID;
+
+      -- The foreign key alone would accept another user's category
+      IF v_category_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.categories WHERE id = v_category_id AND user_id = p_user_id
+      ) THEN
+        RAISE EXCEPTION 'bulk_update_tasks: category was not found' USING ERRCODE = 'foreign_key_violation';
+      END IF;
+
+      RETURN QUERY
+      UPDATE public.tasks
+      SET category_id = v_category_id
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'add_tags' THEN
+      v_tags := ARRAY(SELECT jsonb_array_elements_text(p_payload->'tags'));
+
+      -- Append only the tags the task does not have yet, keeping the existing order
+      RETURN QUERY
+      UPDATE public.tasks
+      SET tags = COALESCE(tags, '{}') || ARRAY(
+        SELECT DISTINCT tag FROM unnest(v_tags) AS tag
+        WHERE tag <> ALL(COALESCE(tags, '{}'))
+      )
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'remove_tags' THEN
+      v_tags := ARRAY(SELECT jsonb_array_elements_text(p_payload->'tags'));
+
+      RETURN QUERY
+      UPDATE public.tasks
+      SET tags = ARRAY(
+        SELECT tag FROM unnest(COALESCE(tags, '{}')) AS tag
+        WHERE tag <> ALL(v_tags)
+      )
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'shift_dates' THEN
+      v_days := (p_payload->>'days')::INTEGER;
+
+      RETURN QUERY
+      UPDATE public.tasks
+      SET start_date = ((start_date AT TIME ZONE p_time_zone) + make_interval(days => v_days)) AT TIME ZONE p_time_zone,
+          due_date = ((due_date AT TIME ZONE p_time_zone) + make_interval(days => v_days)) AT TIME ZONE p_time_zone
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'delete' THEN
+      RETURN QUERY
+      DELETE FROM public.tasks
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    ELSE
+      RAISE EXCEPTION 'bulk_update_tasks: unknown operation %', p_operation USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,281 @@
+-- Soft delete for tasks and categories
+-- Deleted rows stay in the trash (deleted_at IS NOT NULL) until they are restored,
+-- deleted permanently, or purged after the retention period
+
+ALTER TABLE public.tasks ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.categories ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX tasks_deleted_at_idx ON public.tasks(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX categories_deleted_at_idx ON public.categories(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Names only need to be unique among categories that are not in the trash
+ALTER TABLE public.categories DROP CONSTRAINT categories_user_id_name_key;
+CREATE UNIQUE INDEX categories_user_id_name_key
+  ON public.categories(user_id, name)
+  WHERE deleted_at IS NULL;
+
+-- A deleted occurrence must not block creating the occurrence again
+DROP INDEX public.tasks_recurrence_instance_idx;
+CREATE UNIQUE INDEX tasks_recurrence_instance_idx
+  ON public.tasks(recurrence_series_id, recurrence_instance_date)
+  WHERE recurrence_series_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Statistics ignore tasks in the trash
+CREATE OR REPLACE FUNCTION public.get_task_stats(p_user_id UUID)
+RETURNS TABLE(
+  total_tasks BIGINT,
+  completed_tasks BIGINT,
+  pending_tasks BIGINT,
+  in_progress_tasks BIGINT,
+  overdue_tasks BIGINT,
+  completion_rate NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_tasks,
+    COUNT(*) FILTER (WHERE status = 'completed') as completed_tasks,
+    COUNT(*) FILTER (WHERE status = 'pending') as pending_tasks,
+    COUNT(*) FILTER (WHERE status = 'in_progress') as in_progress_tasks,
+    COUNT(*) FILTER (WHERE status != 'completed' AND due_date < NOW()) as overdue_tasks,
+    CASE
+      WHEN COUNT(*) = 0 THEN 0
+      ELSE ROUND((COUNT(*) FILTER (WHERE status = 'completed')::NUMERIC / COUNT(*)::NUMERIC) * 100, 2)
+    END as completion_rate
+  FROM public.tasks
+  WHERE user_id = p_user_id AND deleted_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bulk operations only see tasks outside the trash, and delete moves tasks to the trash
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(
+  p_user_id UUID,
+  p_task_ids UUID[],
+  p_operation TEXT,
+  p_payload JSONB DEFAULT '{}'::JSONB,
+  -- Used by shift_dates so that times keep their wall-clock value across DST changes
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS SETOF public.tasks AS $$
+DECLARE
+  v_ids UUID[] := ARRAY(SELECT DISTINCT unnest(p_task_ids));
+  v_found INTEGER;
+  v_status TEXT;
+  v_category_id UUID;
+  v_tags TEXT[];
+  v_days INTEGER;
+BEGIN
+  -- Lock the target rows; every id must belong to the user
+  SELECT COUNT(*) INTO v_found
+  FROM (
+    SELECT id FROM public.tasks
+    WHERE user_id = p_user_id AND id = ANY(v_ids) AND deleted_at IS NULL
+    FOR UPDATE
+  ) AS locked;
+
+  IF v_found <> cardinality(v_ids) THEN
+    RAISE EXCEPTION 'bulk_update_tasks: some tasks were not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  CASE p_operation
+    WHEN 'set_status' THEN
+      v_status := p_payload->>'status';
+
+      RETURN QUERY
+      UPDATE public.tasks
+      SET status = v_status,
+          -- Keep the original completion time when the task was already completed
+          completed_at = CASE
+            WHEN v_status <> 'completed' THEN NULL
+            WHEN status = 'completed' THEN completed_at
+            ELSE NOW()
+          END
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'set_priority' THEN
+      RETURN QUERY
+      UPDATE public.tasks
+      SET priority = p_payload->>'priority'
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'move_category' THEN
+      v_category_id := NULLIF(p_payload->>'category_id', '')::UUID;
+
+      -- The foreign key alone would accept another user's category or one in the trash
+      IF v_category_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.categories
+        WHERE id = v_category_id AND user_id = p_user_id AND deleted_at IS NULL
+      ) THEN
+        RAISE EXCEPTION 'bulk_update_tasks: category was not found' USING ERRCODE = 'foreign_key_violation';
+      END IF;
+
+      RETURN QUERY
+      UPDATE public.tasks
+      SET category_id = v_category_id
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'add_tags' THEN
+      v_tags := ARRAY(SELECT jsonb_array_elements_text(p_payload->'tags'));
+
+      -- Append only the tags the task does not have yet, keeping the existing order
+      RETURN QUERY
+      UPDATE public.tasks
+      SET tags = COALESCE(tags, '{}') || ARRAY(
+        SELECT DISTINCT tag FROM unnest(v_tags) AS tag
+        WHERE tag <> ALL(COALESCE(tags, '{}'))
+      )
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'remove_tags' THEN
+      v_tags := ARRAY(SELECT jsonb_array_elements_text(p_payload->'tags'));
+
+      RETURN QUERY
+      UPDATE public.tasks
+      SET tags = ARRAY(
+        SELECT tag FROM unnest(COALESCE(tags, '{}')) AS tag
+        WHERE tag <> ALL(v_tags)
+      )
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'shift_dates' THEN
+      v_days := (p_payload->>'days')::INTEGER;
+
+      RETURN QUERY
+      UPDATE public.tasks
+      SET start_date = ((start_date AT TIME ZONE p_time_zone) + make_interval(days => v_days)) AT TIME ZONE p_time_zone,
+          due_date = ((due_date AT TIME ZONE p_time_zone) + make_interval(days => v_days)) AT TIME ZONE p_time_zone
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    WHEN 'delete' THEN
+      -- The calendar events are removed by the caller; restored tasks get new events on the next sync
+      RETURN QUERY
+      UPDATE public.tasks
+      SET deleted_at = NOW(),
+          google_calendar_event_id = NULL,
+          google_calendar_etag = NULL,
+          google_calendar_sync_hash = NULL,
+          google_calendar_synced_at = NULL
+      WHERE user_id = p_user_id AND id = ANY(v_ids)
+      RETURNING *;
+
+    ELSE
+      RAISE EXCEPTION 'bulk_update_tasks: unknown operation %', p_operation USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a category to the trash together with what happens to its tasks:
+--   'move'  - reassign the tasks to p_target_category_id (NULL leaves them uncategorized)
+--   'trash' - move the tasks to the trash with the category; they share its deleted_at
+-- Returns the number of tasks that were moved or trashed
+CREATE OR REPLACE FUNCTION public.delete_category(
+  p_user_id UUID,
+  p_category_id UUID,
+  p_task_action TEXT DEFAULT 'move',
+  p_target_category_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := NOW();
+  v_count INTEGER;
+BEGIN
+  PERFORM 1 FROM public.categories
+  WHERE id = p_category_id AND user_id = p_user_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delete_category: category was not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  CASE p_task_action
+    WHEN 'move' THEN
+      IF p_target_category_id IS NOT NULL AND (
+        p_target_category_id = p_category_id OR NOT EXISTS (
+          SELECT 1 FROM public.categories
+          WHERE id = p_target_category_id AND user_id = p_user_id AND deleted_at IS NULL
+        )
+      ) THEN
+        RAISE EXCEPTION 'delete_category: target category was not found' USING ERRCODE = 'foreign_key_violation';
+      END IF;
+
+      UPDATE public.tasks
+      SET category_id = p_target_category_id
+      WHERE user_id = p_user_id AND category_id = p_category_id AND deleted_at IS NULL;
+
+    WHEN 'trash' THEN
+      UPDATE public.tasks
+      SET deleted_at = v_now,
+          google_calendar_event_id = NULL,
+          google_calendar_etag = NULL,
+          google_calendar_sync_hash = NULL,
+          google_calendar_synced_at = NULL
+      WHERE user_id = p_user_id AND category_id = p_category_id AND deleted_at IS NULL;
+
+    ELSE
+      RAISE EXCEPTION 'delete_category: unknown task action %', p_task_action USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.categories
+  SET deleted_at = v_now
+  WHERE id = p_category_id AND user_id = p_user_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Restore a category and the tasks that were trashed together with it
+CREATE OR REPLACE FUNCTION public.restore_category(p_user_id UUID, p_category_id UUID)
+RETURNS SETOF public.categories AS $$
+DECLARE
+  v_deleted_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT deleted_at INTO v_deleted_at
+  FROM public.categories
+  WHERE id = p_category_id AND user_id = p_user_id AND deleted_at IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'restore_category: category was not found in the trash' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.tasks
+  SET deleted_at = NULL
+  WHERE user_id = p_user_id AND category_id = p_category_id AND deleted_at = v_deleted_at;
+
+  RETURN QUERY
+  UPDATE public.categories
+  SET deleted_at = NULL
+  WHERE id = p_category_id AND user_id = p_user_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Permanently delete everything that has been in the trash longer than the retention period
+-- Runs for all users from the scheduled job, so only the service role may call it
+CREATE OR REPLACE FUNCTION public.purge_deleted_items(p_retention_days INTEGER)
+RETURNS TABLE(tasks_purged BIGINT, categories_purged BIGINT) AS $$
+DECLARE
+  v_cutoff TIMESTAMP WITH TIME ZONE := NOW() - make_interval(days => p_retention_days);
+  v_tasks BIGINT;
+  v_categories BIGINT;
+BEGIN
+  DELETE FROM public.tasks WHERE deleted_at < v_cutoff;
+  GET DIAGNOSTICS v_tasks = ROW_COUNT;
+
+  DELETE FROM public.categories WHERE deleted_at < v_cutoff;
+  GET DIAGNOSTICS v_categories = ROW_COUNT;
+
+  RETURN QUERY SELECT v_tasks, v_categories;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_items(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_deleted_items(INTEGER) TO service_role;
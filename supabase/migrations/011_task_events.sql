@@ -0,0 +1,111 @@
+-- Task change history
+-- Written by triggers so that every path (API, bulk operations, recurrence, calendar sync) is recorded.
+-- Users can read their history but never write it directly.
+
+CREATE TABLE public.task_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  -- Owner of the task
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Who made the change (NULL for system jobs such as the calendar sync or the trash purge)
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'created', 'field_changed', 'status_changed', 'time_logged', 'deleted', 'restored'
+  )),
+  -- Column name for field_changed / status_changed
+  field TEXT,
+  old_value JSONB,
+  new_value JSONB,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX task_events_task_idx ON public.task_events(task_id, created_at DESC);
+CREATE INDEX task_events_user_idx ON public.task_events(user_id, created_at DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.task_events ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the history of their own tasks
+CREATE POLICY "Users can view own task events" ON public.task_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Record task creation, field changes, status transitions and trash moves
+CREATE OR REPLACE FUNCTION public.handle_task_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  -- Columns whose changes are shown in the history; bookkeeping columns
+  -- (updated_at, actual_minutes, calendar sync state, recurrence internals) are left out
+  v_fields TEXT[] := ARRAY[
+    'title', 'description', 'priority', 'category_id', 'start_date', 'due_date',
+    'estimated_minutes', 'tags', 'notes', 'is_recurring', 'recurrence_pattern'
+  ];
+  v_field TEXT;
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type, new_value)
+    VALUES (
+      NEW.id, NEW.user_id, auth.uid(), 'created',
+      jsonb_build_object('title', NEW.title, 'status', NEW.status)
+    );
+    RETURN NULL;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type)
+    VALUES (NEW.id, NEW.user_id, auth.uid(), 'deleted');
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type)
+    VALUES (NEW.id, NEW.user_id, auth.uid(), 'restored');
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.user_id, auth.uid(), 'status_changed', 'status', to_jsonb(OLD.status), to_jsonb(NEW.status));
+  END IF;
+
+  FOREACH v_field IN ARRAY v_fields LOOP
+    v_old := to_jsonb(OLD) -> v_field;
+    v_new := to_jsonb(NEW) -> v_field;
+
+    IF v_old IS DISTINCT FROM v_new THEN
+      INSERT INTO public.task_events (task_id, user_id, actor_id, event_type, field, old_value, new_value)
+      VALUES (NEW.id, NEW.user_id, auth.uid(), 'field_changed', v_field, v_old, v_new);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tasks_history
+  AFTER INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.handle_task_events();
+
+-- Record finished time entries (timer stopped, or a finished entry added directly)
+CREATE OR REPLACE FUNCTION public.handle_time_entry_events()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.end_time IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.end_time IS NULL) THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type, new_value)
+    VALUES (
+      NEW.task_id, NEW.user_id, auth.uid(), 'time_logged',
+      jsonb_build_object(
+        'time_entry_id', NEW.id,
+        'start_time', NEW.start_time,
+        'end_time', NEW.end_time,
+        'duration_minutes', NEW.duration_minutes
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER time_entries_history
+  AFTER INSERT OR UPDATE OF end_time ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.handle_time_entry_events();
@@ -0,0 +1,213 @@
+-- Subtasks and checklists
+-- Tasks can be nested under a parent task up to three levels deep (task > subtask > sub-subtask).
+-- Checklist items are lightweight steps inside a single task that are not scheduled or tracked.
+
+ALTER TABLE public.tasks
+  ADD COLUMN parent_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX tasks_parent_task_id_idx ON public.tasks(parent_task_id) WHERE parent_task_id IS NOT NULL;
+
+-- Validate parent changes: same owner, not in the trash, no cycles and at most 3 levels
+CREATE OR REPLACE FUNCTION public.check_task_hierarchy()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_depth CONSTANT INTEGER := 3;
+  v_parent_depth INTEGER;
+  v_subtree_height INTEGER := 0;
+  v_is_cycle BOOLEAN;
+BEGIN
+  IF NEW.parent_task_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = NEW.parent_task_id AND user_id = NEW.user_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'check_task_hierarchy: parent task was not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  -- Walk up from the new parent; reaching this task means the change would create a cycle
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_task_id, 1 AS depth
+    FROM public.tasks
+    WHERE id = NEW.parent_task_id
+    UNION ALL
+    SELECT t.id, t.parent_task_id, a.depth + 1
+    FROM public.tasks t
+    JOIN ancestors a ON t.id = a.parent_task_id
+    WHERE a.depth <= v_max_depth AND a.id <> NEW.id
+  )
+  SELECT MAX(depth), COALESCE(bool_or(id = NEW.id), false)
+  INTO v_parent_depth, v_is_cycle
+  FROM ancestors;
+
+  IF v_is_cycle THEN
+    RAISE EXCEPTION 'check_task_hierarchy: task cannot be nested under itself' USING ERRCODE = 'invalid_recursion';
+  END IF;
+
+  -- A moved task brings its own subtasks along
+  IF TG_OP = 'UPDATE' THEN
+    WITH RECURSIVE descendants AS (
+      SELECT id, 1 AS height
+      FROM public.tasks
+      WHERE parent_task_id = NEW.id AND deleted_at IS NULL
+      UNION ALL
+      SELECT t.id, d.height + 1
+      FROM public.tasks t
+      JOIN descendants d ON t.parent_task_id = d.id
+      WHERE t.deleted_at IS NULL AND d.height <= v_max_depth
+    )
+    SELECT COALESCE(MAX(height), 0) INTO v_subtree_height FROM descendants;
+  END IF;
+
+  IF v_parent_depth + 1 + v_subtree_height > v_max_depth THEN
+    RAISE EXCEPTION 'check_task_hierarchy: tasks can be nested at most % levels deep', v_max_depth
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER tasks_hierarchy
+  BEFORE INSERT OR UPDATE OF parent_task_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.check_task_hierarchy();
+
+-- Subtasks follow their parent into and out of the trash.
+-- Trashed subtasks share the parent's deleted_at so that restoring the parent brings back exactly those.
+CREATE OR REPLACE FUNCTION public.handle_subtask_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    UPDATE public.tasks
+    SET deleted_at = NEW.deleted_at,
+        google_calendar_event_id = NULL,
+        google_calendar_etag = NULL,
+        google_calendar_sync_hash = NULL,
+        google_calendar_synced_at = NULL
+    WHERE parent_task_id = NEW.id AND deleted_at IS NULL;
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    UPDATE public.tasks
+    SET deleted_at = NULL
+    WHERE parent_task_id = NEW.id AND deleted_at = OLD.deleted_at;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER tasks_subtask_trash
+  AFTER UPDATE OF deleted_at ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.handle_subtask_trash();
+
+-- Checklist items
+CREATE TABLE public.task_checklist_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  title TEXT NOT NULL,
+  is_done BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT task_checklist_items_title_length CHECK (length(title) BETWEEN 1 AND 200),
+  CONSTRAINT task_checklist_items_position_non_negative CHECK (position >= 0)
+);
+
+CREATE TRIGGER task_checklist_items_updated_at
+  BEFORE UPDATE ON public.task_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX task_checklist_items_task_idx ON public.task_checklist_items(task_id, position);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own checklist items
+CREATE POLICY "Users can view own checklist items" ON public.task_checklist_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert checklist items for their own tasks
+CREATE POLICY "Users can insert own checklist items" ON public.task_checklist_items
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_id AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Users can update their own checklist items
+CREATE POLICY "Users can update own checklist items" ON public.task_checklist_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own checklist items
+CREATE POLICY "Users can delete own checklist items" ON public.task_checklist_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Non-trashed subtasks at any depth below the given tasks
+CREATE OR REPLACE FUNCTION public.get_task_descendants(p_user_id UUID, p_task_ids UUID[])
+RETURNS SETOF public.tasks AS $$
+  WITH RECURSIVE descendants AS (
+    SELECT t.*
+    FROM public.tasks t
+    WHERE t.user_id = p_user_id AND t.parent_task_id = ANY(p_task_ids) AND t.deleted_at IS NULL
+    UNION ALL
+    SELECT t.*
+    FROM public.tasks t
+    JOIN descendants d ON t.parent_task_id = d.id
+    WHERE t.user_id = p_user_id AND t.deleted_at IS NULL
+  )
+  SELECT * FROM descendants;
+$$ LANGUAGE sql STABLE;
+
+-- Progress and time rolled up from subtasks (all depths) and checklist items.
+-- Cancelled subtasks count as completed; rollup_*_minutes include the task's own minutes;
+-- depth is 1 for top-level tasks.
+CREATE OR REPLACE FUNCTION public.get_task_rollups(p_user_id UUID, p_task_ids UUID[])
+RETURNS TABLE (
+  task_id UUID,
+  depth INTEGER,
+  subtask_count INTEGER,
+  completed_subtask_count INTEGER,
+  checklist_count INTEGER,
+  checked_checklist_count INTEGER,
+  rollup_estimated_minutes INTEGER,
+  rollup_actual_minutes INTEGER
+) AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT t.id AS root_id, t.id, t.status, t.estimated_minutes, t.actual_minutes, 0 AS level
+    FROM public.tasks t
+    WHERE t.user_id = p_user_id AND t.id = ANY(p_task_ids) AND t.deleted_at IS NULL
+    UNION ALL
+    SELECT s.root_id, t.id, t.status, t.estimated_minutes, t.actual_minutes, s.level + 1
+    FROM public.tasks t
+    JOIN subtree s ON t.parent_task_id = s.id
+    WHERE t.deleted_at IS NULL
+  ),
+  ancestors AS (
+    SELECT t.id AS root_id, t.parent_task_id, 1 AS depth
+    FROM public.tasks t
+    WHERE t.user_id = p_user_id AND t.id = ANY(p_task_ids)
+    UNION ALL
+    SELECT a.root_id, t.parent_task_id, a.depth + 1
+    FROM public.tasks t
+    JOIN ancestors a ON t.id = a.parent_task_id
+  )
+  SELECT
+    s.root_id,
+    (SELECT MAX(a.depth) FROM ancestors a WHERE a.root_id = s.root_id)::INTEGER,
+    COUNT(*) FILTER (WHERE s.level > 0)::INTEGER,
+    COUNT(*) FILTER (WHERE s.level > 0 AND s.status IN ('completed', 'cancelled'))::INTEGER,
+    (SELECT COUNT(*) FROM public.task_checklist_items c WHERE c.task_id = s.root_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.task_checklist_items c WHERE c.task_id = s.root_id AND c.is_done)::INTEGER,
+    COALESCE(SUM(s.estimated_minutes), 0)::INTEGER,
+    COALESCE(SUM(s.actual_minutes), 0)::INTEGER
+  FROM subtree s
+  GROUP BY s.root_id;
+$$ LANGUAGE sql STABLE;
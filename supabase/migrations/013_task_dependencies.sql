@@ -0,0 +1,105 @@
+-- Task dependencies
+-- A row means blocking_task_id has to be finished before blocked_task_id can start.
+-- A task is blocked while any of its blocking tasks is neither completed nor cancelled (trashed blockers are ignored).
+
+CREATE TABLE public.task_dependencies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  blocking_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  blocked_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT task_dependencies_unique UNIQUE (blocking_task_id, blocked_task_id),
+  CONSTRAINT task_dependencies_not_self CHECK (blocking_task_id <> blocked_task_id)
+);
+
+CREATE INDEX task_dependencies_blocked_idx ON public.task_dependencies(blocked_task_id);
+CREATE INDEX task_dependencies_user_idx ON public.task_dependencies(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own dependencies
+CREATE POLICY "Users can view own task dependencies" ON public.task_dependencies
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can link their own tasks
+CREATE POLICY "Users can insert own task dependencies" ON public.task_dependencies
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can delete their own dependencies
+CREATE POLICY "Users can delete own task dependencies" ON public.task_dependencies
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Validate new links: both tasks belong to the user and are not in the trash, and the link does not close a cycle
+CREATE OR REPLACE FUNCTION public.check_task_dependency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.tasks
+    WHERE id IN (NEW.blocking_task_id, NEW.blocked_task_id)
+      AND user_id = NEW.user_id
+      AND deleted_at IS NULL
+  ) <> 2 THEN
+    RAISE EXCEPTION 'check_task_dependency: task was not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  -- Serialize link changes per user so that two concurrent inserts cannot create a cycle together
+  PERFORM pg_advisory_xact_lock(hashtext('task_dependencies:' || NEW.user_id::text));
+
+  -- The link closes a cycle if the blocking task already waits (directly or indirectly) on the blocked task
+  IF EXISTS (
+    WITH RECURSIVE upstream AS (
+      SELECT blocking_task_id AS task_id
+      FROM public.task_dependencies
+      WHERE blocked_task_id = NEW.blocking_task_id
+      UNION
+      SELECT d.blocking_task_id
+      FROM public.task_dependencies d
+      JOIN upstream u ON d.blocked_task_id = u.task_id
+    )
+    SELECT 1 FROM upstream WHERE task_id = NEW.blocked_task_id
+  ) THEN
+    RAISE EXCEPTION 'check_task_dependency: dependency would create a cycle' USING ERRCODE = 'invalid_recursion';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER task_dependencies_check
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION public.check_task_dependency();
+
+-- Computed column: PostgREST exposes it as tasks.is_blocked for select and filters (?is_blocked=eq.true)
+CREATE OR REPLACE FUNCTION public.is_blocked(t public.tasks)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.task_dependencies d
+    JOIN public.tasks b ON b.id = d.blocking_task_id
+    WHERE d.blocked_task_id = t.id
+      AND b.deleted_at IS NULL
+      AND b.status NOT IN ('completed', 'cancelled')
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Unfinished blocking tasks of the given tasks
+CREATE OR REPLACE FUNCTION public.get_task_blockers(p_user_id UUID, p_task_ids UUID[])
+RETURNS TABLE (
+  blocked_task_id UUID,
+  dependency_id UUID,
+  task_id UUID,
+  title TEXT,
+  status TEXT
+) AS $$
+  SELECT d.blocked_task_id, d.id, b.id, b.title, b.status::TEXT
+  FROM public.task_dependencies d
+  JOIN public.tasks b ON b.id = d.blocking_task_id
+  WHERE d.user_id = p_user_id
+    AND d.blocked_task_id = ANY(p_task_ids)
+    AND b.deleted_at IS NULL
+    AND b.status NOT IN ('completed', 'cancelled')
+  ORDER BY d.created_at;
+$$ LANGUAGE sql STABLE;
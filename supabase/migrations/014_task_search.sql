@@ -0,0 +1,76 @@
+-- Full-text search for tasks
+-- Title, description, notes and tags are indexed with the same 'japanese' configuration as tasks_title_search_idx.
+-- Weights: title A, tags B, description C, notes D.
+
+CREATE OR REPLACE FUNCTION public.task_search_document(
+  p_title TEXT,
+  p_description TEXT,
+  p_notes TEXT,
+  p_tags TEXT[]
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('japanese'::regconfig, COALESCE(p_title, '')), 'A') ||
+    setweight(to_tsvector('japanese'::regconfig, COALESCE(array_to_string(p_tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('japanese'::regconfig, COALESCE(p_description, '')), 'C') ||
+    setweight(to_tsvector('japanese'::regconfig, COALESCE(p_notes, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX tasks_search_document_idx ON public.tasks
+  USING gin(public.task_search_document(title, description, notes, tags));
+
+-- Computed column: PostgREST exposes it as tasks.search_document for full-text filters (?search_document=wfts.…)
+CREATE OR REPLACE FUNCTION public.search_document(t public.tasks)
+RETURNS tsvector AS $$
+  SELECT public.task_search_document(t.title, t.description, t.notes, t.tags);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked search with highlighted title and snippet
+-- The query uses websearch syntax ("quoted phrase", OR, -exclude), so any user input is valid.
+-- Matches are wrapped in [[[ and ]]] so that the client can highlight them without rendering HTML.
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  p_user_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  task_id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('japanese'::regconfig, p_query) AS q
+  ),
+  matches AS (
+    SELECT
+      t.*,
+      ts_rank_cd(public.task_search_document(t.title, t.description, t.notes, t.tags), query.q) AS rank,
+      COUNT(*) OVER () AS total_count
+    FROM public.tasks t, query
+    WHERE t.user_id = p_user_id
+      AND t.deleted_at IS NULL
+      AND public.task_search_document(t.title, t.description, t.notes, t.tags) @@ query.q
+    ORDER BY rank DESC, t.updated_at DESC, t.id
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT
+    m.id,
+    m.rank,
+    ts_headline('japanese'::regconfig, m.title, query.q, 'StartSel=[[[, StopSel=]]], HighlightAll=true'),
+    NULLIF(
+      ts_headline(
+        'japanese'::regconfig,
+        concat_ws(' ', m.description, m.notes, array_to_string(m.tags, ' ')),
+        query.q,
+        'StartSel=[[[, StopSel=]]], MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+      ),
+      ''
+    ),
+    m.total_count
+  FROM matches m, query
+  ORDER BY m.rank DESC, m.updated_at DESC, m.id;
+$$ LANGUAGE sql STABLE;
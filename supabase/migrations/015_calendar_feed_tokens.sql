@@ -0,0 +1,69 @@
+-- iCalendar feed tokens
+-- Calendar clients subscribe to /api/calendar/feed.ics?token=… without a session.
+-- Only the SHA-256 hash of the token is stored; the token itself is shown once when it is issued.
+-- Each user has at most one token. Issuing a new token or deleting the row revokes the old one.
+
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+
+  CONSTRAINT calendar_feed_tokens_hash_format CHECK (token_hash ~ '^[0-9a-f]{64}$')
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own token metadata
+CREATE POLICY "Users can view own calendar feed token" ON public.calendar_feed_tokens
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can issue their own token
+CREATE POLICY "Users can insert own calendar feed token" ON public.calendar_feed_tokens
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can rotate their own token
+CREATE POLICY "Users can update own calendar feed token" ON public.calendar_feed_tokens
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can revoke their own token
+CREATE POLICY "Users can delete own calendar feed token" ON public.calendar_feed_tokens
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Resolve a token for a feed request (runs without a session, so it bypasses RLS)
+-- Returns no row when the token is unknown or revoked
+CREATE OR REPLACE FUNCTION public.resolve_calendar_feed_token(p_token_hash TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  time_zone TEXT
+) AS $$
+  UPDATE public.calendar_feed_tokens f
+  SET last_used_at = NOW()
+  FROM public.profiles p
+  WHERE f.token_hash = p_token_hash
+    AND p.id = f.user_id
+  RETURNING f.user_id, p.timezone;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Dated tasks of the token owner with their category name
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_tasks(p_token_hash TEXT)
+RETURNS TABLE (
+  category_name TEXT,
+  task public.tasks
+) AS $$
+  SELECT c.name, t
+  FROM public.calendar_feed_tokens f
+  JOIN public.tasks t ON t.user_id = f.user_id
+  LEFT JOIN public.categories c ON c.id = t.category_id AND c.deleted_at IS NULL
+  WHERE f.token_hash = p_token_hash
+    AND t.deleted_at IS NULL
+    AND (t.start_date IS NOT NULL OR t.due_date IS NOT NULL)
+  ORDER BY COALESCE(t.start_date, t.due_date) DESC
+  LIMIT 5000;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.resolve_calendar_feed_token(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_calendar_feed_tasks(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resolve_calendar_feed_token(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed_tasks(TEXT) TO anon, authenticated;
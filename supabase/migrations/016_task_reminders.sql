@@ -0,0 +1,120 @@
+-- Task reminders
+-- A reminder fires a number of minutes before a task's start or due date.
+-- Tasks without reminders of their own use the default policy in profiles.preferences.reminders.
+-- The scheduler (/api/cron/reminders) records every reminder it fires in reminder_notifications:
+-- the row is the in-app inbox entry and, through its unique key, makes each reminder fire only once.
+
+CREATE TABLE public.task_reminders (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  anchor TEXT NOT NULL,
+  offset_minutes INTEGER NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT task_reminders_anchor CHECK (anchor IN ('start', 'due')),
+  CONSTRAINT task_reminders_offset_range CHECK (offset_minutes BETWEEN 0 AND 10080),
+  CONSTRAINT task_reminders_unique UNIQUE (task_id, anchor, offset_minutes)
+);
+
+CREATE INDEX task_reminders_task_idx ON public.task_reminders(task_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.task_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own reminders
+CREATE POLICY "Users can view own task reminders" ON public.task_reminders
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can add reminders to their own tasks
+CREATE POLICY "Users can insert own task reminders" ON public.task_reminders
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_id AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Users can delete their own reminders
+CREATE POLICY "Users can delete own task reminders" ON public.task_reminders
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Fired reminders
+-- reminder_key is the task_reminders id, or default:<anchor>:<offset> for the default policy.
+-- fire_at is part of the key so that moving the task's date schedules the reminder again.
+-- Rows are written by the scheduler with the service role only.
+CREATE TABLE public.reminder_notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+
+  reminder_key TEXT NOT NULL,
+  anchor TEXT NOT NULL,
+  offset_minutes INTEGER NOT NULL,
+  fire_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- Delivery result per channel: {"email": "sent", "web_push": "failed"}
+  deliveries JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT reminder_notifications_anchor CHECK (anchor IN ('start', 'due')),
+  CONSTRAINT reminder_notifications_once UNIQUE (task_id, reminder_key, fire_at)
+);
+
+CREATE INDEX reminder_notifications_user_idx ON public.reminder_notifications(user_id, created_at DESC);
+CREATE INDEX reminder_notifications_unread_idx ON public.reminder_notifications(user_id)
+  WHERE read_at IS NULL;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.reminder_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own notifications
+CREATE POLICY "Users can view own reminder notifications" ON public.reminder_notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can mark their own notifications as read
+CREATE POLICY "Users can update own reminder notifications" ON public.reminder_notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Web Push subscriptions (one row per browser)
+CREATE TABLE public.push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT push_subscriptions_endpoint_https CHECK (endpoint LIKE 'https://%')
+);
+
+CREATE INDEX push_subscriptions_user_idx ON public.push_subscriptions(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own subscriptions
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can register their own subscriptions
+CREATE POLICY "Users can insert own push subscriptions" ON public.push_subscriptions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can refresh the keys of their own subscriptions
+CREATE POLICY "Users can update own push subscriptions" ON public.push_subscriptions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can remove their own subscriptions
+CREATE POLICY "Users can delete own push subscriptions" ON public.push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
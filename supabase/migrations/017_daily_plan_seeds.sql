@@ -0,0 +1,23 @@
+-- Daily plan seeding marker
+-- A day's plan is filled with the tasks scheduled for that day only the first time the plan is opened.
+-- The row records that the day has been seeded, so a plan the user has emptied stays empty.
+
+CREATE TABLE public.daily_plan_seeds (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Day in the user's timezone
+  plan_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (user_id, plan_date)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.daily_plan_seeds ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own markers
+CREATE POLICY "Users can view own daily plan seeds" ON public.daily_plan_seeds
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert their own markers
+CREATE POLICY "Users can insert own daily plan seeds" ON public.daily_plan_seeds
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
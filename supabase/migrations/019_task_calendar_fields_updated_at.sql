@@ -0,0 +1,30 @@
+-- When the fields synced with Google Calendar were last changed
+-- updated_at also moves when the sync engine writes its own metadata (etag, sync hash, synced_at)
+-- or when other columns change, so "last writer wins" compares the remote event with this instead.
+
+ALTER TABLE public.tasks
+  ADD COLUMN google_calendar_fields_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+UPDATE public.tasks SET google_calendar_fields_updated_at = updated_at;
+
+CREATE OR REPLACE FUNCTION public.touch_google_calendar_fields_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Same fields as computeTaskSyncHash (lib/google-calendar/mapping.ts)
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.estimated_minutes IS DISTINCT FROM OLD.estimated_minutes
+    OR NEW.status IS DISTINCT FROM OLD.status
+  THEN
+    NEW.google_calendar_fields_updated_at := NOW();
+  ELSE
+    NEW.google_calendar_fields_updated_at := OLD.google_calendar_fields_updated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER touch_google_calendar_fields_updated_at
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.touch_google_calendar_fields_updated_at();
@@ -0,0 +1,52 @@
+-- Record subtask moves in the task history
+-- Moving a task under another parent or back to the top level (012_subtasks_checklists.sql)
+-- changes parent_task_id, which handle_task_events (011_task_events.sql) did not record.
+
+CREATE OR REPLACE FUNCTION public.handle_task_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  -- Columns whose changes are shown in the history; bookkeeping columns
+  -- (updated_at, actual_minutes, calendar sync state, recurrence internals) are left out
+  v_fields TEXT[] := ARRAY[
+    'title', 'description', 'priority', 'category_id', 'start_date', 'due_date',
+    'estimated_minutes', 'tags', 'notes', 'is_recurring', 'recurrence_pattern', 'parent_task_id'
+  ];
+  v_field TEXT;
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type, new_value)
+    VALUES (
+      NEW.id, NEW.user_id, auth.uid(), 'created',
+      jsonb_build_object('title', NEW.title, 'status', NEW.status)
+    );
+    RETURN NULL;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type)
+    VALUES (NEW.id, NEW.user_id, auth.uid(), 'deleted');
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type)
+    VALUES (NEW.id, NEW.user_id, auth.uid(), 'restored');
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO public.task_events (task_id, user_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.user_id, auth.uid(), 'status_changed', 'status', to_jsonb(OLD.status), to_jsonb(NEW.status));
+  END IF;
+
+  FOREACH v_field IN ARRAY v_fields LOOP
+    v_old := to_jsonb(OLD) -> v_field;
+    v_new := to_jsonb(NEW) -> v_field;
+
+    IF v_old IS DISTINCT FROM v_new THEN
+      INSERT INTO public.task_events (task_id, user_id, actor_id, event_type, field, old_value, new_value)
+      VALUES (NEW.id, NEW.user_id, auth.uid(), 'field_changed', v_field, v_old, v_new);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,15 @@
+-- Time entries can only point at the user's own tasks
+-- The UPDATE policy (006_time_entries.sql) checked only the entry's owner, so an entry could be
+-- repointed at another user's task id. Check the new row the same way as the INSERT policy.
+
+DROP POLICY "Users can update own time entries" ON public.time_entries;
+
+CREATE POLICY "Users can update own time entries" ON public.time_entries
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_id AND tasks.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,122 @@
+import { Database } from './database'
+import { TaskWithCategory } from './tasks'
+
+// カレンダーの表示モード
+export type CalendarViewMode = 'month' | 'week' | 'day'
+
+// 表示中の期間（end は排他的）
+export interface CalendarRange {
+  start: Date
+  end: Date
+}
+
+// カレンダー上に配置されるタスク
+export interface CalendarTaskItem {
+  task: TaskWithCategory
+  start: Date
+  end: Date
+  allDay: boolean
+  isOverdue: boolean
+  hasConflict?: boolean
+}
+
+// 時間グリッド上での配置情報（重なり時の列分割）
+export interface PositionedCalendarItem extends CalendarTaskItem {
+  column: number
+  columnCount: number
+}
+
+// ドラッグ中のタスク情報
+export interface CalendarDragState {
+  item: CalendarTaskItem
+  // つかんだ位置とブロック先頭との差（分）
+  grabOffsetMinutes: number
+}
+
+export const CALENDAR_VIEW_OPTIONS = [
+  { value: 'month' as CalendarViewMode, label: '月' },
+  { value: 'week' as CalendarViewMode, label: '週' },
+  { value: 'day' as CalendarViewMode, label: '日' },
+] as const
+
+export const CALENDAR_CONSTRAINTS = {
+  HOUR_HEIGHT_PX: 48,
+  MIN_BLOCK_MINUTES: 15,
+  MONTH_CELL_MAX_ITEMS: 3,
+} as const
+
+// Google Calendar 同期
+export type CalendarSyncSettings = Database['public']['Tables']['calendar_sync_settings']['Row']
+
+export type SyncConflictPolicy = 'last_writer_wins' | 'prompt'
+
+// 競合時にどちらの内容を採用するか
+export type SyncConflictResolution = 'local' | 'remote'
+
+export interface SyncConflictSnapshot {
+  title: string
+  start_date: string | null
+  estimated_minutes: number
+  updated_at: string
+}
+
+export interface SyncConflict {
+  task_id: string
+  event_id: string
+  local: SyncConflictSnapshot
+  remote: SyncConflictSnapshot | null // null はリモートで削除済み
+  detected_at: string
+}
+
+export interface CalendarSyncResult {
+  pushed: number
+  pulled: number
+  deleted: number
+  conflicts: SyncConflict[]
+  full_resync: boolean
+}
+
+// クライアントに返す同期状態（トークン類は含めない）
+export interface CalendarSyncStatus {
+  connected: boolean
+  sync_enabled: boolean
+  calendar_id: string
+  conflict_policy: SyncConflictPolicy
+  last_synced_at: string | null
+  last_error: string | null
+  pending_conflicts: SyncConflict[]
+}
+
+// 予定からのタスク取り込み
+export type EventImportSource = 'google' | 'ics'
+
+export interface ImportableEvent {
+  event_id: string
+  title: string
+  description: string | null
+  start_date: string
+  estimated_minutes: number
+  all_day: boolean
+  // 取り込み済みの場合は対応するタスクID
+  task_id: string | null
+}
+
+export interface EventImportResult {
+  created: number
+  skipped: number
+}
+
+// iCalendar フィードの購読状態（トークンそのものは発行時にのみ返す）
+export interface CalendarFeedStatus {
+  enabled: boolean
+  created_at: string | null
+  last_used_at: string | null
+}
+
+// 発行したフィードのトークンと購読用 URL
+export interface CalendarFeedToken {
+  token: string
+  url: string
+  webcal_url: string
+  created_at: string
+}
@@ -0,0 +1,35 @@
+import { Database } from './database'
+import { TaskWithCategory } from './tasks'
+
+export type DailyPlanItem = Database['public']['Tables']['daily_plan_items']['Row']
+export type DailyPlanItemInsert = Database['public']['Tables']['daily_plan_items']['Insert']
+
+// デイリーログの1行（その日の予定に並べたタスク）
+export interface DailyLogItem {
+  id: string
+  sort_order: number
+  task: TaskWithCategory
+  // その日の作業記録から求めた実績
+  actual_start: string | null
+  actual_end: string | null // 計測中は null
+  actual_minutes: number
+  is_running: boolean
+  // 残りの見積もりから求めた予測（今日の未完了タスクのみ）
+  predicted_start: string | null
+  predicted_end: string | null
+}
+
+export interface DailyLog {
+  date: string // YYYY-MM-DD（ユーザーのタイムゾーン）
+  time_zone: string
+  is_today: boolean
+  items: DailyLogItem[]
+  total_estimated_minutes: number
+  total_actual_minutes: number
+  // すべてのタスクを見積もり通りに進めた場合の終了予測
+  predicted_finish: string | null
+}
+
+export const DAILY_LOG_CONSTRAINTS = {
+  MAX_ITEMS_PER_DAY: 100,
+} as const
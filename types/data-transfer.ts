@@ -0,0 +1,205 @@
+import { Json } from './database'
+import { Category, Task, TimeEntry } from './tasks'
+import { FieldError } from '@/lib/errors'
+
+// エクスポート
+export type ExportFormat = 'csv' | 'json'
+
+// CSV で出力するデータ（JSON はすべてを1つのファイルにまとめる）
+export type ExportDataset = 'tasks' | 'time_entries'
+
+// JSON バンドルの形式のバージョン（形式を変えたら上げ、取り込み側で古い形式を変換する）
+export const EXPORT_BUNDLE_VERSION = 1
+
+export type ExportedCategory = Pick<Category, 'id' | 'name' | 'description' | 'color' | 'icon' | 'sort_order'>
+
+export type ExportedTask = Pick<
+  Task,
+  | 'id'
+  | 'parent_task_id'
+  | 'category_id'
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'due_date'
+  | 'start_date'
+  | 'completed_at'
+  | 'estimated_minutes'
+  | 'actual_minutes'
+  | 'tags'
+  | 'notes'
+  | 'is_recurring'
+  | 'recurrence_pattern'
+  | 'recurrence_series_id'
+  | 'recurrence_anchor'
+  | 'recurrence_instance_date'
+  | 'created_at'
+  | 'updated_at'
+>
+
+// 計測中のものは含めない
+export type ExportedTimeEntry = Pick<TimeEntry, 'id' | 'task_id' | 'start_time' | 'end_time' | 'duration_minutes' | 'description'>
+
+export interface ExportBundle {
+  version: number
+  exported_at: string
+  preferences: {
+    timezone: string
+    language: string
+    preferences: Json
+  }
+  categories: ExportedCategory[]
+  tasks: ExportedTask[]
+  time_entries: ExportedTimeEntry[]
+}
+
+// インポート
+// 取り込めるタスクの項目（CSV の列の割り当て先）
+export type ImportField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'category'
+  | 'start_date'
+  | 'due_date'
+  | 'estimated_minutes'
+  | 'tags'
+  | 'notes'
+  | 'recurrence'
+
+// 列の割り当て（項目ごとに CSV の列番号、割り当てない項目は含めない）
+export type ImportColumnMapping = Partial<Record<ImportField, number>>
+
+/**
+ * 取り込む1件分のタスク
+ * 値は CSV の文字列のまま、または JSON の値のままで、サーバー側で変換・検証する
+ */
+export interface ImportRow {
+  // 元のファイルでの行番号（エラーの表示用）
+  row: number
+  values: Partial<Record<ImportField, unknown>>
+  // JSON バンドルから取り込む場合の元のID（親子関係と作業記録の対応付けに使う）
+  source_id?: string
+  parent_source_id?: string | null
+  completed_at?: string | null
+  actual_minutes?: number
+  // タスクのチェックリスト（Trello のチェックリストなど）
+  checklist?: ImportChecklistItem[]
+}
+
+export interface ImportChecklistItem {
+  title: string
+  is_done: boolean
+}
+
+// 自動作成するカテゴリの色など（JSON バンドルから取り込む場合）
+export interface ImportCategory {
+  name: string
+  description?: string | null
+  color?: string
+  icon?: string | null
+}
+
+// 取り込む作業記録（task_source_id は ImportRow.source_id）
+export interface ImportTimeEntry {
+  task_source_id: string
+  start_time: string
+  end_time: string
+  description?: string | null
+}
+
+export interface ImportOptions {
+  // 見つからないカテゴリを作成する（false の場合はその行をエラーにする）
+  create_categories: boolean
+  // 既存のタスクと重複する行を取り込まない
+  skip_duplicates: boolean
+}
+
+export interface ImportRequest {
+  rows: ImportRow[]
+  categories?: ImportCategory[]
+  time_entries?: ImportTimeEntry[]
+  options: ImportOptions
+  // true の場合は検証結果だけを返し、何も保存しない
+  dry_run: boolean
+}
+
+// リクエストのうちファイルから作る部分
+export type ImportDraft = Pick<ImportRequest, 'rows' | 'categories' | 'time_entries'>
+
+// create: 取り込む / duplicate: 重複のため取り込まない / error: 取り込めない
+export type ImportRowStatus = 'create' | 'duplicate' | 'error'
+
+export interface ImportRowResult {
+  row: number
+  title: string
+  status: ImportRowStatus
+  errors: FieldError[]
+  // 重複の相手（既存のタスクまたは同じファイルの行）
+  duplicate_of?: { task_id: string } | { row: number }
+}
+
+export interface ImportReport {
+  dry_run: boolean
+  total: number
+  created: number
+  duplicates: number
+  failed: number
+  // 作成した（dry_run では作成する）カテゴリ名
+  categories_created: string[]
+  time_entries_created: number
+  rows: ImportRowResult[]
+}
+
+/**
+ * 取り込むファイルの形式
+ * taskshoot_*: このアプリでエクスポートした（または列を割り当てる）CSV と JSON バンドル
+ * todoist_* / trello / markdown: 他のツールから移行するためのファイル
+ */
+export type ImportSource =
+  | 'taskshoot_csv'
+  | 'taskshoot_json'
+  | 'todoist_csv'
+  | 'todoist_json'
+  | 'trello'
+  | 'markdown'
+
+export const IMPORT_SOURCE_CONFIG: Record<ImportSource, { label: string }> = {
+  taskshoot_csv: { label: 'CSV' },
+  taskshoot_json: { label: 'TaskShoot（JSON）' },
+  todoist_csv: { label: 'Todoist（CSV）' },
+  todoist_json: { label: 'Todoist（JSON）' },
+  trello: { label: 'Trello（ボードの JSON）' },
+  markdown: { label: 'Markdown のチェックリスト' },
+}
+
+export const IMPORT_CONSTRAINTS = {
+  MAX_ROWS: 1000,
+  MAX_TIME_ENTRIES: 10000,
+  // 読み込むファイルの最大サイズ
+  MAX_FILE_BYTES: 5 * 1024 * 1024,
+} as const
+
+export interface ImportFieldConfig {
+  label: string
+  required?: boolean
+  // 列名の自動判定に使う候補（小文字で比較する）
+  aliases: string[]
+}
+
+export const IMPORT_FIELD_CONFIG: Record<ImportField, ImportFieldConfig> = {
+  title: { label: 'タイトル', required: true, aliases: ['title', 'タイトル', 'タスク', 'task', 'name', '件名'] },
+  description: { label: '説明', aliases: ['description', '説明', '詳細'] },
+  status: { label: 'ステータス', aliases: ['status', 'ステータス', '状態'] },
+  priority: { label: '優先度', aliases: ['priority', '優先度'] },
+  category: { label: 'カテゴリ', aliases: ['category', 'カテゴリ', 'カテゴリー', 'project', 'プロジェクト'] },
+  start_date: { label: '開始日時', aliases: ['start_date', 'start', '開始日時', '開始日', '開始'] },
+  due_date: { label: '期限', aliases: ['due_date', 'due', '期限', '期日', '締切'] },
+  estimated_minutes: { label: '見積もり（分）', aliases: ['estimated_minutes', 'estimate', '見積もり', '見積もり（分）'] },
+  tags: { label: 'タグ', aliases: ['tags', 'tag', 'タグ', 'labels', 'ラベル'] },
+  notes: { label: 'メモ', aliases: ['notes', 'note', 'メモ'] },
+  recurrence: { label: '繰り返し（RRULE）', aliases: ['recurrence', 'rrule', '繰り返し'] },
+}
+
@@ -54,6 +54,7 @@ export interface Database {
           icon: string | null;
           sort_order: number;
           is_active: boolean;
+          deleted_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -66,6 +67,7 @@ export interface Database {
           icon?: string | null;
           sort_order?: number;
           is_active?: boolean;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -78,6 +80,7 @@ export interface Database {
           icon?: string | null;
           sort_order?: number;
           is_active?: boolean;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -102,6 +105,14 @@ export interface Database {
           recurrence_pattern: Json | null;
           google_calendar_event_id: string | null;
           google_calendar_synced_at: string | null;
+          google_calendar_etag: string | null;
+          google_calendar_sync_hash: string | null;
+          google_calendar_fields_updated_at: string;
+          recurrence_series_id: string | null;
+          recurrence_anchor: string | null;
+          recurrence_instance_date: string | null;
+          parent_task_id: string | null;
+          deleted_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -124,6 +135,14 @@ export interface Database {
           recurrence_pattern?: Json | null;
           google_calendar_event_id?: string | null;
           google_calendar_synced_at?: string | null;
+          google_calendar_etag?: string | null;
+          google_calendar_sync_hash?: string | null;
+          google_calendar_fields_updated_at?: string;
+          recurrence_series_id?: string | null;
+          recurrence_anchor?: string | null;
+          recurrence_instance_date?: string | null;
+          parent_task_id?: string | null;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -146,10 +165,393 @@ export interface Database {
           recurrence_pattern?: Json | null;
           google_calendar_event_id?: string | null;
           google_calendar_synced_at?: string | null;
+          google_calendar_etag?: string | null;
+          google_calendar_sync_hash?: string | null;
+          google_calendar_fields_updated_at?: string;
+          recurrence_series_id?: string | null;
+          recurrence_anchor?: string | null;
+          recurrence_instance_date?: string | null;
+          parent_task_id?: string | null;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      calendar_sync_settings: {
+        Row: {
+          user_id: string;
+          calendar_id: string;
+          sync_enabled: boolean;
+          conflict_policy: 'last_writer_wins' | 'prompt';
+          google_refresh_token: string | null;
+          sync_token: string | null;
+          pending_conflicts: Json;
+          last_synced_at: string | null;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          calendar_id?: string;
+          sync_enabled?: boolean;
+          conflict_policy?: 'last_writer_wins' | 'prompt';
+          google_refresh_token?: string | null;
+          sync_token?: string | null;
+          pending_conflicts?: Json;
+          last_synced_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          calendar_id?: string;
+          sync_enabled?: boolean;
+          conflict_policy?: 'last_writer_wins' | 'prompt';
+          google_refresh_token?: string | null;
+          sync_token?: string | null;
+          pending_conflicts?: Json;
+          last_synced_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      time_entries: {
+        Row: {
+          id: string;
+          user_id: string;
+          task_id: string;
+          start_time: string;
+          end_time: string | null;
+          duration_minutes: number | null;
+          description: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          task_id: string;
+          start_time?: string;
+          end_time?: string | null;
+          duration_minutes?: number | null;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          task_id?: string;
+          start_time?: string;
+          end_time?: string | null;
+          duration_minutes?: number | null;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      daily_plan_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          task_id: string;
+          plan_date: string;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          task_id: string;
+          plan_date: string;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          task_id?: string;
+          plan_date?: string;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      daily_plan_seeds: {
+        Row: {
+          user_id: string;
+          plan_date: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          plan_date: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          plan_date?: string;
+          created_at?: string;
+        };
+      };
+      daily_reviews: {
+        Row: {
+          id: string;
+          user_id: string;
+          review_date: string;
+          notes: string | null;
+          mood: number | null;
+          score: number | null;
+          planned_count: number;
+          completed_count: number;
+          estimated_minutes: number;
+          actual_minutes: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          review_date: string;
+          notes?: string | null;
+          mood?: number | null;
+          score?: number | null;
+          planned_count?: number;
+          completed_count?: number;
+          estimated_minutes?: number;
+          actual_minutes?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          review_date?: string;
+          notes?: string | null;
+          mood?: number | null;
+          score?: number | null;
+          planned_count?: number;
+          completed_count?: number;
+          estimated_minutes?: number;
+          actual_minutes?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      task_events: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          actor_id: string | null;
+          event_type: 'created' | 'field_changed' | 'status_changed' | 'time_logged' | 'deleted' | 'restored';
+          field: string | null;
+          old_value: Json | null;
+          new_value: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          actor_id?: string | null;
+          event_type: 'created' | 'field_changed' | 'status_changed' | 'time_logged' | 'deleted' | 'restored';
+          field?: string | null;
+          old_value?: Json | null;
+          new_value?: Json | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          user_id?: string;
+          actor_id?: string | null;
+          event_type?: 'created' | 'field_changed' | 'status_changed' | 'time_logged' | 'deleted' | 'restored';
+          field?: string | null;
+          old_value?: Json | null;
+          new_value?: Json | null;
+          created_at?: string;
+        };
+      };
+      task_checklist_items: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          title: string;
+          is_done: boolean;
+          position: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          title: string;
+          is_done?: boolean;
+          position?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          user_id?: string;
+          title?: string;
+          is_done?: boolean;
+          position?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      task_dependencies: {
+        Row: {
+          id: string;
+          user_id: string;
+          blocking_task_id: string;
+          blocked_task_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          blocking_task_id: string;
+          blocked_task_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          blocking_task_id?: string;
+          blocked_task_id?: string;
+          created_at?: string;
+        };
+      };
+      calendar_feed_tokens: {
+        Row: {
+          user_id: string;
+          token_hash: string;
+          created_at: string;
+          last_used_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          token_hash: string;
+          created_at?: string;
+          last_used_at?: string | null;
+        };
+        Update: {
+          user_id?: string;
+          token_hash?: string;
+          created_at?: string;
+          last_used_at?: string | null;
+        };
+      };
+      task_reminders: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          anchor: 'start' | 'due';
+          offset_minutes: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          anchor: 'start' | 'due';
+          offset_minutes: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          user_id?: string;
+          anchor?: 'start' | 'due';
+          offset_minutes?: number;
+          created_at?: string;
+        };
+      };
+      reminder_notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          task_id: string;
+          reminder_key: string;
+          anchor: 'start' | 'due';
+          offset_minutes: number;
+          fire_at: string;
+          title: string;
+          body: string;
+          deliveries: Json;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          task_id: string;
+          reminder_key: string;
+          anchor: 'start' | 'due';
+          offset_minutes: number;
+          fire_at: string;
+          title: string;
+          body: string;
+          deliveries?: Json;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          task_id?: string;
+          reminder_key?: string;
+          anchor?: 'start' | 'due';
+          offset_minutes?: number;
+          fire_at?: string;
+          title?: string;
+          body?: string;
+          deliveries?: Json;
+          read_at?: string | null;
+          created_at?: string;
+        };
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          endpoint?: string;
+          p256dh?: string;
+          auth?: string;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -168,6 +570,119 @@ export interface Database {
           completion_rate: number;
         }[];
       };
+      bulk_update_tasks: {
+        Args: {
+          p_user_id: string;
+          p_task_ids: string[];
+          p_operation: string;
+          p_payload?: Json;
+          p_time_zone?: string;
+        };
+        Returns: Database['public']['Tables']['tasks']['Row'][];
+      };
+      delete_category: {
+        Args: {
+          p_user_id: string;
+          p_category_id: string;
+          p_task_action?: string;
+          p_target_category_id?: string | null;
+        };
+        Returns: number;
+      };
+      restore_category: {
+        Args: {
+          p_user_id: string;
+          p_category_id: string;
+        };
+        Returns: Database['public']['Tables']['categories']['Row'][];
+      };
+      get_task_descendants: {
+        Args: {
+          p_user_id: string;
+          p_task_ids: string[];
+        };
+        Returns: Database['public']['Tables']['tasks']['Row'][];
+      };
+      get_task_rollups: {
+        Args: {
+          p_user_id: string;
+          p_task_ids: string[];
+        };
+        Returns: {
+          task_id: string;
+          depth: number;
+          subtask_count: number;
+          completed_subtask_count: number;
+          checklist_count: number;
+          checked_checklist_count: number;
+          rollup_estimated_minutes: number;
+          rollup_actual_minutes: number;
+        }[];
+      };
+      get_task_blockers: {
+        Args: {
+          p_user_id: string;
+          p_task_ids: string[];
+        };
+        Returns: {
+          blocked_task_id: string;
+          dependency_id: string;
+          task_id: string;
+          title: string;
+          status: string;
+        }[];
+      };
+      search_tasks: {
+        Args: {
+          p_user_id: string;
+          p_query: string;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: {
+          task_id: string;
+          rank: number;
+          title_highlight: string;
+          snippet: string | null;
+          total_count: number;
+        }[];
+      };
+      resolve_calendar_feed_token: {
+        Args: {
+          p_token_hash: string;
+        };
+        Returns: {
+          user_id: string;
+          time_zone: string;
+        }[];
+      };
+      get_calendar_feed_tasks: {
+        Args: {
+          p_token_hash: string;
+        };
+        Returns: {
+          category_name: string | null;
+          task: Database['public']['Tables']['tasks']['Row'];
+        }[];
+      };
+      save_push_subscription: {
+        Args: {
+          p_endpoint: string;
+          p_p256dh: string;
+          p_auth: string;
+          p_user_agent?: string | null;
+        };
+        Returns: undefined;
+      };
+      purge_deleted_items: {
+        Args: {
+          p_retention_days: number;
+        };
+        Returns: {
+          tasks_purged: number;
+          categories_purged: number;
+        }[];
+      };
     };
     Enums: {
       task_status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
@@ -0,0 +1,71 @@
+import { RecurrenceScope, Task, TaskInsert, TaskUpdate, TaskWithCategory } from './tasks'
+
+export type TaskCreateData = Omit<TaskInsert, 'user_id'>
+export type TaskUpdateData = Omit<TaskUpdate, 'user_id' | 'id'>
+
+/**
+ * オフライン中に行ったタスクの変更（接続が戻ったら順に API へ送る）
+ * task_id はオフライン中に作成したタスクの場合は仮の ID（tmp- で始まる）
+ * base_updated_at は変更したときに手元にあったタスクの updated_at で、サーバー側の変更との衝突の検出に使う
+ */
+export type TaskMutation =
+  | { kind: 'create'; task_id: string; data: TaskCreateData }
+  | {
+      kind: 'update'
+      task_id: string
+      data: TaskUpdateData
+      scope: RecurrenceScope
+      complete_subtasks: boolean
+      ignore_blockers: boolean
+      base_updated_at: string | null
+    }
+  | { kind: 'delete'; task_id: string; scope: RecurrenceScope; base_updated_at: string | null }
+
+export interface OutboxEntry {
+  // 送信順（IndexedDB の自動採番）
+  seq?: number
+  user_id: string
+  mutation: TaskMutation
+  queued_at: string
+  // 通信エラーで送れなかった回数
+  attempts: number
+}
+
+// オフライン中の変更をサーバーの変更が上書きした（サーバーの内容を正とする）
+export interface TaskConflict {
+  task_id: string
+  title: string
+  kind: 'update' | 'delete'
+  // 反映できなかった手元の変更
+  local: TaskUpdateData | null
+  // サーバーの最新の内容（取得できなかった場合は null）
+  server: Task | null
+}
+
+// API に拒否された変更（入力値の誤りやブロック中など。再送しても成功しない）
+export interface TaskSyncFailure {
+  task_id: string
+  kind: TaskMutation['kind']
+  message: string
+}
+
+export interface TaskSyncResult {
+  synced: number
+  conflicts: TaskConflict[]
+  failures: TaskSyncFailure[]
+  // 通信エラーで送れずに残った変更
+  remaining: number
+  // 仮の ID と作成されたタスクの ID の対応
+  id_map: Record<string, string>
+}
+
+// 端末に保存するタスク一覧（useTasks のキャッシュキーごと）
+export interface StoredTaskList {
+  key: string
+  data: TaskWithCategory[]
+  nextCursor: string | null
+  total: number
+  timestamp: number
+}
+
+export const TEMPORARY_ID_PREFIX = 'tmp-'
@@ -0,0 +1,74 @@
+import { Database } from './database'
+
+export type TaskReminder = Database['public']['Tables']['task_reminders']['Row']
+export type TaskReminderInsert = Database['public']['Tables']['task_reminders']['Insert']
+export type ReminderNotification = Database['public']['Tables']['reminder_notifications']['Row']
+export type ReminderNotificationInsert = Database['public']['Tables']['reminder_notifications']['Insert']
+export type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row']
+
+// 通知のタイミングの基準（開始日時または期限）
+export type ReminderAnchor = TaskReminder['anchor']
+
+// in_app: 画面のトースト / web_push: ブラウザの通知 / email: メール
+export type ReminderChannelName = 'in_app' | 'web_push' | 'email'
+
+/**
+ * 既定の通知設定（profiles.preferences.reminders）
+ * 通知を個別に設定していないタスクに適用する
+ */
+export interface ReminderPolicy {
+  enabled: boolean
+  // 開始日時・期限の何分前に通知するか
+  start_offsets: number[]
+  due_offsets: number[]
+  channels: ReminderChannelName[]
+}
+
+// 通知設定の画面で使う設定と、サーバーで使える通知方法
+export interface ReminderSettings {
+  policy: ReminderPolicy
+  available_channels: ReminderChannelName[]
+  // Web Push の購読に使う VAPID の公開鍵（未設定の場合は null）
+  web_push_public_key: string | null
+}
+
+// 通知の送信結果（チャネルごと。pending は送信中）
+export type ReminderDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped'
+
+export interface ReminderRunResult {
+  // 通知の時刻になったリマインダー（送信済みのものを含む）
+  due: number
+  // 今回新たに送信したもの
+  sent: number
+  failed: number
+}
+
+export const DEFAULT_REMINDER_POLICY: ReminderPolicy = {
+  enabled: true,
+  start_offsets: [10],
+  due_offsets: [1440],
+  channels: ['in_app'],
+}
+
+export const REMINDER_CONSTRAINTS = {
+  MAX_PER_TASK: 5,
+  MAX_OFFSETS_PER_ANCHOR: 3,
+  // 7日前まで
+  MAX_OFFSET_MINUTES: 10080,
+  // 定期実行が遅れた場合に、通知の時刻を過ぎてから送信する猶予（分）
+  LOOKBACK_MINUTES: 30,
+} as const
+
+// 通知のタイミングの選択肢（分）
+export const REMINDER_OFFSET_OPTIONS = [0, 5, 10, 15, 30, 60, 120, 1440, 2880, 10080] as const
+
+export const REMINDER_ANCHOR_CONFIG: Record<ReminderAnchor, { label: string }> = {
+  start: { label: '開始' },
+  due: { label: '期限' },
+}
+
+export const REMINDER_CHANNEL_CONFIG: Record<ReminderChannelName, { label: string }> = {
+  in_app: { label: 'アプリ内' },
+  web_push: { label: 'ブラウザの通知' },
+  email: { label: 'メール' },
+}
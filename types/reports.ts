@@ -0,0 +1,86 @@
+// 見積もりと実績の分析レポート
+
+// 見積もりの傾向
+// under: 見積もりが少なすぎる（実績が超過） / over: 見積もりが多すぎる / accurate: おおむね見積もり通り
+export type EstimateTendency = 'under' | 'over' | 'accurate'
+
+export interface EstimateSummary {
+  task_count: number
+  estimated_minutes: number
+  actual_minutes: number
+  // 実績 - 見積もり の合計（正なら超過）
+  difference_minutes: number
+  // 1タスクあたりの誤差（分）の平均
+  mean_absolute_error_minutes: number
+  // 1タスクあたりの誤差率（誤差 / 見積もり）の平均（0.25 = 25%）
+  mean_absolute_error_rate: number
+  // 実績 / 見積もり（1 より大きければ見積もりが少なすぎる）
+  bias_ratio: number | null
+  tendency: EstimateTendency | null
+}
+
+export interface EstimateGroup extends EstimateSummary {
+  key: string
+  label: string
+  color?: string | null
+}
+
+export interface TaskEstimate {
+  task_id: string
+  title: string
+  category_id: string | null
+  category_name: string | null
+  category_color: string | null
+  tags: string[]
+  completed_at: string
+  estimated_minutes: number
+  actual_minutes: number
+  difference_minutes: number
+  error_rate: number
+}
+
+export interface CategoryTime {
+  category_id: string | null
+  name: string
+  color: string | null
+  minutes: number
+}
+
+export interface EstimateReport {
+  from: string // YYYY-MM-DD（ユーザーのタイムゾーン）
+  to: string // YYYY-MM-DD（この日を含む）
+  time_zone: string
+  summary: EstimateSummary
+  by_category: EstimateGroup[]
+  by_tag: EstimateGroup[]
+  by_week: EstimateGroup[] // key は週の開始日（月曜日）
+  tasks: TaskEstimate[]
+  // 期間中の作業記録から求めたカテゴリ別の作業時間
+  time_by_category: CategoryTime[]
+  total_tracked_minutes: number
+}
+
+export const REPORT_CONSTRAINTS = {
+  MAX_RANGE_DAYS: 366,
+  DEFAULT_RANGE_DAYS: 28,
+  // 誤差がこの割合以内ならおおむね見積もり通りとみなす
+  ACCURATE_BIAS_TOLERANCE: 0.1,
+} as const
+
+export const ESTIMATE_TENDENCY_CONFIG = {
+  under: {
+    label: '過小見積もり',
+    description: '実績が見積もりを上回る傾向があります',
+    textColor: '#991B1B',
+  },
+  over: {
+    label: '過大見積もり',
+    description: '実績が見積もりを下回る傾向があります',
+    textColor: '#1E40AF',
+  },
+  accurate: {
+    label: '見積もり通り',
+    description: 'おおむね見積もり通りに進んでいます',
+    textColor: '#065F46',
+  },
+} as const
@@ -0,0 +1,80 @@
+import { Database } from './database'
+import { DailyLogItem } from './daily-log'
+import { EstimateSummary } from './reports'
+import { TaskWithCategory } from './tasks'
+
+export type DailyReview = Database['public']['Tables']['daily_reviews']['Row']
+export type DailyReviewInsert = Database['public']['Tables']['daily_reviews']['Insert']
+
+// 残ったタスクの扱い
+// reschedule: 指定した日に移す / defer: 翌日に延期する / cancel: キャンセルする / keep: そのままにする
+export type LeftoverActionType = 'reschedule' | 'defer' | 'cancel' | 'keep'
+
+export interface LeftoverAction {
+  task_id: string
+  action: LeftoverActionType
+  date?: string // reschedule の移動先（YYYY-MM-DD）
+}
+
+// 日次レビューの画面に表示する1日のまとめ
+export interface DailyReviewSummary {
+  date: string // YYYY-MM-DD（ユーザーのタイムゾーン）
+  time_zone: string
+  planned: DailyLogItem[]
+  planned_count: number
+  completed_count: number // 予定したタスクのうち完了したもの
+  // 予定になかったがこの日に完了したタスク
+  unplanned_completed: TaskWithCategory[]
+  // この日に完了したタスクの見積もり精度
+  estimate: EstimateSummary
+  // 予定したが終わらなかったタスク
+  leftovers: TaskWithCategory[]
+  // 期限を過ぎているのに手を付けていないタスク（予定にないもの）
+  overdue_untouched: TaskWithCategory[]
+  review: DailyReview | null
+}
+
+export interface DailyReviewInput {
+  notes?: string | null
+  mood?: number | null
+  score?: number | null
+  actions?: LeftoverAction[]
+}
+
+export interface WeeklyReview {
+  week_start: string // YYYY-MM-DD（月曜日）
+  week_end: string // YYYY-MM-DD（日曜日）
+  reviews: DailyReview[]
+  reviewed_days: number
+  average_mood: number | null
+  average_score: number | null
+  planned_count: number
+  completed_count: number
+  completion_rate: number
+  estimated_minutes: number
+  actual_minutes: number
+}
+
+export const REVIEW_CONSTRAINTS = {
+  NOTES_MAX_LENGTH: 5000,
+  MOOD_MIN: 1,
+  MOOD_MAX: 5,
+  SCORE_MIN: 0,
+  SCORE_MAX: 100,
+  MAX_ACTIONS: 100,
+} as const
+
+export const MOOD_LABELS: Record<number, string> = {
+  1: 'とても悪い',
+  2: '悪い',
+  3: 'ふつう',
+  4: '良い',
+  5: 'とても良い',
+}
+
+export const LEFTOVER_ACTION_LABELS: Record<LeftoverActionType, string> = {
+  reschedule: '日付を指定',
+  defer: '明日に延期',
+  cancel: 'キャンセル',
+  keep: 'そのまま',
+}
@@ -16,8 +16,41 @@ export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent'
 // Extended types for UI components
 export interface TaskWithCategory extends Task {
   category?: Category | null
+  // サブタスク・チェックリストの進捗（一覧と詳細の取得時に付与される）
+  rollup?: TaskRollup
+  // 完了・キャンセルしていない先行タスク（一覧と詳細の取得時に付与される。空でなければブロック中）
+  blocked_by?: TaskDependencyLink[]
 }
 
+// サブタスク（すべての階層）とチェックリストの集計
+// キャンセルしたサブタスクは完了として数える。rollup_*_minutes はタスク自身の時間を含み、depth は最上位のタスクが 1
+export type TaskRollup = Omit<Database['public']['Functions']['get_task_rollups']['Returns'][number], 'task_id'>
+
+// チェックリスト（予定や時間計測の対象にならない、タスク内の手順）
+export type TaskChecklistItem = Database['public']['Tables']['task_checklist_items']['Row']
+export type TaskChecklistItemInsert = Database['public']['Tables']['task_checklist_items']['Insert']
+export type TaskChecklistItemUpdate = Database['public']['Tables']['task_checklist_items']['Update']
+
+// タスクの依存関係（blocking_task_id が完了するまで blocked_task_id を始められない）
+export type TaskDependency = Database['public']['Tables']['task_dependencies']['Row']
+
+// 依存関係の相手のタスク
+export interface TaskDependencyLink {
+  dependency_id: string
+  task_id: string
+  title: string
+  status: TaskStatus
+}
+
+// GET /api/tasks/[id]/dependencies（blocked_by は先行タスク、blocks は後続タスク。完了したものも含む）
+export interface TaskDependencies {
+  blocked_by: TaskDependencyLink[]
+  blocks: TaskDependencyLink[]
+}
+
+// 依存関係を追加する向き（blocked_by: 相手を先行タスクにする、blocks: 相手を後続タスクにする）
+export type TaskDependencyType = keyof TaskDependencies
+
 export interface TaskFormData {
   title: string
   description?: string
@@ -29,6 +62,17 @@ export interface TaskFormData {
   estimated_minutes?: number
   tags?: string[]
   notes?: string
+  is_recurring?: boolean
+  recurrence_pattern?: RecurrencePattern | null
+  parent_task_id?: string
+}
+
+// タスク更新時に確認済みの追加の操作
+export interface TaskUpdateOptions {
+  // 完了にするときにサブタスクもすべて完了にする
+  completeSubtasks?: boolean
+  // ブロック中のタスクでも進行中にする
+  ignoreBlockers?: boolean
 }
 
 export interface CategoryFormData {
@@ -56,7 +100,14 @@ export interface TaskFilters {
   category_id?: string[]
   due_date_from?: string
   due_date_to?: string
+  // カレンダー表示用: start_date〜due_date が期間と重なるタスク
+  scheduled_from?: string
+  scheduled_to?: string
   search?: string
+  // 指定したタスクの直下のサブタスク
+  parent_task_id?: string
+  // true: ブロック中のタスクのみ、false: ブロックされていないタスクのみ
+  blocked?: boolean
 }
 
 export interface TaskSortOptions {
@@ -64,27 +115,114 @@ export interface TaskSortOptions {
   direction: 'asc' | 'desc'
 }
 
+// GET /api/tasks のページ（nextCursor が null なら最後のページ）
+export interface TaskPage {
+  items: TaskWithCategory[]
+  nextCursor: string | null
+  total: number
+}
+
+// GET /api/tasks/search の結果（関連度の高い順）
+// title_highlight と snippet は一致した語を [[[ と ]]] で囲む（lib/search/highlight.ts で分割する）
+export interface TaskSearchResult {
+  task: TaskWithCategory
+  rank: number
+  title_highlight: string
+  // 説明・メモ・タグのうち一致した箇所の抜粋（一致がなければ null）
+  snippet: string | null
+}
+
+// search_tasks の1行（total_count は検索に一致した全件数）
+export type TaskSearchMatch = Database['public']['Functions']['search_tasks']['Returns'][number]
+
+export interface TaskSearchPage {
+  items: TaskSearchResult[]
+  total: number
+  // 次のページの offset（null なら最後のページ）
+  nextOffset: number | null
+}
+
+// POST /api/tasks/bulk の操作（複数のタスクにまとめて適用する）
+export type BulkTaskOperation =
+  | { type: 'set_status'; status: TaskStatus }
+  | { type: 'set_priority'; priority: TaskPriority }
+  | { type: 'move_category'; category_id: string | null }
+  | { type: 'add_tags'; tags: string[] }
+  | { type: 'remove_tags'; tags: string[] }
+  | { type: 'shift_dates'; days: number }
+  | { type: 'delete' }
+
+export type BulkTaskOperationType = BulkTaskOperation['type']
+
+export interface BulkTaskRequest {
+  task_ids: string[]
+  operation: BulkTaskOperation
+  // ブロック中のタスクでも進行中にする
+  ignore_blockers?: boolean
+}
+
+// 操作したタスク（delete の場合は削除前の内容）
+export interface BulkTaskResult {
+  operation: BulkTaskOperationType
+  tasks: Task[]
+}
+
+// カテゴリを削除するときの所属タスクの扱い
+// move: 別のカテゴリ（target_category_id が null なら未分類）に移す / trash: カテゴリと一緒にゴミ箱に移す
+export interface CategoryDeleteOptions {
+  task_action: 'move' | 'trash'
+  target_category_id?: string | null
+}
+
+// ゴミ箱の中身（purge_at を過ぎると自動的に完全に削除される）
+export interface TrashedTask extends TaskWithCategory {
+  purge_at: string
+}
+
+export interface TrashedCategory extends Category {
+  purge_at: string
+  task_count: number
+}
+
+export interface TrashContents {
+  tasks: TrashedTask[]
+  categories: TrashedCategory[]
+  retention_days: number
+}
+
 // Recurrence pattern type
-export interface RecurrencePattern {
+// tasks.recurrence_pattern (JSONB) にそのまま保存できるよう type で定義する
+export type RecurrencePattern = {
   type: 'daily' | 'weekly' | 'monthly' | 'yearly'
   interval: number // every N days/weeks/months/years
   days_of_week?: number[] // for weekly: 0=Sunday, 1=Monday, etc.
   day_of_month?: number // for monthly
   end_date?: string
   occurrences?: number
+  // RFC 5545 の RRULE（"FREQ=MONTHLY;BYDAY=2TU" など）。指定した場合は上の項目より優先する
+  rrule?: string
+  // 除外する回（YYYY-MM-DD / 壁時計時刻の YYYY-MM-DDTHH:mm:ss / ISO 8601 の日時）
+  exdates?: string[]
 }
 
+// 繰り返しタスクの編集・削除の範囲
+// this: この回のみ / following: この回以降 / all: すべての回
+export type RecurrenceScope = 'this' | 'following' | 'all'
+
 // Time tracking
-export interface TimeEntry {
-  id: string
-  task_id: string
-  start_time: string
-  end_time?: string
-  duration_minutes?: number
-  description?: string
-  created_at: string
+export type TimeEntry = Database['public']['Tables']['time_entries']['Row']
+export type TimeEntryInsert = Database['public']['Tables']['time_entries']['Insert']
+export type TimeEntryUpdate = Database['public']['Tables']['time_entries']['Update']
+
+// 計測中のタイマー（対象タスクのタイトル付き）
+export interface RunningTimeEntry extends TimeEntry {
+  task: Pick<Task, 'id' | 'title'> | null
 }
 
+// タスクの変更履歴（DB のトリガーで記録される）
+export type TaskEvent = Database['public']['Tables']['task_events']['Row']
+export type TaskEventType = TaskEvent['event_type']
+
 // Task validation
 export const TASK_CONSTRAINTS = {
   TITLE_MAX_LENGTH: 500,
@@ -92,6 +230,33 @@ export const TASK_CONSTRAINTS = {
   NOTES_MAX_LENGTH: 2000,
   TAGS_MAX_COUNT: 10,
   TAG_MAX_LENGTH: 50,
+  RRULE_MAX_LENGTH: 500,
+  EXDATES_MAX_COUNT: 500,
+  TIME_ENTRY_DESCRIPTION_MAX_LENGTH: 500,
+  // 最上位のタスクを 1 とした階層の深さ（DB のトリガーと同じ値）
+  SUBTASK_MAX_DEPTH: 3,
+  CHECKLIST_MAX_ITEMS: 100,
+  CHECKLIST_ITEM_MAX_LENGTH: 200,
+} as const
+
+export const TASK_PAGINATION = {
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 200,
+} as const
+
+export const TASK_SEARCH_PAGINATION = {
+  DEFAULT_LIMIT: 20,
+  MAX_LIMIT: 50,
+} as const
+
+export const TASK_HISTORY_PAGINATION = {
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 500,
+} as const
+
+export const TASK_BULK_CONSTRAINTS = {
+  MAX_TASKS: 200,
+  MAX_SHIFT_DAYS: 365,
 } as const
 
 export const CATEGORY_CONSTRAINTS = {
@@ -170,6 +335,17 @@ export const DEFAULT_CATEGORY_COLORS = [
 ] as const
 
 // Utility functions for task operations
+
+// タスクをゴミ箱に移すときの更新内容
+// カレンダーイベントは呼び出し側で削除するため連携情報も外す（復元したタスクは次の同期で作り直す）
+export const buildTaskTrashUpdate = (): TaskUpdate => ({
+  deleted_at: new Date().toISOString(),
+  google_calendar_event_id: null,
+  google_calendar_etag: null,
+  google_calendar_sync_hash: null,
+  google_calendar_synced_at: null,
+})
+
 export const isTaskOverdue = (task: Task): boolean => {
   if (!task.due_date || task.status === 'completed' || task.status === 'cancelled') {
     return false
@@ -177,6 +353,17 @@ export const isTaskOverdue = (task: Task): boolean => {
   return new Date(task.due_date) < new Date()
 }
 
+// 完了・キャンセルしていないサブタスクがあるか
+export const hasOpenSubtasks = (task: TaskWithCategory): boolean => {
+  if (!task.rollup) return false
+  return task.rollup.completed_subtask_count < task.rollup.subtask_count
+}
+
+// 完了・キャンセルしていない先行タスクがあるか
+export const isTaskBlocked = (task: TaskWithCategory): boolean => {
+  return (task.blocked_by?.length ?? 0) > 0
+}
+
 export const getTaskCompletionRate = (tasks: Task[]): number => {
   if (tasks.length === 0) return 0
   const completedTasks = tasks.filter(task => task.status === 'completed').length
@@ -190,4 +377,12 @@ export const formatDuration = (minutes: number): string => {
   const hours = Math.floor(minutes / 60)
   const remainingMinutes = minutes % 60
   return remainingMinutes > 0 ? `${hours}時間${remainingMinutes}分` : `${hours}時間`
+}
+
+// タイマーの経過時間（H:MM:SS）
+export const formatElapsedTime = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const remainingSeconds = seconds % 60
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(remainingSeconds).padStart(2, '0')}`
 }
\ No newline at end of file